@@ -3,14 +3,21 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import AvatarPicker from "@/components/AvatarPicker";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/hooks/useProfile";
+import { createRoom, updateProfileAvatar } from "@/lib/rtdb-actions";
 import { LOCAL_STORAGE_AVATAR_KEY, getRandomAvatar } from "@/shared/constants";
+import { ROOM_CODE_LENGTH, normalizeRoomCode } from "@/shared/room-code";
 
 export default function Home() {
   const [playerName, setPlayerName] = useState("");
   const [roomCode, setRoomCode] = useState("");
   const [avatar, setAvatar] = useState("");
   const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
   const router = useRouter();
+  const { uid } = useAuth();
+  const { profile } = useProfile(uid);
 
   // Initialize avatar from localStorage or random on mount
   useEffect(() => {
@@ -18,22 +25,43 @@ export default function Home() {
     setAvatar(stored || getRandomAvatar());
   }, []);
 
+  // A signed-in player's profile brings their name and avatar to this device
+  useEffect(() => {
+    if (profile?.name) setPlayerName((name) => name || profile.name || "");
+    if (profile?.avatar) {
+      setAvatar(profile.avatar);
+      localStorage.setItem(LOCAL_STORAGE_AVATAR_KEY, profile.avatar);
+    }
+  }, [profile?.name, profile?.avatar]);
+
   const handleAvatarSelect = (newAvatar: string) => {
     setAvatar(newAvatar);
     localStorage.setItem(LOCAL_STORAGE_AVATAR_KEY, newAvatar);
+    // Keep the profile in step, or it would bring the old avatar back
+    if (uid && profile) {
+      updateProfileAvatar(uid, newAvatar).catch((err) => console.error("[Home] Failed to save avatar:", err));
+    }
   };
 
-  const handleCreateRoom = () => {
-    if (!playerName.trim()) return;
-    const code = Math.random().toString(36).substring(2, 8).toUpperCase();
-    // Use full page navigation for static export compatibility
-    window.location.href = `/room/${code}?name=${encodeURIComponent(playerName)}&create=true`;
+  const handleCreateRoom = async () => {
+    if (!playerName.trim() || !uid) return;
+    setIsCreating(true);
+    setCreateError(null);
+    try {
+      // Claim a free code first, so the room page joins our own room
+      const code = await createRoom(uid);
+      // Use full page navigation for static export compatibility
+      window.location.href = `/room/${code}?name=${encodeURIComponent(playerName)}`;
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : "Couldn't create a room");
+      setIsCreating(false);
+    }
   };
 
   const handleJoinRoom = () => {
     if (!playerName.trim() || !roomCode.trim()) return;
     // Use full page navigation for static export compatibility
-    window.location.href = `/room/${roomCode.toUpperCase()}?name=${encodeURIComponent(playerName)}`;
+    window.location.href = `/room/${normalizeRoomCode(roomCode)}?name=${encodeURIComponent(playerName)}`;
   };
 
   return (
@@ -73,12 +101,17 @@ export default function Home() {
           <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
             <button
               onClick={handleCreateRoom}
-              disabled={!playerName.trim() || isCreating}
+              disabled={!playerName.trim() || !uid || isCreating}
               data-testid="home-create-btn"
               className="w-full bg-linear-to-r from-blue-600 to-indigo-600 text-white py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
             >
-              Create New Room
+              {isCreating ? "Creating..." : "Create New Room"}
             </button>
+            {createError && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400" data-testid="home-create-error">
+                {createError}
+              </p>
+            )}
           </div>
 
           <div className="relative">
@@ -99,10 +132,9 @@ export default function Home() {
               data-testid="home-code-input"
               type="text"
               value={roomCode}
-              onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+              onChange={(e) => setRoomCode(normalizeRoomCode(e.target.value).slice(0, ROOM_CODE_LENGTH))}
               placeholder="Enter room code"
               className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white uppercase"
-              maxLength={6}
               onKeyDown={(e) => {
                 if (e.key === "Enter" && playerName.trim() && roomCode.trim()) {
                   handleJoinRoom();
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import AvatarPicker from "@/components/AvatarPicker";
+import StatCard from "@/components/StatCard";
+import AccountPanel from "@/components/AccountPanel";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/hooks/useProfile";
+import { updateProfileAvatar } from "@/lib/rtdb-actions";
+import { clueEfficiency, emptyProfile } from "@/shared/profiles";
+import { LOCAL_STORAGE_AVATAR_KEY, getRandomAvatar } from "@/shared/constants";
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—";
+}
+
+export default function ProfilePage() {
+  const { uid, isLoading: authLoading } = useAuth();
+  const { profile, isLoading } = useProfile(uid);
+  const [avatar, setAvatar] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // The profile's avatar wins over this device's last pick, so it follows a signed-in player
+  useEffect(() => {
+    if (profile?.avatar) localStorage.setItem(LOCAL_STORAGE_AVATAR_KEY, profile.avatar);
+    setAvatar(profile?.avatar || localStorage.getItem(LOCAL_STORAGE_AVATAR_KEY) || getRandomAvatar());
+  }, [profile?.avatar]);
+
+  const handleAvatarSelect = (newAvatar: string) => {
+    setAvatar(newAvatar);
+    localStorage.setItem(LOCAL_STORAGE_AVATAR_KEY, newAvatar);
+    if (!uid) return;
+    updateProfileAvatar(uid, newAvatar).catch((e: Error) => setError(e.message));
+  };
+
+  // Picking an avatar before the first game leaves a profile with no stats yet
+  const stats = { ...emptyProfile(), ...profile };
+  const efficiency = clueEfficiency(stats);
+  const guesses = stats.correctGuesses + stats.wrongGuesses + stats.trapHits;
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-linear-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-lg w-full bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8" data-testid="profile-page">
+        <div className="flex items-center gap-3 mb-6">
+          <AvatarPicker selected={avatar} onSelect={handleAvatarSelect} />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {profile?.name ?? "Your Profile"}
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Lifetime stats on this account</p>
+          </div>
+        </div>
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="mb-4">
+          <AccountPanel />
+        </div>
+
+        {authLoading || isLoading ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : stats.gamesPlayed === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400" data-testid="profile-empty">
+            Finish a game to start your stats.
+          </p>
+        ) : (
+          <div className="space-y-4" data-testid="profile-stats">
+            <div className="grid grid-cols-2 gap-4">
+              <StatCard value={stats.gamesPlayed} label="Games Played" />
+              <StatCard value={`${stats.wins} (${percent(stats.wins, stats.gamesPlayed)})`} label="Wins" />
+              <StatCard
+                value={`${stats.roleWins.clueGiver}/${stats.roleGames.clueGiver}`}
+                label="Wins as Clue Giver"
+              />
+              <StatCard
+                value={`${stats.roleWins.guesser}/${stats.roleGames.guesser}`}
+                label="Wins as Guesser"
+              />
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+              <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-3">Guessing</h4>
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-green-600 dark:text-green-400 font-semibold">✓ {stats.correctGuesses}</span>
+                <span className="text-red-600 dark:text-red-400">✗ {stats.wrongGuesses}</span>
+                <span className="text-xs bg-gray-800 text-white px-1.5 py-0.5 rounded" title="Trap hits">
+                  💀 {stats.trapHits}
+                </span>
+                <span className="ml-auto text-gray-700 dark:text-gray-300">
+                  {percent(stats.correctGuesses, guesses)} correct
+                </span>
+              </div>
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+              <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-3">Clue Giving</h4>
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-gray-700 dark:text-gray-300">{stats.cluesGiven} clues</span>
+                <span className="text-green-600 dark:text-green-400 font-semibold">✓ {stats.clueCardsGained}</span>
+                <span className="ml-auto text-gray-700 dark:text-gray-300" title="Own cards found per clue">
+                  {efficiency === null ? "—" : `${efficiency.toFixed(1)} per clue`}
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <Link
+          href="/"
+          className="mt-6 block w-full text-center bg-gray-600 text-white py-3 rounded-lg font-semibold hover:bg-gray-700 transition-all shadow-md hover:shadow-lg"
+        >
+          Back to Home
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -12,6 +12,8 @@ import { useTimerSound } from "@/hooks/useTimerSound";
 import { useRoomDerivedState } from "@/hooks/useRoomDerivedState";
 import { useSoundContextOptional, type MusicTrack } from "@/contexts/SoundContext";
 import { LOCAL_STORAGE_AVATAR_KEY, getRandomAvatar } from "@/shared/constants";
+import { teamsInPlay } from "@/shared/teams";
+import { isRoomAccessError } from "@/shared/room-access";
 import {
   RoomHeader,
   RoomClosedModal,
@@ -19,6 +21,7 @@ import {
   ConnectionStatus,
   GameView,
   LobbyView,
+  SpectatorView,
   IdleWarningModal,
 } from "@/components/room";
 import OfflineBanner from "@/components/OfflineBanner";
@@ -34,7 +37,9 @@ export default function RoomPage() {
   
   // Extract room code from pathname: /room/ABC123 -> ABC123
   const roomCode = pathname?.split("/room/")[1]?.split("/")[0] || "";
-  const playerName = searchParams.get("name") || "";
+  // ?spectate=1 joins to watch; spectators needn't pick a name
+  const spectate = searchParams.get("spectate") === "1";
+  const playerName = searchParams.get("name") || (spectate ? "Spectator" : "");
 
   // Get avatar from localStorage (or random default)
   const [playerAvatar, setPlayerAvatar] = useState<string | null>(null);
@@ -49,8 +54,11 @@ export default function RoomPage() {
     }
   }, []);
 
+  // Entered on the join form when the room turns out to need one; kept in memory only
+  const [roomPassword, setRoomPassword] = useState<string | undefined>(undefined);
+
   // Custom hooks - only join room once avatar is loaded to prevent re-join race condition
-  const room = useRtdbRoom(roomCode, playerName, playerAvatar || "");
+  const room = useRtdbRoom(roomCode, playerName, playerAvatar || "", roomPassword, spectate);
   const derived = useRoomDerivedState(room.gameState, room.currentPlayer, room.players);
   const firebaseConnection = useFirebaseConnection();
 
@@ -61,6 +69,7 @@ export default function RoomPage() {
     if (firebaseConnection !== "connected") return false;
     if (room.currentPlayer?.connected === false) return false;
     if (!room.currentPlayer?.id) return false;
+    if (room.currentPlayer.spectating) return false;
 
     // If I'm the owner, I trigger
     if (derived.isRoomOwner) return true;
@@ -72,7 +81,7 @@ export default function RoomPage() {
 
     // Owner is disconnected - am I the first connected player by ID?
     const connectedPlayerIds = room.players
-      .filter((p) => p.connected !== false)
+      .filter((p) => p.connected !== false && !p.spectating)
       .map((p) => p.id)
       .sort();
     return connectedPlayerIds[0] === room.currentPlayer.id;
@@ -80,17 +89,21 @@ export default function RoomPage() {
     firebaseConnection,
     room.currentPlayer?.connected,
     room.currentPlayer?.id,
+    room.currentPlayer?.spectating,
     room.players,
     room.gameState?.ownerId,
     derived.isRoomOwner,
   ]);
 
-  const timer = useGameTimer(room.gameState, room.handleEndTurn, { shouldTriggerTimeout });
+  const isSpectating = room.currentPlayer?.spectating ?? false;
+
+  const timer = useGameTimer(room.gameState, room.handleTurnTimeout, { shouldTriggerTimeout });
   const overlays = useTransitionOverlays(room.gameState);
   
   // Timer tick sounds
   useTimerSound({
     timeRemaining: timer.timeRemaining,
+    activeClock: timer.activeClock,
     isPaused: room.gameState?.paused,
     isGameOver: room.gameState?.gameOver,
   });
@@ -187,6 +200,23 @@ export default function RoomPage() {
     );
   }
 
+  // Locked or password-protected room: explain why, and ask for the password
+  if (isRoomAccessError(room.connectionError)) {
+    return (
+      <JoinRoomForm
+        roomCode={roomCode}
+        initialName={playerName}
+        accessError={room.connectionError}
+        onJoin={(name, avatar, password) => {
+          localStorage.setItem(LOCAL_STORAGE_AVATAR_KEY, avatar);
+          setPlayerAvatar(avatar);
+          setRoomPassword(password);
+          if (name !== playerName) router.replace(`/room/${roomCode}?name=${encodeURIComponent(name)}${spectate ? "&spectate=1" : ""}`);
+        }}
+      />
+    );
+  }
+
   if (!room.gameState) {
     return (
       <ConnectionStatus
@@ -198,22 +228,22 @@ export default function RoomPage() {
 
   return (
     <main className="min-h-screen bg-linear-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
-      {/* Transition Overlays */}
-      {overlays.showGameStart && (
+      {/* Transition Overlays (not for spectators, whose view may be running behind) */}
+      {!isSpectating && overlays.showGameStart && (
         <TransitionOverlay
           type="gameStart"
           team={overlays.transitionTeam}
           onComplete={overlays.dismissGameStart}
         />
       )}
-      {overlays.showTurnChange && (
+      {!isSpectating && overlays.showTurnChange && (
         <TransitionOverlay
           type="turnChange"
           team={overlays.transitionTeam}
           onComplete={overlays.dismissTurnChange}
         />
       )}
-      {overlays.showGameOver && (
+      {!isSpectating && overlays.showGameOver && (
         <TransitionOverlay
           type="gameOver"
           team={overlays.transitionTeam}
@@ -230,10 +260,29 @@ export default function RoomPage() {
       )}
       
       <div className="max-w-6xl mx-auto">
-        <RoomHeader roomCode={roomCode} currentPlayer={room.currentPlayer} isRoomOwner={derived.isRoomOwner} onLeaveRoom={handleLeaveRoom} />
+        <RoomHeader
+          roomCode={roomCode}
+          currentPlayer={room.currentPlayer}
+          isRoomOwner={derived.isRoomOwner}
+          onLeaveRoom={handleLeaveRoom}
+          series={room.gameState.series}
+          teams={teamsInPlay(room.gameState)}
+          onResetSeries={derived.isRoomOwner && (!room.gameState.gameStarted || room.gameState.gameOver) ? room.handleResetSeries : undefined}
+          locked={room.gameState.locked}
+          hasPassword={room.gameState.hasPassword}
+          onLockedChange={derived.isRoomOwner ? room.handleRoomLockedChange : undefined}
+          onPasswordChange={derived.isRoomOwner ? room.handleRoomPasswordChange : undefined}
+          players={room.players}
+          ownerId={room.gameState.ownerId}
+          mutedIds={room.gameState.mutedIds}
+          onRemovePlayer={derived.isRoomOwner ? room.handleRemovePlayer : undefined}
+          onMutedChange={derived.isRoomOwner ? room.handlePlayerMutedChange : undefined}
+        />
         <OfflineBanner />
 
-        {room.gameState.gameStarted ? (
+        {isSpectating ? (
+          <SpectatorView room={room} timer={timer} />
+        ) : room.gameState.gameStarted ? (
           <GameView 
             room={room} 
             derived={derived} 
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { sendSignInLink, isSignInLink, getPendingSignInEmail } from "@/lib/firebase-auth";
+
+type Step = "idle" | "sent" | "confirm" | "working";
+
+/**
+ * Email-link sign-in for the profile page.
+ * Linking keeps the anonymous uid, so the profile and room seats carry over;
+ * signing in on another device with the same email picks them up there.
+ */
+export default function AccountPanel() {
+  const { isAnonymous, email: linkedEmail, isLoading, completeEmailSignIn, signOut } = useAuth();
+  const [email, setEmail] = useState("");
+  const [step, setStep] = useState<Step>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const finish = useCallback(async (address: string, url: string) => {
+    setStep("working");
+    setError(null);
+    try {
+      await completeEmailSignIn(address, url);
+      // Drop the one-time code from the address bar
+      window.history.replaceState(null, "", window.location.pathname);
+      setStep("idle");
+    } catch (e) {
+      setError((e as Error).message);
+      setStep("confirm");
+    }
+  }, [completeEmailSignIn]);
+
+  // Finish the sign-in when this page was opened from the emailed link
+  useEffect(() => {
+    if (isLoading) return;
+    const url = window.location.href;
+    if (!isSignInLink(url)) return;
+
+    const pendingEmail = getPendingSignInEmail();
+    if (pendingEmail) {
+      finish(pendingEmail, url);
+    } else {
+      // Opened on another device - ask which address the link went to
+      setStep("confirm");
+    }
+  }, [isLoading, finish]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+    if (step === "confirm") {
+      finish(address, window.location.href);
+      return;
+    }
+    setStep("working");
+    setError(null);
+    try {
+      await sendSignInLink(address);
+      setStep("sent");
+    } catch (err) {
+      setError((err as Error).message);
+      setStep("idle");
+    }
+  };
+
+  if (!isAnonymous) {
+    return (
+      <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 flex items-center justify-between gap-3" data-testid="account-linked">
+        <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+          Signed in as <span className="font-medium">{linkedEmail}</span>
+        </span>
+        <button
+          onClick={() => signOut().catch((e: Error) => setError(e.message))}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          data-testid="account-sign-out"
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 space-y-2" data-testid="account-panel">
+      <h4 className="font-semibold text-gray-800 dark:text-gray-200">
+        {step === "confirm" ? "Confirm your email" : "Keep your stats"}
+      </h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {step === "sent"
+          ? "Check your inbox and open the link on any device to sign in there."
+          : step === "confirm"
+            ? "Enter the address the sign-in link was sent to."
+            : "You're playing as a guest. Sign in by email to keep your profile when you switch devices."}
+      </p>
+      {step !== "sent" && (
+        <div className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            data-testid="account-email-input"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={!email.trim() || step === "working"}
+            data-testid="account-email-submit"
+            className="px-4 py-2 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {step === "confirm" ? "Sign in" : "Send link"}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  );
+}
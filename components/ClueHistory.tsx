@@ -1,13 +1,42 @@
 "use client";
 
-import type { ChatMessage } from "@/shared/types";
+import type { Card, ChatMessage, ClueRecord, ClueStatus, GameEvent, Team } from "@/shared/types";
+import { cluesFound, clueStatus, revealsByClue } from "@/shared/clues";
+import { isPlayingTeam } from "@/shared/teams";
+import { TEAM_COLORS } from "@/components/team-colors";
 
 interface ClueHistoryProps {
   clues: ChatMessage[];
+  records?: ClueRecord[]; // This game's clues, for solved/partial/unsolved marks
+  board?: Card[];
+  events?: GameEvent[]; // Reveals, to list the cards each clue produced
 }
 
-export default function ClueHistory({ clues }: ClueHistoryProps) {
+// Revealed card chip, in the color of the card's team
+function cardClass(team: Team): string {
+  if (isPlayingTeam(team)) return TEAM_COLORS[team].soft;
+  return team === "trap"
+    ? "bg-gray-900 text-white dark:bg-black"
+    : "bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200";
+}
+
+const STATUS_STYLES: Record<ClueStatus, { label: string; className: string }> = {
+  solved: { label: "Solved", className: "bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200" },
+  partial: { label: "Partly solved", className: "bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200" },
+  unsolved: { label: "Unsolved", className: "bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300" },
+};
+
+// Chat outlives a game, so only trust a clue id that matches this game's clue
+function recordFor(msg: ChatMessage, records: ClueRecord[]): ClueRecord | undefined {
+  const record = msg.clueId !== undefined ? records[msg.clueId] : undefined;
+  if (!record || record.givenBy !== msg.playerId) return undefined;
+  return msg.message.toUpperCase().startsWith(`${record.word} `) ? record : undefined;
+}
+
+export default function ClueHistory({ clues, records = [], board = [], events = [] }: ClueHistoryProps) {
   const clueMessages = clues.filter((msg) => msg.type === "clue");
+  const found = cluesFound(records, board);
+  const reveals = revealsByClue(events);
 
   return (
     <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 h-48 overflow-y-scroll scrollbar-thin">
@@ -16,17 +45,36 @@ export default function ClueHistory({ clues }: ClueHistoryProps) {
         {clueMessages.length === 0 ? (
           <p className="text-gray-500 dark:text-gray-400 text-sm">No clues yet</p>
         ) : (
-          clueMessages.map((msg) => (
-            <div key={msg.id} className="text-sm">
-              <span className="font-semibold text-blue-600 dark:text-blue-400">{msg.playerName}:</span>{" "}
-              <span className="text-blue-700 dark:text-blue-300 font-medium text-base">
-                {msg.message}
-              </span>
-              <span className="text-gray-400 text-xs ml-2">
-                {new Date(msg.timestamp).toLocaleTimeString()}
-              </span>
-            </div>
-          ))
+          clueMessages.map((msg) => {
+            const record = recordFor(msg, records);
+            const status = record ? STATUS_STYLES[clueStatus(record, found[msg.clueId as number])] : null;
+            const cards = record ? reveals[msg.clueId as number] ?? [] : [];
+            return (
+              <div key={msg.id} className="text-sm" data-testid="clue-history-item">
+                <span className="font-semibold text-blue-600 dark:text-blue-400">{msg.playerName}:</span>{" "}
+                <span className="text-blue-700 dark:text-blue-300 font-medium text-base">
+                  {msg.message}
+                </span>
+                {status && (
+                  <span className={`ml-2 text-xs font-semibold px-1.5 py-0.5 rounded ${status.className}`}>
+                    {status.label}
+                  </span>
+                )}
+                <span className="text-gray-400 text-xs ml-2">
+                  {new Date(msg.timestamp).toLocaleTimeString()}
+                </span>
+                {cards.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1" data-testid="clue-history-cards">
+                    {cards.map(({ cardIndex, cardTeam }) => (
+                      <span key={cardIndex} className={`text-xs font-medium px-1.5 py-0.5 rounded ${cardClass(cardTeam)}`}>
+                        {board[cardIndex]?.word ?? "?"}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
         )}
       </div>
     </div>
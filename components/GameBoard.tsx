@@ -1,9 +1,10 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback, useMemo, memo, KeyboardEvent } from "react";
-import type { Card, Player } from "@/shared/types";
+import type { Card, Player, Team } from "@/shared/types";
 import { MaskIcon, TrapIcon, DustCloudIcon } from "@/components/icons/CardBackIcons";
 import { useSoundContextOptional } from "@/contexts/SoundContext";
+import { boardColumns } from "@/shared/board-layout";
 
 interface GameBoardProps {
   board: Card[];
@@ -12,12 +13,20 @@ interface GameBoardProps {
   currentPlayerId: string | null;
   requiredVotes: number;
   canVote: boolean;
+  /** Duet: side whose clue is being guessed; cards already neutral for it can't be picked */
+  coveredFor?: Team;
+  /** Spectators get a bigger board, since they have no controls beside it */
+  size?: "normal" | "large";
   onVoteCard: (index: number) => void;
   onConfirmReveal: (index: number) => void;
 }
 
-const GRID_COLS = 5;
-const GRID_ROWS = 5;
+// Static class names so Tailwind keeps them; boards are 4x4, 5x5 or 6x6
+const GRID_COLS_CLASS: Record<number, string> = {
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+  6: "grid-cols-6",
+};
 
 export default function GameBoard({
   board,
@@ -26,10 +35,14 @@ export default function GameBoard({
   currentPlayerId,
   requiredVotes,
   canVote,
+  coveredFor,
+  size = "normal",
   onVoteCard,
   onConfirmReveal,
 }: GameBoardProps) {
   const isClueGiver = currentPlayer?.role === "clueGiver";
+  const gridCols = boardColumns(board.length);
+  const gridRows = Math.ceil(board.length / gridCols);
   const soundContext = useSoundContextOptional();
   
   // Track which cards are animating (for the flip effect)
@@ -56,18 +69,18 @@ export default function GameBoard({
       return;
     }
 
-    const row = Math.floor(focusedIndex / GRID_COLS);
-    const col = focusedIndex % GRID_COLS;
+    const row = Math.floor(focusedIndex / gridCols);
+    const col = focusedIndex % gridCols;
     let newIndex = focusedIndex;
 
     switch (e.key) {
       case "ArrowUp":
         e.preventDefault();
-        newIndex = row > 0 ? focusedIndex - GRID_COLS : focusedIndex;
+        newIndex = row > 0 ? focusedIndex - gridCols : focusedIndex;
         break;
       case "ArrowDown":
         e.preventDefault();
-        newIndex = row < GRID_ROWS - 1 ? focusedIndex + GRID_COLS : focusedIndex;
+        newIndex = row < gridRows - 1 ? focusedIndex + gridCols : focusedIndex;
         break;
       case "ArrowLeft":
         e.preventDefault();
@@ -75,15 +88,17 @@ export default function GameBoard({
         break;
       case "ArrowRight":
         e.preventDefault();
-        newIndex = col < GRID_COLS - 1 ? focusedIndex + 1 : focusedIndex;
+        newIndex = col < gridCols - 1 ? focusedIndex + 1 : focusedIndex;
         break;
       case "Enter":
-      case " ":
+      case " ": {
         e.preventDefault();
-        if (canVote && !board[focusedIndex]?.revealed) {
+        const card = board[focusedIndex];
+        if (canVote && card && !card.revealed && !(coveredFor && card.neutralFor === coveredFor)) {
           onVoteCard(focusedIndex);
         }
         break;
+      }
       default:
         return;
     }
@@ -92,7 +107,7 @@ export default function GameBoard({
       setFocusedIndex(newIndex);
       cardRefs.current[newIndex]?.focus();
     }
-  }, [focusedIndex, canVote, board, onVoteCard]);
+  }, [focusedIndex, canVote, coveredFor, board, onVoteCard, gridCols, gridRows]);
 
   // Detect newly revealed cards and trigger flip animation
   useEffect(() => {
@@ -165,7 +180,8 @@ export default function GameBoard({
 
   // Memoize card color function based on isClueGiver
   const getCardColor = useCallback((card: Card) => {
-    if (!card.revealed && !isClueGiver) {
+    // Unrevealed cards stay neutral-gray unless this player holds the key
+    if (!card.revealed && (!isClueGiver || !card.team)) {
       return "bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-100";
     }
 
@@ -175,6 +191,8 @@ export default function GameBoard({
           return "card-texture-red";
         case "blue":
           return "card-texture-blue";
+        case "green":
+          return "card-texture-green";
         case "trap":
           return "card-texture-trap";
         default:
@@ -188,6 +206,8 @@ export default function GameBoard({
         return "bg-red-100 dark:bg-red-900 border-2 border-red-500 text-red-900 dark:text-red-100";
       case "blue":
         return "bg-blue-100 dark:bg-blue-900 border-2 border-blue-500 text-blue-900 dark:text-blue-100";
+      case "green":
+        return "bg-green-100 dark:bg-green-900 border-2 border-green-500 text-green-900 dark:text-green-100";
       case "trap":
         return "bg-gray-800 border-2 border-gray-600 text-white";
       default:
@@ -202,6 +222,8 @@ export default function GameBoard({
         return "text-red-900/60";
       case "blue":
         return "text-blue-900/60";
+      case "green":
+        return "text-green-900/60";
       case "trap":
         return "text-gray-400/50";
       default:
@@ -215,6 +237,7 @@ export default function GameBoard({
     switch (card.team) {
       case "red":
       case "blue":
+      case "green":
         return <MaskIcon className={iconClass} />;
       case "trap":
         return <TrapIcon className={iconClass} />;
@@ -225,15 +248,16 @@ export default function GameBoard({
 
   return (
     <div 
-      className="grid grid-cols-5 gap-2 max-w-2xl mx-auto"
+      className={`grid ${GRID_COLS_CLASS[gridCols] ?? "grid-cols-5"} ${size === "large" ? "gap-3 max-w-5xl" : "gap-2 max-w-2xl"} mx-auto`}
       onKeyDown={handleKeyDown}
       role="grid"
       aria-label="Game board"
     >
       {board.map((card, index) => {
         const votes = cardVotes[index] ?? [];
+        const canVoteCard = canVote && !(coveredFor && card.neutralFor === coveredFor);
         const hasVoted = currentPlayerId ? votes.includes(currentPlayerId) : false;
-        const canConfirm = canVote && requiredVotes > 0 && votes.length >= requiredVotes && hasVoted;
+        const canConfirm = canVoteCard && requiredVotes > 0 && votes.length >= requiredVotes && hasVoted;
         const isAnimating = animatingCards.has(index);
         const isBadgeAnimating = animatingBadges.has(index);
         const isFocused = focusedIndex === index;
@@ -242,18 +266,18 @@ export default function GameBoard({
           <div key={index} className="relative" role="gridcell">
             <button
               ref={(el) => { cardRefs.current[index] = el; }}
-              onClick={() => !card.revealed && canVote && onVoteCard(index)}
+              onClick={() => !card.revealed && canVoteCard && onVoteCard(index)}
               onFocus={() => setFocusedIndex(index)}
               onBlur={() => setFocusedIndex(null)}
-              disabled={card.revealed || !canVote}
-              tabIndex={canVote && !card.revealed ? 0 : -1}
+              disabled={card.revealed || !canVoteCard}
+              tabIndex={canVoteCard && !card.revealed ? 0 : -1}
               data-testid={`board-card-${index}`}
               aria-label={`${card.revealed ? `Revealed: ${card.team}` : card.word}${hasVoted ? ", you voted" : ""}${votes.length > 0 ? `, ${votes.length} votes` : ""}`}
               className={`
-                aspect-square p-2 rounded-lg font-semibold text-sm w-full
+                aspect-square p-2 rounded-lg font-semibold w-full ${size === "large" ? "text-base md:text-xl" : "text-sm"}
                 transition-all duration-200
                 ${getCardColor(card)}
-                ${card.revealed || !canVote
+                ${card.revealed || !canVoteCard
                   ? "cursor-default"
                   : "cursor-pointer hover:scale-105 active:scale-95"
                 }
@@ -267,6 +291,17 @@ export default function GameBoard({
                 {card.revealed ? renderCardBackIcon(card) : card.word}
               </div>
             </button>
+            {card.neutralFor && !card.revealed && (
+              <div
+                className={`absolute bottom-1 left-1 text-white text-[10px] px-1.5 py-0.5 rounded font-semibold uppercase ${
+                  card.neutralFor === "red" ? "bg-red-team" : "bg-blue-team"
+                }`}
+                title={`Neutral on the ${card.neutralFor} key`}
+                aria-hidden="true"
+              >
+                Neutral
+              </div>
+            )}
             {votes.length > 0 && !card.revealed && (
               <div 
                 className={`absolute top-1 left-1 bg-blue-600 text-white text-xs px-2 py-0.5 rounded-full font-semibold ${isBadgeAnimating ? "badge-pop" : ""}`}
@@ -1,6 +1,10 @@
 "use client";
 
-import type { Card, Player, Team } from "@/shared/types";
+import type { Card, ClueRecord, GameEvent, Player, PlayingTeam, Team } from "@/shared/types";
+import { boardColumns } from "@/shared/board-layout";
+import { clueGiverStats } from "@/shared/clues";
+import { TEAM_COLORS, teamColors } from "@/components/team-colors";
+import StatCard from "@/components/StatCard";
 
 interface PlayerStats {
   player: Player;
@@ -11,11 +15,23 @@ interface PlayerStats {
 
 interface GameStatsProps {
   board: Card[];
+  cardCounts: Record<Team, number>;
   players: Player[];
   winner: Team | null;
+  teams?: PlayingTeam[]; // Teams in this game, in turn order
+  clues?: ClueRecord[];
+  events?: GameEvent[]; // Reveals, to attribute cards to clues
 }
 
-export default function GameStats({ board, players, winner }: GameStatsProps) {
+export default function GameStats({
+  board,
+  cardCounts,
+  players,
+  winner,
+  teams = ["red", "blue"],
+  clues = [],
+  events = [],
+}: GameStatsProps) {
   // Calculate stats for each guesser
   const playerStats: PlayerStats[] = players
     .filter((p) => p.role === "guesser")
@@ -45,14 +61,15 @@ export default function GameStats({ board, players, winner }: GameStatsProps) {
   // Get top 5 players (or all if less than 5)
   const topPlayers = playerStats.slice(0, 5);
 
-  // Calculate team stats
-  const redCards = board.filter((c) => c.team === "red");
-  const blueCards = board.filter((c) => c.team === "blue");
-  const redRevealed = redCards.filter((c) => c.revealed).length;
-  const blueRevealed = blueCards.filter((c) => c.revealed).length;
+  const giverStats = clueGiverStats(clues, events);
+  const playerById = new Map(players.map((p) => [p.id, p]));
+
+  // Team totals come from public counts - unrevealed cards may be hidden
+  const neutralRevealed = board.filter((c) => c.team === "neutral" && c.revealed).length;
 
   // Check if trap was hit
   const trapHit = board.some((c) => c.team === "trap" && c.revealed);
+  const gridSize = boardColumns(board.length);
 
   const getMedalEmoji = (index: number) => {
     switch (index) {
@@ -66,47 +83,38 @@ export default function GameStats({ board, players, winner }: GameStatsProps) {
   return (
     <div className="space-y-4">
       {/* Game Summary */}
-      <div className="grid grid-cols-2 gap-4">
-        <div className={`rounded-lg p-4 text-center ${
-          winner === "red" 
-            ? "bg-red-100 dark:bg-red-900/40 border-2 border-red-400" 
-            : "bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
-        }`}>
-          <div className="text-2xl font-bold text-red-700 dark:text-red-300">
-            {redRevealed}/{redCards.length}
-          </div>
-          <div className="text-sm text-red-600 dark:text-red-400">
-            Red Cards Revealed
-          </div>
-          {winner === "red" && (
-            <div className="mt-2 text-lg font-semibold text-red-700 dark:text-red-300">
-              🏆 Winner!
-            </div>
-          )}
-        </div>
-        <div className={`rounded-lg p-4 text-center ${
-          winner === "blue" 
-            ? "bg-blue-100 dark:bg-blue-900/40 border-2 border-blue-400" 
-            : "bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800"
-        }`}>
-          <div className="text-2xl font-bold text-blue-700 dark:text-blue-300">
-            {blueRevealed}/{blueCards.length}
-          </div>
-          <div className="text-sm text-blue-600 dark:text-blue-400">
-            Blue Cards Revealed
-          </div>
-          {winner === "blue" && (
-            <div className="mt-2 text-lg font-semibold text-blue-700 dark:text-blue-300">
-              🏆 Winner!
-            </div>
-          )}
-        </div>
+      <div className={`grid gap-4 ${teams.length === 3 ? "grid-cols-3" : "grid-cols-2"}`}>
+        {teams.map((team) => (
+          <StatCard
+            key={team}
+            testId={`game-stats-team-${team}`}
+            value={`${board.filter((c) => c.team === team && c.revealed).length}/${cardCounts[team] ?? 0}`}
+            label={`${team} Cards Revealed`}
+            className={winner === team ? `border-2 ${TEAM_COLORS[team].soft} ${TEAM_COLORS[team].border}` : `border ${TEAM_COLORS[team].panel}`}
+            textClassName={TEAM_COLORS[team].text}
+          >
+            {winner === team && (
+              <div className={`mt-2 text-lg font-semibold ${TEAM_COLORS[team].text}`}>
+                🏆 Winner!
+              </div>
+            )}
+          </StatCard>
+        ))}
+      </div>
+
+      {/* Board layout */}
+      <div data-testid="game-stats-layout" className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+        <span>{gridSize}×{gridSize} board</span>
+        <span>{neutralRevealed}/{cardCounts.neutral} neutral revealed</span>
+        <span>{cardCounts.trap === 0 ? "No traps" : `${cardCounts.trap} ${cardCounts.trap === 1 ? "trap" : "traps"}`}</span>
       </div>
 
       {/* Trap indicator */}
       {trapHit && (
         <div className="bg-gray-900 text-white rounded-lg p-3 text-center">
-          <span className="text-lg">💀</span> Trap card was revealed - instant loss!
+          <span className="text-lg">💀</span> {teams.length > 2
+            ? "Trap card was revealed - that team was knocked out!"
+            : "Trap card was revealed - instant loss!"}
         </div>
       )}
 
@@ -120,19 +128,11 @@ export default function GameStats({ board, players, winner }: GameStatsProps) {
             {topPlayers.map((stat, index) => (
               <div
                 key={stat.player.id}
-                className={`flex items-center justify-between p-2 rounded-lg ${
-                  stat.player.team === "red"
-                    ? "bg-red-50 dark:bg-red-900/20"
-                    : "bg-blue-50 dark:bg-blue-900/20"
-                }`}
+                className={`flex items-center justify-between p-2 rounded-lg ${teamColors(stat.player.team).panel}`}
               >
                 <div className="flex items-center gap-2">
                   <span className="text-lg w-8">{getMedalEmoji(index)}</span>
-                  <span className={`font-medium ${
-                    stat.player.team === "red" 
-                      ? "text-red-800 dark:text-red-200" 
-                      : "text-blue-800 dark:text-blue-200"
-                  }`}>
+                  <span className={`font-medium ${teamColors(stat.player.team).text}`}>
                     {stat.player.name}
                   </span>
                   {stat.trapHit && (
@@ -161,6 +161,46 @@ export default function GameStats({ board, players, winner }: GameStatsProps) {
           )}
         </div>
       )}
+
+      {/* Clue givers: cards their clues produced */}
+      {giverStats.length > 0 && (
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4" data-testid="game-stats-clue-givers">
+          <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-3">
+            Clue Givers
+          </h4>
+          <div className="space-y-2">
+            {giverStats.map((stat) => {
+              const player = playerById.get(stat.playerId);
+              return (
+                <div
+                  key={stat.playerId}
+                  className={`flex items-center justify-between p-2 rounded-lg ${teamColors(player?.team).panel}`}
+                >
+                  <span className={`font-medium ${teamColors(player?.team).text}`}>
+                    {player?.name ?? "Former player"}
+                  </span>
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-700 dark:text-gray-300" title="Own cards found per clue">
+                      {(stat.cardsGained / stat.clues).toFixed(1)} per clue
+                    </span>
+                    <span className="text-green-600 dark:text-green-400 font-semibold" title={`${stat.clues} clues`}>
+                      ✓ {stat.cardsGained}
+                    </span>
+                    {stat.misses > 0 && (
+                      <span className="text-red-600 dark:text-red-400">✗ {stat.misses}</span>
+                    )}
+                    {stat.trapHits > 0 && (
+                      <span className="text-xs bg-gray-800 text-white px-1.5 py-0.5 rounded" title="Trap hits">
+                        💀 {stat.trapHits}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -170,6 +170,15 @@ export default function Navbar() {
 
           <div className="flex items-center gap-1">
             <ConnectionIndicator />
+            {!isInRoom && (
+              <Link
+                href="/profile"
+                data-testid="navbar-profile-link"
+                className="px-3 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                Profile
+              </Link>
+            )}
             <SoundToggle />
             <button
               onClick={cycleTheme}
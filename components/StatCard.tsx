@@ -0,0 +1,30 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+interface StatCardProps {
+  value: ReactNode;
+  label: string;
+  className?: string; // Border and background
+  textClassName?: string;
+  testId?: string;
+  children?: ReactNode; // Shown under the label
+}
+
+/** A big number with a label, as in the end-of-game team summary */
+export default function StatCard({
+  value,
+  label,
+  className = "border border-gray-200 dark:border-gray-700",
+  textClassName = "text-gray-800 dark:text-gray-200",
+  testId,
+  children,
+}: StatCardProps) {
+  return (
+    <div data-testid={testId} className={`rounded-lg p-4 text-center ${className}`}>
+      <div className={`text-2xl font-bold ${textClassName}`}>{value}</div>
+      <div className={`text-sm capitalize ${textClassName}`}>{label}</div>
+      {children}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
+import type { PlayingTeam } from "@/shared/types";
+import { TEAM_COLORS } from "@/components/team-colors";
 
 interface TransitionOverlayProps {
   type: "gameStart" | "turnChange" | "gameOver";
-  team?: "red" | "blue" | null;
+  team?: PlayingTeam | null;
   message?: string;
   onComplete?: () => void;
 }
@@ -43,17 +45,7 @@ export default function TransitionOverlay({
     };
   }, [type]);
 
-  const teamColor = team === "red" 
-    ? "from-red-600 to-red-700" 
-    : team === "blue" 
-      ? "from-blue-600 to-blue-700" 
-      : "from-gray-600 to-gray-700";
-
-  const teamBgLight = team === "red"
-    ? "bg-red-500/20"
-    : team === "blue"
-      ? "bg-blue-500/20"
-      : "bg-gray-500/20";
+  const teamColor = team ? TEAM_COLORS[team].gradient : "from-gray-600 to-gray-700";
 
   if (type === "gameStart") {
     return (
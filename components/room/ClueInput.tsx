@@ -1,48 +1,18 @@
 import { useState, useEffect, useRef, FormEvent } from "react";
 import type { GameState } from "@/shared/types";
 import { validateClueWord } from "@/shared/validation";
+import { checkClue } from "@/shared/clue-validation";
+import { formatClueCount, isUnlimitedClue, isValidClueCount } from "@/shared/game-utils";
+import { MAX_CLUE_COUNT, UNLIMITED_CLUE } from "@/shared/constants";
+
+// 0..MAX_CLUE_COUNT, then ∞
+const CLUE_COUNTS = [...Array.from({ length: MAX_CLUE_COUNT + 1 }, (_, i) => i), UNLIMITED_CLUE];
 
 interface ClueInputProps {
   gameState: GameState;
   onGiveClue: (word: string, count: number) => void;
 }
 
-function validateClue(word: string, gameState: GameState): string | null {
-  const normalized = word.toUpperCase();
-  const boardWords = gameState.board.map((c) => c.word.toUpperCase());
-  
-  // Exact match
-  if (boardWords.includes(normalized)) {
-    return `"${word}" is a word on the board`;
-  }
-  
-  // Substring check
-  for (const boardWord of boardWords) {
-    if (boardWord.includes(normalized)) {
-      return `"${word}" is contained in "${boardWord}"`;
-    }
-    if (normalized.includes(boardWord)) {
-      return `"${word}" contains the board word "${boardWord}"`;
-    }
-  }
-  
-  // Plural variants
-  const variants = [
-    normalized + "S",
-    normalized + "ES", 
-    normalized.endsWith("S") ? normalized.slice(0, -1) : null,
-    normalized.endsWith("ES") ? normalized.slice(0, -2) : null,
-  ].filter(Boolean) as string[];
-  
-  for (const variant of variants) {
-    if (boardWords.includes(variant)) {
-      return `"${word}" is too similar to "${variant}"`;
-    }
-  }
-  
-  return null;
-}
-
 export default function ClueInput({ gameState, onGiveClue }: ClueInputProps) {
   const [clueWord, setClueWord] = useState("");
   const [clueCount, setClueCount] = useState(1);
@@ -62,7 +32,7 @@ export default function ClueInput({ gameState, onGiveClue }: ClueInputProps) {
     e.preventDefault();
     
     const trimmed = clueWord.trim();
-    if (!trimmed || clueCount < 0) return;
+    if (!trimmed || !isValidClueCount(clueCount)) return;
     
     // Validate format and profanity
     const formatValidation = validateClueWord(trimmed);
@@ -71,10 +41,10 @@ export default function ClueInput({ gameState, onGiveClue }: ClueInputProps) {
       return;
     }
     
-    // Validate against board words
-    const boardValidationError = validateClue(trimmed, gameState);
-    if (boardValidationError) {
-      setClueError(boardValidationError);
+    // Validate against board words, with the same check the server runs
+    const boardCheck = checkClue(trimmed, gameState.board.map((c) => c.word), gameState.rules.clueStrictness);
+    if (!boardCheck.valid) {
+      setClueError(boardCheck.error || "Invalid clue word");
       return;
     }
     
@@ -117,15 +87,16 @@ export default function ClueInput({ gameState, onGiveClue }: ClueInputProps) {
           </div>
           <div className="w-20">
             <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Count</label>
-            <input
-              type="number"
-              min={0}
-              max={9}
+            <select
               value={clueCount}
               onChange={(e) => setClueCount(Number(e.target.value))}
               data-testid="game-clue-count"
               className="w-full px-3 py-2 border-2 border-amber-300 dark:border-amber-600 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 dark:bg-gray-700 dark:text-white"
-            />
+            >
+              {CLUE_COUNTS.map((count) => (
+                <option key={count} value={count}>{formatClueCount(count)}</option>
+              ))}
+            </select>
           </div>
           <div className="self-end">
             <button
@@ -138,6 +109,11 @@ export default function ClueInput({ gameState, onGiveClue }: ClueInputProps) {
             </button>
           </div>
         </div>
+        {isUnlimitedClue(clueCount) && (
+          <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+            Your team can keep guessing until they miss or end the turn.
+          </p>
+        )}
         {clueError && (
           <div className="mt-2 text-sm text-red-600 dark:text-red-400 flex items-center gap-2">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1,13 +1,23 @@
-import type { Player } from "@/shared/types";
+import type { Player, PlayingTeam } from "@/shared/types";
+import { TEAM_COLORS } from "@/components/team-colors";
 
 interface CompactTeamsProps {
   players: Player[];
+  teams?: PlayingTeam[]; // Teams in this game, in turn order
   currentPlayerId?: string | null;
   isRoomOwner?: boolean;
-  onAddSpectator?: (team: "red" | "blue", playerId: string) => void;
+  onAddSpectator?: (team: PlayingTeam, playerId: string) => void;
+  seriesWins?: Partial<Record<PlayingTeam, number>>; // Shown once the room has a series going
 }
 
-export default function CompactTeams({ players, currentPlayerId, isRoomOwner, onAddSpectator }: CompactTeamsProps) {
+export default function CompactTeams({
+  players,
+  teams = ["red", "blue"],
+  currentPlayerId,
+  isRoomOwner,
+  onAddSpectator,
+  seriesWins,
+}: CompactTeamsProps) {
   // Spectators are players without a team or role
   const spectators = players.filter((p) => !p.team || !p.role);
 
@@ -16,8 +26,8 @@ export default function CompactTeams({ players, currentPlayerId, isRoomOwner, on
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-base font-semibold text-gray-600 dark:text-gray-400">Teams</h3>
       </div>
-      <div className="grid grid-cols-2 gap-4">
-        {(["red", "blue"] as const).map((team) => {
+      <div className={`grid gap-4 ${teams.length === 3 ? "grid-cols-1 sm:grid-cols-3" : "grid-cols-2"}`}>
+        {teams.map((team) => {
           const clueGiver = players.find(
             (player) => player.team === team && player.role === "clueGiver"
           );
@@ -29,16 +39,15 @@ export default function CompactTeams({ players, currentPlayerId, isRoomOwner, on
           return (
             <div
               key={team}
-              className={`rounded-lg border p-3 ${
-                team === "red"
-                  ? "border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20"
-                  : "border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20"
-              }`}
+              className={`rounded-lg border p-3 ${TEAM_COLORS[team].panel}`}
             >
-              <div className={`text-sm font-bold uppercase mb-2 ${
-                team === "red" ? "text-red-700 dark:text-red-300" : "text-blue-700 dark:text-blue-300"
-              }`}>
-                {team} Team
+              <div className={`flex items-center justify-between text-sm font-bold uppercase mb-2 ${TEAM_COLORS[team].text}`}>
+                <span>{team} Team</span>
+                {seriesWins && (
+                  <span className="text-xs font-semibold normal-case" data-testid={`compact-series-wins-${team}`}>
+                    {seriesWins[team] ?? 0} {seriesWins[team] === 1 ? "win" : "wins"}
+                  </span>
+                )}
               </div>
               <div className="space-y-2">
                 <div className="flex items-center gap-2 text-sm">
@@ -116,27 +125,27 @@ export default function CompactTeams({ players, currentPlayerId, isRoomOwner, on
                       : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
                   } ${isOffline ? "opacity-60" : ""}`}
                 >
-                  <div className={`font-medium flex items-center gap-2 ${isRoomOwner && onAddSpectator ? "mb-2" : ""}`}>
+                  <div className={`font-medium flex items-center gap-2 ${isRoomOwner && onAddSpectator && !p.spectating ? "mb-2" : ""}`}>
                     <span className="text-lg">{p.avatar}</span>
                     <span>{p.name}{isMe ? " (you)" : ""}</span>
                     {isOffline && (
                       <span className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">offline</span>
                     )}
+                    {p.spectating && (
+                      <span className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">watching</span>
+                    )}
                   </div>
-                  {isRoomOwner && onAddSpectator && (
+                  {isRoomOwner && onAddSpectator && !p.spectating && (
                     <div className="flex gap-2">
-                      <button
-                        onClick={() => onAddSpectator("red", p.id)}
-                        className="px-2 py-1 rounded text-xs font-medium bg-red-500 text-white hover:bg-red-600 transition-colors"
-                      >
-                        Join Red
-                      </button>
-                      <button
-                        onClick={() => onAddSpectator("blue", p.id)}
-                        className="px-2 py-1 rounded text-xs font-medium bg-blue-500 text-white hover:bg-blue-600 transition-colors"
-                      >
-                        Join Blue
-                      </button>
+                      {teams.map((team) => (
+                        <button
+                          key={team}
+                          onClick={() => onAddSpectator(team, p.id)}
+                          className={`px-2 py-1 rounded text-xs font-medium capitalize hover:brightness-110 transition-colors ${TEAM_COLORS[team].solid}`}
+                        >
+                          Join {team}
+                        </button>
+                      ))}
                     </div>
                   )}
                 </div>
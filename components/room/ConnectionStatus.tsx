@@ -70,6 +70,7 @@ function LoadingSkeleton() {
 
 export default function ConnectionStatus({ isConnecting, connectionError }: ConnectionStatusProps) {
   const isNameTaken = connectionError === "Name already taken";
+  const isRoomNotFound = connectionError === "Room not found";
   
   const handleChooseDifferentName = () => {
     // Remove name param from URL to show the name form again
@@ -95,11 +96,13 @@ export default function ConnectionStatus({ isConnecting, connectionError }: Conn
               </svg>
             </div>
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
-              {isNameTaken ? "Name Already Taken" : "Connection Failed"}
+              {isNameTaken ? "Name Already Taken" : isRoomNotFound ? "Room Not Found" : "Connection Failed"}
             </h2>
             <p className="text-gray-600 dark:text-gray-400 mb-6">
               {isNameTaken 
                 ? "Someone in this room is already using that name. Please choose a different one."
+                : isRoomNotFound
+                ? "There's no room with this code. Check the code, or create a new room from the home page."
                 : connectionError
               }
             </p>
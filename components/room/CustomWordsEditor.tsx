@@ -0,0 +1,73 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { parseWordList } from "@/shared/words";
+import { validateWordList } from "@/shared/validation";
+
+interface CustomWordsEditorProps {
+  words: string[];
+  onSave: (words: string[]) => void;
+}
+
+/**
+ * Owner's editor for the room's custom word pack.
+ * Paste or upload a list (one word per line, or CSV); problems are shown live
+ * and the list is only saved once enough usable words remain.
+ */
+export default function CustomWordsEditor({ words, onSave }: CustomWordsEditorProps) {
+  const [text, setText] = useState(words.join("\n"));
+  const result = useMemo(() => validateWordList(parseWordList(text)), [text]);
+  const unchanged = result.words.join("\n") === words.join("\n");
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+    e.target.value = "";
+  };
+
+  const dropped = [
+    result.duplicates.length > 0 && `${result.duplicates.length} duplicate${result.duplicates.length === 1 ? "" : "s"}`,
+    result.tooLong.length > 0 && `${result.tooLong.length} too long`,
+    result.blocked.length > 0 && `${result.blocked.length} not allowed`,
+  ].filter(Boolean);
+
+  return (
+    <div data-testid="lobby-custom-words" className="mb-6 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h3 className="font-semibold">Custom words</h3>
+        <label className="text-sm font-semibold text-blue-600 dark:text-blue-400 cursor-pointer hover:underline">
+          Upload .txt / .csv
+          <input
+            type="file"
+            accept=".txt,.csv,text/plain,text/csv"
+            onChange={handleUpload}
+            data-testid="lobby-custom-words-upload"
+            className="hidden"
+          />
+        </label>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={6}
+        placeholder="One word per line, or comma-separated"
+        data-testid="lobby-custom-words-input"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm font-mono uppercase"
+      />
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+        <p className={`text-sm ${result.valid ? "text-gray-600 dark:text-gray-400" : "text-amber-600 dark:text-amber-400"}`}>
+          {result.valid ? `${result.words.length} words` : result.error}
+          {dropped.length > 0 && ` · dropped ${dropped.join(", ")}`}
+        </p>
+        <button
+          onClick={() => onSave(result.words)}
+          disabled={!result.valid || unchanged}
+          data-testid="lobby-custom-words-save-btn"
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm"
+        >
+          Save words
+        </button>
+      </div>
+    </div>
+  );
+}
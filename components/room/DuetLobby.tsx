@@ -0,0 +1,103 @@
+"use client";
+
+import type { LobbyTeam, Player } from "@/shared/types";
+import { DUET_SIDES, DUET_AGENT_COUNT } from "@/shared/duet";
+import { DUET_TURNS } from "@/shared/constants";
+
+interface DuetLobbyProps {
+  players: Player[];
+  currentPlayer: Player | null;
+  showControls: boolean;
+  canLeaveSeat: boolean; // Mid-game seats are the owner's to change
+  canRemovePlayer: (playerId?: string) => boolean;
+  onSetRole: (team: LobbyTeam, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
+}
+
+/**
+ * Duet seating: one player per side. Each side has its own key and the
+ * seats swap between giving clues and guessing every turn.
+ */
+export default function DuetLobby({ players, currentPlayer, showControls, canLeaveSeat, canRemovePlayer, onSetRole }: DuetLobbyProps) {
+  return (
+    <div data-testid="lobby-duet">
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+        Work together to find all {DUET_AGENT_COUNT} agents in {DUET_TURNS} turns. Each side sees its own key; take turns
+        giving clues from your key while your partner guesses. A trap on the clue giver&apos;s key loses the game.
+      </p>
+      <div className="grid md:grid-cols-2 gap-6">
+        {DUET_SIDES.map((side) => {
+          const seated = players.find((p) => p.team === side && p.role);
+          const isMe = Boolean(seated) && seated?.id === currentPlayer?.id;
+          const sideLabel = side === "red" ? "Red side" : "Blue side";
+
+          return (
+            <div
+              key={side}
+              className={`rounded-xl border-2 p-4 shadow-sm bg-white dark:bg-gray-900 ${
+                side === "red" ? "border-red-400" : "border-blue-400"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className={`text-lg font-semibold ${
+                  side === "red" ? "text-red-700 dark:text-red-300" : "text-blue-700 dark:text-blue-300"
+                }`}>
+                  {sideLabel.toUpperCase()}
+                </h3>
+                {showControls && !seated && (
+                  <button
+                    onClick={() => onSetRole(side, "clueGiver")}
+                    data-testid={`lobby-join-duet-${side}`}
+                    className={`px-3 py-1.5 rounded text-sm font-semibold text-white hover:brightness-110 ${
+                      side === "red" ? "bg-red-team" : "bg-blue-team"
+                    }`}
+                  >
+                    Sit here
+                  </button>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                Sees the {side} key • Clues on {side} turns, guesses on the others
+              </p>
+              <div className={`rounded-lg p-3 text-base border ${
+                isMe
+                  ? "bg-yellow-50 dark:bg-yellow-900/30 border-yellow-400 dark:border-yellow-600"
+                  : "bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700"
+              }`}>
+                {seated ? (
+                  <div className={`font-medium truncate flex items-center gap-2 ${
+                    isMe ? "text-yellow-700 dark:text-yellow-300" : ""
+                  } ${seated.connected === false ? "opacity-60" : ""}`}>
+                    <span className="text-xl">{seated.avatar}</span>
+                    <span>{seated.name}{isMe ? " (you)" : ""}</span>
+                    {seated.connected === false && (
+                      <span className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">offline</span>
+                    )}
+                    {canRemovePlayer(seated.id) && (
+                      <button
+                        type="button"
+                        onClick={() => onSetRole(null, null, seated.id)}
+                        className="ml-auto text-xs font-semibold uppercase tracking-wide text-red-600 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <span className="text-gray-500 dark:text-gray-400">Open</span>
+                )}
+              </div>
+              {isMe && showControls && canLeaveSeat && (
+                <button
+                  onClick={() => onSetRole(null, null)}
+                  className="mt-3 px-3 py-1.5 rounded text-sm font-semibold bg-gray-200 text-gray-700 hover:bg-gray-300"
+                >
+                  Leave Seat
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
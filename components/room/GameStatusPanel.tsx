@@ -1,14 +1,32 @@
 import { useState } from "react";
 import type { GameState, Player } from "@/shared/types";
 import GameStats from "@/components/GameStats";
+import { formatClueCount, getRemainingCards, isUnlimitedClue, teamsAreReady } from "@/shared/game-utils";
+import { duetAgentsLeft, DUET_RESULT_LABELS } from "@/shared/duet";
+import { teamsInPlay } from "@/shared/teams";
+import { outstandingCards } from "@/shared/clues";
+import { CLUE_CHALLENGE_WINDOW_MS } from "@/shared/constants";
+import { TEAM_COLORS, teamColors } from "@/components/team-colors";
+import type { ActiveClock } from "@/hooks/useGameTimer";
 import ClueInput from "./ClueInput";
 
+const CLOCK_LABELS: Record<ActiveClock, string> = { clue: "Clue", guess: "Guess", bank: "Bank" };
+
+// 83 -> "1:23"
+function formatClock(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
 interface GameStatusPanelProps {
   gameState: GameState;
   timeRemaining: number | null;
+  elapsed?: number | null; // Seconds into the turn, also counted in untimed rooms
+  activeClock?: ActiveClock | null;
+  bankRemaining?: number | null; // The current team's bank, when the room has one
   isMyTurn: boolean;
   isRoomOwner: boolean;
   canGiveClue: boolean;
+  canChallengeClue?: boolean;
   clueAnimating: boolean;
   players: Player[];
   showGameOverOverlay?: boolean;
@@ -16,15 +34,21 @@ interface GameStatusPanelProps {
   onEndGame: () => void;
   onResumeGame: () => void;
   onRematch?: () => void;
+  onNextSeedChange?: (seed: string | null) => void;
   onGiveClue: (word: string, count: number) => void;
+  onChallengeClue?: () => void;
 }
 
 export default function GameStatusPanel({
   gameState,
   timeRemaining,
+  elapsed = null,
+  activeClock = null,
+  bankRemaining = null,
   isMyTurn,
   isRoomOwner,
   canGiveClue,
+  canChallengeClue = false,
   clueAnimating,
   players,
   showGameOverOverlay = false,
@@ -32,24 +56,25 @@ export default function GameStatusPanel({
   onEndGame,
   onResumeGame,
   onRematch,
+  onNextSeedChange,
   onGiveClue,
+  onChallengeClue,
 }: GameStatusPanelProps) {
   const [showEndGameModal, setShowEndGameModal] = useState(false);
-  const turnHighlightClass = gameState.currentTeam === "red"
-    ? "border-red-400 bg-red-50/70 dark:bg-red-900/20"
-    : "border-blue-400 bg-blue-50/70 dark:bg-blue-900/20";
-  
-  const turnBannerClass = gameState.currentTeam === "red"
-    ? "bg-red-team text-white"
-    : "bg-blue-team text-white";
-
-  // Calculate remaining cards for each team
-  const redRemaining = gameState.board.filter(
-    (card) => card.team === "red" && !card.revealed
-  ).length;
-  const blueRemaining = gameState.board.filter(
-    (card) => card.team === "blue" && !card.revealed
-  ).length;
+  const [seedCopied, setSeedCopied] = useState(false);
+  const turnHighlightClass = teamColors(gameState.currentTeam).panel;
+  const turnBannerClass = teamColors(gameState.currentTeam).solid;
+  const isDuet = gameState.gameMode === "duet";
+  const teams = teamsInPlay(gameState);
+  // Duet turns and 0/∞ clues have no guess limit, just a guess count nobody can reach
+  const unlimitedGuesses = isDuet || (gameState.currentClue !== null && isUnlimitedClue(gameState.currentClue.count));
+  // Cards the team still owes on its earlier clues - what the extra guess is for
+  const outstanding = isDuet
+    ? 0
+    : outstandingCards(gameState.clues, gameState.board, gameState.currentTeam, gameState.currentClue?.id);
+  const currentClueRecord = gameState.currentClue?.id !== undefined ? gameState.clues[gameState.currentClue.id] : undefined;
+  // The clue restarts the turn clock, so the time spent so far is how long ago it was given
+  const challengeWindowOpen = elapsed !== null && elapsed * 1000 < CLUE_CHALLENGE_WINDOW_MS;
 
   return (
     <div className={`border-2 rounded-2xl shadow-xl overflow-hidden mb-4 ${turnHighlightClass}`}>
@@ -57,7 +82,7 @@ export default function GameStatusPanel({
       {!gameState.gameOver && (
         <div className={`px-4 py-2 flex items-center justify-center gap-2 ${turnBannerClass}`}>
           <span className="font-bold text-lg uppercase tracking-wide">
-            {gameState.currentTeam} Team's Turn
+            {isDuet ? `${gameState.currentTeam} side gives the clue` : `${gameState.currentTeam} Team's Turn`}
           </span>
           {!gameState.currentClue && (
             <span className="text-sm opacity-90">— Waiting for clue</span>
@@ -71,29 +96,55 @@ export default function GameStatusPanel({
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-4 flex-wrap">
           {/* Score display */}
+          {isDuet ? (
+            <div className="flex items-center gap-2" data-testid="duet-status">
+              <span className="px-3 py-1 rounded font-bold bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200">
+                Agents left: {duetAgentsLeft(gameState.board)}
+              </span>
+              <span className="px-3 py-1 rounded font-bold bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+                Turns left: {gameState.duetTurnsLeft ?? 0}
+              </span>
+            </div>
+          ) : (
           <div className="flex items-center gap-2">
-            <span className={`px-3 py-1 rounded font-bold ${
-              !gameState.gameOver && gameState.currentTeam === "red" 
-                ? "bg-red-team text-white" 
-                : "bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200"
-            }`}>
-              Red: {redRemaining}
-            </span>
-            <span className={`px-3 py-1 rounded font-bold ${
-              !gameState.gameOver && gameState.currentTeam === "blue" 
-                ? "bg-blue-team text-white" 
-                : "bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200"
-            }`}>
-              Blue: {blueRemaining}
-            </span>
+            {teams.map((team) => {
+              const eliminated = gameState.eliminatedTeams.includes(team);
+              return (
+                <span
+                  key={team}
+                  data-testid={`game-score-${team}`}
+                  title={eliminated ? `${team} hit a trap and is out` : undefined}
+                  className={`px-3 py-1 rounded font-bold capitalize ${
+                    !gameState.gameOver && gameState.currentTeam === team ? TEAM_COLORS[team].solid : TEAM_COLORS[team].soft
+                  } ${eliminated ? "line-through opacity-60" : ""}`}
+                >
+                  {team}: {getRemainingCards(gameState.board, gameState.cardCounts, team)}
+                </span>
+              );
+            })}
           </div>
+          )}
           {timeRemaining !== null && (
-            <div className={`
+            <div data-testid="game-timer" className={`
               text-lg font-mono flex items-center gap-2
               ${gameState.paused ? "text-amber-600 dark:text-amber-400" : ""}
               ${!gameState.paused && timeRemaining <= 10 && timeRemaining > 0 ? "timer-urgent text-red-600 font-bold" : ""}
             `}>
-              {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, "0")}
+              {activeClock && (
+                <span className={`text-xs font-sans font-semibold uppercase ${activeClock === "bank" ? "text-purple-600 dark:text-purple-400" : "text-gray-500 dark:text-gray-400"}`}>
+                  {CLOCK_LABELS[activeClock]}
+                </span>
+              )}
+              {formatClock(timeRemaining)}
+              {activeClock !== "bank" && bankRemaining !== null && (
+                <span
+                  data-testid="game-time-bank"
+                  title="Time left in this team's bank, used once the clock runs out"
+                  className="text-xs text-gray-500 dark:text-gray-400"
+                >
+                  +{formatClock(bankRemaining)} bank
+                </span>
+              )}
               {gameState.paused && (
                 <span className="text-xs font-semibold bg-amber-100 dark:bg-amber-900/50 px-2 py-0.5 rounded">
                   PAUSED
@@ -108,12 +159,35 @@ export default function GameStatusPanel({
             `}>
               <span className="text-xs font-medium text-amber-700 dark:text-amber-300 uppercase tracking-wide">Clue</span>
               <span className="font-bold text-xl text-amber-900 dark:text-amber-100">{gameState.currentClue.word}</span>
-              <span className="bg-amber-600 text-white text-sm font-bold px-2 py-0.5 rounded-full">{gameState.currentClue.count}</span>
-              {gameState.remainingGuesses !== null && (
+              <span className="bg-amber-600 text-white text-sm font-bold px-2 py-0.5 rounded-full" data-testid="game-clue-count-badge">
+                {formatClueCount(gameState.currentClue.count)}
+              </span>
+              {unlimitedGuesses ? (
+                <span className="text-sm text-amber-700 dark:text-amber-300 ml-2">Guess until you miss</span>
+              ) : gameState.remainingGuesses !== null && (
                 <span className="text-sm text-amber-700 dark:text-amber-300 ml-2">
                   {gameState.remainingGuesses} guess{gameState.remainingGuesses !== 1 ? 'es' : ''} left
                 </span>
               )}
+              {currentClueRecord?.challengedBy && (
+                <span
+                  data-testid="game-clue-challenged"
+                  title={`Challenged by ${players.find((p) => p.id === currentClueRecord.challengedBy)?.name ?? "another clue giver"}`}
+                  className="text-xs font-semibold px-2 py-0.5 rounded bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300"
+                >
+                  ⚑ Challenged
+                </span>
+              )}
+              {canChallengeClue && challengeWindowOpen && onChallengeClue && (
+                <button
+                  onClick={onChallengeClue}
+                  data-testid="game-challenge-btn"
+                  title={gameState.rules.clueChallenge === "voidTurn" ? "Flag this clue as against the rules - voids the turn" : "Flag this clue as against the rules"}
+                  className="text-xs font-semibold px-2 py-1 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
+                >
+                  ⚑ Challenge
+                </button>
+              )}
             </div>
           )}
           {gameState.remainingGuesses !== null && !gameState.currentClue && (
@@ -121,6 +195,15 @@ export default function GameStatusPanel({
               Guesses left: {gameState.remainingGuesses}
             </div>
           )}
+          {!gameState.gameOver && outstanding > 0 && (
+            <span
+              data-testid="game-outstanding"
+              title="Cards from this team's earlier clues that haven't been found yet"
+              className="text-sm font-medium px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+            >
+              {outstanding} outstanding from earlier clues
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {isMyTurn && (
@@ -132,6 +215,16 @@ export default function GameStatusPanel({
               End Turn
             </button>
           )}
+          {isDuet && canGiveClue && (
+            <button
+              onClick={onEndTurn}
+              data-testid="game-duet-pass-btn"
+              className="bg-gray-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-700 transition-all"
+              title="Skip giving a clue - uses up a turn"
+            >
+              Pass
+            </button>
+          )}
           {isRoomOwner && !gameState.gameOver && (
             <button
               onClick={() => setShowEndGameModal(true)}
@@ -151,7 +244,7 @@ export default function GameStatusPanel({
         // connected !== false treats undefined as connected (backwards compatible)
         const hasClueGiver = teamPlayers.some((p) => p.role === "clueGiver" && p.connected !== false);
         const hasGuesser = teamPlayers.some((p) => p.role === "guesser" && p.connected !== false);
-        const canResume = hasClueGiver && hasGuesser;
+        const canResume = isDuet ? teamsAreReady(players, "duet") : hasClueGiver && hasGuesser;
         
         return (
           <div className="bg-amber-100 dark:bg-amber-900/30 border-2 border-amber-400 dark:border-amber-600 rounded-lg p-4 text-center mb-4">
@@ -162,13 +255,16 @@ export default function GameStatusPanel({
               <span className="text-lg font-bold text-amber-800 dark:text-amber-200">Game Paused</span>
             </div>
             <p className="text-sm text-amber-700 dark:text-amber-300 mb-3">
-              {gameState.pauseReason === "teamDisconnected" && (
+              {isDuet && (
+                <>{gameState.pauseReason === "clueGiverDisconnected" ? "This turn's clue giver" : "This turn's guesser"} disconnected. Waiting for reconnection...</>
+              )}
+              {!isDuet && gameState.pauseReason === "teamDisconnected" && (
                 <>{gameState.pausedForTeam?.toUpperCase()} team has no connected players. Waiting for reconnection...</>
               )}
-              {gameState.pauseReason === "clueGiverDisconnected" && (
+              {!isDuet && gameState.pauseReason === "clueGiverDisconnected" && (
                 <>{gameState.pausedForTeam?.toUpperCase()} team clue giver disconnected. Waiting for reconnection...</>
               )}
-              {gameState.pauseReason === "noGuessers" && (
+              {!isDuet && gameState.pauseReason === "noGuessers" && (
                 <>{gameState.pausedForTeam?.toUpperCase()} team has no connected guessers. Waiting for reconnection...</>
               )}
             </p>
@@ -183,7 +279,9 @@ export default function GameStatusPanel({
                   </button>
                 ) : (
                   <p className="text-xs text-amber-600 dark:text-amber-400">
-                    Need a connected clue giver and at least one connected guesser to resume
+                    {isDuet
+                      ? "Both players need to be connected to resume"
+                      : "Need a connected clue giver and at least one connected guesser to resume"}
                   </p>
                 )}
               </div>
@@ -193,17 +291,9 @@ export default function GameStatusPanel({
       })()}
       
       {gameState.gameStarted && !gameState.gameOver && !gameState.paused && !gameState.currentClue && !canGiveClue && (
-        <div className={`rounded-lg p-3 text-center mb-4 border-2 ${
-          gameState.currentTeam === "red"
-            ? "bg-red-100 dark:bg-red-900/30 border-red-300 dark:border-red-700"
-            : "bg-blue-100 dark:bg-blue-900/30 border-blue-300 dark:border-blue-700"
-        }`}>
-          <p className={`text-sm font-medium ${
-            gameState.currentTeam === "red"
-              ? "text-red-800 dark:text-red-200"
-              : "text-blue-800 dark:text-blue-200"
-          }`}>
-            ⏳ Waiting for {gameState.currentTeam} team clue giver to give a clue...
+        <div className={`rounded-lg p-3 text-center mb-4 border-2 ${teamColors(gameState.currentTeam).panel}`}>
+          <p className={`text-sm font-medium ${teamColors(gameState.currentTeam).text}`}>
+            ⏳ Waiting for {gameState.currentTeam} {isDuet ? "side" : "team clue giver"} to give a clue...
           </p>
         </div>
       )}
@@ -211,15 +301,51 @@ export default function GameStatusPanel({
       {gameState.gameOver && !showGameOverOverlay && (
         <div data-testid="game-over-panel" className="bg-white dark:bg-gray-800 border-2 border-yellow-400 rounded-lg p-6">
           <h3 data-testid="game-winner-text" className="text-2xl font-bold text-center mb-6">
-            🎮 Game Over! {gameState.winner?.toUpperCase()} Team Wins!
+            {isDuet
+              ? `🎮 Game Over! ${gameState.duetResult ? DUET_RESULT_LABELS[gameState.duetResult] : ""}`
+              : `🎮 Game Over! ${gameState.winner?.toUpperCase()} Team Wins!`}
           </h3>
           
           {/* Game Stats */}
           <GameStats 
             board={gameState.board} 
+            cardCounts={gameState.cardCounts}
             players={players} 
             winner={gameState.winner}
+            teams={teams}
+            clues={gameState.clues}
+            events={gameState.events}
           />
+
+          {/* Board seed - replay this board or share it with another room */}
+          {gameState.seed && (
+            <div data-testid="game-seed" className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Board seed:</span>
+              <span className="font-mono font-semibold">{gameState.seed}</span>
+              <button
+                onClick={() => {
+                  navigator.clipboard?.writeText(gameState.seed ?? "").then(() => setSeedCopied(true)).catch(() => {});
+                }}
+                data-testid="game-seed-copy-btn"
+                className="px-2 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+              >
+                {seedCopied ? "Copied" : "Copy"}
+              </button>
+              {isRoomOwner && onNextSeedChange && (
+                gameState.nextSeed === gameState.seed ? (
+                  <span className="text-green-600 dark:text-green-400">✓ Rematch will use this board</span>
+                ) : (
+                  <button
+                    onClick={() => onNextSeedChange(gameState.seed)}
+                    data-testid="game-seed-reuse-btn"
+                    className="px-2 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+                  >
+                    Play this board again
+                  </button>
+                )
+              )}
+            </div>
+          )}
           
           {/* Action Buttons */}
           <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
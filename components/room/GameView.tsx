@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import GameBoard from "@/components/GameBoard";
 import ChatLog from "@/components/ChatLog";
 import ClueHistory from "@/components/ClueHistory";
@@ -7,15 +8,24 @@ import {
   GameStatusPanel,
   TeamLobby,
   CompactTeams,
+  ReplayViewer,
 } from "@/components/room";
+import { roleThisTurn } from "@/shared/duet";
+import { teamsInPlay } from "@/shared/teams";
+import { seriesScore } from "@/shared/series";
+import { teamColors } from "@/components/team-colors";
 import type { UseRtdbRoomReturn } from "@/hooks/useRtdbRoom";
 import type { UseRoomDerivedStateReturn } from "@/hooks/useRoomDerivedState";
+import type { ActiveClock } from "@/hooks/useGameTimer";
 
 interface GameViewProps {
   room: UseRtdbRoomReturn;
   derived: UseRoomDerivedStateReturn;
   timer: {
     timeRemaining: number | null;
+    elapsed: number | null;
+    activeClock: ActiveClock | null;
+    bankRemaining: number | null;
   };
   overlays: {
     clueAnimating: boolean;
@@ -29,18 +39,34 @@ interface GameViewProps {
  */
 export function GameView({ room, derived, timer, overlays }: GameViewProps) {
   const { gameState, players, currentPlayer, messages, chatInput, setChatInput, isSendingChat } = room;
-  const { isMyTurn, isRoomOwner, canVote, canGiveClue, requiredVotes, turnGlowClass } = derived;
+  const { isMyTurn, isRoomOwner, canVote, canGiveClue, canChallengeClue, requiredVotes, canChat, turnGlowClass } = derived;
+  const [showReplay, setShowReplay] = useState(false);
 
   if (!gameState) return null;
 
+  // Replay is only available once the game is over
+  const isReplaying = showReplay && gameState.gameOver;
+  const isDuet = gameState.gameMode === "duet";
+  const isMuted = !!currentPlayer && gameState.mutedIds.includes(currentPlayer.id);
+  const chatBlocked = isMuted || !canChat;
+  // Duet seats swap roles every turn, so label the role for this turn
+  const roleLabel = (role: string | null) => (role === "clueGiver" ? "Clue Giver" : "Guesser");
+  const myRoleLabel = currentPlayer?.team && isDuet
+    ? `${currentPlayer.team.toUpperCase()} side · ${roleLabel(roleThisTurn(currentPlayer, gameState.currentTeam, "duet"))} this turn`
+    : `${currentPlayer?.team?.toUpperCase()} ${roleLabel(currentPlayer?.role ?? null)}`;
+
   return (
     <>
       <GameStatusPanel
         gameState={gameState}
         timeRemaining={timer.timeRemaining}
+        elapsed={timer.elapsed}
+        activeClock={timer.activeClock}
+        bankRemaining={timer.bankRemaining}
         isMyTurn={isMyTurn}
         isRoomOwner={isRoomOwner}
         canGiveClue={canGiveClue}
+        canChallengeClue={canChallengeClue}
         clueAnimating={overlays.clueAnimating}
         players={players}
         showGameOverOverlay={overlays.showGameOver}
@@ -48,7 +74,9 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
         onEndGame={room.handleEndGame}
         onResumeGame={room.handleResumeGame}
         onRematch={room.handleRematch}
+        onNextSeedChange={room.handleNextSeedChange}
         onGiveClue={room.handleGiveClue}
+        onChallengeClue={room.handleChallengeClue}
       />
 
       {/* Game Over - Show Teams for Reassignment (above board) */}
@@ -63,7 +91,15 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
             onRandomize={room.handleRandomizeTeams}
             onStartGame={room.handleStartGame}
             onTurnDurationChange={room.handleTurnDurationChange}
+            onClueDurationChange={room.handleClueDurationChange}
+            onTimeBankChange={room.handleTimeBankChange}
             onWordPackChange={room.handleWordPackChange}
+            onCustomWordsChange={room.handleCustomWordsChange}
+            onBoardLayoutChange={room.handleBoardLayoutChange}
+            onGameModeChange={room.handleGameModeChange}
+            onTeamCountChange={room.handleTeamCountChange}
+            onRoomRulesChange={room.handleRoomRulesChange}
+            onNextSeedChange={room.handleNextSeedChange}
             showControls={true}
           />
         </div>
@@ -73,38 +109,51 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
       <div className="grid md:grid-cols-3 gap-4">
         <div className="md:col-span-2">
           <div className={`bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 ${turnGlowClass}`}>
-            <GameBoard
-              board={gameState.board}
-              currentPlayer={currentPlayer}
-              cardVotes={gameState.cardVotes}
-              currentPlayerId={currentPlayer?.id ?? null}
-              requiredVotes={requiredVotes}
-              canVote={canVote}
-              onVoteCard={room.handleVoteCard}
-              onConfirmReveal={room.handleConfirmReveal}
-            />
+            {isReplaying ? (
+              <ReplayViewer
+                board={gameState.board}
+                events={gameState.events}
+                players={players}
+                gameMode={gameState.gameMode}
+                onClose={() => setShowReplay(false)}
+              />
+            ) : (
+              <GameBoard
+                board={gameState.board}
+                currentPlayer={currentPlayer}
+                cardVotes={gameState.cardVotes}
+                currentPlayerId={currentPlayer?.id ?? null}
+                requiredVotes={requiredVotes}
+                canVote={canVote}
+                coveredFor={isDuet ? gameState.currentTeam : undefined}
+                onVoteCard={room.handleVoteCard}
+                onConfirmReveal={room.handleConfirmReveal}
+              />
+            )}
+
+            {gameState.gameOver && !isReplaying && gameState.events.length > 0 && (
+              <div className="mt-4 flex justify-center">
+                <button
+                  onClick={() => setShowReplay(true)}
+                  data-testid="replay-open-btn"
+                  className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+                >
+                  ▶ Watch Replay
+                </button>
+              </div>
+            )}
             
             {/* Player/Team indicator below board - only show if player has team */}
             {currentPlayer?.team && currentPlayer?.role && (
               <div className="mt-4 flex justify-center">
-                <div className={`inline-flex items-center gap-3 px-5 py-3 rounded-xl border-2 shadow-sm ${
-                  currentPlayer.team === "red" 
-                    ? "bg-red-50 dark:bg-red-900/30 border-red-400 dark:border-red-600" 
-                    : "bg-blue-50 dark:bg-blue-900/30 border-blue-400 dark:border-blue-600"
-                }`}>
-                  <span className={`text-xs font-medium uppercase tracking-wide ${
-                    currentPlayer.team === "red" ? "text-red-500 dark:text-red-400" : "text-blue-500 dark:text-blue-400"
-                  }`}>
+                <div className={`inline-flex items-center gap-3 px-5 py-3 rounded-xl border-2 shadow-sm ${teamColors(currentPlayer.team).panel}`}>
+                  <span className={`text-xs font-medium uppercase tracking-wide opacity-80 ${teamColors(currentPlayer.team).text}`}>
                     You are
                   </span>
-                  <span className={`font-bold text-lg ${
-                    currentPlayer.team === "red" ? "text-red-700 dark:text-red-200" : "text-blue-700 dark:text-blue-200"
-                  }`}>
-                    {currentPlayer.team.toUpperCase()} {currentPlayer.role === "clueGiver" ? "Clue Giver" : "Guesser"}
+                  <span className={`font-bold text-lg ${teamColors(currentPlayer.team).text}`}>
+                    {myRoleLabel}
                   </span>
-                  <span className={`text-sm ${
-                    currentPlayer.team === "red" ? "text-red-600 dark:text-red-300" : "text-blue-600 dark:text-blue-300"
-                  }`}>
+                  <span className={`text-sm ${teamColors(currentPlayer.team).text}`}>
                     ({currentPlayer.name})
                   </span>
                 </div>
@@ -115,7 +164,7 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
 
         <div className="space-y-4">
           <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
-            <ClueHistory clues={messages} />
+            <ClueHistory clues={messages} records={gameState.clues} board={gameState.board} events={gameState.events} />
           </div>
           <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
             <ChatLog messages={messages} players={players} />
@@ -125,13 +174,13 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
                   type="text"
                   value={chatInput}
                   onChange={(e) => setChatInput(e.target.value)}
-                  placeholder="Type message..."
-                  disabled={isSendingChat}
+                  placeholder={isMuted ? "The room owner has muted you" : !canChat ? "Clue givers can't chat during the game" : "Type message..."}
+                  disabled={isSendingChat || chatBlocked}
                   className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white disabled:opacity-50"
                 />
                 <button
                   type="submit"
-                  disabled={!chatInput.trim() || isSendingChat}
+                  disabled={!chatInput.trim() || isSendingChat || chatBlocked}
                   className="bg-blue-600 text-white px-3 py-2 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shrink-0 flex items-center justify-center"
                 >
                   {isSendingChat ? (
@@ -153,9 +202,11 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
       {!gameState.gameOver && (
         <CompactTeams 
           players={players} 
+          teams={teamsInPlay(gameState)}
           currentPlayerId={currentPlayer?.id}
           isRoomOwner={isRoomOwner}
-          onAddSpectator={(team, playerId) => room.handleSetLobbyRole(team, "guesser", playerId)}
+          onAddSpectator={isDuet ? undefined : (team, playerId) => room.handleSetLobbyRole(team, "guesser", playerId)}
+          seriesWins={isDuet || gameState.series.length === 0 ? undefined : seriesScore(gameState.series, teamsInPlay(gameState))}
         />
       )}
 
@@ -170,7 +221,15 @@ export function GameView({ room, derived, timer, overlays }: GameViewProps) {
           onRandomize={room.handleRandomizeTeams}
           onStartGame={room.handleStartGame}
           onTurnDurationChange={room.handleTurnDurationChange}
+          onClueDurationChange={room.handleClueDurationChange}
+          onTimeBankChange={room.handleTimeBankChange}
           onWordPackChange={room.handleWordPackChange}
+          onCustomWordsChange={room.handleCustomWordsChange}
+          onBoardLayoutChange={room.handleBoardLayoutChange}
+          onGameModeChange={room.handleGameModeChange}
+          onTeamCountChange={room.handleTeamCountChange}
+          onRoomRulesChange={room.handleRoomRulesChange}
+          onNextSeedChange={room.handleNextSeedChange}
           onResumeGame={room.handleResumeGame}
           showControls={true}
         />
@@ -2,16 +2,21 @@ import { useState, useEffect, FormEvent } from "react";
 import AvatarPicker from "@/components/AvatarPicker";
 import { LOCAL_STORAGE_AVATAR_KEY, getRandomAvatar } from "@/shared/constants";
 import { validatePlayerName } from "@/shared/validation";
+import { ROOM_ACCESS_ERRORS, type RoomAccessError } from "@/shared/room-access";
 
 interface JoinRoomFormProps {
   roomCode: string;
-  onJoin: (name: string, avatar: string) => void;
+  onJoin: (name: string, avatar: string, password?: string) => void;
+  initialName?: string;
+  accessError?: RoomAccessError | null; // Why the last join was turned away
 }
 
-export default function JoinRoomForm({ roomCode, onJoin }: JoinRoomFormProps) {
-  const [pendingName, setPendingName] = useState("");
+export default function JoinRoomForm({ roomCode, onJoin, initialName = "", accessError = null }: JoinRoomFormProps) {
+  const [pendingName, setPendingName] = useState(initialName);
   const [avatar, setAvatar] = useState("");
   const [nameError, setNameError] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const needsPassword = accessError === ROOM_ACCESS_ERRORS.passwordRequired || accessError === ROOM_ACCESS_ERRORS.wrongPassword;
 
   // Initialize avatar from localStorage or random on mount
   useEffect(() => {
@@ -39,16 +44,47 @@ export default function JoinRoomForm({ roomCode, onJoin }: JoinRoomFormProps) {
       setNameError(validation.error || "Invalid name");
       return;
     }
+    if (needsPassword && !password) return;
 
-    onJoin(trimmed, avatar);
+    onJoin(trimmed, avatar, needsPassword ? password : undefined);
   };
 
+  if (accessError === ROOM_ACCESS_ERRORS.locked) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 w-full max-w-md text-center" data-testid="join-room-locked">
+          <div className="text-4xl mb-3">🔒</div>
+          <h1 className="text-2xl font-bold mb-2">Room Locked</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The owner of room {roomCode} isn&apos;t letting new players in right now. Ask them to unlock it, then try again.
+          </p>
+          <div className="flex gap-3 justify-center">
+            <button
+              onClick={() => window.location.reload()}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-all"
+            >
+              Try Again
+            </button>
+            <button
+              onClick={() => window.location.href = "/"}
+              className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            >
+              Go Home
+            </button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
   return (
     <main className="min-h-screen flex items-center justify-center p-4">
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 w-full max-w-md">
         <h1 className="text-2xl font-bold mb-2 text-center">Join Room</h1>
         <p className="text-gray-600 dark:text-gray-400 text-center mb-6">
-          Enter your name to join room {roomCode}
+          {needsPassword
+            ? `Room ${roomCode} is password protected`
+            : `Enter your name to join room ${roomCode}`}
         </p>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -68,16 +104,42 @@ export default function JoinRoomForm({ roomCode, onJoin }: JoinRoomFormProps) {
                     ? "border-red-500 dark:border-red-500"
                     : "border-gray-300 dark:border-gray-600"
                 }`}
-                autoFocus
+                autoFocus={!needsPassword}
               />
             </div>
             {nameError && (
               <p className="mt-1 text-sm text-red-600 dark:text-red-400">{nameError}</p>
             )}
           </div>
+          {needsPassword && (
+            <div>
+              <label htmlFor="roomPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Room Password
+              </label>
+              <input
+                id="roomPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter the room password"
+                data-testid="join-room-password"
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white ${
+                  accessError === ROOM_ACCESS_ERRORS.wrongPassword
+                    ? "border-red-500 dark:border-red-500"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+                autoFocus
+              />
+              {accessError === ROOM_ACCESS_ERRORS.wrongPassword && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400" data-testid="join-room-password-error">
+                  That password didn&apos;t match. Check with the room owner and try again.
+                </p>
+              )}
+            </div>
+          )}
           <button
             type="submit"
-            disabled={!pendingName.trim()}
+            disabled={!pendingName.trim() || (needsPassword && !password)}
             className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
             Join Room
@@ -29,7 +29,15 @@ export function LobbyView({ room, derived }: LobbyViewProps) {
       onRandomize={room.handleRandomizeTeams}
       onStartGame={room.handleStartGame}
       onTurnDurationChange={room.handleTurnDurationChange}
+      onClueDurationChange={room.handleClueDurationChange}
+      onTimeBankChange={room.handleTimeBankChange}
       onWordPackChange={room.handleWordPackChange}
+      onCustomWordsChange={room.handleCustomWordsChange}
+      onBoardLayoutChange={room.handleBoardLayoutChange}
+      onGameModeChange={room.handleGameModeChange}
+      onTeamCountChange={room.handleTeamCountChange}
+      onRoomRulesChange={room.handleRoomRulesChange}
+      onNextSeedChange={room.handleNextSeedChange}
       showControls={true}
     />
   );
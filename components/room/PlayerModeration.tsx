@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import type { Player } from "@/shared/types";
+
+interface PlayerModerationProps {
+  players: Player[];
+  ownerId: string | null;
+  mutedIds: string[];
+  onRemovePlayer: (playerId: string, ban: boolean) => void;
+  onMutedChange: (playerId: string, muted: boolean) => void;
+}
+
+/** Owner's player list with mute, kick and ban */
+export default function PlayerModeration({ players, ownerId, mutedIds, onRemovePlayer, onMutedChange }: PlayerModerationProps) {
+  const [open, setOpen] = useState(false);
+  const [confirmBan, setConfirmBan] = useState<string | null>(null);
+  const others = players.filter((p) => p.id !== ownerId);
+
+  const buttonClass = "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all";
+  const idleClass = "bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-400";
+  const smallClass = "px-2 py-0.5 rounded text-xs font-medium transition-all";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        data-testid="moderation-toggle"
+        className={`${buttonClass} ${idleClass}`}
+        title="Mute, kick or ban players"
+      >
+        👥 Players
+      </button>
+      {open && (
+        <div
+          className="absolute left-0 top-full mt-2 z-20 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl p-3"
+          data-testid="moderation-panel"
+        >
+          {others.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No other players yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {others.map((player) => {
+                const muted = mutedIds.includes(player.id);
+                return (
+                  <li key={player.id} className="flex items-center gap-2 text-sm" data-testid={`moderation-player-${player.name}`}>
+                    <span className="flex-1 min-w-0 truncate text-gray-800 dark:text-gray-200">
+                      {player.avatar} {player.name}
+                      {muted && <span className="ml-1 text-gray-500" title="Muted">🔇</span>}
+                    </span>
+                    {confirmBan === player.id ? (
+                      <>
+                        <button
+                          onClick={() => {
+                            onRemovePlayer(player.id, true);
+                            setConfirmBan(null);
+                          }}
+                          data-testid={`moderation-ban-confirm-${player.name}`}
+                          className={`${smallClass} bg-red-600 text-white hover:bg-red-700`}
+                        >
+                          Ban
+                        </button>
+                        <button onClick={() => setConfirmBan(null)} className={`${smallClass} ${idleClass}`}>
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => onMutedChange(player.id, !muted)}
+                          data-testid={`moderation-mute-${player.name}`}
+                          className={`${smallClass} ${idleClass}`}
+                        >
+                          {muted ? "Unmute" : "Mute"}
+                        </button>
+                        <button
+                          onClick={() => onRemovePlayer(player.id, false)}
+                          data-testid={`moderation-kick-${player.name}`}
+                          className={`${smallClass} ${idleClass}`}
+                          title="Remove now; they can rejoin in a minute"
+                        >
+                          Kick
+                        </button>
+                        <button
+                          onClick={() => setConfirmBan(player.id)}
+                          data-testid={`moderation-ban-${player.name}`}
+                          className={`${smallClass} bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/50`}
+                          title="Remove for the rest of this room"
+                        >
+                          Ban
+                        </button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
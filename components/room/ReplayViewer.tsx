@@ -0,0 +1,102 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import GameBoard from "@/components/GameBoard";
+import { toReplayTurns, replayBoard } from "@/shared/game-events";
+import { DUET_RESULT_LABELS } from "@/shared/duet";
+import { formatClueCount } from "@/shared/game-utils";
+import { teamColors } from "@/components/team-colors";
+import type { Card, GameEvent, GameMode, Player } from "@/shared/types";
+
+interface ReplayViewerProps {
+  board: Card[];
+  events: GameEvent[];
+  players: Player[];
+  gameMode?: GameMode;
+  onClose: () => void;
+}
+
+const NO_VOTES: Record<number, string[]> = {};
+
+/**
+ * Step through a finished game turn by turn, rebuilt from the event log.
+ * Step 0 is the starting board; step N is the board after turn N.
+ */
+export default function ReplayViewer({ board, events, players, gameMode = "classic", onClose }: ReplayViewerProps) {
+  const turns = useMemo(() => toReplayTurns(events), [events]);
+  const words = useMemo(() => board.map((c) => c.word), [board]);
+  const [step, setStep] = useState(0);
+
+  const replayedBoard = useMemo(() => replayBoard(words, turns, step - 1, gameMode), [words, turns, step, gameMode]);
+  const turn = step > 0 ? turns[step - 1] : null;
+  const nameOf = (id?: string) => players.find((p) => p.id === id)?.name ?? "Someone";
+
+  return (
+    <div data-testid="replay-viewer">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h3 className="font-semibold">Replay</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setStep((s) => Math.max(0, s - 1))}
+            disabled={step === 0}
+            data-testid="replay-prev-btn"
+            className="px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-sm font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ◀ Prev
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-400 tabular-nums" data-testid="replay-step">
+            {step === 0 ? "Start" : `Turn ${step} / ${turns.length}`}
+          </span>
+          <button
+            onClick={() => setStep((s) => Math.min(turns.length, s + 1))}
+            disabled={step === turns.length}
+            data-testid="replay-next-btn"
+            className="px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-sm font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next ▶
+          </button>
+          <button
+            onClick={onClose}
+            data-testid="replay-close-btn"
+            className="px-3 py-1 rounded-lg text-sm font-semibold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4 min-h-12 text-sm" data-testid="replay-summary">
+        {turn ? (
+          <>
+            <div className={`font-semibold ${teamColors(turn.team).text}`}>
+              {turn.team.toUpperCase()} — {turn.clue ? `${turn.clue.word} ${formatClueCount(turn.clue.count)}` : "no clue"}
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">
+              {turn.reveals.length === 0
+                ? "No cards revealed"
+                : turn.reveals.map((r) => `${words[r.cardIndex]} (${r.cardTeam}, ${nameOf(r.playerId)})`).join(" · ")}
+              {turn.challenge && ` · challenged by ${nameOf(turn.challenge.playerId)}${turn.challenge.voided ? ", turn voided" : ""}`}
+              {turn.endReason === "pass" && " · passed"}
+              {turn.endReason === "timeout" && " · time ran out"}
+              {turn.winner && ` · ${turn.winner.toUpperCase()} wins`}
+              {turn.result && ` · ${DUET_RESULT_LABELS[turn.result]}`}
+            </div>
+          </>
+        ) : (
+          <div className="text-gray-600 dark:text-gray-400">Starting board</div>
+        )}
+      </div>
+
+      <GameBoard
+        board={replayedBoard}
+        currentPlayer={null}
+        cardVotes={NO_VOTES}
+        currentPlayerId={null}
+        requiredVotes={0}
+        canVote={false}
+        onVoteCard={() => {}}
+        onConfirmReveal={() => {}}
+      />
+    </div>
+  );
+}
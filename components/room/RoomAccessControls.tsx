@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { validateRoomPassword } from "@/shared/validation";
+import { MAX_ROOM_PASSWORD_LENGTH } from "@/shared/constants";
+
+interface RoomAccessControlsProps {
+  locked: boolean;
+  hasPassword: boolean;
+  onLockedChange?: (locked: boolean) => void; // Owner only
+  onPasswordChange?: (password: string | null) => Promise<void>; // Owner only
+}
+
+/** Lock and password badges; the owner gets the toggles */
+export default function RoomAccessControls({ locked, hasPassword, onLockedChange, onPasswordChange }: RoomAccessControlsProps) {
+  const [editing, setEditing] = useState(false);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = !!onLockedChange && !!onPasswordChange;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const validation = validateRoomPassword(password);
+    if (!validation.valid) {
+      setError(validation.error || "Invalid password");
+      return;
+    }
+    try {
+      await onPasswordChange?.(password);
+      setEditing(false);
+      setPassword("");
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleClear = () => {
+    onPasswordChange?.(null).catch((e: Error) => setError(e.message));
+  };
+
+  if (!isOwner) {
+    if (!locked && !hasPassword) return null;
+    return (
+      <span className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        {locked && <span data-testid="room-locked-badge" title="No new players can join">🔒 Locked</span>}
+        {hasPassword && <span data-testid="room-password-badge" title="New players need the password">🔑 Password</span>}
+      </span>
+    );
+  }
+
+  const buttonClass = "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all";
+  const idleClass = "bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-400";
+  const activeClass = "bg-amber-100 dark:bg-amber-900/40 hover:bg-amber-200 dark:hover:bg-amber-800/50 text-amber-700 dark:text-amber-300";
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <button
+        onClick={() => onLockedChange(!locked)}
+        data-testid="room-lock-toggle"
+        className={`${buttonClass} ${locked ? activeClass : idleClass}`}
+        title={locked ? "Unlock: let new players join" : "Lock: turn away new players"}
+      >
+        {locked ? "🔒 Locked" : "🔓 Lock"}
+      </button>
+      {editing ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-1.5">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setError(null);
+            }}
+            maxLength={MAX_ROOM_PASSWORD_LENGTH}
+            placeholder="Room password"
+            data-testid="room-password-input"
+            className="w-36 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            autoFocus
+          />
+          <button type="submit" data-testid="room-password-save" className={`${buttonClass} ${activeClass}`}>
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setEditing(false);
+              setError(null);
+            }}
+            className={`${buttonClass} ${idleClass}`}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setEditing(true)}
+          data-testid="room-password-edit"
+          className={`${buttonClass} ${hasPassword ? activeClass : idleClass}`}
+          title="New players will need this password"
+        >
+          {hasPassword ? "🔑 Change password" : "🔑 Set password"}
+        </button>
+      )}
+      {hasPassword && !editing && (
+        <button onClick={handleClear} data-testid="room-password-clear" className={`${buttonClass} ${idleClass}`}>
+          Remove password
+        </button>
+      )}
+      {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+}
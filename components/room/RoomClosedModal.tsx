@@ -21,6 +21,14 @@ export default function RoomClosedModal({ reason }: RoomClosedModalProps) {
       title: "Session Expired",
       message: "The game session has expired due to inactivity.",
     },
+    kicked: {
+      title: "Removed from Room",
+      message: "The room owner removed you from this room. You can rejoin in a minute.",
+    },
+    banned: {
+      title: "Banned",
+      message: "The room owner banned you from this room.",
+    },
   };
 
   const { title, message } = reasonMessages[reason] || {
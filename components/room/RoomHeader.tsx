@@ -1,11 +1,27 @@
 import { useState } from "react";
-import type { Player } from "@/shared/types";
+import type { Player, PlayingTeam, SeriesGame } from "@/shared/types";
+import { teamColors } from "@/components/team-colors";
+import SeriesScoreboard from "./SeriesScoreboard";
+import RoomAccessControls from "./RoomAccessControls";
+import PlayerModeration from "./PlayerModeration";
 
 interface RoomHeaderProps {
   roomCode: string;
   currentPlayer: Player | null;
   isRoomOwner: boolean;
   onLeaveRoom?: () => void;
+  series?: SeriesGame[];
+  teams?: PlayingTeam[]; // Teams in the current game
+  onResetSeries?: () => void; // Owner only, between games
+  locked?: boolean;
+  hasPassword?: boolean;
+  onLockedChange?: (locked: boolean) => void; // Owner only
+  onPasswordChange?: (password: string | null) => Promise<void>; // Owner only
+  players?: Player[];
+  ownerId?: string | null;
+  mutedIds?: string[];
+  onRemovePlayer?: (playerId: string, ban: boolean) => void; // Owner only
+  onMutedChange?: (playerId: string, muted: boolean) => void; // Owner only
 }
 
 function CrownIcon({ className }: { className?: string }) {
@@ -49,9 +65,27 @@ async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
-export default function RoomHeader({ roomCode, currentPlayer, isRoomOwner, onLeaveRoom }: RoomHeaderProps) {
+export default function RoomHeader({
+  roomCode,
+  currentPlayer,
+  isRoomOwner,
+  onLeaveRoom,
+  series = [],
+  teams = ["red", "blue"],
+  onResetSeries,
+  locked = false,
+  hasPassword = false,
+  onLockedChange,
+  onPasswordChange,
+  players = [],
+  ownerId = null,
+  mutedIds = [],
+  onRemovePlayer,
+  onMutedChange,
+}: RoomHeaderProps) {
   const [copiedUrl, setCopiedUrl] = useState(false);
   const [codeCopied, setCodeCopied] = useState(false);
+  const [watchUrlCopied, setWatchUrlCopied] = useState(false);
 
   const handleCopyRoomCode = async () => {
     const success = await copyToClipboard(roomCode);
@@ -70,6 +104,15 @@ export default function RoomHeader({ roomCode, currentPlayer, isRoomOwner, onLea
     }
   };
 
+  const handleShareWatchLink = async () => {
+    const watchUrl = `${window.location.origin}/room/${roomCode}?spectate=1`;
+    const success = await copyToClipboard(watchUrl);
+    if (success) {
+      setWatchUrlCopied(true);
+      setTimeout(() => setWatchUrlCopied(false), 2000);
+    }
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-4 mb-4">
       <div className="flex justify-between items-center">
@@ -107,6 +150,14 @@ export default function RoomHeader({ roomCode, currentPlayer, isRoomOwner, onLea
               </>
             )}
           </button>
+          <button
+            onClick={handleShareWatchLink}
+            data-testid="share-watch-link-btn"
+            className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-400 rounded-lg text-sm font-medium transition-all"
+            title="Copy a link for spectators"
+          >
+            {watchUrlCopied ? <span className="text-green-600">Link Copied!</span> : <span>👀 Watch link</span>}
+          </button>
           {onLeaveRoom && (
             <button
               onClick={onLeaveRoom}
@@ -120,6 +171,21 @@ export default function RoomHeader({ roomCode, currentPlayer, isRoomOwner, onLea
               <span>Leave</span>
             </button>
           )}
+          <RoomAccessControls
+            locked={locked}
+            hasPassword={hasPassword}
+            onLockedChange={onLockedChange}
+            onPasswordChange={onPasswordChange}
+          />
+          {onRemovePlayer && onMutedChange && (
+            <PlayerModeration
+              players={players}
+              ownerId={ownerId}
+              mutedIds={mutedIds}
+              onRemovePlayer={onRemovePlayer}
+              onMutedChange={onMutedChange}
+            />
+          )}
           {codeCopied && (
             <span className="text-sm text-green-600 dark:text-green-400 font-medium">
               Code copied!
@@ -128,9 +194,7 @@ export default function RoomHeader({ roomCode, currentPlayer, isRoomOwner, onLea
         </div>
         <div className="flex items-center gap-3">
           {currentPlayer?.team && (
-            <span className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-white text-sm font-medium ${
-              currentPlayer.team === "red" ? "bg-red-team" : "bg-blue-team"
-            }`}>
+            <span className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-sm font-medium ${teamColors(currentPlayer.team).solid}`}>
               {isRoomOwner && <CrownIcon className="w-4 h-4 text-yellow-300" />}
               {currentPlayer.name} • {currentPlayer.team} {currentPlayer.role}
             </span>
@@ -143,6 +207,7 @@ export default function RoomHeader({ roomCode, currentPlayer, isRoomOwner, onLea
           )}
         </div>
       </div>
+      <SeriesScoreboard games={series} teams={teams} onReset={onResetSeries} />
     </div>
   );
 }
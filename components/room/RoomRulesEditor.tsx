@@ -0,0 +1,151 @@
+"use client";
+
+import type { ClueChallengeRule, ClueStrictness, RoomRules, TrapPenalty, VoteThreshold } from "@/shared/types";
+
+interface RoomRulesEditorProps {
+  rules: RoomRules;
+  isDuet: boolean;
+  onChange: (rules: RoomRules) => void;
+}
+
+const voteOptions: { label: string; value: VoteThreshold }[] = [
+  { label: "Auto (2 with 4+ guessers)", value: "auto" },
+  { label: "1 vote", value: 1 },
+  { label: "2 votes", value: 2 },
+  { label: "3 votes", value: 3 },
+];
+
+const trapOptions: { label: string; value: TrapPenalty }[] = [
+  { label: "Loses the game", value: "loseGame" },
+  { label: "Loses the turn", value: "loseTurn" },
+];
+
+const strictnessOptions: { label: string; value: ClueStrictness; title: string }[] = [
+  { label: "Lenient", value: "lenient", title: "Blocks board words and their plurals or other forms" },
+  { label: "Standard", value: "standard", title: "Also blocks clues that start or end with a board word, or the other way round" },
+  { label: "Strict", value: "strict", title: "Also blocks board words hidden anywhere inside the clue" },
+];
+
+const challengeOptions: { label: string; value: ClueChallengeRule }[] = [
+  { label: "Off", value: "off" },
+  { label: "Record only", value: "record" },
+  { label: "Void the turn", value: "voidTurn" },
+];
+
+/** Short "2 votes · no extra guess · untimed" label listing the rules that differ from a standard game */
+export function describeRoomRules(rules: RoomRules, isDuet: boolean): string {
+  const parts: string[] = [];
+  if (!isDuet) {
+    if (rules.voteThreshold !== "auto") parts.push(`${rules.voteThreshold} ${rules.voteThreshold === 1 ? "vote" : "votes"}`);
+    if (!rules.extraGuess) parts.push("no extra guess");
+    if (rules.trapPenalty === "loseTurn") parts.push("trap loses turn");
+    if (!rules.clueGiverChat) parts.push("clue givers silent");
+    if (rules.clueChallenge !== "record") parts.push(rules.clueChallenge === "off" ? "no challenges" : "challenges void turn");
+  }
+  if (!rules.timer) parts.push("untimed");
+  if (rules.clueStrictness !== "standard") parts.push(`${rules.clueStrictness} clues`);
+  return parts.length > 0 ? parts.join(" · ") : "Standard";
+}
+
+const selectClass = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm";
+
+/**
+ * Owner's house rules. Duet plays by its own rules, so only the timer and
+ * the clue check apply there.
+ */
+export default function RoomRulesEditor({ rules, isDuet, onChange }: RoomRulesEditorProps) {
+  const set = <K extends keyof RoomRules>(key: K, value: RoomRules[K]) => onChange({ ...rules, [key]: value });
+
+  return (
+    <div data-testid="lobby-room-rules" className="mb-6 grid sm:grid-cols-2 gap-x-6 gap-y-3 rounded-xl border-2 border-gray-200 dark:border-gray-700 p-4 text-sm">
+      {!isDuet && (
+        <>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-600 dark:text-gray-400">Votes to reveal:</span>
+            <select
+              value={rules.voteThreshold}
+              onChange={(e) => set("voteThreshold", e.target.value === "auto" ? "auto" : Number(e.target.value) as VoteThreshold)}
+              data-testid="lobby-rules-votes"
+              className={selectClass}
+            >
+              {voteOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-600 dark:text-gray-400">A trap:</span>
+            <select
+              value={rules.trapPenalty}
+              onChange={(e) => set("trapPenalty", e.target.value as TrapPenalty)}
+              data-testid="lobby-rules-trap"
+              className={selectClass}
+            >
+              {trapOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2" title="What happens when another team's clue giver challenges a clue">
+            <span className="text-gray-600 dark:text-gray-400">Challenges:</span>
+            <select
+              value={rules.clueChallenge}
+              onChange={(e) => set("clueChallenge", e.target.value as ClueChallengeRule)}
+              data-testid="lobby-challenge-rule"
+              className={selectClass}
+            >
+              {challengeOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+      <label className="flex items-center gap-2" title="How closely a clue may resemble a board word">
+        <span className="text-gray-600 dark:text-gray-400">Clue check:</span>
+        <select
+          value={rules.clueStrictness}
+          onChange={(e) => set("clueStrictness", e.target.value as ClueStrictness)}
+          data-testid="lobby-clue-strictness"
+          title={strictnessOptions.find((o) => o.value === rules.clueStrictness)?.title}
+          className={selectClass}
+        >
+          {strictnessOptions.map((option) => (
+            <option key={option.value} value={option.value} title={option.title}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      {!isDuet && (
+        <>
+          <label className="flex items-center gap-2 cursor-pointer" title="A clue for 2 allows 3 guesses">
+            <input
+              type="checkbox"
+              checked={rules.extraGuess}
+              onChange={(e) => set("extraGuess", e.target.checked)}
+              data-testid="lobby-rules-extra-guess"
+            />
+            <span>One extra guess per clue</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rules.clueGiverChat}
+              onChange={(e) => set("clueGiverChat", e.target.checked)}
+              data-testid="lobby-rules-clue-giver-chat"
+            />
+            <span>Clue givers may chat during the game</span>
+          </label>
+        </>
+      )}
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={rules.timer}
+          onChange={(e) => set("timer", e.target.checked)}
+          data-testid="lobby-rules-timer"
+        />
+        <span>Turn timer</span>
+      </label>
+    </div>
+  );
+}
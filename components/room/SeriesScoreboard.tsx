@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import type { PlayingTeam, SeriesGame } from "@/shared/types";
+import { TEAMS } from "@/shared/constants";
+import { seriesScore, seriesContributions, formatSeriesReason } from "@/shared/series";
+import { TEAM_COLORS } from "@/components/team-colors";
+
+interface SeriesScoreboardProps {
+  games: SeriesGame[];
+  teams: PlayingTeam[]; // Teams in the current game
+  onReset?: () => void; // Owner only, between games
+}
+
+/** Wins per team across rematches, with the game-by-game history on demand */
+export default function SeriesScoreboard({ games, teams, onReset }: SeriesScoreboardProps) {
+  const [expanded, setExpanded] = useState(false);
+  if (games.length === 0) return null;
+
+  // A team that won earlier stays on the board even if it isn't playing now
+  const shownTeams = TEAMS.filter((team) => teams.includes(team) || games.some((g) => g.winner === team));
+  const score = seriesScore(games, shownTeams);
+  const duetGames = games.filter((g) => g.gameMode === "duet");
+  const contributions = seriesContributions(games);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700" data-testid="series-scoreboard">
+      <div className="flex items-center gap-3 flex-wrap text-sm">
+        <span className="font-semibold text-gray-600 dark:text-gray-400">
+          Series · {games.length} {games.length === 1 ? "game" : "games"}
+        </span>
+        {shownTeams.map((team) => (
+          <span
+            key={team}
+            data-testid={`series-score-${team}`}
+            className={`px-2 py-0.5 rounded font-semibold capitalize ${TEAM_COLORS[team].soft}`}
+          >
+            {team} {score[team]}
+          </span>
+        ))}
+        {duetGames.length > 0 && (
+          <span className="px-2 py-0.5 rounded font-semibold bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+            Duet {duetGames.filter((g) => g.reason === "won").length}/{duetGames.length}
+          </span>
+        )}
+        <button
+          onClick={() => setExpanded((e) => !e)}
+          data-testid="series-toggle"
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {expanded ? "Hide history" : "History"}
+        </button>
+        {onReset && (
+          <button
+            onClick={onReset}
+            data-testid="series-reset"
+            className="ml-auto px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+          >
+            Reset series
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 grid gap-4 sm:grid-cols-2 text-sm">
+          <ol className="space-y-1" data-testid="series-history">
+            {games.map((game, i) => (
+              <li key={game.id} className="flex items-center gap-2">
+                <span className="w-14 text-gray-500 dark:text-gray-400">Game {i + 1}</span>
+                {game.winner ? (
+                  <span className={`font-semibold capitalize ${TEAM_COLORS[game.winner].text}`}>{game.winner} won</span>
+                ) : (
+                  <span className="font-semibold text-gray-700 dark:text-gray-300">
+                    {game.reason === "won" ? "Duet won" : "Duet lost"}
+                  </span>
+                )}
+                <span className="text-gray-500 dark:text-gray-400">— {formatSeriesReason(game.reason)}</span>
+              </li>
+            ))}
+          </ol>
+          <div className="space-y-1" data-testid="series-contributions">
+            {contributions.map((c) => (
+              <div key={c.playerId} className="flex items-center justify-between gap-2">
+                <span className="truncate text-gray-800 dark:text-gray-200">{c.name}</span>
+                <span className="flex items-center gap-3 text-gray-600 dark:text-gray-400">
+                  <span title="Games won">🏆 {c.wins}/{c.games}</span>
+                  <span className="text-green-600 dark:text-green-400" title="Correct guesses">✓ {c.correctGuesses}</span>
+                  <span title="Cards found from their clues">💡 {c.clueCardsGained}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
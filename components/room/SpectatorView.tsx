@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import GameBoard from "@/components/GameBoard";
+import ChatLog from "@/components/ChatLog";
+import ClueHistory from "@/components/ClueHistory";
+import { GameStatusPanel, CompactTeams } from "@/components/room";
+import { useDelayedValue } from "@/hooks/useDelayedValue";
+import { teamsInPlay } from "@/shared/teams";
+import { LOCAL_STORAGE_SPECTATOR_DELAY_KEY, SPECTATOR_DELAYS } from "@/shared/constants";
+import type { UseRtdbRoomReturn } from "@/hooks/useRtdbRoom";
+import type { ActiveClock } from "@/hooks/useGameTimer";
+
+interface SpectatorViewProps {
+  room: UseRtdbRoomReturn;
+  timer: {
+    timeRemaining: number | null;
+    activeClock: ActiveClock | null;
+    bankRemaining: number | null;
+  };
+}
+
+const noop = () => {};
+
+/**
+ * Read-only view for players who joined through a ?spectate=1 link.
+ * A bigger board, the scores and clue history, and an optional delay so a
+ * stream of the game doesn't give reveals away to the players.
+ */
+export function SpectatorView({ room, timer }: SpectatorViewProps) {
+  const [delaySeconds, setDelaySeconds] = useState(0);
+
+  useEffect(() => {
+    const stored = Number(localStorage.getItem(LOCAL_STORAGE_SPECTATOR_DELAY_KEY));
+    if (SPECTATOR_DELAYS.some((d) => d === stored)) setDelaySeconds(stored);
+  }, []);
+
+  const handleDelayChange = (seconds: number) => {
+    setDelaySeconds(seconds);
+    localStorage.setItem(LOCAL_STORAGE_SPECTATOR_DELAY_KEY, String(seconds));
+  };
+
+  // Messages are held back with the board, or clues in the chat would come early
+  const live = useMemo(() => ({ gameState: room.gameState, messages: room.messages }), [room.gameState, room.messages]);
+  const { gameState, messages } = useDelayedValue(live, delaySeconds * 1000);
+
+  if (!gameState) return null;
+
+  const teams = teamsInPlay(gameState);
+
+  return (
+    <>
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl px-4 py-3 mb-4 flex items-center justify-between flex-wrap gap-3">
+        <span className="font-semibold text-gray-700 dark:text-gray-300" data-testid="spectator-banner">
+          👀 Spectating
+        </span>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-500 dark:text-gray-400">Delay</span>
+          {SPECTATOR_DELAYS.map((seconds) => (
+            <button
+              key={seconds}
+              onClick={() => handleDelayChange(seconds)}
+              data-testid={`spectator-delay-${seconds}`}
+              className={`px-2.5 py-1 rounded-lg font-medium transition-all ${
+                delaySeconds === seconds
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              {seconds === 0 ? "Live" : `${seconds}s`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!gameState.gameStarted ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 text-center text-gray-600 dark:text-gray-400" data-testid="spectator-waiting">
+          Waiting for the room owner to start the game...
+        </div>
+      ) : (
+        <>
+          <GameStatusPanel
+            gameState={gameState}
+            timeRemaining={delaySeconds === 0 ? timer.timeRemaining : null}
+            activeClock={delaySeconds === 0 ? timer.activeClock : null}
+            bankRemaining={delaySeconds === 0 ? timer.bankRemaining : null}
+            isMyTurn={false}
+            isRoomOwner={false}
+            canGiveClue={false}
+            clueAnimating={false}
+            players={room.players}
+            onEndTurn={noop}
+            onEndGame={noop}
+            onResumeGame={noop}
+            onGiveClue={noop}
+          />
+
+          <div className="grid lg:grid-cols-4 gap-4">
+            <div className="lg:col-span-3 bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
+              <GameBoard
+                board={gameState.board}
+                currentPlayer={null}
+                cardVotes={gameState.cardVotes}
+                currentPlayerId={null}
+                requiredVotes={0}
+                canVote={false}
+                coveredFor={gameState.gameMode === "duet" ? gameState.currentTeam : undefined}
+                size="large"
+                onVoteCard={noop}
+                onConfirmReveal={noop}
+              />
+            </div>
+            <div className="space-y-4">
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
+                <ClueHistory clues={messages} records={gameState.clues} board={gameState.board} events={gameState.events} />
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
+                <ChatLog messages={messages} players={room.players} />
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      <CompactTeams players={room.players} teams={teams} currentPlayerId={room.currentPlayer?.id} />
+    </>
+  );
+}
@@ -1,28 +1,41 @@
-import type { GameState, Player, WordPack } from "@/shared/types";
+import { useState } from "react";
+import type { BoardLayout, BoardSize, GameMode, GameState, LobbyTeam, Player, RoomRules, TeamCount, WordPack, WordPackSelection } from "@/shared/types";
+import { BOARD_SIZES, DUET_PLAYERS, DUET_TURNS, MAX_SEED_LENGTH, MAX_TRAP_CARDS, TEAM_COUNTS, TIME_BANKS, TURN_DURATIONS } from "@/shared/constants";
+import { minPlayersToStart, teamsFor } from "@/shared/teams";
+import { TEAM_COLORS, teamColors } from "@/components/team-colors";
+import { DUET_CARD_COUNT } from "@/shared/duet";
+import { DEFAULT_BOARD_LAYOUTS, layoutCardCounts, maxNeutralCards } from "@/shared/board-layout";
+import { normalizeSeed } from "@/shared/random";
+import CustomWordsEditor from "./CustomWordsEditor";
+import WordPackPicker, { describeWordPacks } from "./WordPackPicker";
+import RoomRulesEditor, { describeRoomRules } from "./RoomRulesEditor";
+import DuetLobby from "./DuetLobby";
 
 interface TeamLobbyProps {
   players: Player[];
   currentPlayer: Player | null;
   isRoomOwner: boolean;
   gameState: GameState;
-  onSetRole: (team: "red" | "blue" | null, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
+  onSetRole: (team: LobbyTeam, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
   onRandomize: () => void;
   onStartGame: () => void;
   onTurnDurationChange: (duration: number) => void;
-  onWordPackChange: (pack: WordPack) => void;
+  onClueDurationChange?: (duration: number) => void;
+  onTimeBankChange?: (seconds: number) => void;
+  onWordPackChange: (packIds: WordPack[], weights: WordPackSelection) => void;
+  onCustomWordsChange?: (words: string[]) => void;
+  onBoardLayoutChange?: (layout: BoardLayout) => void;
+  onGameModeChange?: (mode: GameMode) => void;
+  onTeamCountChange?: (count: TeamCount) => void;
+  onRoomRulesChange?: (rules: RoomRules) => void;
+  onNextSeedChange?: (seed: string | null) => void;
   onResumeGame?: () => void;
   showControls?: boolean; // Hide start button in rematch mode
 }
 
-const turnOptions = [
-  { label: "Short (30s)", value: 30 },
-  { label: "Medium (60s)", value: 60 },
-  { label: "Long (90s)", value: 90 },
-];
-
-const wordPackOptions: { label: string; value: WordPack }[] = [
+const modeOptions: { label: string; value: GameMode }[] = [
   { label: "Classic", value: "classic" },
-  { label: "Kahoot!", value: "kahoot" },
+  { label: "Duet (2 players)", value: "duet" },
 ];
 
 export default function TeamLobby({
@@ -34,7 +47,15 @@ export default function TeamLobby({
   onRandomize,
   onStartGame,
   onTurnDurationChange,
+  onClueDurationChange,
+  onTimeBankChange,
   onWordPackChange,
+  onCustomWordsChange,
+  onBoardLayoutChange,
+  onGameModeChange,
+  onTeamCountChange,
+  onRoomRulesChange,
+  onNextSeedChange,
   onResumeGame,
   showControls = true,
 }: TeamLobbyProps) {
@@ -47,7 +68,20 @@ export default function TeamLobby({
   // connected !== false treats undefined as connected (backwards compatible)
   const hasClueGiver = pausedTeamPlayers.some((p) => p.role === "clueGiver" && p.connected !== false);
   const hasGuesser = pausedTeamPlayers.some((p) => p.role === "guesser" && p.connected !== false);
-  const canResume = hasClueGiver && hasGuesser;
+  const isDuet = gameState.gameMode === "duet";
+  const seatedCount = players.filter((p) => p.team && p.role).length;
+  // Duet resumes once both seats are filled by connected players
+  const canResume = isDuet
+    ? players.filter((p) => p.team && p.role && p.connected !== false).length === DUET_PLAYERS
+    : hasClueGiver && hasGuesser;
+  const teams = teamsFor(gameState.teamCount);
+  const playersNeeded = isDuet ? DUET_PLAYERS : minPlayersToStart(teams.length);
+  // Words and board layout can only change before the game starts
+  const canEditBoard = isRoomOwner && showControls && !isPaused && !gameState.gameStarted;
+  const [showPackPicker, setShowPackPicker] = useState(false);
+  const [showRulesEditor, setShowRulesEditor] = useState(false);
+  const layout = gameState.boardLayout;
+  const teamCards = layoutCardCounts(layout, teams[0], teams); // Counted as if the first team starts
   // Owner can remove players from their team/role when:
   // 1. Game is paused (reassigning roles for the paused team)
   // 2. In lobby (not started) - can remove anyone from teams
@@ -70,13 +104,14 @@ export default function TeamLobby({
             <div>
               <h2 className="text-xl font-semibold">Game Paused - Assign Roles</h2>
               <p className="text-sm text-amber-600 dark:text-amber-400 mt-1">
-                {gameState.pauseReason === "clueGiverDisconnected" && (
+                {isDuet && <>Both seats need a connected player to continue</>}
+                {!isDuet && gameState.pauseReason === "clueGiverDisconnected" && (
                   <>The {pausedTeam} team needs a clue giver to continue</>
                 )}
-                {gameState.pauseReason === "noGuessers" && (
+                {!isDuet && gameState.pauseReason === "noGuessers" && (
                   <>The {pausedTeam} team needs at least one guesser to continue</>
                 )}
-                {gameState.pauseReason === "teamDisconnected" && (
+                {!isDuet && gameState.pauseReason === "teamDisconnected" && (
                   <>The {pausedTeam} team needs players to continue</>
                 )}
               </p>
@@ -102,49 +137,191 @@ export default function TeamLobby({
           </h2>
           <div className="flex flex-wrap items-center gap-3">
             <div className="flex items-center gap-2">
-              <span className="text-sm text-gray-600 dark:text-gray-400">Words:</span>
-              {isRoomOwner ? (
+              <span className="text-sm text-gray-600 dark:text-gray-400">Mode:</span>
+              {canEditBoard && onGameModeChange ? (
                 <select
-                  value={gameState.wordPack}
-                  onChange={(e) => onWordPackChange(e.target.value as WordPack)}
+                  value={gameState.gameMode}
+                  onChange={(e) => onGameModeChange(e.target.value as GameMode)}
+                  data-testid="lobby-game-mode"
                   className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
                 >
-                  {wordPackOptions.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
+                  {modeOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
                   ))}
                 </select>
               ) : (
                 <span className="text-sm text-gray-700 dark:text-gray-300">
-                  {gameState.wordPack === "kahoot" ? "Kahoot!" : "Classic"}
+                  {modeOptions.find((o) => o.value === gameState.gameMode)?.label}
                 </span>
               )}
             </div>
+            {!isDuet && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Teams:</span>
+                {canEditBoard && onTeamCountChange ? (
+                  <select
+                    value={gameState.teamCount}
+                    onChange={(e) => onTeamCountChange(Number(e.target.value) as TeamCount)}
+                    data-testid="lobby-team-count"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {TEAM_COUNTS.map((count) => (
+                      <option key={count} value={count}>{count} teams</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-gray-700 dark:text-gray-300">{gameState.teamCount}</span>
+                )}
+              </div>
+            )}
             <div className="flex items-center gap-2">
-              <span className="text-sm text-gray-600 dark:text-gray-400">Turn:</span>
-              {isRoomOwner ? (
-                <select
-                  value={gameState.turnDuration}
-                  onChange={(e) => onTurnDurationChange(Number(e.target.value))}
+              <span className="text-sm text-gray-600 dark:text-gray-400">Words:</span>
+              {canEditBoard ? (
+                <button
+                  onClick={() => setShowPackPicker((v) => !v)}
+                  data-testid="lobby-word-packs-btn"
                   className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
                 >
-                  {turnOptions.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
+                  {describeWordPacks(gameState.wordPacks)} {showPackPicker ? "▴" : "▾"}
+                </button>
+              ) : (
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  {describeWordPacks(gameState.wordPacks)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Board:</span>
+              {isDuet ? (
+                // Duet always deals its own 5x5 key pair
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  {Math.sqrt(DUET_CARD_COUNT)}×{Math.sqrt(DUET_CARD_COUNT)} · {DUET_TURNS} turns
+                </span>
+              ) : canEditBoard && onBoardLayoutChange ? (
+                <>
+                  <select
+                    value={layout.size}
+                    onChange={(e) => onBoardLayoutChange(DEFAULT_BOARD_LAYOUTS[Number(e.target.value) as BoardSize])}
+                    data-testid="lobby-board-size"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {BOARD_SIZES.map((size) => (
+                      <option key={size} value={size}>{size}×{size}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={layout.neutral}
+                    onChange={(e) => onBoardLayoutChange({ ...layout, neutral: Number(e.target.value) })}
+                    data-testid="lobby-board-neutral"
+                    title="Neutral cards"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {Array.from({ length: maxNeutralCards(layout.size, layout.trap, gameState.teamCount) + 1 }, (_, n) => (
+                      <option key={n} value={n}>{n} neutral</option>
+                    ))}
+                  </select>
+                  <select
+                    value={layout.trap}
+                    onChange={(e) => {
+                      const trap = Number(e.target.value);
+                      onBoardLayoutChange({ ...layout, trap, neutral: Math.min(layout.neutral, maxNeutralCards(layout.size, trap, gameState.teamCount)) });
+                    }}
+                    data-testid="lobby-board-trap"
+                    title="Trap cards"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {Array.from({ length: MAX_TRAP_CARDS + 1 }, (_, n) => (
+                      <option key={n} value={n}>{n} {n === 1 ? "trap" : "traps"}</option>
+                    ))}
+                  </select>
+                </>
+              ) : (
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  {layout.size}×{layout.size} · {layout.neutral} neutral · {layout.trap} {layout.trap === 1 ? "trap" : "traps"}
+                </span>
+              )}
+              {!isDuet && (
+                <span className="text-xs text-gray-500 dark:text-gray-400" title="Cards per team, in turn order from the starting team">
+                  ({teams.map((team) => teamCards[team]).join("/")})
+                </span>
+              )}
+            </div>
+            {isRoomOwner && onNextSeedChange ? (
+              // Keyed on the stored seed so the draft resets when it changes elsewhere
+              <SeedInput key={gameState.nextSeed ?? ""} value={gameState.nextSeed} onChange={onNextSeedChange} />
+            ) : gameState.nextSeed && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Seed:</span>
+                <span className="text-sm font-mono text-gray-700 dark:text-gray-300">{gameState.nextSeed}</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Turn:</span>
+              {!gameState.rules.timer ? (
+                <span className="text-sm text-gray-700 dark:text-gray-300">Untimed</span>
+              ) : isRoomOwner && onClueDurationChange && onTimeBankChange ? (
+                <>
+                  <select
+                    value={gameState.clueDuration}
+                    onChange={(e) => onClueDurationChange(Number(e.target.value))}
+                    data-testid="lobby-clue-duration"
+                    title="Time to give the clue"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {TURN_DURATIONS.map((seconds) => (
+                      <option key={seconds} value={seconds}>{seconds}s to clue</option>
+                    ))}
+                  </select>
+                  <select
+                    value={gameState.turnDuration}
+                    onChange={(e) => onTurnDurationChange(Number(e.target.value))}
+                    data-testid="lobby-guess-duration"
+                    title="Time to guess, from when the clue is given"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {TURN_DURATIONS.map((seconds) => (
+                      <option key={seconds} value={seconds}>{seconds}s to guess</option>
+                    ))}
+                  </select>
+                  <select
+                    value={gameState.timeBank}
+                    onChange={(e) => onTimeBankChange(Number(e.target.value))}
+                    data-testid="lobby-time-bank"
+                    title="Extra time each team can draw on over the whole game, like a chess clock"
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                  >
+                    {TIME_BANKS.map((seconds) => (
+                      <option key={seconds} value={seconds}>{seconds === 0 ? "No bank" : `${seconds / 60} min bank`}</option>
+                    ))}
+                  </select>
+                </>
               ) : (
                 <span className="text-sm text-gray-700 dark:text-gray-300">
-                  {gameState.turnDuration}s
+                  {gameState.clueDuration}s clue · {gameState.turnDuration}s guess
+                  {gameState.timeBank > 0 && ` · ${gameState.timeBank / 60} min bank`}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Rules:</span>
+              {canEditBoard && onRoomRulesChange ? (
+                <button
+                  onClick={() => setShowRulesEditor((v) => !v)}
+                  data-testid="lobby-rules-btn"
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm"
+                >
+                  {describeRoomRules(gameState.rules, isDuet)} {showRulesEditor ? "▴" : "▾"}
+                </button>
+              ) : (
+                <span className="text-sm text-gray-700 dark:text-gray-300" data-testid="lobby-rules-summary">
+                  {describeRoomRules(gameState.rules, isDuet)}
                 </span>
               )}
             </div>
             {isRoomOwner && (
               <button
                 onClick={onRandomize}
-                disabled={players.length < 4}
+                disabled={players.length < playersNeeded}
                 data-testid="lobby-randomize-btn"
                 className="bg-gray-200 text-gray-800 px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg font-semibold hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm sm:text-base"
               >
@@ -155,7 +332,7 @@ export default function TeamLobby({
             {isRoomOwner && showControls && !gameState.gameOver ? (
               <button
                 onClick={onStartGame}
-                disabled={players.filter((p) => p.team && p.role).length < 4}
+                disabled={isDuet ? seatedCount !== DUET_PLAYERS : seatedCount < playersNeeded}
                 data-testid="lobby-start-btn"
                 className="bg-green-600 text-white px-4 py-1.5 sm:px-6 sm:py-2 rounded-lg font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm sm:text-base"
               >
@@ -170,157 +347,172 @@ export default function TeamLobby({
         </div>
       )}
 
+      {canEditBoard && onRoomRulesChange && showRulesEditor && (
+        <RoomRulesEditor rules={gameState.rules} isDuet={isDuet} onChange={onRoomRulesChange} />
+      )}
 
-      <div className="grid md:grid-cols-2 gap-6">
-        {(["red", "blue"] as const).map((team) => {
-          const clueGiver = players.find(
-            (player) => player.team === team && player.role === "clueGiver"
-          );
-          const guessers = players.filter(
-            (player) => player.team === team && player.role === "guesser"
-          );
-          const clueGiverOffline = clueGiver?.connected === false;
+      {canEditBoard && showPackPicker && (
+        <WordPackPicker
+          selection={gameState.wordPacks}
+          customWordCount={gameState.customWords.length}
+          onChange={onWordPackChange}
+        />
+      )}
 
-          return (
-            <div
-              key={team}
-              className={`rounded-xl border-2 p-4 shadow-sm ${
-                team === "red"
-                  ? "border-red-400 bg-white dark:bg-gray-900"
-                  : "border-blue-400 bg-white dark:bg-gray-900"
-              }`}
-            >
-              <h3 className={`text-lg font-semibold mb-3 ${
-                team === "red" ? "text-red-700 dark:text-red-300" : "text-blue-700 dark:text-blue-300"
-              }`}>
-                {team.toUpperCase()} TEAM
-              </h3>
+      {canEditBoard && onCustomWordsChange && gameState.wordPacks.custom && (
+        <CustomWordsEditor words={gameState.customWords} onSave={onCustomWordsChange} />
+      )}
 
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-1">
-                  <div className="flex items-center gap-2">
-                    <svg className="w-4 h-4 text-gray-600 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                    </svg>
-                    <span className="font-semibold text-gray-800 dark:text-gray-200">Clue Giver</span>
-                  </div>
-                  {showControls && (
-                    <button
-                      onClick={() => onSetRole(team, "clueGiver")}
-                      disabled={Boolean(clueGiver) && clueGiver?.id !== currentPlayer?.id}
-                      data-testid={`lobby-join-${team}-clueGiver`}
-                      className={`px-3 py-1.5 rounded text-sm font-semibold ${
-                        clueGiver?.id === currentPlayer?.id
-                          ? "bg-gray-800 text-white"
-                          : team === "red"
-                            ? "bg-red-team text-white hover:brightness-110"
-                            : "bg-blue-team text-white hover:brightness-110"
-                      } disabled:opacity-50 disabled:cursor-not-allowed`}
-                    >
-                      Join
-                    </button>
-                  )}
-                </div>
-                <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 ml-6">Sees all cards • Gives one-word clues</p>
-                <div className={`rounded-lg p-3 text-base border ${
-                  clueGiver?.id === currentPlayer?.id
-                    ? "bg-yellow-50 dark:bg-yellow-900/30 border-yellow-400 dark:border-yellow-600"
-                    : "bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700"
-                }`}>
-                  {clueGiver ? (
-                    <div className={`font-medium truncate flex items-center gap-2 ${
-                      clueGiver.id === currentPlayer?.id ? "text-yellow-700 dark:text-yellow-300" : ""
-                    } ${clueGiverOffline ? "opacity-60" : ""}`}>
-                      <span className="text-xl">{clueGiver.avatar}</span>
-                      <span>{clueGiver.name}{clueGiver.id === currentPlayer?.id ? " (you)" : ""}</span>
-                      {clueGiverOffline && (
-                        <span className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">offline</span>
-                      )}
-                      {canRemovePlayer(clueGiver.id) && (
-                        <button
-                          type="button"
-                          onClick={() => onSetRole(null, null, clueGiver.id)}
-                          className="ml-auto text-xs font-semibold uppercase tracking-wide text-red-600 hover:text-red-700"
-                        >
-                          Remove
-                        </button>
-                      )}
-                    </div>
-                  ) : (
-                    <span className="text-gray-500 dark:text-gray-400">Open</span>
-                  )}
-                </div>
-              </div>
+      {isDuet ? (
+        <DuetLobby
+          players={players}
+          currentPlayer={currentPlayer}
+          showControls={showControls}
+          canLeaveSeat={!isPaused || isRoomOwner}
+          canRemovePlayer={canRemovePlayer}
+          onSetRole={onSetRole}
+        />
+      ) : (
+        <div className={`grid gap-6 ${teams.length === 3 ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
+          {teams.map((team) => {
+            const clueGiver = players.find(
+              (player) => player.team === team && player.role === "clueGiver"
+            );
+            const guessers = players.filter(
+              (player) => player.team === team && player.role === "guesser"
+            );
+            const clueGiverOffline = clueGiver?.connected === false;
 
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-1">
-                  <div className="flex items-center gap-2">
-                    <svg className="w-4 h-4 text-gray-600 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-                    </svg>
-                    <span className="font-semibold text-gray-800 dark:text-gray-200">Guessers</span>
-                  </div>
-                  {showControls && (
-                    <button
-                      onClick={() => onSetRole(team, "guesser")}
-                      data-testid={`lobby-join-${team}-guesser`}
-                      className={`px-3 py-1.5 rounded text-sm font-semibold ${
-                        team === "red"
-                          ? "bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 hover:bg-red-200 dark:hover:bg-red-900/60"
-                          : "bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-900/60"
-                      }`}
-                    >
-                      Join
-                    </button>
-                  )}
-                </div>
-                <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 ml-6">Guess words based on clues</p>
-                <div className="space-y-2 max-h-32 overflow-y-auto">
-                  {guessers.length === 0 ? (
-                    <div className="text-base text-gray-500 dark:text-gray-400">No guessers yet</div>
-                  ) : (
-                    guessers.map((player) => (
-                      <div
-                        key={player.id}
-                        className={`rounded-lg px-3 py-2 text-base border flex items-center gap-2 ${
-                          player.id === currentPlayer?.id
-                            ? "bg-yellow-50 dark:bg-yellow-900/30 border-yellow-400 dark:border-yellow-600 text-yellow-700 dark:text-yellow-300 font-medium"
-                            : "bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700"
-                        } ${player.connected === false ? "opacity-60" : ""}`}
+            return (
+              <div
+                key={team}
+                className={`rounded-xl border-2 p-4 shadow-sm bg-white dark:bg-gray-900 ${TEAM_COLORS[team].border}`}
+              >
+                <h3 className={`text-lg font-semibold mb-3 ${TEAM_COLORS[team].text}`}>
+                  {team.toUpperCase()} TEAM
+                </h3>
+
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="flex items-center gap-2">
+                      <svg className="w-4 h-4 text-gray-600 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                      </svg>
+                      <span className="font-semibold text-gray-800 dark:text-gray-200">Clue Giver</span>
+                    </div>
+                    {showControls && (
+                      <button
+                        onClick={() => onSetRole(team, "clueGiver")}
+                        disabled={Boolean(clueGiver) && clueGiver?.id !== currentPlayer?.id}
+                        data-testid={`lobby-join-${team}-clueGiver`}
+                        className={`px-3 py-1.5 rounded text-sm font-semibold ${
+                          clueGiver?.id === currentPlayer?.id
+                            ? "bg-gray-800 text-white"
+                            : `${TEAM_COLORS[team].solid} hover:brightness-110`
+                        } disabled:opacity-50 disabled:cursor-not-allowed`}
                       >
-                        <span className="text-xl">{player.avatar}</span>
-                        <span className="truncate">{player.name}{player.id === currentPlayer?.id ? " (you)" : ""}</span>
-                        {player.connected === false && (
+                        Join
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 ml-6">Sees all cards • Gives one-word clues</p>
+                  <div className={`rounded-lg p-3 text-base border ${
+                    clueGiver?.id === currentPlayer?.id
+                      ? "bg-yellow-50 dark:bg-yellow-900/30 border-yellow-400 dark:border-yellow-600"
+                      : "bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700"
+                  }`}>
+                    {clueGiver ? (
+                      <div className={`font-medium truncate flex items-center gap-2 ${
+                        clueGiver.id === currentPlayer?.id ? "text-yellow-700 dark:text-yellow-300" : ""
+                      } ${clueGiverOffline ? "opacity-60" : ""}`}>
+                        <span className="text-xl">{clueGiver.avatar}</span>
+                        <span>{clueGiver.name}{clueGiver.id === currentPlayer?.id ? " (you)" : ""}</span>
+                        {clueGiverOffline && (
                           <span className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">offline</span>
                         )}
-                        {canRemovePlayer(player.id) && (
+                        {canRemovePlayer(clueGiver.id) && (
                           <button
                             type="button"
-                            onClick={() => onSetRole(null, null, player.id)}
+                            onClick={() => onSetRole(null, null, clueGiver.id)}
                             className="ml-auto text-xs font-semibold uppercase tracking-wide text-red-600 hover:text-red-700"
                           >
                             Remove
                           </button>
                         )}
                       </div>
-                    ))
-                  )}
+                    ) : (
+                      <span className="text-gray-500 dark:text-gray-400">Open</span>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              {currentPlayer?.team === team && showControls && (
-                <button
-                  onClick={() => onSetRole(null, null)}
-                  className="px-3 py-1.5 rounded text-sm font-semibold bg-gray-200 text-gray-700 hover:bg-gray-300"
-                >
-                  Leave Team
-                </button>
-              )}
-            </div>
-          );
-        })}
-      </div>
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="flex items-center gap-2">
+                      <svg className="w-4 h-4 text-gray-600 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                      </svg>
+                      <span className="font-semibold text-gray-800 dark:text-gray-200">Guessers</span>
+                    </div>
+                    {showControls && (
+                      <button
+                        onClick={() => onSetRole(team, "guesser")}
+                        data-testid={`lobby-join-${team}-guesser`}
+                        className={`px-3 py-1.5 rounded text-sm font-semibold hover:brightness-95 ${TEAM_COLORS[team].soft}`}
+                      >
+                        Join
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 ml-6">Guess words based on clues</p>
+                  <div className="space-y-2 max-h-32 overflow-y-auto">
+                    {guessers.length === 0 ? (
+                      <div className="text-base text-gray-500 dark:text-gray-400">No guessers yet</div>
+                    ) : (
+                      guessers.map((player) => (
+                        <div
+                          key={player.id}
+                          className={`rounded-lg px-3 py-2 text-base border flex items-center gap-2 ${
+                            player.id === currentPlayer?.id
+                              ? "bg-yellow-50 dark:bg-yellow-900/30 border-yellow-400 dark:border-yellow-600 text-yellow-700 dark:text-yellow-300 font-medium"
+                              : "bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700"
+                          } ${player.connected === false ? "opacity-60" : ""}`}
+                        >
+                          <span className="text-xl">{player.avatar}</span>
+                          <span className="truncate">{player.name}{player.id === currentPlayer?.id ? " (you)" : ""}</span>
+                          {player.connected === false && (
+                            <span className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">offline</span>
+                          )}
+                          {canRemovePlayer(player.id) && (
+                            <button
+                              type="button"
+                              onClick={() => onSetRole(null, null, player.id)}
+                              className="ml-auto text-xs font-semibold uppercase tracking-wide text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+
+                {/* Mid-game seats are the owner's to change */}
+                {currentPlayer?.team === team && showControls && (!isPaused || isRoomOwner) && (
+                  <button
+                    onClick={() => onSetRole(null, null)}
+                    className="px-3 py-1.5 rounded text-sm font-semibold bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  >
+                    Leave Team
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
 
       {(showControls || isPaused) && (
         <>
@@ -355,24 +547,22 @@ export default function TeamLobby({
                     )}
                   </div>
                   {player.team && player.role && (
-                    <div className={`text-sm mt-1 ml-9 ${
-                      player.team === "red" ? "text-red-600 dark:text-red-400" : "text-blue-600 dark:text-blue-400"
-                    }`}>
-                      {player.team} {player.role === "clueGiver" ? "clue giver" : "guesser"}
+                    <div className={`text-sm mt-1 ml-9 ${teamColors(player.team).text}`}>
+                      {isDuet ? `${player.team} side` : `${player.team} ${player.role === "clueGiver" ? "clue giver" : "guesser"}`}
                     </div>
                   )}
                   {!player.team || !player.role ? (
                     <div className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-9">
-                      {isPaused ? "Spectator" : "No team selected"}
+                      {player.spectating ? "Watching" : isPaused ? "Spectator" : "No team selected"}
                     </div>
                   ) : null}
                 </div>
               ))}
             </div>
           </div>
-          {!isPaused && players.filter(p => p.team && p.role).length < 4 && (
+          {!isPaused && seatedCount < playersNeeded && (
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-3">
-              Waiting for {4 - players.filter(p => p.team && p.role).length} more player{4 - players.filter(p => p.team && p.role).length !== 1 ? "s" : ""} to join teams...
+              Waiting for {playersNeeded - seatedCount} more player{playersNeeded - seatedCount !== 1 ? "s" : ""} to {isDuet ? "take a seat" : "join teams"}...
             </p>
           )}
         </>
@@ -380,3 +570,30 @@ export default function TeamLobby({
     </div>
   );
 }
+
+/** Owner's seed field: blank deals a random board, a shared seed replays its board */
+function SeedInput({ value, onChange }: { value: string | null; onChange: (seed: string | null) => void }) {
+  const [draft, setDraft] = useState(value ?? "");
+
+  const commit = () => {
+    const seed = normalizeSeed(draft) || null;
+    if (seed !== value) onChange(seed);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-600 dark:text-gray-400">Seed:</span>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value.toUpperCase())}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && commit()}
+        placeholder="Random"
+        maxLength={MAX_SEED_LENGTH}
+        data-testid="lobby-seed-input"
+        className="w-28 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm font-mono uppercase"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { WORD_PACK_REGISTRY } from "@/shared/words";
+import { MAX_WORD_PACK_WEIGHT } from "@/shared/constants";
+import type { WordPack, WordPackSelection } from "@/shared/types";
+
+interface WordPackPickerProps {
+  selection: WordPackSelection;
+  customWordCount: number;
+  onChange: (packIds: WordPack[], weights: WordPackSelection) => void;
+}
+
+const packs = Object.values(WORD_PACK_REGISTRY);
+const weightOptions = Array.from({ length: MAX_WORD_PACK_WEIGHT }, (_, i) => i + 1);
+
+/** Short "Classic ×2 + Kahoot!" label for a selection */
+export function describeWordPacks(selection: WordPackSelection): string {
+  return packs
+    .filter((pack) => selection[pack.id])
+    .map((pack) => (selection[pack.id] === 1 ? pack.name : `${pack.name} ×${selection[pack.id]}`))
+    .join(" + ");
+}
+
+/**
+ * Owner's word pack selection: tick several packs and give each a weight
+ * to control its share of the board.
+ */
+export default function WordPackPicker({ selection, customWordCount, onChange }: WordPackPickerProps) {
+  const selectedIds = packs.map((p) => p.id).filter((id) => selection[id]);
+
+  const toggle = (id: WordPack) => {
+    const next = selection[id] ? selectedIds.filter((p) => p !== id) : [...selectedIds, id];
+    if (next.length === 0) return; // Keep at least one pack selected
+    onChange(next, { ...selection, [id]: selection[id] ?? 1 });
+  };
+
+  return (
+    <div data-testid="lobby-word-packs" className="mb-6 grid sm:grid-cols-3 gap-3">
+      {packs.map((pack) => {
+        const weight = selection[pack.id];
+        return (
+          <div
+            key={pack.id}
+            className={`rounded-xl border-2 p-3 text-sm transition-all ${
+              weight ? "border-green-500 bg-green-50 dark:bg-green-900/20" : "border-gray-200 dark:border-gray-700"
+            }`}
+          >
+            <label className="flex items-center gap-2 font-semibold cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!weight}
+                onChange={() => toggle(pack.id)}
+                data-testid={`lobby-word-pack-${pack.id}`}
+              />
+              {pack.name}
+              <span className="ml-auto text-xs font-normal text-gray-500 dark:text-gray-400">
+                {pack.id === "custom" ? `${customWordCount} words` : `${pack.words.length} words`}
+              </span>
+            </label>
+            <p className="mt-1 text-gray-600 dark:text-gray-400">{pack.description}</p>
+            <div className="mt-2 flex flex-wrap items-center gap-1">
+              <span className="px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-xs uppercase">{pack.language}</span>
+              <span className="px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-xs">{pack.difficulty}</span>
+              {pack.tags.map((tag) => (
+                <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+            {weight && selectedIds.length > 1 && (
+              <label className="mt-2 flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                Weight:
+                <select
+                  value={weight}
+                  onChange={(e) => onChange(selectedIds, { ...selection, [pack.id]: Number(e.target.value) })}
+                  data-testid={`lobby-word-pack-weight-${pack.id}`}
+                  className="px-2 py-0.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                >
+                  {weightOptions.map((w) => (
+                    <option key={w} value={w}>×{w}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,10 +2,16 @@ export { default as RoomHeader } from "./RoomHeader";
 export { default as GameStatusPanel } from "./GameStatusPanel";
 export { default as ClueInput } from "./ClueInput";
 export { default as TeamLobby } from "./TeamLobby";
+export { default as CustomWordsEditor } from "./CustomWordsEditor";
+export { default as WordPackPicker } from "./WordPackPicker";
+export { default as RoomRulesEditor } from "./RoomRulesEditor";
+export { default as DuetLobby } from "./DuetLobby";
 export { default as CompactTeams } from "./CompactTeams";
 export { default as RoomClosedModal } from "./RoomClosedModal";
 export { default as JoinRoomForm } from "./JoinRoomForm";
 export { default as ConnectionStatus } from "./ConnectionStatus";
 export { default as IdleWarningModal } from "./IdleWarningModal";
+export { default as ReplayViewer } from "./ReplayViewer";
 export { GameView } from "./GameView";
 export { LobbyView } from "./LobbyView";
+export { SpectatorView } from "./SpectatorView";
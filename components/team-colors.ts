@@ -0,0 +1,52 @@
+import type { PlayingTeam, Team } from "@/shared/types";
+
+/**
+ * Tailwind classes per team. Written out in full so Tailwind keeps them;
+ * a new team needs an entry here plus its --color-{team}-team variables.
+ */
+export const TEAM_COLORS: Record<PlayingTeam, {
+  text: string; // Team name on a light/dark surface
+  solid: string; // Filled badge or button
+  soft: string; // Tinted badge or button
+  border: string;
+  panel: string; // Tinted card with a border
+  gradient: string; // Full-screen transition banners
+  glow: string; // Board outline on that team's turn
+  key: string; // Unrevealed card as the clue giver sees it
+}> = {
+  red: {
+    text: "text-red-700 dark:text-red-300",
+    solid: "bg-red-team text-white",
+    soft: "bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200",
+    border: "border-red-400 dark:border-red-600",
+    panel: "border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20",
+    gradient: "from-red-600 to-red-700",
+    glow: "shadow-[0_0_0_1px_rgba(239,68,68,0.25)]",
+    key: "bg-red-100 dark:bg-red-900 border-2 border-red-500 text-red-900 dark:text-red-100",
+  },
+  blue: {
+    text: "text-blue-700 dark:text-blue-300",
+    solid: "bg-blue-team text-white",
+    soft: "bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200",
+    border: "border-blue-400 dark:border-blue-600",
+    panel: "border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20",
+    gradient: "from-blue-600 to-blue-700",
+    glow: "shadow-[0_0_0_1px_rgba(59,130,246,0.25)]",
+    key: "bg-blue-100 dark:bg-blue-900 border-2 border-blue-500 text-blue-900 dark:text-blue-100",
+  },
+  green: {
+    text: "text-green-700 dark:text-green-300",
+    solid: "bg-green-team text-white",
+    soft: "bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200",
+    border: "border-green-400 dark:border-green-600",
+    panel: "border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/20",
+    gradient: "from-green-600 to-green-700",
+    glow: "shadow-[0_0_0_1px_rgba(34,197,94,0.25)]",
+    key: "bg-green-100 dark:bg-green-900 border-2 border-green-500 text-green-900 dark:text-green-100",
+  },
+};
+
+/** Classes for a team, falling back to red for non-playing values */
+export function teamColors(team: Team | null | undefined) {
+  return TEAM_COLORS[team === "blue" || team === "green" ? team : "red"];
+}
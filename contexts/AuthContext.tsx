@@ -1,15 +1,19 @@
 "use client";
 
-import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from "react";
 import { User, onAuthStateChanged } from "firebase/auth";
 import { getFirebaseAuth } from "@/lib/firebase";
-import { signInAnonymous } from "@/lib/firebase-auth";
+import { signInAnonymous, completeSignInLink, signOutAccount } from "@/lib/firebase-auth";
 
 interface AuthContextValue {
   user: User | null;
   uid: string | null;
   isLoading: boolean;
   error: string | null;
+  isAnonymous: boolean;
+  email: string | null;
+  completeEmailSignIn: (email: string, url: string) => Promise<void>;
+  signOut: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
@@ -18,6 +22,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Linking upgrades the same User object without an auth state change
+  const [isAnonymous, setIsAnonymous] = useState(true);
   
   // Guard against concurrent sign-in attempts
   const signingInRef = useRef(false);
@@ -38,6 +44,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           // User is signed in
           signingInRef.current = false;
           setUser(firebaseUser);
+          setIsAnonymous(firebaseUser.isAnonymous);
           setIsLoading(false);
           setError(null);
         } else {
@@ -70,6 +77,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => unsubscribe();
   }, []);
 
+  const completeEmailSignIn = useCallback(async (email: string, url: string) => {
+    const linkedUser = await completeSignInLink(email, url);
+    setUser(linkedUser);
+    setIsAnonymous(linkedUser.isAnonymous);
+  }, []);
+
+  const signOut = useCallback(() => signOutAccount(), []);
+
   return (
     <AuthContext.Provider
       value={{
@@ -77,6 +92,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         uid: user?.uid ?? null,
         isLoading,
         error,
+        isAnonymous,
+        email: isAnonymous ? null : user?.email ?? null,
+        completeEmailSignIn,
+        signOut,
       }}
     >
       {children}
@@ -0,0 +1,529 @@
+/**
+ * Server-authoritative game engine.
+ * Every game-state transition runs here; clients only send intents and the
+ * security rules deny direct writes to turn state, the board and the key.
+ * Turn rules come from the shared reducer - handlers load the room, apply an
+ * action and write back the resulting updates.
+ */
+
+import { getDatabase, ServerValue } from "firebase-admin/database";
+import { onCall } from "firebase-functions/v2/https";
+import { dealSeededBoard, selectedWordPacks, toWordMix, countMixWords, type WordSource } from "../../shared/words";
+import { generateSeed } from "../../shared/random";
+import { boardLayoutOf, boardCardCount, validateBoardLayout } from "../../shared/board-layout";
+import { DUET_CARD_COUNT, DUET_SIDES, dealSeededDuetBoard } from "../../shared/duet";
+import { DUET_TURNS } from "../../shared/constants";
+import { teamsAreReady, countCardsByTeam, formatClueCount } from "../../shared/game-utils";
+import { isPlayingTeam, teamCountOf, teamsInPlay } from "../../shared/teams";
+import { fullTimeBanks, isSameTurn } from "../../shared/turn-timer";
+import { toEngineState } from "../../shared/game-reducer";
+import { startEvent } from "../../shared/game-events";
+import { seriesGame } from "../../shared/series";
+import { sanitizeClue, validateWordList } from "../../shared/validation";
+import type {
+  Player,
+  Team,
+  PlayingTeam,
+  BoardLayout,
+  FirebaseBoardCard,
+  FirebaseRoomKey,
+  FirebaseDuetKeys,
+  FirebaseGameEvent,
+  GameEngineState,
+  GameFunctionPayloads,
+  EndTurnAction,
+  TimeoutAction,
+} from "../../shared/types";
+import {
+  fail,
+  requireUid,
+  requireRoomCode,
+  roomPath,
+  roomKeyPath,
+  roomDuetKeyPath,
+  roomSeedPath,
+  loadRoom,
+  withRoomLock,
+  pushSystemMessage,
+  reduce,
+  eventsWithUpdates,
+  type PlayerData,
+  type RoomData,
+} from "./room";
+import { recordGameResults } from "./profiles";
+
+type BoardCard = FirebaseBoardCard;
+
+// Players assigned to a team and role, in the shape teamsAreReady expects
+function toAssignedPlayers(players: Record<string, PlayerData>): Player[] {
+  return Object.entries(players)
+    .map(([id, p]) => ({
+      id,
+      name: p.name,
+      avatar: p.avatar || "🐱",
+      team: p.team,
+      role: p.role,
+      connected: p.connected,
+    }))
+    .filter((p) => p.team && p.role);
+}
+
+// Weighted mix of the selected packs. Custom words are re-checked here since the owner writes them directly.
+function wordSource(room: RoomData, cardCount: number): WordSource {
+  const selection = selectedWordPacks(room);
+  let customWords: string[] = [];
+  if (selection.custom) {
+    const { valid, error, words } = validateWordList(room.customWords || []);
+    if (!valid) fail(error ?? "Invalid word list");
+    customWords = words;
+  }
+  const mix = toWordMix(selection, customWords);
+  if (countMixWords(mix) < cardCount) fail("Not enough words in the selected packs for this board size");
+  return mix;
+}
+
+// The room's layout, checked again since the owner writes it directly
+function roomLayout(room: RoomData): BoardLayout {
+  const layout = boardLayoutOf(room);
+  const { valid, error } = validateBoardLayout(layout, teamCountOf(room));
+  if (!valid) fail(error ?? "Invalid board layout");
+  return layout;
+}
+
+// Deal a board from a seed and split it into the public cards and the secret key
+function dealBoard(room: RoomData, seed: string): {
+  startingTeam: PlayingTeam;
+  board: BoardCard[];
+  key: FirebaseRoomKey;
+  cardCounts: Record<Team, number>;
+} {
+  const layout = roomLayout(room);
+  const { startingTeam, cards } = dealSeededBoard(
+    seed,
+    wordSource(room, boardCardCount(layout)),
+    layout,
+    teamsInPlay(room)
+  );
+  const key = cards.map((c) => c.team);
+  return {
+    startingTeam,
+    board: cards.map((c) => hiddenCard(c.word)),
+    key,
+    cardCounts: countCardsByTeam(key),
+  };
+}
+
+// Public card shape for a freshly dealt word
+function hiddenCard(word: string): BoardCard {
+  return { word, team: null, revealed: false, revealedBy: null, votes: {} };
+}
+
+// Deal a Duet board: always 5x5, with a key per side
+function dealDuetBoard(room: RoomData, seed: string): {
+  startingTeam: PlayingTeam;
+  board: BoardCard[];
+  keys: FirebaseDuetKeys;
+  cardCounts: Record<Team, number>;
+} {
+  const { startingTeam, words, keys } = dealSeededDuetBoard(seed, wordSource(room, DUET_CARD_COUNT));
+  // Per-key totals (the same for both sides): 9 agents, 13 neutrals, 3 traps
+  const counts = countCardsByTeam(keys.red);
+  return {
+    startingTeam,
+    board: words.map(hiddenCard),
+    keys,
+    cardCounts: { red: counts.red, blue: counts.red, green: 0, neutral: counts.neutral, trap: counts.trap },
+  };
+}
+
+/**
+ * Deal the next game for the room's mode and store its secret key(s).
+ * Returns the room fields that start the game.
+ */
+async function dealGame(roomCode: string, room: RoomData, seed: string): Promise<Record<string, unknown>> {
+  const db = getDatabase();
+  const isDuet = room.gameMode === "duet";
+  let startingTeam: PlayingTeam;
+  let board: BoardCard[];
+  let cardCounts: Record<Team, number>;
+
+  if (isDuet) {
+    const deal = dealDuetBoard(room, seed);
+    ({ startingTeam, board, cardCounts } = deal);
+    await db.ref(roomKeyPath(roomCode)).remove();
+    await db.ref(roomDuetKeyPath(roomCode)).set(deal.keys);
+  } else {
+    const deal = dealBoard(room, seed);
+    ({ startingTeam, board, cardCounts } = deal);
+    await db.ref(roomDuetKeyPath(roomCode)).remove();
+    await db.ref(roomKeyPath(roomCode)).set(deal.key);
+  }
+  await db.ref(roomSeedPath(roomCode)).set(seed);
+
+  return {
+    events: newEventLog(roomCode, startingTeam),
+    gameStarted: true,
+    currentTeam: startingTeam,
+    startingTeam,
+    duetTurnsLeft: isDuet ? DUET_TURNS : null,
+    duetResult: null,
+    eliminatedTeams: null,
+    clues: null,
+    timeBanks: fullTimeBanks(teamsInPlay(room), room.timeBank ?? 0),
+    board,
+    cardCounts,
+  };
+}
+
+// Publish the seed once the game is decided, so the board can be replayed or shared
+async function publishSeed(roomCode: string, updates: Record<string, unknown>): Promise<void> {
+  const seedSnap = await getDatabase().ref(roomSeedPath(roomCode)).get();
+  updates.seed = seedSnap.val() ?? null;
+}
+
+// Add the finished game to the room's series in the same update that ends it
+function addSeriesGame(roomCode: string, room: RoomData, next: GameEngineState, updates: Record<string, unknown>): void {
+  const key = getDatabase().ref(`${roomPath(roomCode)}/series`).push().key as string;
+  updates[`series/${key}`] = seriesGame(next, eventsWithUpdates(room, updates), Date.now());
+}
+
+// Fresh event log for a new game, replacing the previous game's events
+function newEventLog(roomCode: string, startingTeam: Team): Record<string, FirebaseGameEvent> {
+  const key = getDatabase().ref(`${roomPath(roomCode)}/events`).push().key as string;
+  return { [key]: startEvent(startingTeam, Date.now()) };
+}
+
+/**
+ * Write a move's updates. A move that ends the game also publishes the seed,
+ * adds the game to the series and records everyone's results.
+ */
+async function writeMove(
+  roomCode: string,
+  room: RoomData,
+  next: GameEngineState,
+  updates: Record<string, unknown>
+): Promise<void> {
+  const db = getDatabase();
+  if (next.gameOver) {
+    await publishSeed(roomCode, updates);
+    addSeriesGame(roomCode, room, next, updates);
+  }
+  await db.ref(roomPath(roomCode)).update(updates);
+  if (next.gameOver) {
+    await db.ref(roomSeedPath(roomCode)).remove();
+    await recordGameResults(room, next, updates);
+  }
+}
+
+/**
+ * End the turn that started at `turnStartTime` (the current one if undefined),
+ * at most once. Passes, client timeouts and the turn scheduler can all race
+ * for the same turn; under the room lock the first ends it and the rest find
+ * it has moved on. Returns false if it had.
+ */
+export async function endTurnOnce(
+  roomCode: string,
+  action: EndTurnAction | TimeoutAction,
+  turnStartTime?: number | null
+): Promise<boolean> {
+  return withRoomLock(roomCode, async () => {
+    const { room } = await loadRoom(roomCode);
+    const state = toEngineState(room);
+    if (!isSameTurn(state, turnStartTime)) return false;
+
+    // A Duet game can end here when the last turn runs out
+    const { next, updates } = reduce(roomCode, state, action);
+    await writeMove(roomCode, room, next, updates);
+    return true;
+  });
+}
+
+// ============================================================================
+// Game Lifecycle
+// ============================================================================
+
+export const startGame = onCall<GameFunctionPayloads["startGame"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  await withRoomLock(roomCode, async () => {
+    const { room, players } = await loadRoom(roomCode);
+
+    if (room.ownerId !== uid) fail("Not room owner", "permission-denied");
+    if (room.gameStarted) fail("Game already started");
+    if (!teamsAreReady(toAssignedPlayers(players), room.gameMode, teamsInPlay(room))) fail("Teams not ready");
+
+    // Owner-chosen seed replays a shared board; otherwise deal a fresh one
+    const seed = room.nextSeed || generateSeed();
+    const game = await dealGame(roomCode, room, seed);
+
+    await getDatabase().ref(roomPath(roomCode)).update({
+      ...game,
+      seed: null,
+      nextSeed: null,
+      turnStartTime: ServerValue.TIMESTAMP,
+      currentClue: null,
+      remainingGuesses: null,
+      gameOver: false,
+      winner: null,
+      paused: false,
+      pauseReason: null,
+      pausedForTeam: null,
+    });
+  });
+});
+
+export const rematch = onCall<GameFunctionPayloads["rematch"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  await withRoomLock(roomCode, async () => {
+    const { room, players } = await loadRoom(roomCode);
+
+    if (room.ownerId !== uid) fail("Not room owner", "permission-denied");
+    if (!room.gameOver) fail("Game not over");
+    if (!teamsAreReady(toAssignedPlayers(players), room.gameMode, teamsInPlay(room))) fail("Teams not ready");
+
+    const seed = room.nextSeed || generateSeed();
+    const game = await dealGame(roomCode, room, seed);
+
+    await getDatabase().ref(roomPath(roomCode)).update({
+      messages: null,
+      ...game,
+      seed: null,
+      nextSeed: null,
+      turnStartTime: ServerValue.TIMESTAMP,
+      currentClue: null,
+      remainingGuesses: null,
+      gameOver: false,
+      winner: null,
+      paused: false,
+      pauseReason: null,
+      pausedForTeam: null,
+    });
+  });
+});
+
+export const endGame = onCall<GameFunctionPayloads["endGame"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  await withRoomLock(roomCode, async () => {
+    const { room, players } = await loadRoom(roomCode);
+
+    if (room.ownerId !== uid) fail("Not room owner", "permission-denied");
+    if (!room.gameStarted) fail("Game not started");
+
+    // Reset player teams/roles
+    const playerUpdates: Record<string, null> = {};
+    Object.keys(players).forEach((id) => {
+      playerUpdates[`players/${id}/team`] = null;
+      playerUpdates[`players/${id}/role`] = null;
+    });
+
+    // Owner stays the same - they're just ending the game, not leaving
+    const db = getDatabase();
+    await db.ref(roomPath(roomCode)).update({
+      gameStarted: false,
+      gameOver: false,
+      winner: null,
+      currentClue: null,
+      remainingGuesses: null,
+      turnStartTime: null,
+      paused: false,
+      pauseReason: null,
+      pausedForTeam: null,
+      board: null,
+      cardCounts: null,
+      events: null,
+      seed: null,
+      duetTurnsLeft: null,
+      duetResult: null,
+      eliminatedTeams: null,
+      clues: null,
+      timeBanks: null,
+      ...playerUpdates,
+    });
+    await db.ref(roomKeyPath(roomCode)).remove();
+    await db.ref(roomDuetKeyPath(roomCode)).remove();
+    await db.ref(roomSeedPath(roomCode)).remove();
+  });
+
+  await pushSystemMessage(roomCode, "Game ended by room owner.");
+});
+
+export const resumeGame = onCall<GameFunctionPayloads["resumeGame"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  await withRoomLock(roomCode, async () => {
+    const { room } = await loadRoom(roomCode);
+
+    const { updates } = reduce(roomCode, toEngineState(room), { type: "resume", playerId: uid, now: Date.now() });
+    await getDatabase().ref(roomPath(roomCode)).update(updates);
+  });
+
+  await pushSystemMessage(roomCode, "Game resumed.");
+});
+
+// ============================================================================
+// Seats
+// ============================================================================
+
+// A seat decides which key a player can read, so while a game runs the rules
+// only let the owner unseat players or add an unseated one as a guesser.
+// Filling a paused team's open seats goes through here, for the owner too
+// (who may seat someone else with playerId).
+export const takeSeat = onCall<GameFunctionPayloads["takeSeat"]>(async (request) => {
+  const requesterId = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  const { team, role } = request.data;
+  if (!isPlayingTeam(team) || (role !== "clueGiver" && role !== "guesser")) fail("Invalid seat", "invalid-argument");
+  const uid = request.data.playerId ?? requesterId;
+  if (typeof uid !== "string") fail("Invalid player", "invalid-argument");
+
+  const { room, players } = await loadRoom(roomCode);
+  if (uid !== requesterId && room.ownerId !== requesterId) fail("Only the owner can seat other players", "permission-denied");
+  const player = players[uid];
+  if (!player) fail("Player not found", "not-found");
+  if (!room.gameStarted || room.gameOver) fail("Game not active");
+  if (!room.paused) fail("Only owner can add players during game");
+  if (player.spectating) fail("Spectators watching through a link can't join a team");
+
+  // A Duet seat reads that side's key, so only an unseated player may fill an empty one
+  if (room.gameMode === "duet") {
+    if (role !== "clueGiver" || !DUET_SIDES.some((side) => side === team)) fail("Invalid seat");
+    if (player.team) fail("Duet seats are fixed during a game");
+    const taken = Object.entries(players).some(([id, p]) => id !== uid && p.team === team && p.role);
+    if (taken) fail("Seat already taken");
+    await getDatabase().ref(`${roomPath(roomCode)}/players/${uid}`).update({ team, role });
+    return;
+  }
+
+  // Only the paused team opens up, and nobody crosses over from another team
+  if (team !== room.pausedForTeam) fail("Only the paused team's seats are open");
+  if (player.team && player.team !== team) fail("Can't switch teams during a game");
+  if (role === "clueGiver") {
+    const taken = Object.entries(players).some(([id, p]) => id !== uid && p.team === team && p.role === "clueGiver");
+    if (taken) fail("Team already has a clue giver");
+  }
+
+  await getDatabase().ref(`${roomPath(roomCode)}/players/${uid}`).update({ team, role });
+});
+
+// ============================================================================
+// Gameplay
+// ============================================================================
+
+export const giveClue = onCall<GameFunctionPayloads["giveClue"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  const { word, count } = request.data;
+  if (typeof word !== "string" || typeof count !== "number") fail("Invalid clue", "invalid-argument");
+
+  // Under the room lock, so a clue can't land on a turn that has just timed out
+  const { players, next } = await withRoomLock(roomCode, async () => {
+    const { room, players } = await loadRoom(roomCode);
+    const { next, updates } = reduce(roomCode, toEngineState(room), {
+      type: "giveClue",
+      playerId: uid,
+      word,
+      count,
+      now: Date.now(),
+    });
+    await getDatabase().ref(roomPath(roomCode)).update(updates);
+    return { players, next };
+  });
+
+  await getDatabase().ref(`${roomPath(roomCode)}/messages`).push({
+    playerId: uid,
+    playerName: players[uid].name,
+    message: `${sanitizeClue(word)} ${formatClueCount(next.currentClue?.count ?? 0)}`,
+    timestamp: ServerValue.TIMESTAMP,
+    type: "clue",
+    clueId: next.currentClue?.id ?? null,
+  });
+});
+
+export const confirmReveal = onCall<GameFunctionPayloads["confirmReveal"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  const { cardIndex } = request.data;
+  if (!Number.isInteger(cardIndex)) fail("Invalid card", "invalid-argument");
+
+  // Two reveals, or a reveal and a timeout, must not reduce from the same state
+  const db = getDatabase();
+  const { state, next, cardTeam } = await withRoomLock(roomCode, async () => {
+    const { room } = await loadRoom(roomCode);
+    const state = toEngineState(room);
+    if (!state.board[cardIndex]) fail("Invalid card");
+    if (state.board[cardIndex].revealed) fail("Card already revealed");
+
+    // Duet guesses are checked against the key of the side giving the clue
+    const keyPath = state.gameMode === "duet"
+      ? `${roomDuetKeyPath(roomCode)}/${state.currentTeam}/${cardIndex}`
+      : `${roomKeyPath(roomCode)}/${cardIndex}`;
+    const keySnap = await db.ref(keyPath).get();
+    if (!keySnap.exists()) fail("Card key not found");
+    const cardTeam = keySnap.val() as Team;
+
+    const { next, updates } = reduce(roomCode, state, { type: "reveal", playerId: uid, cardIndex, cardTeam, now: Date.now() });
+    await writeMove(roomCode, room, next, updates);
+    return { state, next, cardTeam };
+  });
+  const isDuet = state.gameMode === "duet";
+
+  if (isDuet) {
+    const duetLabel = cardTeam === "trap" ? "⬛ Trap"
+      : cardTeam === "neutral" ? `🟡 Neutral for ${state.currentTeam === "red" ? "Red" : "Blue"}`
+      : "🟢 Agent";
+    await pushSystemMessage(roomCode, `"${state.board[cardIndex].word}" — ${duetLabel}`);
+    return;
+  }
+
+  const teamLabel = cardTeam === "red" ? "Red"
+    : cardTeam === "blue" ? "Blue"
+    : cardTeam === "green" ? "Green"
+    : cardTeam === "trap" ? "Trap"
+    : "Neutral";
+  const teamEmoji = cardTeam === "red" ? "🔴"
+    : cardTeam === "blue" ? "🔵"
+    : cardTeam === "green" ? "🟢"
+    : cardTeam === "trap" ? "⬛"
+    : "🟡";
+  await pushSystemMessage(roomCode, `${teamEmoji} "${state.board[cardIndex].word}" revealed — ${teamLabel}`);
+  // With three teams a trap knocks one team out and play carries on; under
+  // the lose-turn house rule it just ends the turn
+  if (cardTeam === "trap" && !next.gameOver) {
+    const knockedOut = next.eliminatedTeams.length > state.eliminatedTeams.length;
+    await pushSystemMessage(
+      roomCode,
+      `${state.currentTeam.toUpperCase()} team ${knockedOut ? "is out of the game" : "loses the turn"}.`
+    );
+  }
+});
+
+export const challengeClue = onCall<GameFunctionPayloads["challengeClue"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  const { players, state, next } = await withRoomLock(roomCode, async () => {
+    const { room, players } = await loadRoom(roomCode);
+    const state = toEngineState(room);
+    const { next, updates } = reduce(roomCode, state, { type: "challengeClue", playerId: uid, now: Date.now() });
+    await getDatabase().ref(roomPath(roomCode)).update(updates);
+    return { players, state, next };
+  });
+
+  // The reducer only accepts a challenge against a tracked clue
+  const clue = next.clues[state.currentClue?.id ?? -1];
+  await pushSystemMessage(
+    roomCode,
+    `⚑ ${players[uid].name} challenged "${clue?.word}"${clue?.voided ? ` — ${state.currentTeam.toUpperCase()} team's turn is voided.` : "."}`
+  );
+});
+
+export const endTurn = onCall<GameFunctionPayloads["endTurn"]>(async (request) => {
+  const uid = requireUid(request);
+  const roomCode = requireRoomCode(request.data);
+  const { turnStartTime } = request.data;
+  if (turnStartTime != null && typeof turnStartTime !== "number") fail("Invalid turn", "invalid-argument");
+
+  // Ending a turn that has already moved on is a no-op, not an error
+  await endTurnOnce(roomCode, { type: "endTurn", playerId: uid, now: Date.now() }, turnStartTime);
+});
@@ -0,0 +1,26 @@
+/**
+ * Cloud Functions entry point.
+ * Game transitions are callable functions so the server owns turn state,
+ * the board and the card key. An optional scheduled sweep ends timed-out turns.
+ */
+
+import { initializeApp } from "firebase-admin/app";
+import { setGlobalOptions } from "firebase-functions/v2";
+import { FUNCTIONS_REGION } from "../../shared/constants";
+
+initializeApp();
+setGlobalOptions({ region: FUNCTIONS_REGION });
+
+export {
+  startGame,
+  rematch,
+  endGame,
+  resumeGame,
+  takeSeat,
+  giveClue,
+  confirmReveal,
+  challengeClue,
+  endTurn,
+} from "./game";
+
+export { sweepTurnTimers } from "./timers";
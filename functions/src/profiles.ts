@@ -0,0 +1,32 @@
+/**
+ * Lifetime stats, added to profiles/{uid} when a game ends.
+ * Only finished games count - a game the owner ends early doesn't.
+ */
+
+import { getDatabase } from "firebase-admin/database";
+import { gameResults, addGameResult } from "../../shared/profiles";
+import type { FirebaseProfileData, GameEngineState } from "../../shared/types";
+import { eventsWithUpdates, type RoomData } from "./room";
+
+export function profilePath(uid: string): string {
+  return `profiles/${uid}`;
+}
+
+/**
+ * Add a finished game to every seated player's profile.
+ * `updates` are the ones that ended the game, so the final events are
+ * read from there too; each profile is its own transaction so concurrent
+ * games don't lose counts.
+ */
+export async function recordGameResults(room: RoomData, next: GameEngineState, updates: Record<string, unknown>): Promise<void> {
+  const results = gameResults(next, eventsWithUpdates(room, updates));
+
+  await Promise.all(Object.entries(results).map(([uid, result]) =>
+    getDatabase().ref(profilePath(uid)).transaction((profile: FirebaseProfileData | null) => ({
+      ...addGameResult(profile, result),
+      name: next.players[uid].name,
+      avatar: next.players[uid].avatar,
+      updatedAt: Date.now(),
+    }))
+  ));
+}
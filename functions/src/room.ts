@@ -0,0 +1,162 @@
+/**
+ * Room helpers for the game engine functions.
+ * Functions run with Admin SDK privileges, so every check that the
+ * security rules can't express lives here.
+ */
+
+import { getDatabase, ServerValue } from "firebase-admin/database";
+import { HttpsError, type CallableRequest } from "firebase-functions/v2/https";
+import { applyAction, toRoomUpdates } from "../../shared/game-reducer";
+import { eventsForAction } from "../../shared/game-events";
+import { canTakeRoomLock, type RoomLock } from "../../shared/room-lock";
+import type {
+  FirebasePlayerData,
+  FirebaseRoomData,
+  FirebaseGameEvent,
+  GameEngineState,
+  GameAction,
+} from "../../shared/types";
+
+export type PlayerData = FirebasePlayerData;
+export type RoomData = FirebaseRoomData;
+
+/** Reject the call with a message the client can show as-is. */
+export function fail(message: string, code: "failed-precondition" | "permission-denied" | "not-found" | "invalid-argument" = "failed-precondition"): never {
+  throw new HttpsError(code, message);
+}
+
+/** The caller's uid - the only trusted player identity. */
+export function requireUid(request: CallableRequest): string {
+  const uid = request.auth?.uid;
+  if (!uid) fail("Not signed in", "permission-denied");
+  return uid;
+}
+
+/** Read a room code from the payload. Room codes are path segments, so keep them tame. */
+export function requireRoomCode(data: unknown): string {
+  const roomCode = (data as { roomCode?: unknown } | null)?.roomCode;
+  if (typeof roomCode !== "string" || !/^[A-Z0-9]{1,12}$/.test(roomCode)) {
+    fail("Invalid room code", "invalid-argument");
+  }
+  return roomCode;
+}
+
+export function roomPath(roomCode: string): string {
+  return `rooms/${roomCode}`;
+}
+
+export function roomKeyPath(roomCode: string): string {
+  return `roomKeys/${roomCode}`;
+}
+
+// Duet keys, one child per side so each player can only read their own
+export function roomDuetKeyPath(roomCode: string): string {
+  return `roomDuetKeys/${roomCode}`;
+}
+
+// The seed reproduces the key, so it stays out of the room until the game is over
+export function roomSeedPath(roomCode: string): string {
+  return `roomSeeds/${roomCode}`;
+}
+
+// Held while a move is applied; no client can read or write it
+export function roomLockPath(roomCode: string): string {
+  return `roomLocks/${roomCode}`;
+}
+
+const ROOM_LOCK_ATTEMPTS = 30;
+const ROOM_LOCK_RETRY_MS = 100;
+
+/**
+ * Run a move while holding the room's lock.
+ * Moves reduce from the room they load and write back a multi-path update,
+ * so two at once (two reveals, or a reveal and a timeout) would each
+ * overwrite the other's result. Under the lock they apply one at a time,
+ * each on the state the last one left. Load the room inside `move`.
+ */
+export async function withRoomLock<T>(roomCode: string, move: () => Promise<T>): Promise<T> {
+  const lockRef = getDatabase().ref(roomLockPath(roomCode));
+  const token = lockRef.push().key as string;
+
+  for (let attempt = 1; ; attempt++) {
+    const claim = await lockRef.transaction((lock: RoomLock | null) => {
+      const now = Date.now();
+      return canTakeRoomLock(lock, now) ? { token, at: now } : undefined;
+    });
+    if (claim.committed) break;
+    if (attempt >= ROOM_LOCK_ATTEMPTS) fail("The room is busy, try again");
+    await new Promise((resolve) => setTimeout(resolve, ROOM_LOCK_RETRY_MS));
+  }
+
+  try {
+    return await move();
+  } finally {
+    // Only release our own lock, in case it expired and was taken over
+    await lockRef.transaction((lock: RoomLock | null) => (lock?.token === token ? null : lock));
+  }
+}
+
+/** Load a room and its players, failing if the room is gone. */
+export async function loadRoom(roomCode: string): Promise<{
+  room: RoomData;
+  players: Record<string, PlayerData>;
+}> {
+  const snap = await getDatabase().ref(roomPath(roomCode)).get();
+  if (!snap.exists()) fail("Room not found", "not-found");
+  const room = snap.val() as RoomData;
+  return { room, players: room.players || {} };
+}
+
+export async function pushSystemMessage(roomCode: string, message: string): Promise<void> {
+  await getDatabase().ref(`${roomPath(roomCode)}/messages`).push({
+    playerId: null,
+    playerName: "System",
+    message,
+    timestamp: ServerValue.TIMESTAMP,
+    type: "system",
+  });
+}
+
+/** Multi-path updates appending events to the room's event log. */
+export function eventUpdates(roomCode: string, events: FirebaseGameEvent[]): Record<string, FirebaseGameEvent> {
+  const eventsRef = getDatabase().ref(`${roomPath(roomCode)}/events`);
+  const updates: Record<string, FirebaseGameEvent> = {};
+  events.forEach((event) => {
+    updates[`events/${eventsRef.push().key}`] = event;
+  });
+  return updates;
+}
+
+/** The room's event log with the events about to be written by `updates` appended. */
+export function eventsWithUpdates(room: RoomData, updates: Record<string, unknown>): FirebaseGameEvent[] {
+  return [
+    ...Object.values(room.events ?? {}),
+    ...Object.entries(updates).filter(([path]) => path.startsWith("events/")).map(([, event]) => event as FirebaseGameEvent),
+  ];
+}
+
+/**
+ * Apply a reducer action, turning rule violations into HttpsErrors.
+ * Returns the new state and the RTDB updates that produce it, including
+ * the events it appends to the log.
+ */
+export function reduce(
+  roomCode: string,
+  state: GameEngineState,
+  action: GameAction
+): { next: GameEngineState; updates: Record<string, unknown> } {
+  let next: GameEngineState;
+  try {
+    next = applyAction(state, action);
+  } catch (e) {
+    fail((e as Error).message);
+  }
+  const timestamp = "now" in action ? action.now : Date.now();
+  return {
+    next,
+    updates: {
+      ...toRoomUpdates(state, next),
+      ...eventUpdates(roomCode, eventsForAction(state, action, next, timestamp)),
+    },
+  };
+}
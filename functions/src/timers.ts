@@ -0,0 +1,57 @@
+/**
+ * Server-side turn timer.
+ * Timeouts normally come from whichever client is open when the clock runs
+ * out. This sweep ends expired turns centrally, so a room whose players all
+ * have the tab in the background still moves on. It only runs when the
+ * ENFORCE_TURN_TIMERS parameter is set.
+ */
+
+import { getDatabase } from "firebase-admin/database";
+import { logger } from "firebase-functions";
+import { defineBoolean } from "firebase-functions/params";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { toEngineState } from "../../shared/game-reducer";
+import { turnExpired } from "../../shared/turn-timer";
+import { TURN_DURATIONS } from "../../shared/constants";
+import { endTurnOnce } from "./game";
+import type { RoomData } from "./room";
+
+const enforceTurnTimers = defineBoolean("ENFORCE_TURN_TIMERS", {
+  default: false,
+  description: "End timed-out turns from the server instead of relying on an open client",
+});
+
+// No phase is shorter than this, so younger turns can't have run out yet
+const SHORTEST_PHASE_MS = Math.min(...TURN_DURATIONS) * 1000;
+
+/**
+ * End every turn whose clock, bank included, has run out by `now`.
+ * Returns the codes of the rooms whose turn it ended.
+ */
+export async function expireTurns(now: number): Promise<string[]> {
+  const snap = await getDatabase()
+    .ref("rooms")
+    .orderByChild("turnStartTime")
+    .startAt(0)
+    .endAt(now - SHORTEST_PHASE_MS)
+    .get();
+  const rooms = (snap.val() ?? {}) as Record<string, RoomData>;
+
+  const ended: string[] = [];
+  for (const [roomCode, room] of Object.entries(rooms)) {
+    const state = toEngineState(room);
+    if (!turnExpired(state, now)) continue;
+    try {
+      if (await endTurnOnce(roomCode, { type: "timeout", now }, state.turnStartTime)) ended.push(roomCode);
+    } catch (e) {
+      logger.warn(`Could not end the turn in room ${roomCode}`, e);
+    }
+  }
+  return ended;
+}
+
+export const sweepTurnTimers = onSchedule("every 1 minutes", async () => {
+  if (!enforceTurnTimers.value()) return;
+  const ended = await expireTurns(Date.now());
+  if (ended.length > 0) logger.info(`Ended ${ended.length} timed-out turn(s)`, { rooms: ended });
+});
@@ -6,17 +6,33 @@ import type {
   GameState,
   Player,
   ChatMessage,
+  GameEvent,
+  SeriesGame,
   RoomClosedReason,
   Card,
   WordPack,
+  WordPackSelection,
+  BoardLayout,
+  GameMode,
+  RoomRules,
+  LobbyTeam,
+  TeamCount,
   FirebaseBoardCard,
   FirebasePlayerData,
   FirebaseMessageData,
+  FirebaseGameEvent,
   FirebaseRoomData,
+  FirebaseRoomKey,
+  FirebaseSeriesGame,
 } from "@/shared/types";
+import { countCardsByTeam } from "@/shared/game-utils";
+import { teamCountOf } from "@/shared/teams";
+import { selectedWordPacks } from "@/shared/words";
+import { boardLayoutOf } from "@/shared/board-layout";
+import { roomRulesOf } from "@/shared/room-rules";
 
 // Re-export Firebase types for convenience
-export type { FirebaseBoardCard, FirebasePlayerData, FirebaseMessageData, FirebaseRoomData };
+export type { FirebaseBoardCard, FirebasePlayerData, FirebaseMessageData, FirebaseGameEvent, FirebaseRoomData, FirebaseRoomKey };
 
 // Alias for shorter names in this module
 export type BoardCard = FirebaseBoardCard;
@@ -29,11 +45,15 @@ export type RoomData = FirebaseRoomData;
 /**
  * Transform Firebase room data into client GameState.
  * Handles the conversion from Firebase's Record-based votes to array-based cardVotes.
+ * The secret key is merged in only when the caller is allowed to read it;
+ * otherwise unrevealed cards keep an undefined team. In Duet roomKey is the
+ * player's own side of the key.
  */
 export function toGameState(
   roomCode: string,
   roomData: FirebaseRoomData | null,
-  players: Player[]
+  players: Player[],
+  roomKey: FirebaseRoomKey | null = null
 ): GameState | null {
   if (!roomData) return null;
   const boardData: FirebaseBoardCard[] = roomData.board || [];
@@ -48,27 +68,49 @@ export function toGameState(
   return {
     roomCode,
     players,
-    board: boardData.map((c) => ({
+    board: boardData.map((c, i) => ({
       word: c.word,
-      team: c.team as Card["team"],
+      team: (c.team || roomKey?.[i] || undefined) as Card["team"],
       revealed: c.revealed || false,
       revealedBy: c.revealedBy || undefined,
+      neutralFor: c.neutralFor || undefined,
+      clueId: c.clueId ?? undefined,
     })),
+    cardCounts: roomData.cardCounts ?? countCardsByTeam(roomKey ?? []),
     ownerId: roomData.ownerId || null,
     cardVotes,
     currentTeam: roomData.currentTeam || "red",
     startingTeam: roomData.startingTeam || "red",
-    wordPack: roomData.wordPack || "classic",
+    gameMode: roomData.gameMode || "classic",
+    duetTurnsLeft: roomData.duetTurnsLeft ?? null,
+    duetResult: roomData.duetResult || null,
+    teamCount: teamCountOf(roomData),
+    eliminatedTeams: roomData.eliminatedTeams || [],
+    clues: roomData.clues || [],
+    wordPacks: selectedWordPacks(roomData),
+    customWords: roomData.customWords || [],
+    boardLayout: boardLayoutOf(roomData),
+    seed: roomData.seed || null,
+    nextSeed: roomData.nextSeed || null,
+    locked: roomData.locked || false,
+    hasPassword: roomData.hasPassword || false,
+    mutedIds: Object.keys(roomData.muted || {}),
+    rules: roomRulesOf(roomData),
     currentClue: roomData.currentClue || null,
     remainingGuesses: roomData.remainingGuesses ?? null,
     turnStartTime: roomData.turnStartTime || null,
     turnDuration: roomData.turnDuration || 60,
+    clueDuration: roomData.clueDuration || roomData.turnDuration || 60,
+    timeBank: roomData.timeBank || 0,
+    timeBanks: roomData.timeBanks || {},
     gameStarted: roomData.gameStarted || false,
     gameOver: roomData.gameOver || false,
     winner: roomData.winner || null,
     paused: roomData.paused || false,
     pauseReason: roomData.pauseReason || null,
     pausedForTeam: roomData.pausedForTeam || null,
+    events: toEvents(roomData.events ?? null),
+    series: toSeries(roomData.series ?? null),
   };
 }
 
@@ -85,6 +127,7 @@ export function toPlayers(playersData: Record<string, FirebasePlayerData> | null
     role: p.role || null,
     connected: p.connected,
     lastSeen: p.lastSeen ?? null,
+    spectating: p.spectating || false,
   }));
 }
 
@@ -101,9 +144,38 @@ export function toMessages(messagesData: Record<string, FirebaseMessageData> | n
       message: m.message,
       timestamp: m.timestamp || Date.now(),
       type: m.type,
+      clueId: m.clueId ?? undefined,
     }))
     .sort((a, b) => a.timestamp - b.timestamp);
 }
 
+/**
+ * Transform Firebase event log into client GameEvent array.
+ * Push ids sort chronologically, so key order is event order.
+ */
+export function toEvents(eventsData: Record<string, FirebaseGameEvent> | null): GameEvent[] {
+  if (!eventsData) return [];
+  return Object.keys(eventsData)
+    .sort()
+    .map((id) => {
+      const e = eventsData[id];
+      return {
+        ...e,
+        id,
+        playerId: e.playerId || undefined,
+      };
+    });
+}
+
+/**
+ * Transform Firebase series data into client SeriesGame array, oldest first.
+ */
+export function toSeries(seriesData: Record<string, FirebaseSeriesGame> | null): SeriesGame[] {
+  if (!seriesData) return [];
+  return Object.keys(seriesData)
+    .sort()
+    .map((id) => ({ ...seriesData[id], id, players: seriesData[id].players || {} }));
+}
+
 // Re-export client types for convenience
-export type { GameState, Player, ChatMessage, RoomClosedReason, WordPack };
+export type { GameState, Player, ChatMessage, GameEvent, RoomClosedReason, WordPack, WordPackSelection, BoardLayout, GameMode, RoomRules, LobbyTeam, TeamCount };
@@ -6,11 +6,11 @@
 import { useCallback } from "react";
 import * as actions from "@/lib/rtdb-actions";
 import { useError } from "@/contexts/ErrorContext";
-import type { WordPack } from "./types";
+import type { BoardLayout, GameMode, LobbyTeam, RoomRules, TeamCount, WordPack, WordPackSelection } from "./types";
 
 export interface UseGameActionsReturn {
   handleStartGame: () => void;
-  handleSetLobbyRole: (team: "red" | "blue" | null, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
+  handleSetLobbyRole: (team: LobbyTeam, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
   handleRandomizeTeams: () => void;
   handleRematch: () => void;
   handleEndGame: () => void;
@@ -18,23 +18,39 @@ export interface UseGameActionsReturn {
   handleVoteCard: (index: number) => void;
   handleConfirmReveal: (index: number) => void;
   handleEndTurn: () => void;
+  handleTurnTimeout: (lastAttempt: boolean) => Promise<void>;
   handleGiveClue: (word: string, count: number) => void;
+  handleChallengeClue: () => void;
   handleTurnDurationChange: (duration: number) => void;
-  handleWordPackChange: (pack: WordPack) => void;
+  handleClueDurationChange: (duration: number) => void;
+  handleTimeBankChange: (seconds: number) => void;
+  handleWordPackChange: (packIds: WordPack[], weights: WordPackSelection) => void;
+  handleCustomWordsChange: (words: string[]) => void;
+  handleBoardLayoutChange: (layout: BoardLayout) => void;
+  handleGameModeChange: (mode: GameMode) => void;
+  handleTeamCountChange: (count: TeamCount) => void;
+  handleRoomRulesChange: (rules: RoomRules) => void;
+  handleNextSeedChange: (seed: string | null) => void;
+  handleResetSeries: () => void;
+  handleRoomLockedChange: (locked: boolean) => void;
+  handleRoomPasswordChange: (password: string | null) => Promise<void>;
+  handleRemovePlayer: (playerId: string, ban: boolean) => void;
+  handlePlayerMutedChange: (playerId: string, muted: boolean) => void;
 }
 
 export function useGameActions(
   roomCode: string,
-  uid: string | null
+  uid: string | null,
+  turnStartTime: number | null
 ): UseGameActionsReturn {
   const { showError } = useError();
 
   const handleStartGame = useCallback(() => {
-    if (uid) actions.startGame(roomCode, uid).catch((e) => showError(e.message));
+    if (uid) actions.startGame(roomCode).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
   const handleSetLobbyRole = useCallback((
-    t: "red" | "blue" | null,
+    t: LobbyTeam,
     r: "clueGiver" | "guesser" | null,
     targetPlayerId?: string
   ) => {
@@ -49,15 +65,15 @@ export function useGameActions(
   }, [roomCode, uid, showError]);
 
   const handleRematch = useCallback(() => {
-    if (uid) actions.rematch(roomCode, uid).catch((e) => showError(e.message));
+    if (uid) actions.rematch(roomCode).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
   const handleEndGame = useCallback(() => {
-    if (uid) actions.endGame(roomCode, uid).catch((e) => showError(e.message));
+    if (uid) actions.endGame(roomCode).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
   const handleResumeGame = useCallback(() => {
-    if (uid) actions.resumeGame(roomCode, uid).catch((e) => showError(e.message));
+    if (uid) actions.resumeGame(roomCode).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
   const handleVoteCard = useCallback((i: number) => {
@@ -65,23 +81,92 @@ export function useGameActions(
   }, [roomCode, uid, showError]);
 
   const handleConfirmReveal = useCallback((i: number) => {
-    if (uid) actions.confirmReveal(roomCode, uid, i).catch((e) => showError(e.message));
+    if (uid) actions.confirmReveal(roomCode, i).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
+  // Names the turn it ends, so a pass and a timeout racing each other only end it once
   const handleEndTurn = useCallback(() => {
-    actions.endTurn(roomCode).catch((e) => showError(e.message));
-  }, [roomCode, showError]);
+    actions.endTurn(roomCode, turnStartTime).catch((e) => showError(e.message));
+  }, [roomCode, turnStartTime, showError]);
+
+  // Fired by the turn timer, which retries a refused timeout (this clock may
+  // run ahead of the server's), so only the last attempt reports its error
+  const handleTurnTimeout = useCallback(async (lastAttempt: boolean) => {
+    try {
+      await actions.endTurn(roomCode, turnStartTime);
+    } catch (e) {
+      if (lastAttempt) showError((e as Error).message);
+      throw e;
+    }
+  }, [roomCode, turnStartTime, showError]);
 
   const handleGiveClue = useCallback((w: string, c: number) => {
-    if (uid) actions.giveClue(roomCode, uid, w, c).catch((e) => showError(e.message));
+    if (uid) actions.giveClue(roomCode, w, c).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleChallengeClue = useCallback(() => {
+    if (uid) actions.challengeClue(roomCode).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
   const handleTurnDurationChange = useCallback((d: number) => {
     if (uid) actions.setTurnDuration(roomCode, uid, d).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
-  const handleWordPackChange = useCallback((pack: WordPack) => {
-    if (uid) actions.setWordPack(roomCode, uid, pack).catch((e) => showError(e.message));
+  const handleClueDurationChange = useCallback((d: number) => {
+    if (uid) actions.setClueDuration(roomCode, uid, d).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleTimeBankChange = useCallback((seconds: number) => {
+    if (uid) actions.setTimeBank(roomCode, uid, seconds).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleWordPackChange = useCallback((packIds: WordPack[], weights: WordPackSelection) => {
+    if (uid) actions.setWordPack(roomCode, uid, packIds, weights).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleGameModeChange = useCallback((mode: GameMode) => {
+    if (uid) actions.setGameMode(roomCode, uid, mode).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleTeamCountChange = useCallback((count: TeamCount) => {
+    if (uid) actions.setTeamCount(roomCode, uid, count).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleRoomRulesChange = useCallback((rules: RoomRules) => {
+    if (uid) actions.setRoomRules(roomCode, uid, rules).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleBoardLayoutChange = useCallback((layout: BoardLayout) => {
+    if (uid) actions.setBoardLayout(roomCode, uid, layout).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleCustomWordsChange = useCallback((words: string[]) => {
+    if (uid) actions.setCustomWords(roomCode, uid, words).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleNextSeedChange = useCallback((seed: string | null) => {
+    if (uid) actions.setNextSeed(roomCode, uid, seed).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleResetSeries = useCallback(() => {
+    if (uid) actions.resetSeries(roomCode, uid).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handleRoomLockedChange = useCallback((locked: boolean) => {
+    if (uid) actions.setRoomLocked(roomCode, uid, locked).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  // Rejects instead of showing a toast, so the password form can keep its input on error
+  const handleRoomPasswordChange = useCallback(async (password: string | null) => {
+    if (uid) await actions.setRoomPassword(roomCode, uid, password);
+  }, [roomCode, uid]);
+
+  const handleRemovePlayer = useCallback((playerId: string, ban: boolean) => {
+    if (uid) actions.removePlayer(roomCode, uid, playerId, ban).catch((e) => showError(e.message));
+  }, [roomCode, uid, showError]);
+
+  const handlePlayerMutedChange = useCallback((playerId: string, muted: boolean) => {
+    if (uid) actions.setPlayerMuted(roomCode, uid, playerId, muted).catch((e) => showError(e.message));
   }, [roomCode, uid, showError]);
 
   return {
@@ -94,8 +179,23 @@ export function useGameActions(
     handleVoteCard,
     handleConfirmReveal,
     handleEndTurn,
+    handleTurnTimeout,
     handleGiveClue,
+    handleChallengeClue,
     handleTurnDurationChange,
+    handleClueDurationChange,
+    handleTimeBankChange,
     handleWordPackChange,
+    handleCustomWordsChange,
+    handleBoardLayoutChange,
+    handleGameModeChange,
+    handleTeamCountChange,
+    handleRoomRulesChange,
+    handleNextSeedChange,
+    handleResetSeries,
+    handleRoomLockedChange,
+    handleRoomPasswordChange,
+    handleRemovePlayer,
+    handlePlayerMutedChange,
   };
 }
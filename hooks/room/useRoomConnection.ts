@@ -9,7 +9,7 @@ import { ref, onValue, query, orderByChild, limitToLast, off, DatabaseReference,
 import { getDatabase } from "@/lib/firebase";
 import { useAuth } from "@/contexts/AuthContext";
 import * as actions from "@/lib/rtdb-actions";
-import { toGameState, toPlayers, toMessages, PlayerData, GameState, Player, ChatMessage, RoomClosedReason, FirebaseRoomData } from "./types";
+import { toGameState, toPlayers, toMessages, PlayerData, GameState, Player, ChatMessage, RoomClosedReason, FirebaseRoomData, FirebaseRoomKey } from "./types";
 
 export interface UseRoomConnectionReturn {
   gameState: GameState | null;
@@ -27,7 +27,9 @@ export interface UseRoomConnectionReturn {
 export function useRoomConnection(
   roomCode: string,
   playerName: string,
-  playerAvatar: string
+  playerAvatar: string,
+  password?: string, // For a password-protected room; changing it retries the join
+  spectate = false // Joined through a ?spectate=1 link
 ): UseRoomConnectionReturn {
   const { uid, isLoading: authLoading } = useAuth();
 
@@ -42,6 +44,8 @@ export function useRoomConnection(
 
   const roomDataRef = useRef<FirebaseRoomData | null>(null);
   const playersDataRef = useRef<Record<string, PlayerData> | null>(null);
+  const roomKeyRef = useRef<FirebaseRoomKey | null>(null);
+  const rebuildRef = useRef<(() => void) | null>(null);
   const disconnectRefRef = useRef<DatabaseReference | null>(null);
   const wasConnectedRef = useRef<boolean | null>(null);
   const leaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -79,120 +83,143 @@ export function useRoomConnection(
     const connectedRef = ref(db, ".info/connected");
 
     let roomExists = false;
+    let hasJoined = false;
 
     const rebuild = () => {
       if (isCleanedUp) return;
       const playersList = toPlayers(playersDataRef.current);
       setPlayers(playersList);
       setCurrentPlayer(playersList.find((p) => p.id === playerId) || null);
-      setGameState(roomDataRef.current ? toGameState(roomCode, roomDataRef.current, playersList) : null);
+      setGameState(roomDataRef.current ? toGameState(roomCode, roomDataRef.current, playersList, roomKeyRef.current) : null);
     };
+    rebuildRef.current = rebuild;
 
-    // Room listener
-    const unsubRoom = onValue(roomRef, (snap) => {
-      if (isCleanedUp) return;
-      if (!snap.exists()) {
-        if (roomExists) {
-          setRoomClosedReason("allPlayersLeft");
-          roomDataRef.current = null;
-          setGameState(null);
-        }
-        return;
-      }
-      roomExists = true;
-      roomDataRef.current = snap.val();
-      rebuild();
-    }, (err) => {
-      if (isCleanedUp) return;
-      setConnectionError(err.message);
-      setIsConnecting(false);
-    });
-
-    // Players listener - also updates onDisconnect behavior based on player count
     let lastConnectedCount = -1;
     let latestConnectedCount = 0; // Persists across callbacks for timeout to use
     let disconnectBehaviorTimeout: NodeJS.Timeout | null = null;
-    const unsubPlayers = onValue(playersRef, (snap) => {
-      if (isCleanedUp) return;
-      const data = snap.val() as Record<string, PlayerData> | null;
-      playersDataRef.current = data;
-      
-      // connected !== false treats undefined as connected (backwards compatible)
-      const connected = data
-        ? Object.values(data).filter((p) => p.connected !== false).length
-        : 0;
-      latestConnectedCount = connected; // Always update the latest value
-      setConnectedPlayerCount(connected);
-      rebuild();
-      
-      // Debounce updateDisconnectBehavior to avoid race conditions
-      // When joining, Firebase may fire multiple times with partial data
-      if (connected !== lastConnectedCount && playerId) {
-        lastConnectedCount = connected;
-        
-        // Cancel any pending call - only the latest count matters
-        if (disconnectBehaviorTimeout) {
-          clearTimeout(disconnectBehaviorTimeout);
+
+    // The rules only let members read the room, so listen once we've joined
+    const subscribe = () => {
+      // Room listener
+      const unsubRoom = onValue(roomRef, (snap) => {
+        if (isCleanedUp) return;
+        if (!snap.exists()) {
+          if (roomExists) {
+            setRoomClosedReason("allPlayersLeft");
+            roomDataRef.current = null;
+            setGameState(null);
+          }
+          return;
         }
-        
-        // Delay to let Firebase sync settle, use latestConnectedCount (not connected)
-        // so the timeout uses the most recent value, not the stale value from schedule time
-        disconnectBehaviorTimeout = setTimeout(() => {
-          disconnectBehaviorTimeout = null;
-          // Use latestConnectedCount which has the value from the most recent callback
-          actions.updateDisconnectBehavior(roomCode, playerId, latestConnectedCount).catch((err) => {
-            // Log but don't show to user - this is a background operation
-            console.warn("[Room] Failed to update disconnect behavior:", err.message);
+        roomExists = true;
+        const roomData = snap.val() as FirebaseRoomData;
+        roomDataRef.current = roomData;
+        // Gone from the room after joining, with a kick or ban on record: the owner removed us
+        if (hasJoined && !roomData.players?.[playerId]) {
+          if (roomData.bans?.[playerId]) setRoomClosedReason("banned");
+          else if (roomData.kicks?.[playerId]) setRoomClosedReason("kicked");
+        }
+        rebuild();
+      }, (err) => {
+        if (isCleanedUp) return;
+        // Removed from the room: the rules stop our reads, so look up our own kick or ban
+        if (hasJoined) {
+          actions.getRemovalReason(roomCode, playerId).then((reason) => {
+            if (isCleanedUp) return;
+            if (reason) setRoomClosedReason(reason);
+            else setConnectionError(err.message);
+          }).catch(() => {
+            if (!isCleanedUp) setConnectionError(err.message);
           });
-        }, 200); // Increased to 200ms for more settling time
+          return;
+        }
+        setConnectionError(err.message);
+        setIsConnecting(false);
+      });
+
+      // Players listener - also updates onDisconnect behavior based on player count
+      const unsubPlayers = onValue(playersRef, (snap) => {
+        if (isCleanedUp) return;
+        const data = snap.val() as Record<string, PlayerData> | null;
+        playersDataRef.current = data;
+        
+        // connected !== false treats undefined as connected (backwards compatible)
+        const connected = data
+          ? Object.values(data).filter((p) => p.connected !== false).length
+          : 0;
+        latestConnectedCount = connected; // Always update the latest value
+        setConnectedPlayerCount(connected);
+        rebuild();
         
-        // Fix race condition: Only try to reassign owner if this player could become owner
-        // (i.e., they are the first connected player alphabetically by ID)
-        if (data) {
-          const connectedPlayerIds = Object.entries(data)
-            .filter(([, p]) => p.connected !== false)
-            .map(([id]) => id)
-            .sort();
+        // Debounce updateDisconnectBehavior to avoid race conditions
+        // When joining, Firebase may fire multiple times with partial data
+        if (connected !== lastConnectedCount && playerId) {
+          lastConnectedCount = connected;
           
-          // Only the first connected player (by ID order) should attempt reassignment
-          if (connectedPlayerIds[0] === playerId) {
-            // Cancel any pending reassign timeout since we're checking now
-            if (ownerReassignTimeoutRef.current) {
-              clearTimeout(ownerReassignTimeoutRef.current);
-              ownerReassignTimeoutRef.current = null;
-            }
-            
-            actions.reassignOwnerIfNeeded(roomCode).then((result) => {
-              if (isCleanedUp) return;
-              
-              // If owner is disconnected but within grace period, schedule a re-check
-              if (result.withinGracePeriod && result.gracePeriodRemainingMs > 0) {
-                // Add a small buffer to ensure we're past the grace period
-                const delay = result.gracePeriodRemainingMs + 1000;
-                ownerReassignTimeoutRef.current = setTimeout(() => {
-                  if (isCleanedUp) return;
-                  ownerReassignTimeoutRef.current = null;
-                  // Re-check - this time it should transfer if owner is still disconnected
-                  actions.reassignOwnerIfNeeded(roomCode).catch((err) => {
-                    console.warn("[Room] Failed to reassign owner after grace period:", err.message);
-                  });
-                }, delay);
-              }
-            }).catch((err) => {
+          // Cancel any pending call - only the latest count matters
+          if (disconnectBehaviorTimeout) {
+            clearTimeout(disconnectBehaviorTimeout);
+          }
+          
+          // Delay to let Firebase sync settle, use latestConnectedCount (not connected)
+          // so the timeout uses the most recent value, not the stale value from schedule time
+          disconnectBehaviorTimeout = setTimeout(() => {
+            disconnectBehaviorTimeout = null;
+            // Use latestConnectedCount which has the value from the most recent callback
+            actions.updateDisconnectBehavior(roomCode, playerId, latestConnectedCount).catch((err) => {
               // Log but don't show to user - this is a background operation
-              console.warn("[Room] Failed to reassign owner:", err.message);
+              console.warn("[Room] Failed to update disconnect behavior:", err.message);
             });
+          }, 200); // Increased to 200ms for more settling time
+          
+          // Fix race condition: Only try to reassign owner if this player could become owner
+          // (i.e., they are the first connected player alphabetically by ID)
+          if (data) {
+            const connectedPlayerIds = Object.entries(data)
+              .filter(([, p]) => p.connected !== false)
+              .map(([id]) => id)
+              .sort();
+            
+            // Only the first connected player (by ID order) should attempt reassignment
+            if (connectedPlayerIds[0] === playerId) {
+              // Cancel any pending reassign timeout since we're checking now
+              if (ownerReassignTimeoutRef.current) {
+                clearTimeout(ownerReassignTimeoutRef.current);
+                ownerReassignTimeoutRef.current = null;
+              }
+              
+              actions.reassignOwnerIfNeeded(roomCode).then((result) => {
+                if (isCleanedUp) return;
+                
+                // If owner is disconnected but within grace period, schedule a re-check
+                if (result.withinGracePeriod && result.gracePeriodRemainingMs > 0) {
+                  // Add a small buffer to ensure we're past the grace period
+                  const delay = result.gracePeriodRemainingMs + 1000;
+                  ownerReassignTimeoutRef.current = setTimeout(() => {
+                    if (isCleanedUp) return;
+                    ownerReassignTimeoutRef.current = null;
+                    // Re-check - this time it should transfer if owner is still disconnected
+                    actions.reassignOwnerIfNeeded(roomCode).catch((err) => {
+                      console.warn("[Room] Failed to reassign owner after grace period:", err.message);
+                    });
+                  }, delay);
+                }
+              }).catch((err) => {
+                // Log but don't show to user - this is a background operation
+                console.warn("[Room] Failed to reassign owner:", err.message);
+              });
+            }
           }
         }
-      }
-    });
+      });
 
-    // Messages listener (limited to last 100)
-    const messagesQuery = query(messagesRef, orderByChild("timestamp"), limitToLast(100));
-    const unsubMessages = onValue(messagesQuery, (snap) => {
-      if (isCleanedUp) return;
-      setMessages(toMessages(snap.val()));
-    });
+      // Messages listener (limited to last 100)
+      const messagesQuery = query(messagesRef, orderByChild("timestamp"), limitToLast(100));
+      const unsubMessages = onValue(messagesQuery, (snap) => {
+        if (isCleanedUp) return;
+        setMessages(toMessages(snap.val()));
+      });
+    };
 
     // Connection listener - restore presence after reconnection
     // When Firebase connection drops, onDisconnect marks us as disconnected.
@@ -236,10 +263,12 @@ export function useRoomConnection(
     });
 
     // Join room and set up onDisconnect
-    actions.joinRoom(roomCode, playerId, playerName, playerAvatar)
+    actions.joinRoom(roomCode, playerId, playerName, playerAvatar, password, spectate)
       .then(({ disconnectRef }) => {
         if (isCleanedUp) return;
+        hasJoined = true;
         disconnectRefRef.current = disconnectRef;
+        subscribe();
         setIsConnecting(false);
       })
       .catch((e) => {
@@ -284,7 +313,40 @@ export function useRoomConnection(
         leaveTimeoutRef.current = null;
       }, 200);
     };
-  }, [roomCode, playerName, playerAvatar, uid, authLoading]);
+  }, [roomCode, playerName, playerAvatar, password, spectate, uid, authLoading]);
+
+  // Key listener: only clue givers (and the owner after game over) may read
+  // card ownership. Subscribing as anyone else would be rejected by the rules.
+  // In Duet each seated player reads their own side's key instead.
+  const duetSide = gameState?.gameMode === "duet" && (currentPlayer?.team === "red" || currentPlayer?.team === "blue")
+    ? currentPlayer.team
+    : null;
+  const keyPath = duetSide
+    ? `roomDuetKeys/${roomCode}/${duetSide}`
+    : gameState?.gameMode !== "duet" && (currentPlayer?.role === "clueGiver" ||
+      (Boolean(uid) && gameState?.ownerId === uid && Boolean(gameState?.gameOver)))
+      ? `roomKeys/${roomCode}`
+      : null;
+
+  useEffect(() => {
+    if (!keyPath) return;
+    const db = getDatabase();
+    if (!db) return;
+
+    const keyRef = ref(db, keyPath);
+    const unsubKey = onValue(keyRef, (snap) => {
+      roomKeyRef.current = snap.val() as FirebaseRoomKey | null;
+      rebuildRef.current?.();
+    }, (err) => {
+      console.warn("[Room] Failed to read card key:", err.message);
+    });
+
+    return () => {
+      unsubKey();
+      roomKeyRef.current = null;
+      rebuildRef.current?.();
+    };
+  }, [keyPath]);
 
   return {
     gameState,
@@ -0,0 +1,34 @@
+import { useState, useEffect, useRef } from "react";
+
+/**
+ * Show each change to a value delayMs after it happens (0 = live).
+ * Every intermediate value is shown in turn, not just the latest.
+ * Changing the delay jumps to the current value and drops anything pending.
+ */
+export function useDelayedValue<T>(value: T, delayMs: number): T {
+  const [delayed, setDelayed] = useState(value);
+  const latestRef = useRef(value);
+  const timeoutsRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    latestRef.current = value;
+    if (delayMs <= 0) return;
+    const timeouts = timeoutsRef.current;
+    const timeout = setTimeout(() => {
+      timeouts.delete(timeout);
+      setDelayed(value);
+    }, delayMs);
+    timeouts.add(timeout);
+  }, [value, delayMs]);
+
+  useEffect(() => {
+    const timeouts = timeoutsRef.current;
+    setDelayed(latestRef.current);
+    return () => {
+      timeouts.forEach(clearTimeout);
+      timeouts.clear();
+    };
+  }, [delayMs]);
+
+  return delayMs > 0 ? delayed : value;
+}
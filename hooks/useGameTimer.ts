@@ -1,51 +1,99 @@
 import { useEffect, useState, useRef } from "react";
-import type { GameState } from "@/shared/types";
+import type { GameState, PlayingTeam } from "@/shared/types";
+import { readClock, turnPhase, type TurnPhase } from "@/shared/turn-timer";
+import { TURN_TIMEOUT_SKEW_MS } from "@/shared/constants";
+
+// How often a refused timeout is tried, TURN_TIMEOUT_SKEW_MS apart
+const TIMEOUT_ATTEMPTS = 5;
+
+/** The clock counting down right now: a phase clock, or the team's bank once the phase is over */
+export type ActiveClock = TurnPhase | "bank";
 
 export interface UseGameTimerReturn {
+  /** Seconds left on the active clock; null when no turn is running or the room plays untimed */
   timeRemaining: number | null;
+  /** Seconds since the phase started (the clue restarts it); counts even when untimed */
+  elapsed: number | null;
+  /** Which clock timeRemaining belongs to */
+  activeClock: ActiveClock | null;
+  /** Seconds left in the current team's bank, null without one */
+  bankRemaining: number | null;
 }
 
 export function useGameTimer(
   gameState: GameState | null,
-  onTimeout: () => void,
+  onTimeout: (lastAttempt: boolean) => Promise<void>,
   options?: { shouldTriggerTimeout?: boolean }
 ): UseGameTimerReturn {
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState<number | null>(null);
+  const [activeClock, setActiveClock] = useState<ActiveClock | null>(null);
+  const [bankRemaining, setBankRemaining] = useState<number | null>(null);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const timeoutCalledForTurnRef = useRef<number | null>(null);
+  // The timeout fired for the current turn: how often, and whether it can be tried again
+  const timeoutRef = useRef<{ turn: number; attempts: number; failed: boolean; retryAt: number } | null>(null);
   const shouldTriggerTimeout = options?.shouldTriggerTimeout ?? true;
 
+  // Primitives for the effect below, so a fresh snapshot of the same turn doesn't restart it
+  const phase = gameState ? turnPhase(gameState) : null;
+  const bankMs = gameState?.timeBanks[gameState.currentTeam as PlayingTeam];
+
   useEffect(() => {
     if (timerIntervalRef.current) {
       clearInterval(timerIntervalRef.current);
     }
 
+    const clear = () => {
+      setTimeRemaining(null);
+      setElapsed(null);
+      setActiveClock(null);
+      setBankRemaining(null);
+    };
+
     // Don't run timer when game is paused
     // Game over takes priority - always clear timer
     if (gameState?.gameOver) {
-      setTimeRemaining(null);
+      clear();
       return;
     }
+    const timed = gameState?.rules.timer ?? true;
 
     if (gameState?.gameStarted && gameState.turnStartTime && !gameState.paused) {
-      // Reset the timeout flag when a new turn starts
-      if (timeoutCalledForTurnRef.current !== gameState.turnStartTime) {
-        timeoutCalledForTurnRef.current = null;
+      // Reset the timeout attempts when a new turn starts
+      const turn = gameState.turnStartTime;
+      if (timeoutRef.current?.turn !== turn) {
+        timeoutRef.current = null;
       }
 
       const updateTimer = () => {
-        const elapsed = Math.floor((Date.now() - gameState.turnStartTime!) / 1000);
-        const remaining = Math.max(0, gameState.turnDuration - elapsed);
-        setTimeRemaining(remaining);
+        const clock = readClock(gameState, Date.now());
+        if (!clock) return;
+        setElapsed(clock.elapsed);
+        if (!timed) {
+          setTimeRemaining(null);
+          setActiveClock(null);
+          setBankRemaining(null);
+          return;
+        }
+        // The phase clock runs first; a team with time banked then draws on it
+        const inBank = clock.phaseLeft === 0 && !!clock.bankLeft;
+        setTimeRemaining(inBank ? clock.bankLeft : clock.phaseLeft);
+        setActiveClock(inBank ? "bank" : clock.phase);
+        setBankRemaining(clock.bankLeft);
         
-        // Only call onTimeout once per turn
-        if (
-          remaining === 0 &&
-          shouldTriggerTimeout &&
-          timeoutCalledForTurnRef.current !== gameState.turnStartTime
-        ) {
-          timeoutCalledForTurnRef.current = gameState.turnStartTime;
-          onTimeout();
+        // Call onTimeout once per turn. The server judges the deadline by its
+        // own clock and refuses a call from a clock running ahead, so a refused
+        // call is tried again a little later. A turn that already ended is
+        // no error: the server just leaves it be.
+        const last = timeoutRef.current;
+        const canTry = !last || (last.failed && last.attempts < TIMEOUT_ATTEMPTS && Date.now() >= last.retryAt);
+        if (clock.expired && shouldTriggerTimeout && canTry) {
+          const attempt = { turn, attempts: (last?.attempts ?? 0) + 1, failed: false, retryAt: 0 };
+          timeoutRef.current = attempt;
+          onTimeout(attempt.attempts === TIMEOUT_ATTEMPTS).catch(() => {
+            attempt.failed = true;
+            attempt.retryAt = Date.now() + TURN_TIMEOUT_SKEW_MS;
+          });
         }
       };
 
@@ -54,7 +102,7 @@ export function useGameTimer(
     } else if (gameState?.paused) {
       // Keep showing current time when paused (don't reset to null)
     } else {
-      setTimeRemaining(null);
+      clear();
     }
 
     return () => {
@@ -65,6 +113,10 @@ export function useGameTimer(
   }, [
     gameState?.turnStartTime,
     gameState?.turnDuration,
+    gameState?.clueDuration,
+    phase,
+    bankMs,
+    gameState?.rules.timer,
     gameState?.gameStarted,
     gameState?.gameOver,
     gameState?.paused,
@@ -72,5 +124,5 @@ export function useGameTimer(
     shouldTriggerTimeout,
   ]);
 
-  return { timeRemaining };
+  return { timeRemaining, elapsed, activeClock, bankRemaining };
 }
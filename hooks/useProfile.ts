@@ -0,0 +1,32 @@
+/**
+ * Hook for the signed-in player's lifetime stats under profiles/{uid}.
+ * Returns null until the first finished game creates the profile.
+ */
+
+import { useState, useEffect } from "react";
+import { ref, onValue } from "firebase/database";
+import { getDatabase } from "@/lib/firebase";
+import type { FirebaseProfileData } from "@/shared/types";
+
+export function useProfile(uid: string | null): { profile: FirebaseProfileData | null; isLoading: boolean } {
+  const [profile, setProfile] = useState<FirebaseProfileData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const db = getDatabase();
+    if (!uid) return;
+    if (!db) {
+      setIsLoading(false);
+      return;
+    }
+
+    const unsubscribe = onValue(ref(db, `profiles/${uid}`), (snap) => {
+      setProfile(snap.val() as FirebaseProfileData | null);
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  return { profile, isLoading };
+}
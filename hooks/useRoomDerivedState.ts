@@ -6,20 +6,27 @@
 import { useMemo } from "react";
 import type { GameState, Player } from "@/shared/types";
 import { getRequiredVotes } from "@/shared/game-utils";
+import { roleThisTurn } from "@/shared/duet";
+import { canClueGiverChat } from "@/shared/room-rules";
+import { teamColors } from "@/components/team-colors";
 
 export interface UseRoomDerivedStateReturn {
-  /** True if current player is a guesser on the team whose turn it is */
+  /** True if current player is guessing this turn (a guesser on the current team, or the off-turn seat in Duet) */
   isMyTurn: boolean;
   /** True if current player is the room owner */
   isRoomOwner: boolean;
   /** True if current player can vote on cards (guesser, has clue, has guesses, not paused) */
   canVote: boolean;
-  /** True if current player can give a clue (clue giver, their turn, no current clue) */
+  /** True if current player can give a clue (clue giver this turn, no current clue) */
   canGiveClue: boolean;
-  /** Number of guessers on the current team */
+  /** True if current player may challenge the current clue (another team's clue giver, challenges on, not yet challenged) */
+  canChallengeClue: boolean;
+  /** Number of connected players guessing this turn */
   guesserCount: number;
   /** Number of votes required to reveal a card */
   requiredVotes: number;
+  /** False for a clue giver while the room's rules keep clue givers out of chat */
+  canChat: boolean;
   /** CSS class for turn-based glow effect */
   turnGlowClass: string;
 }
@@ -33,8 +40,8 @@ export function useRoomDerivedState(
     return Boolean(
       gameState?.gameStarted &&
       !gameState?.gameOver &&
-      currentPlayer?.team === gameState.currentTeam &&
-      currentPlayer?.role === "guesser"
+      currentPlayer &&
+      roleThisTurn(currentPlayer, gameState.currentTeam, gameState.gameMode) === "guesser"
     );
   }, [gameState, currentPlayer]);
 
@@ -57,29 +64,50 @@ export function useRoomDerivedState(
       gameState?.gameStarted &&
       !gameState?.gameOver &&
       !gameState?.paused &&
-      currentPlayer?.role === "clueGiver" &&
-      currentPlayer?.team === gameState?.currentTeam &&
+      currentPlayer &&
+      roleThisTurn(currentPlayer, gameState.currentTeam, gameState.gameMode) === "clueGiver" &&
       !gameState?.currentClue
     );
   }, [gameState, currentPlayer]);
 
+  // The challenge window itself is checked against the timer by the caller
+  const canChallengeClue = useMemo(() => {
+    const clueId = gameState?.currentClue?.id;
+    return Boolean(
+      gameState?.gameStarted &&
+      !gameState.gameOver &&
+      !gameState.paused &&
+      gameState.gameMode !== "duet" &&
+      gameState.rules.clueChallenge !== "off" &&
+      clueId !== undefined &&
+      !gameState.clues[clueId]?.challengedBy &&
+      currentPlayer?.role === "clueGiver" &&
+      currentPlayer.team &&
+      currentPlayer.team !== gameState.currentTeam &&
+      !gameState.eliminatedTeams.some((t) => t === currentPlayer.team)
+    );
+  }, [gameState, currentPlayer]);
+
   const guesserCount = useMemo(() => {
     if (!gameState) return 0;
     // connected !== false treats undefined as connected (backwards compatible)
     return players.filter(
       (player) =>
-        player.team === gameState.currentTeam &&
-        player.role === "guesser" &&
+        roleThisTurn(player, gameState.currentTeam, gameState.gameMode) === "guesser" &&
         player.connected !== false
     ).length;
   }, [gameState, players]);
 
-  const requiredVotes = useMemo(() => getRequiredVotes(guesserCount), [guesserCount]);
+  const voteThreshold = gameState?.gameMode === "duet" ? "auto" : gameState?.rules.voteThreshold;
+  const requiredVotes = useMemo(() => getRequiredVotes(guesserCount, voteThreshold), [guesserCount, voteThreshold]);
+
+  const canChat = useMemo(() => {
+    if (!gameState || currentPlayer?.role !== "clueGiver") return true;
+    return canClueGiverChat(gameState.rules, gameState);
+  }, [gameState, currentPlayer]);
 
   const turnGlowClass = useMemo(() => {
-    return gameState?.currentTeam === "red"
-      ? "shadow-[0_0_0_1px_rgba(239,68,68,0.25)]"
-      : "shadow-[0_0_0_1px_rgba(59,130,246,0.25)]";
+    return teamColors(gameState?.currentTeam).glow;
   }, [gameState?.currentTeam]);
 
   return {
@@ -87,8 +115,10 @@ export function useRoomDerivedState(
     isRoomOwner,
     canVote,
     canGiveClue,
+    canChallengeClue,
     guesserCount,
     requiredVotes,
+    canChat,
     turnGlowClass,
   };
 }
@@ -10,7 +10,7 @@ import { useGameActions } from "./room/useGameActions";
 import { useChatActions } from "./room/useChatActions";
 import * as actions from "@/lib/rtdb-actions";
 import { STALE_PLAYER_CHECK_INTERVAL_MS, STALE_PLAYER_GRACE_MS } from "@/shared/constants";
-import type { GameState, Player, ChatMessage, RoomClosedReason, WordPack } from "@/shared/types";
+import type { GameState, Player, ChatMessage, RoomClosedReason, WordPack, WordPackSelection, BoardLayout, GameMode, RoomRules, LobbyTeam, TeamCount } from "@/shared/types";
 
 export interface UseRtdbRoomReturn {
   gameState: GameState | null;
@@ -25,7 +25,7 @@ export interface UseRtdbRoomReturn {
   setChatInput: (value: string) => void;
   isSendingChat: boolean;
   handleStartGame: () => void;
-  handleSetLobbyRole: (team: "red" | "blue" | null, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
+  handleSetLobbyRole: (team: LobbyTeam, role: "clueGiver" | "guesser" | null, targetPlayerId?: string) => void;
   handleRandomizeTeams: () => void;
   handleRematch: () => void;
   handleEndGame: () => void;
@@ -33,24 +33,41 @@ export interface UseRtdbRoomReturn {
   handleVoteCard: (index: number) => void;
   handleConfirmReveal: (index: number) => void;
   handleEndTurn: () => void;
+  handleTurnTimeout: (lastAttempt: boolean) => Promise<void>;
   handleSendMessage: (e: React.FormEvent) => void;
   handleGiveClue: (word: string, count: number) => void;
+  handleChallengeClue: () => void;
   handleTurnDurationChange: (duration: number) => void;
-  handleWordPackChange: (pack: WordPack) => void;
+  handleClueDurationChange: (duration: number) => void;
+  handleTimeBankChange: (seconds: number) => void;
+  handleWordPackChange: (packIds: WordPack[], weights: WordPackSelection) => void;
+  handleCustomWordsChange: (words: string[]) => void;
+  handleBoardLayoutChange: (layout: BoardLayout) => void;
+  handleGameModeChange: (mode: GameMode) => void;
+  handleTeamCountChange: (count: TeamCount) => void;
+  handleRoomRulesChange: (rules: RoomRules) => void;
+  handleNextSeedChange: (seed: string | null) => void;
+  handleResetSeries: () => void;
+  handleRoomLockedChange: (locked: boolean) => void;
+  handleRoomPasswordChange: (password: string | null) => Promise<void>;
+  handleRemovePlayer: (playerId: string, ban: boolean) => void;
+  handlePlayerMutedChange: (playerId: string, muted: boolean) => void;
 }
 
 export function useRtdbRoom(
   roomCode: string,
   playerName: string,
-  playerAvatar: string
+  playerAvatar: string,
+  password?: string,
+  spectate = false
 ): UseRtdbRoomReturn {
   const { setIsLastPlayer, setIsActiveGame, setLeaveRoom } = useGameContext();
 
   // Room connection and state
-  const connection = useRoomConnection(roomCode, playerName, playerAvatar);
+  const connection = useRoomConnection(roomCode, playerName, playerAvatar, password, spectate);
 
   // Game actions (uses ErrorContext internally)
-  const gameActions = useGameActions(roomCode, connection.uid);
+  const gameActions = useGameActions(roomCode, connection.uid, connection.gameState?.turnStartTime ?? null);
 
   // Chat actions
   const chatActions = useChatActions(roomCode, connection.uid);
@@ -146,8 +163,23 @@ export function useRtdbRoom(
     handleVoteCard: gameActions.handleVoteCard,
     handleConfirmReveal: gameActions.handleConfirmReveal,
     handleEndTurn: gameActions.handleEndTurn,
+    handleTurnTimeout: gameActions.handleTurnTimeout,
     handleGiveClue: gameActions.handleGiveClue,
+    handleChallengeClue: gameActions.handleChallengeClue,
     handleTurnDurationChange: gameActions.handleTurnDurationChange,
+    handleClueDurationChange: gameActions.handleClueDurationChange,
+    handleTimeBankChange: gameActions.handleTimeBankChange,
     handleWordPackChange: gameActions.handleWordPackChange,
+    handleCustomWordsChange: gameActions.handleCustomWordsChange,
+    handleBoardLayoutChange: gameActions.handleBoardLayoutChange,
+    handleGameModeChange: gameActions.handleGameModeChange,
+    handleTeamCountChange: gameActions.handleTeamCountChange,
+    handleRoomRulesChange: gameActions.handleRoomRulesChange,
+    handleNextSeedChange: gameActions.handleNextSeedChange,
+    handleResetSeries: gameActions.handleResetSeries,
+    handleRoomLockedChange: gameActions.handleRoomLockedChange,
+    handleRoomPasswordChange: gameActions.handleRoomPasswordChange,
+    handleRemovePlayer: gameActions.handleRemovePlayer,
+    handlePlayerMutedChange: gameActions.handlePlayerMutedChange,
   };
 }
@@ -2,8 +2,10 @@ import { useEffect, useRef } from "react";
 import { useSoundContextOptional } from "@/contexts/SoundContext";
 
 interface UseTimerSoundOptions {
-  /** Time remaining in seconds (null if timer not active) */
+  /** Time remaining in seconds on the active clock (null if timer not active) */
   timeRemaining: number | null;
+  /** Which clock is running (clue, guess or bank); ticking restarts when it changes */
+  activeClock?: string | null;
   /** Whether the game is paused */
   isPaused?: boolean;
   /** Whether the game is over (stops all ticks immediately) */
@@ -25,9 +27,11 @@ type TickMode = "none" | "normal" | "urgent";
  * - Normal tick: every 2s when time is between 10-30 seconds
  * - Urgent tick: every 0.5s when time is 10 seconds or less
  * - Sounds are stopped immediately on turn end, game over, or pause
+ * - A new clock (the clue is given, or the bank takes over) starts its ticks afresh
  */
 export function useTimerSound({
   timeRemaining,
+  activeClock = null,
   isPaused = false,
   isGameOver = false,
   normalThreshold = 30,
@@ -38,6 +42,7 @@ export function useTimerSound({
   const soundContext = useSoundContextOptional();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentModeRef = useRef<TickMode>("none");
+  const currentClockRef = useRef<string | null>(null);
   
   // Use ref to access soundContext in interval without it being a dependency
   const soundContextRef = useRef(soundContext);
@@ -73,12 +78,14 @@ export function useTimerSound({
       }
     };
 
-    // No change in mode - keep current interval running
-    if (targetMode === prevMode) {
+    // No change in mode or clock - keep current interval running
+    const clockChanged = targetMode !== "none" && activeClock !== currentClockRef.current;
+    currentClockRef.current = activeClock;
+    if (targetMode === prevMode && !clockChanged) {
       return;
     }
 
-    // Mode changed - clear old interval
+    // Mode or clock changed - clear old interval
     clearTickInterval();
 
     // If going to "none", stop sounds and exit
@@ -121,7 +128,7 @@ export function useTimerSound({
 
     // Cleanup on unmount or before next effect run
     return clearTickInterval;
-  }, [targetMode, normalInterval, urgentInterval]);
+  }, [targetMode, activeClock, normalInterval, urgentInterval]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -1,12 +1,13 @@
 import { useEffect, useState, useRef, useCallback } from "react";
-import type { GameState } from "@/shared/types";
+import type { GameState, PlayingTeam } from "@/shared/types";
+import { isPlayingTeam } from "@/shared/teams";
 import { useSoundContextOptional, SoundName } from "@/contexts/SoundContext";
 
 export interface UseTransitionOverlaysReturn {
   showGameStart: boolean;
   showTurnChange: boolean;
   showGameOver: boolean;
-  transitionTeam: "red" | "blue" | null;
+  transitionTeam: PlayingTeam | null;
   clueAnimating: boolean;
   dismissGameStart: () => void;
   dismissTurnChange: () => void;
@@ -21,7 +22,7 @@ export function useTransitionOverlays(
   const [showGameStart, setShowGameStart] = useState(false);
   const [showTurnChange, setShowTurnChange] = useState(false);
   const [showGameOver, setShowGameOver] = useState(false);
-  const [transitionTeam, setTransitionTeam] = useState<"red" | "blue" | null>(null);
+  const [transitionTeam, setTransitionTeam] = useState<PlayingTeam | null>(null);
   const [clueAnimating, setClueAnimating] = useState(false);
   
   // Refs for tracking state changes - use primitive values for comparison
@@ -50,6 +51,7 @@ export function useTransitionOverlays(
   const currentTeam = gameState?.currentTeam ?? null;
   const gameOver = gameState?.gameOver ?? false;
   const winner = gameState?.winner ?? null;
+  const duetResult = gameState?.duetResult ?? null;
   const startingTeam = gameState?.startingTeam ?? null;
   const currentClueWord = gameState?.currentClue?.word ?? null;
   const turnStartTime = gameState?.turnStartTime ?? null;
@@ -70,7 +72,7 @@ export function useTransitionOverlays(
     
     // Game Start transition
     if (gameStarted && !prevGameStartedRef.current) {
-      if (startingTeam === "red" || startingTeam === "blue") {
+      if (isPlayingTeam(startingTeam)) {
         setTransitionTeam(startingTeam);
         setShowGameStart(true);
         // Use turnStartTime as unique identifier for this game start
@@ -86,7 +88,7 @@ export function useTransitionOverlays(
       prevCurrentTeamRef.current !== null &&
       !gameOver
     ) {
-      if (currentTeam === "red" || currentTeam === "blue") {
+      if (isPlayingTeam(currentTeam)) {
         setTransitionTeam(currentTeam);
         setShowTurnChange(true);
         // Use turnStartTime as unique identifier for this turn change
@@ -96,7 +98,7 @@ export function useTransitionOverlays(
     
     // Game Over transition
     if (gameOver && !prevGameOverRef.current) {
-      if (winner === "red" || winner === "blue") {
+      if (isPlayingTeam(winner)) {
         // Dismiss any other overlays first
         setShowTurnChange(false);
         setShowGameStart(false);
@@ -105,6 +107,9 @@ export function useTransitionOverlays(
         setShowGameOver(true);
         // Use winner + timestamp as unique identifier
         playSoundOnce("gameOver", `over:${winner}:${Date.now()}`);
+      } else if (duetResult) {
+        // Duet has no winning team; the status panel shows the result
+        playSoundOnce("gameOver", `over:${duetResult}:${Date.now()}`);
       }
     }
     
@@ -124,7 +129,7 @@ export function useTransitionOverlays(
     prevCurrentTeamRef.current = currentTeam;
     prevGameOverRef.current = gameOver;
     prevClueRef.current = currentClueWord;
-  }, [gameState, gameStarted, currentTeam, gameOver, winner, startingTeam, currentClueWord, turnStartTime, playSoundOnce]);
+  }, [gameState, gameStarted, currentTeam, gameOver, winner, duetResult, startingTeam, currentClueWord, turnStartTime, playSoundOnce]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const auth = vi.hoisted(() => ({ currentUser: null as unknown }));
+
+vi.mock('../firebase', () => ({ getFirebaseAuth: () => auth }));
+
+vi.mock('firebase/auth', () => ({
+  signInAnonymously: vi.fn(),
+  sendSignInLinkToEmail: vi.fn(),
+  isSignInWithEmailLink: vi.fn(),
+  signInWithEmailLink: vi.fn(),
+  linkWithCredential: vi.fn(),
+  signOut: vi.fn(),
+  EmailAuthProvider: { credentialWithLink: vi.fn(() => ({ providerId: 'password' })) },
+}));
+
+import { signInWithEmailLink, linkWithCredential } from 'firebase/auth';
+import { completeSignInLink } from '../firebase-auth';
+import { LOCAL_STORAGE_SIGN_IN_EMAIL_KEY } from '../../shared/constants';
+
+const EMAIL = 'ana@example.com';
+const LINK = 'https://example.com/profile/?oobCode=abc';
+
+// ============================================================================
+// completeSignInLink
+// ============================================================================
+
+describe('completeSignInLink', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const storage = new Map<string, string>([[LOCAL_STORAGE_SIGN_IN_EMAIL_KEY, EMAIL]]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    auth.currentUser = { uid: 'guest', isAnonymous: true };
+  });
+
+  it('links the email to an anonymous player', async () => {
+    vi.mocked(linkWithCredential).mockResolvedValue({ user: { uid: 'guest' } } as never);
+
+    const user = await completeSignInLink(EMAIL, LINK);
+
+    expect(user.uid).toBe('guest');
+    expect(signInWithEmailLink).not.toHaveBeenCalled();
+  });
+
+  it('signs in with the link when the email already has an account', async () => {
+    vi.mocked(linkWithCredential).mockRejectedValue({ code: 'auth/email-already-in-use' });
+    vi.mocked(signInWithEmailLink).mockResolvedValue({ user: { uid: 'linked' } } as never);
+
+    const user = await completeSignInLink(EMAIL, LINK);
+
+    expect(user.uid).toBe('linked');
+    expect(signInWithEmailLink).toHaveBeenCalledWith(auth, EMAIL, LINK);
+    expect(localStorage.getItem(LOCAL_STORAGE_SIGN_IN_EMAIL_KEY)).toBeNull();
+  });
+
+  it('passes other link errors on', async () => {
+    vi.mocked(linkWithCredential).mockRejectedValue({ code: 'auth/invalid-action-code' });
+
+    await expect(completeSignInLink(EMAIL, LINK)).rejects.toEqual({ code: 'auth/invalid-action-code' });
+    expect(signInWithEmailLink).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const callable = vi.hoisted(() => vi.fn());
+
+vi.mock('../firebase', () => ({ getDatabase: () => ({}), getFirebaseFunctions: () => ({}) }));
+
+vi.mock('firebase/functions', () => ({ httpsCallable: vi.fn(() => callable) }));
+
+import { httpsCallable } from 'firebase/functions';
+import { giveClue } from '../rtdb-actions';
+import { UNLIMITED_CLUE } from '../../shared/constants';
+
+// ============================================================================
+// giveClue
+// ============================================================================
+
+describe('giveClue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    callable.mockResolvedValue({ data: undefined });
+  });
+
+  it('sends a numbered clue to the giveClue function', async () => {
+    await giveClue('ABCDEF', ' FRUIT ', 2);
+
+    expect(httpsCallable).toHaveBeenCalledWith({}, 'giveClue');
+    expect(callable).toHaveBeenCalledWith({ roomCode: 'ABCDEF', word: 'FRUIT', count: 2 });
+  });
+
+  it('sends an unlimited clue', async () => {
+    await giveClue('ABCDEF', 'FRUIT', UNLIMITED_CLUE);
+
+    expect(callable).toHaveBeenCalledWith({ roomCode: 'ABCDEF', word: 'FRUIT', count: UNLIMITED_CLUE });
+  });
+
+  it('rejects other negative and fractional counts', async () => {
+    await expect(giveClue('ABCDEF', 'FRUIT', -2)).rejects.toThrow('Invalid clue');
+    await expect(giveClue('ABCDEF', 'FRUIT', 1.5)).rejects.toThrow('Invalid clue');
+    expect(callable).not.toHaveBeenCalled();
+  });
+});
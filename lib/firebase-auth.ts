@@ -1,5 +1,16 @@
-import { signInAnonymously, User, AuthError } from "firebase/auth";
+import {
+  signInAnonymously,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  linkWithCredential,
+  signOut,
+  EmailAuthProvider,
+  User,
+  AuthError,
+} from "firebase/auth";
 import { getFirebaseAuth } from "./firebase";
+import { LOCAL_STORAGE_SIGN_IN_EMAIL_KEY } from "@/shared/constants";
 
 let signInAttempts = 0;
 
@@ -29,3 +40,77 @@ export function getCurrentUser(): User | null {
   if (!auth) return null;
   return auth.currentUser;
 }
+
+// ============================================================================
+// Email Link Sign-In
+// ============================================================================
+
+// Where the emailed link lands; the profile page finishes the sign-in
+const SIGN_IN_LINK_PATH = "/profile/";
+
+function requireAuth() {
+  const auth = getFirebaseAuth();
+  if (!auth) throw new Error("Firebase Auth not initialized");
+  return auth;
+}
+
+/**
+ * Email a sign-in link. The address is kept in localStorage so the link
+ * can be completed without asking again when it's opened on this device.
+ */
+export async function sendSignInLink(email: string): Promise<void> {
+  const auth = requireAuth();
+  await sendSignInLinkToEmail(auth, email, {
+    url: `${window.location.origin}${SIGN_IN_LINK_PATH}`,
+    handleCodeInApp: true,
+  });
+  localStorage.setItem(LOCAL_STORAGE_SIGN_IN_EMAIL_KEY, email);
+}
+
+export function isSignInLink(url: string): boolean {
+  const auth = getFirebaseAuth();
+  return !!auth && isSignInWithEmailLink(auth, url);
+}
+
+/** The address a link was sent to from this device, if any */
+export function getPendingSignInEmail(): string | null {
+  return localStorage.getItem(LOCAL_STORAGE_SIGN_IN_EMAIL_KEY);
+}
+
+/**
+ * Finish signing in with an emailed link.
+ * An anonymous player is upgraded in place, so their uid - and with it
+ * their profile and room seats - is kept. If the email already belongs to
+ * another account (linked on another device), that account is signed in
+ * instead and the anonymous session is left behind.
+ */
+export async function completeSignInLink(email: string, url: string): Promise<User> {
+  const auth = requireAuth();
+  const current = auth.currentUser;
+
+  let user: User;
+  if (current?.isAnonymous) {
+    const credential = EmailAuthProvider.credentialWithLink(email, url);
+    try {
+      user = (await linkWithCredential(current, credential)).user;
+      console.log(`[Auth] linked email to anonymous uid: ${user.uid}`);
+    } catch (error) {
+      const authError = error as AuthError;
+      if (authError.code !== "auth/email-already-in-use" && authError.code !== "auth/credential-already-in-use") throw error;
+      // Sign in to that account with the link itself: the failed link may
+      // have used up the credential, so it isn't passed on
+      user = (await signInWithEmailLink(auth, email, url)).user;
+      console.log(`[Auth] email already linked, switched to uid: ${user.uid}`);
+    }
+  } else {
+    user = (await signInWithEmailLink(auth, email, url)).user;
+  }
+
+  localStorage.removeItem(LOCAL_STORAGE_SIGN_IN_EMAIL_KEY);
+  return user;
+}
+
+/** Sign out of a linked account; the provider starts a new anonymous session */
+export async function signOutAccount(): Promise<void> {
+  await signOut(requireAuth());
+}
@@ -1,10 +1,13 @@
 import { initializeApp, getApps, FirebaseApp } from "firebase/app";
 import { getAuth, Auth, connectAuthEmulator } from "firebase/auth";
 import { getDatabase as getDatabaseSdk, Database, connectDatabaseEmulator, goOffline as firebaseGoOffline, goOnline as firebaseGoOnline } from "firebase/database";
+import { getFunctions, Functions, connectFunctionsEmulator } from "firebase/functions";
+import { FUNCTIONS_REGION } from "@/shared/constants";
 
 let app: FirebaseApp | undefined;
 let auth: Auth | undefined;
 let rtdb: Database | undefined;
+let functions: Functions | undefined;
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -68,6 +71,25 @@ export function getDatabase(): Database | undefined {
   return rtdb;
 }
 
+export function getFirebaseFunctions(): Functions | undefined {
+  if (typeof window === "undefined") return undefined;
+  
+  if (!functions) {
+    const app = getFirebaseApp();
+    if (app) {
+      functions = getFunctions(app, FUNCTIONS_REGION);
+      
+      // Connect to emulator in development if configured
+      if (process.env.NEXT_PUBLIC_FIREBASE_FUNCTIONS_EMULATOR_HOST) {
+        const [host, port] = process.env.NEXT_PUBLIC_FIREBASE_FUNCTIONS_EMULATOR_HOST.split(":");
+        connectFunctionsEmulator(functions, host, Number(port || 5001));
+      }
+    }
+  }
+  
+  return functions;
+}
+
 /**
  * Disconnect from Firebase Database.
  * Triggers onDisconnect handlers immediately (clean disconnect).
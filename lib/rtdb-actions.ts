@@ -8,35 +8,57 @@ import {
   runTransaction,
   DatabaseReference,
 } from "firebase/database";
-import { getDatabase } from "./firebase";
-import { generateBoard, assignTeams } from "@/shared/words";
-import { isValidClue, teamsAreReady, shufflePlayers, getRequiredVotes } from "@/shared/game-utils";
+import { httpsCallable } from "firebase/functions";
+import { getDatabase, getFirebaseFunctions } from "./firebase";
+import { isValidClueCount, shufflePlayers } from "@/shared/game-utils";
+import { applyAction, toEngineState } from "@/shared/game-reducer";
+import { normalizeSeed, isValidSeed } from "@/shared/random";
+import { DEFAULT_BOARD_LAYOUT, boardLayoutOf, maxNeutralCards, validateBoardLayout } from "@/shared/board-layout";
+import { minPlayersToStart, teamCountOf, teamsFor } from "@/shared/teams";
+import { ROOM_ACCESS_ERRORS, hashRoomPassword } from "@/shared/room-access";
+import { generateRoomCode } from "@/shared/room-code";
+import { MODERATION_ERRORS, isMuted, joinBlock, moderationMessage } from "@/shared/moderation";
+import { DEFAULT_ROOM_RULES, canClueGiverChat, roomRulesOf, validateRoomRules } from "@/shared/room-rules";
 import type {
-  Player,
   Team,
-  PauseReason,
+  PlayingTeam,
+  TeamCount,
+  GameMode,
+  RoomRules,
   WordPack,
-  FirebaseBoardCard,
+  WordPackSelection,
+  BoardLayout,
   FirebasePlayerData,
   FirebaseMessageData,
   FirebaseRoomData,
+  GameFunctionName,
+  GameFunctionPayloads,
 } from "@/shared/types";
 import {
   TURN_DURATIONS,
   DEFAULT_TURN_DURATION,
+  TIME_BANKS,
+  DEFAULT_TIME_BANK,
   WORD_PACKS,
   DEFAULT_WORD_PACK,
-  MIN_PLAYERS_TO_START,
+  MAX_WORD_PACK_WEIGHT,
+  GAME_MODES,
+  DEFAULT_GAME_MODE,
+  TEAM_COUNTS,
+  DEFAULT_TEAM_COUNT,
+  DUET_PLAYERS,
+  ROOM_CODE_ATTEMPTS,
 } from "@/shared/constants";
 import {
   sanitizePlayerName,
   sanitizeClue,
   sanitizeChatMessage,
   isValidClueFormat,
+  validateWordList,
+  validateRoomPassword,
 } from "@/shared/validation";
 
 // Type aliases for internal use (cleaner code)
-type BoardCard = FirebaseBoardCard;
 type RoomData = FirebaseRoomData;
 type PlayerData = FirebasePlayerData;
 type MessageData = FirebaseMessageData;
@@ -47,22 +69,38 @@ function getDb() {
   return db;
 }
 
-// Check if team can play (for pause logic)
-// connected !== false treats undefined as connected (backwards compatible)
-function checkPause(
-  players: Record<string, PlayerData>,
-  team: "red" | "blue",
-  hasClue: boolean
-): { paused: boolean; reason: PauseReason; team: Team | null } {
-  const teamPlayers = Object.values(players).filter((p) => p.team === team);
-  const hasClueGiver = teamPlayers.some((p) => p.role === "clueGiver" && p.connected !== false);
-  const hasGuesser = teamPlayers.some((p) => p.role === "guesser" && p.connected !== false);
-  const anyConnected = teamPlayers.some((p) => p.connected !== false);
-
-  if (!anyConnected) return { paused: true, reason: "teamDisconnected", team };
-  if (!hasClue && !hasClueGiver) return { paused: true, reason: "clueGiverDisconnected", team };
-  if (hasClue && !hasGuesser) return { paused: true, reason: "noGuessers", team };
-  return { paused: false, reason: null, team: null };
+// Invoke a game engine function; its HttpsError message surfaces as e.message
+async function callGameFunction<K extends GameFunctionName>(
+  name: K,
+  payload: GameFunctionPayloads[K]
+): Promise<void> {
+  const functions = getFirebaseFunctions();
+  if (!functions) throw new Error("Functions not initialized");
+  await httpsCallable<GameFunctionPayloads[K], void>(functions, name)(payload);
+}
+
+// Secret card ownership lives outside the room so room-level read access doesn't expose it
+function roomKeyPath(roomCode: string): string {
+  return `roomKeys/${roomCode}`;
+}
+
+// Duet keys, one per side
+function roomDuetKeyPath(roomCode: string): string {
+  return `roomDuetKeys/${roomCode}`;
+}
+
+// Same for the board seed, which would reproduce the key until the game is over
+function roomSeedPath(roomCode: string): string {
+  return `roomSeeds/${roomCode}`;
+}
+
+// Private rooms: the password hash, and each joining player's hash to check against it
+function roomPasswordPath(roomCode: string): string {
+  return `roomPasswords/${roomCode}`;
+}
+
+function roomJoinsPath(roomCode: string): string {
+  return `roomJoins/${roomCode}`;
 }
 
 // Convert votes object to array of player IDs
@@ -71,86 +109,185 @@ function votesToArray(votes: Record<string, boolean> | undefined): string[] {
   return Object.keys(votes).filter((id) => votes[id]);
 }
 
-// Convert array to votes object
-function arrayToVotes(arr: string[]): Record<string, boolean> {
-  const obj: Record<string, boolean> = {};
-  arr.forEach((id) => { obj[id] = true; });
-  return obj;
-}
-
 // ============================================================================
 // Room Management
 // ============================================================================
 
+/**
+ * Let a new player into a locked or password-protected room, or throw one of
+ * ROOM_ACCESS_ERRORS. The rules check the lock and the password hash again
+ * when the player adds themselves.
+ */
+async function checkRoomAccess(roomCode: string, playerId: string, roomData: Pick<RoomData, "locked" | "hasPassword">, password?: string): Promise<void> {
+  if (roomData.locked) throw new Error(ROOM_ACCESS_ERRORS.locked);
+  if (!roomData.hasPassword) return;
+  if (!password) throw new Error(ROOM_ACCESS_ERRORS.passwordRequired);
+
+  const hash = await hashRoomPassword(roomCode, password);
+  try {
+    await set(ref(getDb(), `${roomJoinsPath(roomCode)}/${playerId}`), hash);
+  } catch (e) {
+    // The rules only accept the hash that matches the room's
+    if ((e as { code?: string }).code === "PERMISSION_DENIED") throw new Error(ROOM_ACCESS_ERRORS.wrongPassword);
+    throw e;
+  }
+}
+
+// A new, empty room owned by playerId
+function newRoomData(playerId: string) {
+  const startingTeam: Team = Math.random() < 0.5 ? "red" : "blue";
+  return {
+    ownerId: playerId,
+    currentTeam: startingTeam,
+    startingTeam,
+    gameMode: DEFAULT_GAME_MODE,
+    teamCount: DEFAULT_TEAM_COUNT,
+    wordPacks: { [DEFAULT_WORD_PACK]: 1 },
+    boardLayout: DEFAULT_BOARD_LAYOUT,
+    rules: DEFAULT_ROOM_RULES,
+    currentClue: null,
+    remainingGuesses: null,
+    turnStartTime: null,
+    turnDuration: DEFAULT_TURN_DURATION,
+    clueDuration: DEFAULT_TURN_DURATION,
+    timeBank: DEFAULT_TIME_BANK,
+    gameStarted: false,
+    gameOver: false,
+    winner: null,
+    paused: false,
+    pauseReason: null,
+    pausedForTeam: null,
+    createdAt: serverTimestamp(),
+    board: [],
+  };
+}
+
+/**
+ * The fields a player may read before joining: the lock, the password flag
+ * and their own kick or ban. Everything else is for members only.
+ */
+async function getRoomAccess(
+  roomCode: string,
+  playerId: string
+): Promise<Pick<RoomData, "locked" | "hasPassword" | "kicks" | "bans">> {
+  const db = getDb();
+  const [lockedSnap, hasPasswordSnap, kickSnap, banSnap] = await Promise.all([
+    get(ref(db, `rooms/${roomCode}/locked`)),
+    get(ref(db, `rooms/${roomCode}/hasPassword`)),
+    get(ref(db, `rooms/${roomCode}/kicks/${playerId}`)),
+    get(ref(db, `rooms/${roomCode}/bans/${playerId}`)),
+  ]);
+  return {
+    locked: lockedSnap.val() === true,
+    hasPassword: hasPasswordSnap.val() === true,
+    kicks: kickSnap.exists() ? { [playerId]: kickSnap.val() as number } : undefined,
+    bans: banSnap.exists() ? { [playerId]: true } : undefined,
+  };
+}
+
+/** Whether another connected player already has this name (spectators don't hold a name) */
+async function nameTaken(roomCode: string, playerId: string, name: string, spectate: boolean): Promise<boolean> {
+  if (spectate) return false;
+  const playersSnap = await get(ref(getDb(), `rooms/${roomCode}/players`));
+  const players = (playersSnap.val() || {}) as Record<string, PlayerData>;
+  return Object.entries(players).some(
+    ([id, p]) => id !== playerId && p.name.toLowerCase() === name.toLowerCase() && p.connected && !p.spectating
+  );
+}
+
+/**
+ * Why this player was removed from the room, if the owner kicked or banned
+ * them. Both entries stay readable to the player after they lose access.
+ */
+export async function getRemovalReason(roomCode: string, playerId: string): Promise<"kicked" | "banned" | null> {
+  const access = await getRoomAccess(roomCode, playerId);
+  if (access.bans) return "banned";
+  if (access.kicks) return "kicked";
+  return null;
+}
+
+/**
+ * Create the room only if the code is free. Returns false if it's already taken.
+ * The transaction aborts once the server shows an existing room, so two
+ * players claiming the same code can't both get it.
+ */
+async function claimRoom(roomCode: string, playerId: string): Promise<boolean> {
+  try {
+    const result = await runTransaction(
+      ref(getDb(), `rooms/${roomCode}`),
+      (current) => (current === null ? newRoomData(playerId) : undefined),
+      { applyLocally: false }
+    );
+    return result.committed;
+  } catch (e) {
+    // Only members may read a room, so a transaction on someone else's is refused outright
+    if ((await get(ref(getDb(), `rooms/${roomCode}/ownerId`))).exists()) return false;
+    throw e;
+  }
+}
+
+/**
+ * Create a room under a fresh code and return the code.
+ * Tries a few codes in case of a collision, so a new room never lands in an existing one.
+ */
+export async function createRoom(playerId: string): Promise<string> {
+  for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+    const roomCode = generateRoomCode();
+    if (await claimRoom(roomCode, playerId)) return roomCode;
+  }
+  throw new Error("Couldn't find a free room code, please try again");
+}
+
 /**
  * Join a room. Sets up onDisconnect to handle cleanup when player leaves.
  * Returns the onDisconnect reference so the caller can cancel it if needed.
+ * Players already in the room (rejoining) skip the lock and password.
  */
 export async function joinRoom(
   roomCode: string,
   playerId: string,
   playerName: string,
-  playerAvatar: string
+  playerAvatar: string,
+  password?: string,
+  spectate = false // Watch only: never on a team, and the name needn't be unique
 ): Promise<{ disconnectRef: DatabaseReference }> {
   const db = getDb();
-  const roomRef = ref(db, `rooms/${roomCode}`);
   const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
-  const playersRef = ref(db, `rooms/${roomCode}/players`);
 
   // Sanitize player name
   const sanitizedName = sanitizePlayerName(playerName);
   if (!sanitizedName) throw new Error("Invalid player name");
 
-  const roomSnap = await get(roomRef);
-
-  if (!roomSnap.exists()) {
-    // Create new room
-    const startingTeam: Team = Math.random() < 0.5 ? "red" : "blue";
-    await set(roomRef, {
-      ownerId: playerId,
-      currentTeam: startingTeam,
-      startingTeam,
-      wordPack: DEFAULT_WORD_PACK,
-      currentClue: null,
-      remainingGuesses: null,
-      turnStartTime: null,
-      turnDuration: DEFAULT_TURN_DURATION,
-      gameStarted: false,
-      gameOver: false,
-      winner: null,
-      paused: false,
-      pauseReason: null,
-      pausedForTeam: null,
-      createdAt: serverTimestamp(),
-      board: [],
-    });
-  } else {
-    // Room exists - check for duplicate names
-    const playersSnap = await get(playersRef);
-    const players = (playersSnap.val() || {}) as Record<string, PlayerData>;
-    
-    // Check if another connected player has the same name
-    const duplicateName = Object.entries(players).find(
-      ([id, p]) => id !== playerId && p.name.toLowerCase() === sanitizedName.toLowerCase() && p.connected
-    );
-    if (duplicateName) {
-      throw new Error("Name already taken");
-    }
-  }
+  // Until they're in, the rules only let a player read the room's access fields
+  // Rooms are only made by createRoom, so an unknown code is an error rather than a new room
+  const ownerSnap = await get(ref(db, `rooms/${roomCode}/ownerId`));
+  if (!ownerSnap.exists()) throw new Error("Room not found");
 
   // Check if this player already exists (rejoining)
   const existingPlayerSnap = await get(playerRef);
-  
+
   if (existingPlayerSnap.exists()) {
-    // Rejoin - preserve team/role, update name/avatar and connection status
+    if (await nameTaken(roomCode, playerId, sanitizedName, spectate)) {
+      throw new Error("Name already taken");
+    }
+    // Rejoin - preserve team/role, update name/avatar and connection status.
+    // A seated player opening a spectate link keeps their seat.
+    const existing = existingPlayerSnap.val() as PlayerData;
     await update(playerRef, {
       name: sanitizedName,
       avatar: playerAvatar,
       connected: true,
       lastSeen: serverTimestamp(),
+      spectating: (spectate && !existing.team) || null,
     });
   } else {
-    // New player
+    // New player - turn away kicked and banned players, then check the lock and password
+    const access = await getRoomAccess(roomCode, playerId);
+    const block = joinBlock(access, playerId, Date.now());
+    if (block) throw new Error(MODERATION_ERRORS[block]);
+    // The owner too: holding ownerId doesn't get anyone past the lock or a ban
+    await checkRoomAccess(roomCode, playerId, access, password);
+
     await set(playerRef, {
       name: sanitizedName,
       avatar: playerAvatar,
@@ -158,7 +295,14 @@ export async function joinRoom(
       role: null,
       connected: true,
       lastSeen: serverTimestamp(),
+      spectating: spectate || null,
     });
+
+    // The other players' names are only readable once we're in
+    if (await nameTaken(roomCode, playerId, sanitizedName, spectate)) {
+      await remove(playerRef);
+      throw new Error("Name already taken");
+    }
   }
 
   // Set up initial onDisconnect - marks player as disconnected
@@ -188,6 +332,11 @@ export async function updateDisconnectBehavior(
 ): Promise<void> {
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
+  const keyRef = ref(db, roomKeyPath(roomCode));
+  const duetKeyRef = ref(db, roomDuetKeyPath(roomCode));
+  const seedRef = ref(db, roomSeedPath(roomCode));
+  const passwordRef = ref(db, roomPasswordPath(roomCode));
+  const joinsRef = ref(db, roomJoinsPath(roomCode));
   const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
 
   // Check if this player is the owner
@@ -207,9 +356,19 @@ export async function updateDisconnectBehavior(
     // If it doesn't fire (network issues), at least player-level handler above
     // will mark us as disconnected so cleanup script can delete the room later
     await onDisconnect(roomRef).remove();
+    await onDisconnect(keyRef).remove();
+    await onDisconnect(duetKeyRef).remove();
+    await onDisconnect(seedRef).remove();
+    await onDisconnect(passwordRef).remove();
+    await onDisconnect(joinsRef).remove();
   } else if (isOwner) {
     // Owner but others are connected - cancel room-level handler if we had one
     await onDisconnect(roomRef).cancel();
+    await onDisconnect(keyRef).cancel();
+    await onDisconnect(duetKeyRef).cancel();
+    await onDisconnect(seedRef).cancel();
+    await onDisconnect(passwordRef).cancel();
+    await onDisconnect(joinsRef).cancel();
   }
 }
 
@@ -270,7 +429,7 @@ export async function reassignOwnerIfNeeded(
   }
   
   // Find first connected player to become new owner
-  const newOwnerEntry = Object.entries(players).find(([, p]) => p.connected !== false);
+  const newOwnerEntry = Object.entries(players).find(([, p]) => p.connected !== false && !p.spectating);
   if (!newOwnerEntry) {
     return { newOwnerName: null, withinGracePeriod: false, gracePeriodRemainingMs: 0 };
   }
@@ -280,10 +439,8 @@ export async function reassignOwnerIfNeeded(
     return { newOwnerName: null, withinGracePeriod: false, gracePeriodRemainingMs: 0 };
   }
   
-  // Reassign ownership
-  await update(roomRef, { ownerId: newOwnerId });
-  
-  // Only add message when explicitly requested (from leaveRoom, not from listeners)
+  // Only add message when explicitly requested (from leaveRoom, not from listeners).
+  // Only the owner may post system messages, so it goes out before the handover.
   if (addMessage) {
     await push(ref(db, `rooms/${roomCode}/messages`), {
       playerId: null,
@@ -293,6 +450,9 @@ export async function reassignOwnerIfNeeded(
       type: "system",
     });
   }
+
+  // Reassign ownership
+  await update(roomRef, { ownerId: newOwnerId });
   
   return { newOwnerName: newOwnerData.name, withinGracePeriod: false, gracePeriodRemainingMs: 0 };
 }
@@ -306,9 +466,20 @@ export async function leaveRoom(roomCode: string, playerId: string): Promise<voi
   const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
   const playersRef = ref(db, `rooms/${roomCode}/players`);
 
+  const keyRef = ref(db, roomKeyPath(roomCode));
+  const duetKeyRef = ref(db, roomDuetKeyPath(roomCode));
+  const seedRef = ref(db, roomSeedPath(roomCode));
+  const passwordRef = ref(db, roomPasswordPath(roomCode));
+  const joinsRef = ref(db, roomJoinsPath(roomCode));
+
   const playersSnap = await get(playersRef);
   if (!playersSnap.exists()) {
     await remove(roomRef);
+    await remove(keyRef);
+    await remove(duetKeyRef);
+    await remove(seedRef);
+    await remove(passwordRef);
+    await remove(joinsRef);
     return;
   }
 
@@ -319,16 +490,21 @@ export async function leaveRoom(roomCode: string, playerId: string): Promise<voi
   ).length;
 
   if (connectedCount === 0) {
-    // Last player leaving - delete the room
+    // Last player leaving - delete the room (keys, seed and password last, once the room is gone)
     await remove(roomRef);
+    await remove(keyRef);
+    await remove(duetKeyRef);
+    await remove(seedRef);
+    await remove(passwordRef);
+    await remove(joinsRef);
   } else {
     // Mark as disconnected
     await update(playerRef, { connected: false, lastSeen: serverTimestamp() });
     
     // Clear this player's votes from all cards (they have permission to remove their own votes)
     const roomSnap = await get(roomRef);
-    if (roomSnap.exists()) {
-      const roomData = roomSnap.val() as RoomData;
+    const roomData = roomSnap.val() as RoomData | null;
+    if (roomData) {
       const board = roomData.board || [];
       // Remove votes individually - player can only remove their own vote
       const voteRemovals = board.map((_, index) => 
@@ -339,7 +515,7 @@ export async function leaveRoom(roomCode: string, playerId: string): Promise<voi
     
     // Reassign owner if the leaving player was the owner (add message since this is explicit leave)
     // Skip grace period since this is an explicit leave action
-    await reassignOwnerIfNeeded(roomCode, true, true);
+    await reassignOwnerIfNeeded(roomCode, roomData?.ownerId === playerId, true);
   }
 }
 
@@ -347,205 +523,210 @@ export async function leaveRoom(roomCode: string, playerId: string): Promise<voi
 // Game Lifecycle
 // ============================================================================
 
-export async function startGame(roomCode: string, playerId: string): Promise<void> {
+// Game transitions run in Cloud Functions (functions/src/game.ts) so clients
+// can't write turn state or the board directly. These are thin wrappers.
+
+export async function startGame(roomCode: string): Promise<void> {
+  await callGameFunction("startGame", { roomCode });
+}
+
+export async function rematch(roomCode: string): Promise<void> {
+  await callGameFunction("rematch", { roomCode });
+}
+
+export async function endGame(roomCode: string): Promise<void> {
+  await callGameFunction("endGame", { roomCode });
+}
+
+export async function resumeGame(roomCode: string): Promise<void> {
+  await callGameFunction("resumeGame", { roomCode });
+}
+
+// ============================================================================
+// Lobby Actions
+// ============================================================================
+
+/**
+ * Switch between classic and Duet. Seats are cleared, since a Duet seat and a
+ * classic team slot don't mean the same thing.
+ */
+export async function setGameMode(roomCode: string, playerId: string, mode: GameMode): Promise<void> {
+  if (!GAME_MODES.includes(mode)) throw new Error("Invalid game mode");
+
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
   const playersRef = ref(db, `rooms/${roomCode}/players`);
-
   const [roomSnap, playersSnap] = await Promise.all([get(roomRef), get(playersRef)]);
-  if (!roomSnap.exists()) throw new Error("Room not found");
 
+  if (!roomSnap.exists()) throw new Error("Room not found");
   const roomData = roomSnap.val() as RoomData;
   if (roomData.ownerId !== playerId) throw new Error("Not room owner");
   if (roomData.gameStarted) throw new Error("Game already started");
+  if ((roomData.gameMode ?? DEFAULT_GAME_MODE) === mode) return;
 
-  const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
-  const players = Object.entries(playersData)
-    .map(([id, p]) => ({
-      id,
-      name: p.name,
-      avatar: p.avatar || "🐱",
-      team: p.team,
-      role: p.role,
-      connected: p.connected,
-    }))
-    .filter((p) => p.team && p.role) as Player[];
-
-  if (!teamsAreReady(players)) throw new Error("Teams not ready");
-
-  const wordPack = (roomData.wordPack || "classic") as WordPack;
-  const boardWords = generateBoard(wordPack);
-  const startingTeam = roomData.startingTeam as "red" | "blue";
-  const board: BoardCard[] = assignTeams(boardWords, startingTeam).map((c) => ({
-    word: c.word,
-    team: c.team,
-    revealed: false,
-    revealedBy: null,
-    votes: {},
-  }));
-
-  await update(roomRef, {
-    gameStarted: true,
-    currentTeam: startingTeam,
-    turnStartTime: serverTimestamp(),
-    currentClue: null,
-    remainingGuesses: null,
-    gameOver: false,
-    winner: null,
-    paused: false,
-    pauseReason: null,
-    pausedForTeam: null,
-    board,
+  const updates: Record<string, unknown> = { gameMode: mode };
+  Object.keys(playersSnap.val() || {}).forEach((id) => {
+    updates[`players/${id}/team`] = null;
+    updates[`players/${id}/role`] = null;
   });
+  await update(roomRef, updates);
 }
 
-export async function rematch(roomCode: string, playerId: string): Promise<void> {
+/**
+ * Set how many teams a classic game has. Players on a team that drops out
+ * go back to spectating, and the neutral count shrinks if the extra team
+ * needs the cards.
+ */
+export async function setTeamCount(roomCode: string, playerId: string, count: TeamCount): Promise<void> {
+  if (!TEAM_COUNTS.includes(count)) throw new Error("Invalid team count");
+
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
   const playersRef = ref(db, `rooms/${roomCode}/players`);
-  const messagesRef = ref(db, `rooms/${roomCode}/messages`);
-
   const [roomSnap, playersSnap] = await Promise.all([get(roomRef), get(playersRef)]);
-  if (!roomSnap.exists()) throw new Error("Room not found");
 
+  if (!roomSnap.exists()) throw new Error("Room not found");
   const roomData = roomSnap.val() as RoomData;
   if (roomData.ownerId !== playerId) throw new Error("Not room owner");
-  if (!roomData.gameOver) throw new Error("Game not over");
-
-  const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
-  const players = Object.entries(playersData)
-    .map(([id, p]) => ({
-      id,
-      name: p.name,
-      avatar: p.avatar || "🐱",
-      team: p.team,
-      role: p.role,
-      connected: p.connected,
-    }))
-    .filter((p) => p.team && p.role) as Player[];
-
-  if (!teamsAreReady(players)) throw new Error("Teams not ready");
+  if (roomData.gameStarted) throw new Error("Game already started");
+  if (teamCountOf(roomData) === count) return;
 
-  const wordPack = (roomData.wordPack || "classic") as WordPack;
-  const boardWords = generateBoard(wordPack);
-  const startingTeam: Team = Math.random() < 0.5 ? "red" : "blue";
-  const board: BoardCard[] = assignTeams(boardWords, startingTeam).map((c) => ({
-    word: c.word,
-    team: c.team,
-    revealed: false,
-    revealedBy: null,
-    votes: {},
-  }));
-
-  // Clear messages and update room
-  await remove(messagesRef);
-  await update(roomRef, {
-    gameStarted: true,
-    currentTeam: startingTeam,
-    startingTeam,
-    turnStartTime: serverTimestamp(),
-    currentClue: null,
-    remainingGuesses: null,
-    gameOver: false,
-    winner: null,
-    paused: false,
-    pauseReason: null,
-    pausedForTeam: null,
-    board,
+  const layout = boardLayoutOf(roomData);
+  const updates: Record<string, unknown> = {
+    teamCount: count,
+    boardLayout: { ...layout, neutral: Math.min(layout.neutral, maxNeutralCards(layout.size, layout.trap, count)) },
+  };
+  const teams = teamsFor(count);
+  Object.entries((playersSnap.val() || {}) as Record<string, PlayerData>).forEach(([id, p]) => {
+    if (p.team && !teams.includes(p.team as PlayingTeam)) {
+      updates[`players/${id}/team`] = null;
+      updates[`players/${id}/role`] = null;
+    }
   });
+  await update(roomRef, updates);
 }
 
-export async function endGame(roomCode: string, playerId: string): Promise<void> {
+export async function setTurnDuration(roomCode: string, playerId: string, duration: number): Promise<void> {
+  if (!TURN_DURATIONS.includes(duration as typeof TURN_DURATIONS[number])) throw new Error("Invalid duration");
+  
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
-  const playersRef = ref(db, `rooms/${roomCode}/players`);
+  const roomSnap = await get(roomRef);
 
-  const [roomSnap, playersSnap] = await Promise.all([get(roomRef), get(playersRef)]);
   if (!roomSnap.exists()) throw new Error("Room not found");
+  const roomData = roomSnap.val() as RoomData;
+  if (roomData.ownerId !== playerId) throw new Error("Not room owner");
+  if (roomData.gameStarted) throw new Error("Game already started");
+
+  await update(roomRef, { turnDuration: duration });
+}
+
+/** Set how long the clue giver has to give a clue (the guessers' time is `turnDuration`) */
+export async function setClueDuration(roomCode: string, playerId: string, duration: number): Promise<void> {
+  if (!TURN_DURATIONS.includes(duration as typeof TURN_DURATIONS[number])) throw new Error("Invalid duration");
+
+  const db = getDb();
+  const roomRef = ref(db, `rooms/${roomCode}`);
+  const roomSnap = await get(roomRef);
 
+  if (!roomSnap.exists()) throw new Error("Room not found");
   const roomData = roomSnap.val() as RoomData;
   if (roomData.ownerId !== playerId) throw new Error("Not room owner");
-  if (!roomData.gameStarted) throw new Error("Game not started");
+  if (roomData.gameStarted) throw new Error("Game already started");
 
-  // Reset player teams/roles
-  const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
-  const playerUpdates: Record<string, null> = {};
-  Object.keys(playersData).forEach((id) => {
-    playerUpdates[`players/${id}/team`] = null;
-    playerUpdates[`players/${id}/role`] = null;
-  });
+  await update(roomRef, { clueDuration: duration });
+}
 
-  // Owner stays the same - they're just ending the game, not leaving
-  await update(roomRef, {
-    gameStarted: false,
-    gameOver: false,
-    winner: null,
-    currentClue: null,
-    remainingGuesses: null,
-    turnStartTime: null,
-    paused: false,
-    pauseReason: null,
-    pausedForTeam: null,
-    board: [],
-    ...playerUpdates,
-  });
+/** Give each team a chess-clock bank of `seconds` per game (0 for none) */
+export async function setTimeBank(roomCode: string, playerId: string, seconds: number): Promise<void> {
+  if (!TIME_BANKS.includes(seconds as typeof TIME_BANKS[number])) throw new Error("Invalid time bank");
 
-  // Add system message
-  await push(ref(db, `rooms/${roomCode}/messages`), {
-    playerId: null,
-    playerName: "System",
-    message: "Game ended by room owner.",
-    timestamp: serverTimestamp(),
-    type: "system",
-  });
+  const db = getDb();
+  const roomRef = ref(db, `rooms/${roomCode}`);
+  const roomSnap = await get(roomRef);
+
+  if (!roomSnap.exists()) throw new Error("Room not found");
+  const roomData = roomSnap.val() as RoomData;
+  if (roomData.ownerId !== playerId) throw new Error("Not room owner");
+  if (roomData.gameStarted) throw new Error("Game already started");
+
+  await update(roomRef, { timeBank: seconds });
 }
 
-export async function resumeGame(roomCode: string, playerId: string): Promise<void> {
+/** Replace the room's house rules (vote threshold, extra guess, trap penalty, timer, chat, clue checks) */
+export async function setRoomRules(roomCode: string, playerId: string, rules: RoomRules): Promise<void> {
+  const validation = validateRoomRules(rules);
+  if (!validation.valid) throw new Error(validation.error);
+
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
-  const playersRef = ref(db, `rooms/${roomCode}/players`);
+  const roomSnap = await get(roomRef);
 
-  const [roomSnap, playersSnap] = await Promise.all([get(roomRef), get(playersRef)]);
   if (!roomSnap.exists()) throw new Error("Room not found");
+  const roomData = roomSnap.val() as RoomData;
+  if (roomData.ownerId !== playerId) throw new Error("Not room owner");
+  if (roomData.gameStarted) throw new Error("Game already started");
+
+  await update(roomRef, { rules });
+}
+
+/**
+ * Select the word packs to deal from, with optional mixing weights
+ * (1-3, default 1). A pack with weight 2 fills about twice as many cards.
+ */
+export async function setWordPack(
+  roomCode: string,
+  playerId: string,
+  packIds: WordPack[],
+  weights: WordPackSelection = {}
+): Promise<void> {
+  if (packIds.length === 0) throw new Error("Select at least one word pack");
+  const wordPacks: WordPackSelection = {};
+  for (const id of packIds) {
+    if (!WORD_PACKS.includes(id)) throw new Error("Invalid word pack");
+    const weight = weights[id] ?? 1;
+    if (!Number.isInteger(weight) || weight < 1 || weight > MAX_WORD_PACK_WEIGHT) throw new Error("Invalid word pack weight");
+    wordPacks[id] = weight;
+  }
+  
+  const db = getDb();
+  const roomRef = ref(db, `rooms/${roomCode}`);
+  const roomSnap = await get(roomRef);
 
+  if (!roomSnap.exists()) throw new Error("Room not found");
   const roomData = roomSnap.val() as RoomData;
   if (roomData.ownerId !== playerId) throw new Error("Not room owner");
-  if (!roomData.paused || !roomData.gameStarted || roomData.gameOver) throw new Error("Invalid game state");
+  if (roomData.gameStarted) throw new Error("Game already started");
 
-  const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
-  const team = roomData.currentTeam as "red" | "blue";
-  const hasClueGiver = Object.values(playersData).some(
-    (p) => p.team === team && p.role === "clueGiver" && p.connected
-  );
-  const hasGuesser = Object.values(playersData).some(
-    (p) => p.team === team && p.role === "guesser" && p.connected
-  );
+  await update(roomRef, { wordPacks });
+}
 
-  if (!hasClueGiver || !hasGuesser) throw new Error("Team needs clue giver and guesser");
+/** Set the board size and neutral/trap counts for the next deal */
+export async function setBoardLayout(roomCode: string, playerId: string, layout: BoardLayout): Promise<void> {
+  const db = getDb();
+  const roomRef = ref(db, `rooms/${roomCode}`);
+  const roomSnap = await get(roomRef);
 
-  await update(roomRef, {
-    paused: false,
-    pauseReason: null,
-    pausedForTeam: null,
-    turnStartTime: serverTimestamp(),
-  });
+  if (!roomSnap.exists()) throw new Error("Room not found");
+  const roomData = roomSnap.val() as RoomData;
+  if (roomData.ownerId !== playerId) throw new Error("Not room owner");
+  if (roomData.gameStarted) throw new Error("Game already started");
 
-  await push(ref(db, `rooms/${roomCode}/messages`), {
-    playerId: null,
-    playerName: "System",
-    message: "Game resumed.",
-    timestamp: serverTimestamp(),
-    type: "system",
-  });
+  // Checked against the room's team count, since every team needs its minimum cards
+  const { valid, error } = validateBoardLayout(layout, teamCountOf(roomData));
+  if (!valid) throw new Error(error ?? "Invalid board layout");
+
+  await update(roomRef, { boardLayout: { size: layout.size, neutral: layout.neutral, trap: layout.trap } });
 }
 
-// ============================================================================
-// Lobby Actions
-// ============================================================================
+/**
+ * Store the owner's word list for the "custom" pack.
+ * Duplicates, over-long and profane entries are dropped; the rest must fill a board.
+ */
+export async function setCustomWords(roomCode: string, playerId: string, entries: string[]): Promise<void> {
+  const { valid, error, words } = validateWordList(entries);
+  if (!valid) throw new Error(error ?? "Invalid word list");
 
-export async function setTurnDuration(roomCode: string, playerId: string, duration: number): Promise<void> {
-  if (!TURN_DURATIONS.includes(duration as typeof TURN_DURATIONS[number])) throw new Error("Invalid duration");
-  
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
   const roomSnap = await get(roomRef);
@@ -555,12 +736,17 @@ export async function setTurnDuration(roomCode: string, playerId: string, durati
   if (roomData.ownerId !== playerId) throw new Error("Not room owner");
   if (roomData.gameStarted) throw new Error("Game already started");
 
-  await update(roomRef, { turnDuration: duration });
+  await update(roomRef, { customWords: words });
 }
 
-export async function setWordPack(roomCode: string, playerId: string, pack: WordPack): Promise<void> {
-  if (!WORD_PACKS.includes(pack)) throw new Error("Invalid word pack");
-  
+/**
+ * Choose the seed for the next game (or rematch), e.g. one shared by another
+ * room or the seed of the game just finished. Null goes back to a random board.
+ */
+export async function setNextSeed(roomCode: string, playerId: string, seed: string | null): Promise<void> {
+  const nextSeed = seed === null ? null : normalizeSeed(seed);
+  if (nextSeed !== null && !isValidSeed(nextSeed)) throw new Error("Invalid seed");
+
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
   const roomSnap = await get(roomRef);
@@ -568,15 +754,65 @@ export async function setWordPack(roomCode: string, playerId: string, pack: Word
   if (!roomSnap.exists()) throw new Error("Room not found");
   const roomData = roomSnap.val() as RoomData;
   if (roomData.ownerId !== playerId) throw new Error("Not room owner");
-  if (roomData.gameStarted) throw new Error("Game already started");
+  if (roomData.gameStarted && !roomData.gameOver) throw new Error("Game in progress");
+
+  await update(roomRef, { nextSeed });
+}
+
+/** Lock or unlock the room. A locked room turns away new players; anyone already in can rejoin */
+export async function setRoomLocked(roomCode: string, playerId: string, locked: boolean): Promise<void> {
+  const db = getDb();
+  const roomRef = ref(db, `rooms/${roomCode}`);
+  const roomSnap = await get(roomRef);
+
+  if (!roomSnap.exists()) throw new Error("Room not found");
+  if ((roomSnap.val() as RoomData).ownerId !== playerId) throw new Error("Not room owner");
+
+  await update(roomRef, { locked });
+}
+
+/**
+ * Set or clear the room password. Only its hash is stored, outside the room;
+ * players already in the room stay in.
+ */
+export async function setRoomPassword(roomCode: string, playerId: string, password: string | null): Promise<void> {
+  if (password !== null) {
+    const validation = validateRoomPassword(password);
+    if (!validation.valid) throw new Error(validation.error);
+  }
+
+  const db = getDb();
+  const roomSnap = await get(ref(db, `rooms/${roomCode}`));
+
+  if (!roomSnap.exists()) throw new Error("Room not found");
+  if ((roomSnap.val() as RoomData).ownerId !== playerId) throw new Error("Not room owner");
+
+  // One update so the flag and the hash can't disagree; old join attempts go with the old password
+  await update(ref(db), {
+    [`rooms/${roomCode}/hasPassword`]: password !== null,
+    [roomPasswordPath(roomCode)]: password === null ? null : await hashRoomPassword(roomCode, password),
+    [roomJoinsPath(roomCode)]: null,
+  });
+}
+
+/** Start a new series: clear the room's record of finished games */
+export async function resetSeries(roomCode: string, playerId: string): Promise<void> {
+  const db = getDb();
+  const roomRef = ref(db, `rooms/${roomCode}`);
+  const roomSnap = await get(roomRef);
+
+  if (!roomSnap.exists()) throw new Error("Room not found");
+  const roomData = roomSnap.val() as RoomData;
+  if (roomData.ownerId !== playerId) throw new Error("Not room owner");
+  if (roomData.gameStarted && !roomData.gameOver) throw new Error("Game in progress");
 
-  await update(roomRef, { wordPack: pack });
+  await remove(ref(db, `rooms/${roomCode}/series`));
 }
 
 export async function setLobbyRole(
   roomCode: string,
   playerId: string,
-  team: "red" | "blue" | null,
+  team: PlayingTeam | null,
   role: "clueGiver" | "guesser" | null,
   requesterId?: string // Owner can assign other players
 ): Promise<void> {
@@ -593,7 +829,32 @@ export async function setLobbyRole(
   const playerData = playersData[playerId];
   const isOwner = requesterId && roomData.ownerId === requesterId;
   const isSpectator = !playerData?.team || !playerData?.role;
+  if (team && playerData?.spectating) throw new Error("Spectators watching through a link can't join a team");
   
+  // Duet seats: one player per side, stored as that side's clue giver.
+  // The seats are fixed while a game runs (pausing lets an empty one be filled).
+  if (roomData.gameMode === "duet") {
+    if (roomData.gameStarted && !roomData.gameOver && !roomData.paused) throw new Error("Duet seats are fixed during a game");
+    if (team && role !== "clueGiver") throw new Error("Invalid seat");
+    if (team) {
+      const taken = Object.entries(playersData).some(([id, p]) => id !== playerId && p.team === team && p.role);
+      if (taken) throw new Error("Seat already taken");
+    }
+    // A seat decides which half of the key a player reads, so mid-game the
+    // owner may only empty one directly; seats are filled by the server
+    if (roomData.gameStarted && !roomData.gameOver) {
+      if (team) {
+        await callGameFunction("takeSeat", { roomCode, team, role: "clueGiver", playerId });
+        return;
+      }
+      if (!isOwner) throw new Error("Only owner can remove players during game");
+    }
+    await update(playerRef, { team: team || null, role: role || null });
+    return;
+  }
+
+  if (team && !teamsFor(teamCountOf(roomData)).includes(team)) throw new Error("Invalid team");
+
   // During active game: only allow owner to add spectators as guessers
   if (roomData.gameStarted && !roomData.gameOver && !roomData.paused) {
     if (!isOwner) throw new Error("Only owner can add players during game");
@@ -609,6 +870,17 @@ export async function setLobbyRole(
     if (existing) throw new Error("Team already has a clue giver");
   }
 
+  // Mid-game the rules only let the owner unseat a player or add an unseated
+  // one as a guesser; every other seat is taken through the server
+  if (roomData.gameStarted && !roomData.gameOver) {
+    if (!team || !role) {
+      if (!isOwner) throw new Error("Only owner can remove players during game");
+    } else if (!(isOwner && isSpectator && role === "guesser")) {
+      await callGameFunction("takeSeat", { roomCode, team, role, playerId });
+      return;
+    }
+  }
+
   await update(playerRef, { team: team || null, role: role || null });
 }
 
@@ -625,25 +897,39 @@ export async function randomizeTeams(roomCode: string, playerId: string): Promis
   if (roomData.gameStarted && !roomData.gameOver) throw new Error("Game in progress");
 
   const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
-  const players = Object.entries(playersData).map(([id, p]) => ({
-    id,
-    name: p.name,
-    avatar: p.avatar || "🐱",
-    team: p.team,
-    role: p.role,
-  }));
-
-  if (players.length < MIN_PLAYERS_TO_START) throw new Error("Need at least 4 players");
+  const players = Object.entries(playersData)
+    .filter(([, p]) => !p.spectating)
+    .map(([id, p]) => ({
+      id,
+      name: p.name,
+      avatar: p.avatar || "🐱",
+      team: p.team,
+      role: p.role,
+    }));
 
   const shuffled = shufflePlayers(players);
-  const half = Math.ceil(players.length / 2); // Red team gets extra player if odd
 
+  // Duet: seat two random players, everyone else watches
+  if (roomData.gameMode === "duet") {
+    if (players.length < DUET_PLAYERS) throw new Error("Need at least 2 players");
+    const updates: Record<string, unknown> = {};
+    shuffled.forEach((p, i) => {
+      updates[`players/${p.id}/team`] = i === 0 ? "red" : i === 1 ? "blue" : null;
+      updates[`players/${p.id}/role`] = i < DUET_PLAYERS ? "clueGiver" : null;
+    });
+    await update(roomRef, updates);
+    return;
+  }
+
+  const teams = teamsFor(teamCountOf(roomData));
+  const needed = minPlayersToStart(teams.length);
+  if (players.length < needed) throw new Error(`Need at least ${needed} players`);
+
+  // Deal players round the teams; earlier teams get the extra players
   const updates: Record<string, any> = {};
   shuffled.forEach((p, i) => {
-    const isRedTeam = i < half;
-    const isFirstOfTeam = i === 0 || i === half;
-    updates[`players/${p.id}/team`] = isRedTeam ? "red" : "blue";
-    updates[`players/${p.id}/role`] = isFirstOfTeam ? "clueGiver" : "guesser";
+    updates[`players/${p.id}/team`] = teams[i % teams.length];
+    updates[`players/${p.id}/role`] = i < teams.length ? "clueGiver" : "guesser";
   });
 
   await update(roomRef, updates);
@@ -653,259 +939,50 @@ export async function randomizeTeams(roomCode: string, playerId: string): Promis
 // Gameplay
 // ============================================================================
 
-export async function giveClue(roomCode: string, playerId: string, word: string, count: number): Promise<void> {
+export async function giveClue(roomCode: string, word: string, count: number): Promise<void> {
   const sanitized = sanitizeClue(word);
-  if (!isValidClueFormat(sanitized) || count < 0) throw new Error("Invalid clue");
-
-  const db = getDb();
-  const roomRef = ref(db, `rooms/${roomCode}`);
-  const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
-
-  const [roomSnap, playerSnap] = await Promise.all([get(roomRef), get(playerRef)]);
-  if (!roomSnap.exists()) throw new Error("Room not found");
-  if (!playerSnap.exists()) throw new Error("Player not found");
-
-  const roomData = roomSnap.val() as RoomData;
-  const playerData = playerSnap.val() as PlayerData;
-
-  if (!roomData.gameStarted || roomData.gameOver || roomData.currentClue) throw new Error("Cannot give clue now");
-  if (playerData.role !== "clueGiver" || playerData.team !== roomData.currentTeam) throw new Error("Not your turn");
-
-  const board = roomData.board || [];
-  if (!isValidClue(sanitized, board.map((c) => c.word))) throw new Error("Invalid clue word");
+  if (!isValidClueFormat(sanitized) || !isValidClueCount(count)) throw new Error("Invalid clue");
 
-  // Clear votes and set clue
-  const updatedBoard = board.map((c) => ({ ...c, votes: {} }));
-
-  await update(roomRef, {
-    currentClue: { word: sanitized.toUpperCase(), count },
-    remainingGuesses: count + 1,
-    turnStartTime: serverTimestamp(),
-    board: updatedBoard,
-  });
-
-  await push(ref(db, `rooms/${roomCode}/messages`), {
-    playerId,
-    playerName: playerData.name,
-    message: `${sanitized} ${count}`,
-    timestamp: serverTimestamp(),
-    type: "clue",
-  });
+  await callGameFunction("giveClue", { roomCode, word: sanitized, count });
 }
 
 export async function voteCard(roomCode: string, playerId: string, cardIndex: number): Promise<void> {
   const db = getDb();
   const roomRef = ref(db, `rooms/${roomCode}`);
-  const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
-  const votesRef = ref(db, `rooms/${roomCode}/board/${cardIndex}/votes`);
-
-  // First validate player and game state (these don't need to be in the transaction)
-  const [roomSnap, playerSnap] = await Promise.all([get(roomRef), get(playerRef)]);
-  if (!roomSnap.exists()) throw new Error("Room not found");
-  if (!playerSnap.exists()) throw new Error("Player not found");
-
-  const roomData = roomSnap.val() as RoomData;
-  const playerData = playerSnap.val() as PlayerData;
-
-  if (!roomData.gameStarted || roomData.gameOver || !roomData.currentClue || (roomData.remainingGuesses ?? 0) <= 0) {
-    throw new Error("Cannot vote now");
-  }
-  if (playerData.role !== "guesser" || playerData.team !== roomData.currentTeam) throw new Error("Not your turn");
-
-  const board = roomData.board || [];
-  if (cardIndex < 0 || cardIndex >= board.length || board[cardIndex].revealed) {
-    throw new Error("Invalid card");
-  }
-
-  // Use transaction to atomically toggle the vote
-  // This prevents race conditions when multiple players vote simultaneously
-  await runTransaction(votesRef, (currentVotes) => {
-    const votes = currentVotes || {};
-    
-    // Toggle vote
-    if (votes[playerId]) {
-      delete votes[playerId];
-    } else {
-      votes[playerId] = true;
-    }
-    
-    return votes;
-  });
-}
-
-export async function confirmReveal(roomCode: string, playerId: string, cardIndex: number): Promise<void> {
-  const db = getDb();
-  const roomRef = ref(db, `rooms/${roomCode}`);
-  const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
-  const playersRef = ref(db, `rooms/${roomCode}/players`);
-  const cardRevealedRef = ref(db, `rooms/${roomCode}/board/${cardIndex}/revealed`);
-
-  const [roomSnap, playerSnap, playersSnap] = await Promise.all([
-    get(roomRef),
-    get(playerRef),
-    get(playersRef),
-  ]);
+  // The rules only let a guesser write their own vote, so toggle that one entry
+  const voteRef = ref(db, `rooms/${roomCode}/board/${cardIndex}/votes/${playerId}`);
 
+  // Validate against the reducer first (these checks don't need to be in the transaction)
+  const roomSnap = await get(roomRef);
   if (!roomSnap.exists()) throw new Error("Room not found");
-  if (!playerSnap.exists()) throw new Error("Player not found");
-
   const roomData = roomSnap.val() as RoomData;
-  const playerData = playerSnap.val() as PlayerData;
-  const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
+  applyAction(toEngineState(roomData), { type: "vote", playerId, cardIndex });
 
-  if (!roomData.gameStarted || roomData.gameOver || !roomData.currentClue || (roomData.remainingGuesses ?? 0) <= 0) {
-    throw new Error("Cannot reveal now");
-  }
-  if (playerData.role !== "guesser" || playerData.team !== roomData.currentTeam) throw new Error("Not your turn");
+  // Use transaction to atomically toggle the vote, so a double click can't flip it twice
+  const result = await runTransaction(voteRef, (voted) => (voted ? null : true));
 
-  const board = roomData.board || [];
-  if (cardIndex < 0 || cardIndex >= board.length || board[cardIndex].revealed) {
-    throw new Error("Invalid card");
-  }
-
-  const card = board[cardIndex];
-  // Count all guessers on the team (not just connected) so threshold stays
-  // consistent even if someone's connection temporarily drops
-  const guessers = Object.values(playersData).filter(
-    (p) => p.team === roomData.currentTeam && p.role === "guesser"
-  );
-  const required = getRequiredVotes(guessers.length);
-  const voteCount = Object.keys(card.votes || {}).length;
-
-  if (voteCount < required || !card.votes?.[playerId]) {
-    throw new Error("Not enough votes");
-  }
-
-  // Use transaction to atomically claim the reveal (prevents race condition)
-  // If two players try to reveal simultaneously, only one will succeed
-  const transactionResult = await runTransaction(cardRevealedRef, (currentRevealed) => {
-    if (currentRevealed === true) {
-      // Card already revealed by another player - abort transaction
-      return undefined;
-    }
-    return true;
-  });
-
-  if (!transactionResult.committed) {
-    throw new Error("Card already revealed");
-  }
-
-  const isCorrect = card.team === roomData.currentTeam;
-  const isTrap = card.team === "trap";
-  // Count remaining team cards (excluding the one we're about to reveal)
-  const remainingTeamCards = board.filter(
-    (c, i) => c.team === roomData.currentTeam && !c.revealed && i !== cardIndex
-  ).length;
-  const newGuesses = (roomData.remainingGuesses ?? 1) - 1;
-
-  // Build system message for the reveal
-  const teamLabel = card.team === "red" ? "Red" 
-    : card.team === "blue" ? "Blue" 
-    : card.team === "trap" ? "Trap" 
-    : "Neutral";
-  const teamEmoji = card.team === "red" ? "🔴" 
-    : card.team === "blue" ? "🔵" 
-    : card.team === "trap" ? "⬛" 
-    : "🟡";
-  const revealMessage = `${teamEmoji} "${card.word}" revealed — ${teamLabel}`;
-
-  // Update remaining card fields and game state
-  // Note: revealed is already set to true by the transaction above
-  const cardUpdate = {
-    [`board/${cardIndex}/revealedBy`]: playerId,
-    [`board/${cardIndex}/votes`]: {},
-  };
-
-  if (isTrap) {
-    await update(roomRef, {
-      ...cardUpdate,
-      gameOver: true,
-      winner: roomData.currentTeam === "red" ? "blue" : "red",
-      currentClue: null,
-      remainingGuesses: null,
-      turnStartTime: null,
-    });
-  } else if (!isCorrect || newGuesses === 0) {
-    const newTeam = roomData.currentTeam === "red" ? "blue" : "red";
-    const pause = checkPause(playersData, newTeam, false);
-    // Clear votes from all unrevealed cards when turn ends
-    const boardVotesCleared: Record<string, null> = {};
-    board.forEach((c, i) => {
-      if (!c.revealed && i !== cardIndex) {
-        boardVotesCleared[`board/${i}/votes`] = null;
-      }
-    });
-    await update(roomRef, {
-      ...cardUpdate,
-      ...boardVotesCleared,
-      currentTeam: newTeam,
-      currentClue: null,
-      remainingGuesses: null,
-      turnStartTime: pause.paused ? null : serverTimestamp(),
-      paused: pause.paused,
-      pauseReason: pause.reason,
-      pausedForTeam: pause.team,
-    });
-  } else if (remainingTeamCards === 0) {
-    await update(roomRef, {
-      ...cardUpdate,
-      gameOver: true,
-      winner: roomData.currentTeam,
-      currentClue: null,
-      remainingGuesses: null,
-      turnStartTime: null,
-    });
-  } else {
-    await update(roomRef, {
-      ...cardUpdate,
-      remainingGuesses: newGuesses,
-    });
-  }
-
-  // Add system message about the reveal (after board update)
-  await push(ref(db, `rooms/${roomCode}/messages`), {
-    playerId: null,
-    playerName: "System",
-    message: revealMessage,
+  // Record the vote in the game's event log
+  await push(ref(db, `rooms/${roomCode}/events`), {
+    type: "vote",
+    team: roomData.currentTeam,
+    playerId,
+    cardIndex,
+    voted: result.snapshot.val() === true,
     timestamp: serverTimestamp(),
-    type: "system",
   });
 }
 
-export async function endTurn(roomCode: string): Promise<void> {
-  const db = getDb();
-  const roomRef = ref(db, `rooms/${roomCode}`);
-  const playersRef = ref(db, `rooms/${roomCode}/players`);
-
-  const [roomSnap, playersSnap] = await Promise.all([get(roomRef), get(playersRef)]);
-  if (!roomSnap.exists()) throw new Error("Room not found");
-
-  const roomData = roomSnap.val() as RoomData;
-  if (!roomData.gameStarted || roomData.gameOver) throw new Error("Game not active");
+export async function confirmReveal(roomCode: string, cardIndex: number): Promise<void> {
+  await callGameFunction("confirmReveal", { roomCode, cardIndex });
+}
 
-  const playersData = (playersSnap.val() || {}) as Record<string, PlayerData>;
-  const newTeam = roomData.currentTeam === "red" ? "blue" : "red";
-  const pause = checkPause(playersData, newTeam, false);
-  
-  // Clear votes from all unrevealed cards using explicit paths
-  const board = roomData.board || [];
-  const votesCleared: Record<string, null> = {};
-  board.forEach((c, i) => {
-    if (!c.revealed) {
-      votesCleared[`board/${i}/votes`] = null;
-    }
-  });
+export async function challengeClue(roomCode: string): Promise<void> {
+  await callGameFunction("challengeClue", { roomCode });
+}
 
-  await update(roomRef, {
-    ...votesCleared,
-    currentTeam: newTeam,
-    currentClue: null,
-    remainingGuesses: null,
-    turnStartTime: pause.paused ? null : serverTimestamp(),
-    paused: pause.paused,
-    pauseReason: pause.reason,
-    pausedForTeam: pause.team,
-  });
+/** End the turn that started at `turnStartTime`; a no-op if it has already ended. */
+export async function endTurn(roomCode: string, turnStartTime: number | null): Promise<void> {
+  await callGameFunction("endTurn", { roomCode, turnStartTime });
 }
 
 // ============================================================================
@@ -922,11 +999,24 @@ export async function sendMessage(
   if (!sanitized) throw new Error("Message cannot be empty");
 
   const db = getDb();
-  const playerRef = ref(db, `rooms/${roomCode}/players/${playerId}`);
-  const playerSnap = await get(playerRef);
+  const room = `rooms/${roomCode}`;
+  // Just the fields the checks need - the room itself holds the whole chat log
+  const [playerSnap, mutedSnap, rulesSnap, modeSnap, startedSnap, overSnap] = await Promise.all([
+    get(ref(db, `${room}/players/${playerId}`)),
+    get(ref(db, `${room}/muted`)),
+    get(ref(db, `${room}/rules`)),
+    get(ref(db, `${room}/gameMode`)),
+    get(ref(db, `${room}/gameStarted`)),
+    get(ref(db, `${room}/gameOver`)),
+  ]);
 
   if (!playerSnap.exists()) throw new Error("Player not found");
+  if (isMuted({ muted: mutedSnap.val() ?? undefined }, playerId)) throw new Error(MODERATION_ERRORS.muted);
   const playerData = playerSnap.val() as PlayerData;
+  const game = { gameMode: modeSnap.val(), gameStarted: startedSnap.val(), gameOver: overSnap.val() };
+  if (playerData.role === "clueGiver" && !canClueGiverChat(roomRulesOf({ rules: rulesSnap.val() ?? undefined }), game)) {
+    throw new Error("Clue givers can't chat during the game");
+  }
 
   await push(ref(db, `rooms/${roomCode}/messages`), {
     playerId,
@@ -937,6 +1027,74 @@ export async function sendMessage(
   });
 }
 
+// ============================================================================
+// Moderation
+// ============================================================================
+
+// The room and the player the owner is acting on; the owner can't moderate themselves
+async function moderationTarget(
+  roomCode: string,
+  ownerId: string,
+  playerId: string
+): Promise<{ roomData: RoomData; player: PlayerData }> {
+  const roomSnap = await get(ref(getDb(), `rooms/${roomCode}`));
+  if (!roomSnap.exists()) throw new Error("Room not found");
+  const roomData = roomSnap.val() as RoomData;
+  if (roomData.ownerId !== ownerId) throw new Error("Not room owner");
+  if (playerId === ownerId) throw new Error("Can't moderate yourself");
+  const player = roomData.players?.[playerId];
+  if (!player) throw new Error("Player not found");
+  return { roomData, player };
+}
+
+async function pushSystemMessage(roomCode: string, message: string): Promise<void> {
+  await push(ref(getDb(), `rooms/${roomCode}/messages`), {
+    playerId: null,
+    playerName: "System",
+    message,
+    timestamp: serverTimestamp(),
+    type: "system",
+  });
+}
+
+/**
+ * Remove a player from the room, with their votes.
+ * A kick only keeps them out for KICK_REJOIN_COOLDOWN_MS; a ban keeps them out
+ * for the rest of the room's life.
+ */
+export async function removePlayer(
+  roomCode: string,
+  ownerId: string,
+  playerId: string,
+  ban: boolean
+): Promise<void> {
+  const { roomData, player } = await moderationTarget(roomCode, ownerId, playerId);
+
+  const updates: Record<string, unknown> = {
+    [`players/${playerId}`]: null,
+    [`kicks/${playerId}`]: serverTimestamp(),
+  };
+  if (ban) updates[`bans/${playerId}`] = true;
+  (roomData.board || []).forEach((card, i) => {
+    if (card.votes?.[playerId]) updates[`board/${i}/votes/${playerId}`] = null;
+  });
+
+  await update(ref(getDb(), `rooms/${roomCode}`), updates);
+  await pushSystemMessage(roomCode, moderationMessage(ban ? "ban" : "kick", player.name));
+}
+
+/** Mute or unmute a player's chat */
+export async function setPlayerMuted(
+  roomCode: string,
+  ownerId: string,
+  playerId: string,
+  muted: boolean
+): Promise<void> {
+  const { player } = await moderationTarget(roomCode, ownerId, playerId);
+  await set(ref(getDb(), `rooms/${roomCode}/muted/${playerId}`), muted ? true : null);
+  await pushSystemMessage(roomCode, moderationMessage(muted ? "mute" : "unmute", player.name));
+}
+
 // ============================================================================
 // Presence - not needed with onDisconnect, but keeping for manual cleanup
 // ============================================================================
@@ -984,23 +1142,15 @@ export async function pruneStalePlayers(
     if (player.role !== null) updates[`players/${id}/role`] = null;
   });
 
-  // Remove stale votes from board (if any)
+  // Remove stale votes from board (if any) - per-vote paths, the board itself is server-owned
   const staleIds = new Set(stalePlayers.map((p) => p.id));
   const board = roomData.board || [];
-  let boardChanged = false;
-  const updatedBoard = board.map((card) => {
-    if (!card.votes) return card;
-    const votes = votesToArray(card.votes);
-    const filteredVotes = votes.filter((id) => !staleIds.has(id));
-    if (filteredVotes.length === votes.length) return card;
-    boardChanged = true;
-    return { ...card, votes: arrayToVotes(filteredVotes) };
+  board.forEach((card, i) => {
+    votesToArray(card.votes)
+      .filter((id) => staleIds.has(id))
+      .forEach((id) => { updates[`board/${i}/votes/${id}`] = null; });
   });
 
-  if (boardChanged) {
-    updates.board = updatedBoard;
-  }
-
   if (Object.keys(updates).length > 0) {
     await update(roomRef, updates);
   }
@@ -1026,4 +1176,19 @@ export async function pruneStalePlayers(
 export async function deleteRoom(roomCode: string): Promise<void> {
   const db = getDb();
   await remove(ref(db, `rooms/${roomCode}`));
+  await remove(ref(db, roomKeyPath(roomCode)));
+  await remove(ref(db, roomDuetKeyPath(roomCode)));
+  await remove(ref(db, roomSeedPath(roomCode)));
+  await remove(ref(db, roomPasswordPath(roomCode)));
+  await remove(ref(db, roomJoinsPath(roomCode)));
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/** Change the avatar shown on the player's profile; stats are server-owned */
+export async function updateProfileAvatar(uid: string, avatar: string): Promise<void> {
+  if (!avatar) throw new Error("Invalid avatar");
+  await set(ref(getDb(), `profiles/${uid}/avatar`), avatar);
 }
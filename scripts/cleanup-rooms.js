@@ -123,7 +123,14 @@ async function main() {
     }
 
     if (shouldDelete) {
-      if (!dryRun) await db.ref(`rooms/${roomId}`).remove();
+      if (!dryRun) {
+        await db.ref(`rooms/${roomId}`).remove();
+        await db.ref(`roomKeys/${roomId}`).remove();
+        await db.ref(`roomDuetKeys/${roomId}`).remove();
+        await db.ref(`roomSeeds/${roomId}`).remove();
+        await db.ref(`roomPasswords/${roomId}`).remove();
+        await db.ref(`roomJoins/${roomId}`).remove();
+      }
       deleted += 1;
       console.log(`[delete] ${roomId} (${reason})`);
     } else {
@@ -134,6 +141,16 @@ async function main() {
     }
   }
 
+  // Remove keys, seeds and passwords left behind by rooms that were deleted without them
+  for (const path of ["roomKeys", "roomDuetKeys", "roomSeeds", "roomPasswords", "roomJoins"]) {
+    const snap = await db.ref(path).once("value");
+    const orphaned = Object.keys(snap.val() || {}).filter((roomId) => !rooms[roomId]);
+    for (const roomId of orphaned) {
+      if (!dryRun) await db.ref(`${path}/${roomId}`).remove();
+      console.log(`[delete] ${path}/${roomId} (orphaned)`);
+    }
+  }
+
   console.log(`\nRooms scanned: ${Object.keys(rooms).length}`);
   console.log(`Deleted: ${deleted}`);
   console.log(`Kept: ${kept}`);
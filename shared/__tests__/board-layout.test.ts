@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BOARD_LAYOUT,
+  DEFAULT_BOARD_LAYOUTS,
+  boardCardCount,
+  boardColumns,
+  boardLayoutOf,
+  layoutCardCounts,
+  maxNeutralCards,
+  validateBoardLayout,
+} from '../board-layout';
+import type { BoardLayout } from '../types';
+
+// ============================================================================
+// layoutCardCounts
+// ============================================================================
+
+describe('layoutCardCounts', () => {
+  it('matches the standard 9/8/7/1 split on 5x5', () => {
+    expect(layoutCardCounts(DEFAULT_BOARD_LAYOUT, 'red')).toEqual({ red: 9, blue: 8, green: 0, neutral: 7, trap: 1 });
+    expect(layoutCardCounts(DEFAULT_BOARD_LAYOUT, 'blue')).toEqual({ red: 8, blue: 9, green: 0, neutral: 7, trap: 1 });
+  });
+
+  it('adds up to the board size for every default layout', () => {
+    Object.values(DEFAULT_BOARD_LAYOUTS).forEach((layout) => {
+      const counts = layoutCardCounts(layout, 'red');
+      const total = counts.red + counts.blue + counts.neutral + counts.trap;
+      expect(total).toBe(boardCardCount(layout));
+      expect(counts.red).toBe(counts.blue + 1);
+    });
+  });
+
+  it('splits evenly when team cards are even', () => {
+    const counts = layoutCardCounts({ size: 4, neutral: 4, trap: 0 }, 'red');
+    expect(counts).toEqual({ red: 6, blue: 6, green: 0, neutral: 4, trap: 0 });
+  });
+
+  it('gives leftover cards to the earliest teams in play order', () => {
+    const counts = layoutCardCounts({ size: 5, neutral: 7, trap: 1 }, 'blue', ['red', 'blue', 'green']);
+    expect(counts).toEqual({ red: 5, blue: 6, green: 6, neutral: 7, trap: 1 });
+  });
+
+  it('supports several traps', () => {
+    expect(layoutCardCounts({ size: 6, neutral: 8, trap: 3 }, 'blue').trap).toBe(3);
+  });
+});
+
+// ============================================================================
+// validateBoardLayout
+// ============================================================================
+
+describe('validateBoardLayout', () => {
+  it('accepts the defaults', () => {
+    Object.values(DEFAULT_BOARD_LAYOUTS).forEach((layout) => {
+      expect(validateBoardLayout(layout)).toEqual({ valid: true });
+    });
+  });
+
+  it('accepts zero traps and zero neutrals', () => {
+    expect(validateBoardLayout({ size: 5, neutral: 0, trap: 0 }).valid).toBe(true);
+  });
+
+  it('rejects unknown sizes', () => {
+    expect(validateBoardLayout({ size: 7, neutral: 7, trap: 1 } as unknown as BoardLayout).valid).toBe(false);
+  });
+
+  it('rejects too many traps or negative counts', () => {
+    expect(validateBoardLayout({ size: 5, neutral: 7, trap: 4 }).valid).toBe(false);
+    expect(validateBoardLayout({ size: 5, neutral: -1, trap: 1 }).valid).toBe(false);
+    expect(validateBoardLayout({ size: 5, neutral: 1.5, trap: 1 }).valid).toBe(false);
+  });
+
+  it('leaves each team at least 3 cards', () => {
+    expect(maxNeutralCards(4, 1)).toBe(9);
+    expect(validateBoardLayout({ size: 4, neutral: 9, trap: 1 }).valid).toBe(true);
+    expect(validateBoardLayout({ size: 4, neutral: 10, trap: 1 }).error).toContain('between 0 and 9');
+  });
+
+  it('leaves room for a third team', () => {
+    expect(maxNeutralCards(4, 1, 3)).toBe(6);
+    expect(validateBoardLayout({ size: 4, neutral: 7, trap: 1 }, 3).valid).toBe(false);
+    expect(validateBoardLayout({ size: 5, neutral: 7, trap: 1 }, 3).valid).toBe(true);
+  });
+});
+
+describe('boardLayoutOf', () => {
+  it('defaults to 5x5 for rooms without a layout', () => {
+    expect(boardLayoutOf({})).toBe(DEFAULT_BOARD_LAYOUT);
+  });
+});
+
+describe('boardColumns', () => {
+  it('derives columns from the card count', () => {
+    expect(boardColumns(16)).toBe(4);
+    expect(boardColumns(25)).toBe(5);
+    expect(boardColumns(36)).toBe(6);
+    expect(boardColumns(0)).toBe(1);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { checkClue, isValidClue, stem } from '../clue-validation';
+
+// ============================================================================
+// isValidClue
+// ============================================================================
+
+describe('isValidClue', () => {
+  const sampleBoard = ['APPLE', 'BANK', 'CAR', 'DOG', 'FARMER', 'DWARF'];
+
+  describe('exact matches', () => {
+    it('rejects exact match (same case)', () => {
+      expect(isValidClue('APPLE', sampleBoard)).toBe(false);
+    });
+
+    it('rejects exact match (different case)', () => {
+      expect(isValidClue('apple', sampleBoard)).toBe(false);
+      expect(isValidClue('Apple', sampleBoard)).toBe(false);
+    });
+
+    it('accepts words not on the board', () => {
+      expect(isValidClue('TESTING', sampleBoard)).toBe(true);
+      expect(isValidClue('RANDOM', sampleBoard)).toBe(true);
+    });
+  });
+
+  describe('prefix/suffix relationships', () => {
+    it('rejects clue that is prefix of board word', () => {
+      // FARM is prefix of FARMER
+      expect(isValidClue('FARM', sampleBoard)).toBe(false);
+    });
+
+    it('rejects clue that is suffix of board word', () => {
+      // ARF is suffix of DWARF
+      expect(isValidClue('ARF', sampleBoard)).toBe(false);
+    });
+
+    it('rejects clue when board word is prefix of clue', () => {
+      // DOG is prefix of DOGHOUSE
+      expect(isValidClue('DOGHOUSE', sampleBoard)).toBe(false);
+    });
+
+    it('rejects clue when board word is suffix of clue', () => {
+      // BANK is suffix of RIVERBANK
+      expect(isValidClue('RIVERBANK', sampleBoard)).toBe(false);
+    });
+
+    it('allows coincidental substrings that are not prefix/suffix', () => {
+      // WAR is inside DWARF but not as prefix or suffix
+      expect(isValidClue('WAR', sampleBoard)).toBe(true);
+    });
+  });
+
+  describe('plural variants', () => {
+    it('rejects simple S plural of board word', () => {
+      expect(isValidClue('CARS', sampleBoard)).toBe(false);
+      expect(isValidClue('DOGS', sampleBoard)).toBe(false);
+    });
+
+    it('rejects ES plural of board word', () => {
+      // If BENCH was on board, BENCHES would be rejected
+      const boardWithBench = ['BENCH'];
+      expect(isValidClue('BENCHES', boardWithBench)).toBe(false);
+    });
+
+    it('rejects singular when plural is on board', () => {
+      const boardWithPlural = ['CARS', 'DOGS'];
+      expect(isValidClue('CAR', boardWithPlural)).toBe(false);
+      expect(isValidClue('DOG', boardWithPlural)).toBe(false);
+    });
+
+    it('allows unrelated words ending in S', () => {
+      expect(isValidClue('PLUS', sampleBoard)).toBe(true);
+      expect(isValidClue('GLASS', sampleBoard)).toBe(true);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('handles empty board', () => {
+      expect(isValidClue('ANYTHING', [])).toBe(true);
+    });
+
+    it('handles single character clues', () => {
+      const boardWithA = ['A', 'AT'];
+      expect(isValidClue('A', boardWithA)).toBe(false);
+      expect(isValidClue('B', boardWithA)).toBe(true);
+    });
+
+    it('is case insensitive for board words', () => {
+      const mixedCaseBoard = ['Apple', 'BaNK'];
+      expect(isValidClue('APPLE', mixedCaseBoard)).toBe(false);
+      expect(isValidClue('bank', mixedCaseBoard)).toBe(false);
+    });
+  });
+});
+
+describe('stem', () => {
+  it('strips plurals and common suffixes', () => {
+    expect(stem('CARS')).toBe('CAR');
+    expect(stem('BENCHES')).toBe('BENCH');
+    expect(stem('BERRIES')).toBe('BERRY');
+    expect(stem('RUNNING')).toBe('RUN');
+    expect(stem('farmer')).toBe('FARM');
+  });
+
+  it('maps irregular plurals to their singular', () => {
+    expect(stem('MICE')).toBe('MOUSE');
+    expect(stem('GEESE')).toBe('GOOSE');
+    expect(stem('WOLVES')).toBe('WOLF');
+  });
+
+  it('maps -IS plurals ending in -ES back to -IS', () => {
+    expect(stem('CRISES')).toBe(stem('CRISIS'));
+    expect(stem('ANALYSES')).toBe(stem('ANALYSIS'));
+    expect(stem('THESES')).toBe('THESIS');
+  });
+
+  it('strips -ES from plurals of words ending in S or X', () => {
+    expect(stem('BUSES')).toBe('BUS');
+    expect(stem('VIRUSES')).toBe('VIRUS');
+    expect(stem('IRISES')).toBe('IRIS');
+    expect(stem('BOXES')).toBe('BOX');
+    expect(stem('TAXES')).toBe('TAX');
+  });
+
+  it('keeps -SE words and their plurals together', () => {
+    expect(stem('HOUSES')).toBe(stem('HOUSE'));
+    expect(stem('CAUSES')).toBe(stem('CAUSE'));
+    expect(stem('FUSES')).toBe(stem('FUSE'));
+    expect(stem('PROMISES')).toBe(stem('PROMISE'));
+    expect(stem('USES')).toBe(stem('USE'));
+  });
+
+  it('leaves words that only look inflected', () => {
+    expect(stem('GLASS')).toBe('GLASS');
+    expect(stem('BUS')).toBe('BUS');
+    expect(stem('STRING')).toBe('STRING');
+    expect(stem('SPEED')).toBe('SPEED');
+    expect(stem('NEWS')).toBe('NEWS');
+    expect(stem('SPECIES')).toBe('SPECIES');
+  });
+});
+
+describe('checkClue', () => {
+  it('rejects irregular plurals either way round', () => {
+    expect(checkClue('MICE', ['MOUSE'])).toEqual({ valid: false, error: '"MICE" is too similar to "MOUSE"', boardWord: 'MOUSE' });
+    expect(isValidClue('CHILD', ['CHILDREN'])).toBe(false);
+  });
+
+  it('checks multi-word board entries word by word', () => {
+    expect(checkClue('cream', ['ICE CREAM'])).toEqual({ valid: false, error: '"cream" is part of "ICE CREAM"', boardWord: 'ICE CREAM' });
+    expect(isValidClue('ICECREAM', ['ICE CREAM'])).toBe(false);
+    expect(isValidClue('NESSIE', ['LOCH NESS'])).toBe(false);
+    expect(isValidClue('MONSTER', ['LOCH NESS'])).toBe(true);
+  });
+
+  it('ignores small joining words in multi-word entries', () => {
+    expect(isValidClue('THEATER', ['LORD OF THE RINGS'])).toBe(true);
+    expect(isValidClue('RING', ['LORD OF THE RINGS'])).toBe(false);
+  });
+
+  it('splits hyphenated clues', () => {
+    expect(isValidClue('SNOW-DOG', ['DOG'])).toBe(false);
+    expect(isValidClue('ICE-CREAM', ['ICE CREAM'])).toBe(false);
+  });
+
+  it('explains the clash', () => {
+    expect(checkClue('apple', ['APPLE']).error).toBe('"apple" is a word on the board');
+    expect(checkClue('FARM', ['FARMER']).error).toBe('"FARM" is too similar to "FARMER"');
+    expect(checkClue('ARF', ['DWARF']).error).toBe('"ARF" is contained in "DWARF"');
+    expect(checkClue('DOGHOUSE', ['DOG']).error).toBe('"DOGHOUSE" contains the board word "DOG"');
+    expect(checkClue('TESTING', ['APPLE'])).toEqual({ valid: true });
+  });
+
+  describe('strictness', () => {
+    it('lenient only blocks the word and its forms', () => {
+      expect(isValidClue('FARM', ['FARMER'], 'lenient')).toBe(false);
+      expect(isValidClue('DOGHOUSE', ['DOG'], 'lenient')).toBe(true);
+      expect(isValidClue('DOGS', ['DOG'], 'lenient')).toBe(false);
+      expect(isValidClue('NEW', ['NEWS'], 'lenient')).toBe(true);
+      expect(isValidClue('CRISES', ['CRISIS'], 'lenient')).toBe(false);
+    });
+
+    it('strict also blocks words hidden inside each other', () => {
+      expect(isValidClue('WAR', ['DWARF'], 'strict')).toBe(false);
+      expect(isValidClue('SNOWBALLS', ['BALL'], 'strict')).toBe(false);
+      expect(isValidClue('ON', ['BONE'], 'strict')).toBe(true);
+    });
+  });
+});
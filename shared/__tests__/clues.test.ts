@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { cluesFound, clueStatus, outstandingCards, creditedClueId, revealsByClue, clueGiverStats } from '../clues';
+import { UNLIMITED_CLUE } from '../constants';
+import type { ClueRecord } from '../types';
+
+function clue(team: 'red' | 'blue', count: number): ClueRecord {
+  return { team, word: 'CLUE', count, givenBy: team === 'red' ? 'r0' : 'b0' };
+}
+
+// Red gave 2 then 1; blue gave 3
+const CLUES = [clue('red', 2), clue('blue', 3), clue('red', 1)];
+
+describe('cluesFound', () => {
+  it('counts cards per clue id', () => {
+    const board = [{ clueId: 0 }, { clueId: 1 }, { clueId: 0 }, {}, { clueId: null }];
+    expect(cluesFound(CLUES, board)).toEqual([2, 1, 0]);
+  });
+});
+
+describe('clueStatus', () => {
+  it('marks solved, partly solved and unsolved clues', () => {
+    expect(clueStatus(clue('red', 2), 2)).toBe('solved');
+    expect(clueStatus(clue('red', 2), 1)).toBe('partial');
+    expect(clueStatus(clue('red', 2), 0)).toBe('unsolved');
+  });
+
+  it('never marks an ∞ clue solved', () => {
+    expect(clueStatus(clue('red', UNLIMITED_CLUE), 4)).toBe('partial');
+    expect(clueStatus(clue('red', 0), 0)).toBe('solved');
+  });
+});
+
+describe('outstandingCards', () => {
+  it('sums what each team still owes', () => {
+    const board = [{ clueId: 0 }, { clueId: 1 }];
+    expect(outstandingCards(CLUES, board, 'red')).toBe(2);
+    expect(outstandingCards(CLUES, board, 'blue')).toBe(2);
+  });
+
+  it('can leave out the current clue', () => {
+    expect(outstandingCards(CLUES, [], 'red', 2)).toBe(2);
+  });
+
+  it('ignores 0 and ∞ clues', () => {
+    expect(outstandingCards([clue('red', 0), clue('red', UNLIMITED_CLUE)], [], 'red')).toBe(0);
+  });
+});
+
+describe('creditedClueId', () => {
+  it('credits the current clue until it is solved', () => {
+    expect(creditedClueId(CLUES, [], 2)).toBe(2);
+  });
+
+  it('then pays off the oldest outstanding clue of the same team', () => {
+    expect(creditedClueId(CLUES, [{ clueId: 2 }], 2)).toBe(0);
+  });
+
+  it('stays on the current clue when nothing is owed', () => {
+    const board = [{ clueId: 0 }, { clueId: 0 }, { clueId: 2 }];
+    expect(creditedClueId(CLUES, board, 2)).toBe(2);
+  });
+
+  it('sends guesses on a 0 clue to earlier clues', () => {
+    expect(creditedClueId([...CLUES, clue('red', 0)], [], 3)).toBe(0);
+  });
+});
+
+// Red's first clue found a red card then hit blue; blue's clue hit the trap
+const EVENTS = [
+  { type: 'clue', clueId: 0 },
+  { type: 'reveal', clueId: 0, cardIndex: 4, cardTeam: 'red' as const },
+  { type: 'reveal', clueId: 0, cardIndex: 7, cardTeam: 'blue' as const },
+  { type: 'clue', clueId: 1 },
+  { type: 'reveal', clueId: 1, cardIndex: 2, cardTeam: 'trap' as const },
+  { type: 'reveal', cardIndex: 9, cardTeam: 'red' as const },
+];
+
+describe('revealsByClue', () => {
+  it('groups reveals under the clue that was active', () => {
+    const reveals = revealsByClue(EVENTS);
+    expect(reveals[0]).toEqual([{ cardIndex: 4, cardTeam: 'red' }, { cardIndex: 7, cardTeam: 'blue' }]);
+    expect(reveals[1]).toEqual([{ cardIndex: 2, cardTeam: 'trap' }]);
+    expect(reveals[2]).toBeUndefined();
+  });
+});
+
+describe('clueGiverStats', () => {
+  it('counts cards, misses and traps per clue giver', () => {
+    expect(clueGiverStats(CLUES, EVENTS)).toEqual([
+      { playerId: 'r0', clues: 2, cardsGained: 1, misses: 1, trapHits: 0 },
+      { playerId: 'b0', clues: 1, cardsGained: 0, misses: 0, trapHits: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DUET_AGENT_COUNT,
+  DUET_CARD_COUNT,
+  countDuetAgents,
+  dealDuetKeys,
+  dealSeededDuetBoard,
+  duetAgentsLeft,
+  roleThisTurn,
+} from '../duet';
+import { countCardsByTeam } from '../game-utils';
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+describe('dealDuetKeys', () => {
+  it('gives each side 9 agents, 3 traps and 13 neutrals', () => {
+    const keys = dealDuetKeys();
+    expect(keys.red).toHaveLength(DUET_CARD_COUNT);
+    expect(countCardsByTeam(keys.red)).toEqual({ red: 9, blue: 0, green: 0, neutral: 13, trap: 3 });
+    expect(countCardsByTeam(keys.blue)).toEqual({ red: 0, blue: 9, green: 0, neutral: 13, trap: 3 });
+  });
+
+  it('shares 3 agents and 1 trap between the sides', () => {
+    const keys = dealDuetKeys();
+    const both = (a: string, b: string) => keys.red.filter((t, i) => t === a && keys.blue[i] === b).length;
+    expect(both("red", "blue")).toBe(3);
+    expect(both("trap", "trap")).toBe(1);
+    expect(DUET_AGENT_COUNT).toBe(15);
+  });
+
+  it('counts agents on one side', () => {
+    expect(countDuetAgents(dealDuetKeys().blue, "blue")).toBe(9);
+  });
+});
+
+describe('dealSeededDuetBoard', () => {
+  it('deals the same game for the same seed', () => {
+    expect(dealSeededDuetBoard("DUET1")).toEqual(dealSeededDuetBoard("DUET1"));
+    expect(dealSeededDuetBoard("DUET1").words).toHaveLength(DUET_CARD_COUNT);
+  });
+});
+
+describe('duetAgentsLeft', () => {
+  it('counts agents found from either key once', () => {
+    const board = [
+      { revealed: true, team: "red" as const },
+      { revealed: true, team: "blue" as const },
+      { revealed: true, team: "neutral" as const },
+      { revealed: false },
+    ];
+    expect(duetAgentsLeft(board)).toBe(DUET_AGENT_COUNT - 2);
+  });
+});
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+describe('roleThisTurn', () => {
+  const red = { team: "red" as const, role: "clueGiver" as const };
+  const blue = { team: "blue" as const, role: "clueGiver" as const };
+
+  it('swaps Duet roles every turn', () => {
+    expect(roleThisTurn(red, "red", "duet")).toBe("clueGiver");
+    expect(roleThisTurn(blue, "red", "duet")).toBe("guesser");
+    expect(roleThisTurn(red, "blue", "duet")).toBe("guesser");
+  });
+
+  it('keeps classic roles for the team whose turn it is', () => {
+    expect(roleThisTurn({ team: "red", role: "guesser" }, "red")).toBe("guesser");
+    expect(roleThisTurn({ team: "red", role: "guesser" }, "blue")).toBeNull();
+  });
+
+  it('gives spectators no role', () => {
+    expect(roleThisTurn({ team: null, role: null }, "red", "duet")).toBeNull();
+  });
+});
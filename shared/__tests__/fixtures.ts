@@ -0,0 +1,57 @@
+import { DEFAULT_ROOM_RULES } from '../room-rules';
+import type { FirebasePlayerData, GameEngineState } from '../types';
+
+// ============================================================================
+// Shared engine state for the reducer, event, profile and series tests
+// ============================================================================
+
+export const NOW = 1_000_000;
+
+export function createPlayer(overrides: Partial<FirebasePlayerData> = {}): FirebasePlayerData {
+  return {
+    name: "Player",
+    avatar: "🐱",
+    team: null,
+    role: null,
+    connected: true,
+    lastSeen: NOW,
+    ...overrides,
+  };
+}
+
+// A classic game in red's clue phase, with no board dealt. Red clue giver r0
+// and guesser r1, blue clue giver b0 and guesser b1.
+export function createState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  return {
+    ownerId: "r0",
+    gameMode: "classic",
+    gameStarted: true,
+    gameOver: false,
+    winner: null,
+    currentTeam: "red",
+    currentClue: null,
+    remainingGuesses: null,
+    turnStartTime: NOW,
+    turnDuration: 60,
+    clueDuration: 60,
+    timeBanks: {},
+    paused: false,
+    pauseReason: null,
+    pausedForTeam: null,
+    duetTurnsLeft: null,
+    duetResult: null,
+    teams: ["red", "blue"],
+    eliminatedTeams: [],
+    clues: [],
+    rules: DEFAULT_ROOM_RULES,
+    board: [],
+    cardCounts: { red: 2, blue: 2, green: 0, neutral: 1, trap: 1 },
+    players: {
+      r0: createPlayer({ team: "red", role: "clueGiver" }),
+      r1: createPlayer({ team: "red", role: "guesser" }),
+      b0: createPlayer({ team: "blue", role: "clueGiver" }),
+      b1: createPlayer({ team: "blue", role: "guesser" }),
+    },
+    ...overrides,
+  };
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { eventsForAction, startEvent, toReplayTurns, replayBoard } from '../game-events';
+import { applyAction } from '../game-reducer';
+import type { GameEngineState, GameEvent } from '../types';
+import { NOW, createState as baseState } from './fixtures';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Red has a clue out with one card voted on each of three
+function createState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  return baseState({
+    currentClue: { word: "FRUIT", count: 1 },
+    remainingGuesses: 2,
+    board: ["APPLE", "BANANA", "CHERRY"].map((word) => ({
+      word,
+      team: null,
+      revealed: false,
+      revealedBy: null,
+      votes: { r1: true },
+    })),
+    cardCounts: { red: 1, blue: 1, green: 0, neutral: 1, trap: 0 },
+    ...overrides,
+  });
+}
+
+function event(id: number, e: Omit<GameEvent, "id" | "timestamp">): GameEvent {
+  return { id: `e${id}`, timestamp: NOW + id, ...e };
+}
+
+// ============================================================================
+// eventsForAction
+// ============================================================================
+
+describe('eventsForAction', () => {
+  it('records a clue', () => {
+    const prev = createState({ currentClue: null, remainingGuesses: null });
+    const action = { type: "giveClue", playerId: "r0", word: "fruit", count: 2, now: NOW } as const;
+    const events = eventsForAction(prev, action, applyAction(prev, action), NOW);
+    expect(events).toEqual([
+      { type: "clue", team: "red", timestamp: NOW, playerId: "r0", word: "FRUIT", count: 2, clueId: 0 },
+    ]);
+  });
+
+  it('records a reveal that ends the turn', () => {
+    const prev = createState();
+    const action = { type: "reveal", playerId: "r1", cardIndex: 2, cardTeam: "neutral", now: NOW } as const;
+    const events = eventsForAction(prev, action, applyAction(prev, action), NOW);
+    expect(events).toEqual([
+      { type: "reveal", team: "red", timestamp: NOW, playerId: "r1", cardIndex: 2, cardTeam: "neutral" },
+    ]);
+  });
+
+  it('links a reveal to the active clue', () => {
+    const prev = createState({ currentClue: { word: "FRUIT", count: 1, id: 3 } });
+    const action = { type: "reveal", playerId: "r1", cardIndex: 2, cardTeam: "neutral", now: NOW } as const;
+    expect(eventsForAction(prev, action, applyAction(prev, action), NOW)[0].clueId).toBe(3);
+  });
+
+  it('records game over after the winning reveal', () => {
+    const prev = createState();
+    const action = { type: "reveal", playerId: "r1", cardIndex: 0, cardTeam: "red", now: NOW } as const;
+    const events = eventsForAction(prev, action, applyAction(prev, action), NOW);
+    expect(events.map((e) => e.type)).toEqual(["reveal", "gameOver"]);
+    expect(events[1].winner).toBe("red");
+  });
+
+  it('tells a pass from a timeout', () => {
+    const prev = createState();
+    const pass = { type: "endTurn", playerId: "r1", now: NOW } as const;
+    expect(eventsForAction(prev, pass, applyAction(prev, pass), NOW)[0].reason).toBe("pass");
+
+    const timeout = { type: "endTurn", playerId: "b1", now: NOW + 60_000 } as const;
+    expect(eventsForAction(prev, timeout, applyAction(prev, timeout), NOW)[0].reason).toBe("timeout");
+  });
+
+  it('records a server timeout without a player', () => {
+    const prev = createState();
+    const action = { type: "timeout", now: NOW + 60_000 } as const;
+    expect(eventsForAction(prev, action, applyAction(prev, action), NOW)[0]).toEqual({
+      type: "endTurn", team: "red", timestamp: NOW, reason: "timeout",
+    });
+  });
+
+  it('records an automatic pause for the incoming team', () => {
+    const prev = createState();
+    prev.players.b0 = { ...prev.players.b0, connected: false };
+    const action = { type: "endTurn", playerId: "r1", now: NOW } as const;
+    const events = eventsForAction(prev, action, applyAction(prev, action), NOW);
+    expect(events[1]).toEqual({ type: "pause", team: "blue", timestamp: NOW, reason: "clueGiverDisconnected" });
+  });
+
+  it('records a resume', () => {
+    const prev = createState({ paused: true, pauseReason: "noGuessers", pausedForTeam: "red", turnStartTime: null });
+    const action = { type: "resume", playerId: "r0", now: NOW } as const;
+    expect(eventsForAction(prev, action, applyAction(prev, action), NOW)).toEqual([
+      { type: "resume", team: "red", timestamp: NOW, playerId: "r0" },
+    ]);
+  });
+
+  it('records a challenge and whether it voided the turn', () => {
+    const clues = [{ team: "red" as const, word: "FRUIT", count: 1, givenBy: "r0" }];
+    const action = { type: "challengeClue", playerId: "b0", now: NOW } as const;
+    const prev = createState({ clues, currentClue: { word: "FRUIT", count: 1, id: 0 } });
+    expect(eventsForAction(prev, action, applyAction(prev, action), NOW)).toEqual([
+      { type: "challenge", team: "red", timestamp: NOW, playerId: "b0", voided: false, clueId: 0 },
+    ]);
+
+    const voiding = { ...prev, rules: { ...prev.rules, clueChallenge: "voidTurn" as const } };
+    expect(eventsForAction(voiding, action, applyAction(voiding, action), NOW)[0].voided).toBe(true);
+  });
+
+  it('leaves votes to the client', () => {
+    const prev = createState();
+    const action = { type: "vote", playerId: "r1", cardIndex: 1 } as const;
+    expect(eventsForAction(prev, action, applyAction(prev, action), NOW)).toEqual([]);
+  });
+});
+
+describe('startEvent', () => {
+  it('records the starting team', () => {
+    expect(startEvent("blue", NOW)).toEqual({ type: "start", team: "blue", timestamp: NOW });
+  });
+});
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+const LOG: GameEvent[] = [
+  event(0, { type: "start", team: "red" }),
+  event(1, { type: "clue", team: "red", playerId: "r0", word: "FRUIT", count: 2 }),
+  event(2, { type: "vote", team: "red", playerId: "r1", cardIndex: 0, voted: true }),
+  event(3, { type: "reveal", team: "red", playerId: "r1", cardIndex: 0, cardTeam: "red" }),
+  event(4, { type: "endTurn", team: "red", playerId: "r1", reason: "pass" }),
+  event(5, { type: "clue", team: "blue", playerId: "b0", word: "SHAPE", count: 1 }),
+  event(6, { type: "reveal", team: "blue", playerId: "b1", cardIndex: 2, cardTeam: "neutral" }),
+  event(7, { type: "pause", team: "red", reason: "noGuessers" }),
+  event(8, { type: "resume", team: "red", playerId: "r0" }),
+  event(9, { type: "clue", team: "red", playerId: "r0", word: "YELLOW", count: 1 }),
+  event(10, { type: "reveal", team: "red", playerId: "r1", cardIndex: 1, cardTeam: "trap" }),
+  event(11, { type: "gameOver", team: "red", winner: "blue" }),
+];
+
+describe('toReplayTurns', () => {
+  it('groups events into turns', () => {
+    const turns = toReplayTurns(LOG);
+    expect(turns).toHaveLength(3);
+    expect(turns[0]).toEqual({
+      team: "red",
+      clue: { word: "FRUIT", count: 2 },
+      reveals: [{ cardIndex: 0, cardTeam: "red", playerId: "r1" }],
+      endReason: "pass",
+      winner: null,
+      result: null,
+    });
+    expect(turns[1].team).toBe("blue");
+    expect(turns[1].endReason).toBeNull();
+    expect(turns[2].clue).toEqual({ word: "YELLOW", count: 1 });
+    expect(turns[2].winner).toBe("blue");
+  });
+
+  it('notes a challenge on its turn', () => {
+    const log = [
+      ...LOG.slice(0, 2),
+      event(2, { type: "challenge", team: "red", playerId: "b0", clueId: 0, voided: true }),
+      event(3, { type: "clue", team: "blue", playerId: "b0", word: "SHAPE", count: 1 }),
+    ];
+    const turns = toReplayTurns(log);
+    expect(turns[0].challenge).toEqual({ playerId: "b0", voided: true });
+    expect(turns[1].challenge).toBeUndefined();
+  });
+
+  it('returns no turns for an empty log', () => {
+    expect(toReplayTurns([])).toEqual([]);
+    expect(toReplayTurns([LOG[0]])).toEqual([]);
+  });
+});
+
+describe('replayBoard', () => {
+  const words = ["APPLE", "BANANA", "CIRCLE"];
+  const turns = toReplayTurns(LOG);
+
+  it('starts with every card hidden', () => {
+    expect(replayBoard(words, turns, -1).every((c) => !c.revealed && c.team === undefined)).toBe(true);
+  });
+
+  it('reveals cards up to the given turn', () => {
+    const board = replayBoard(words, turns, 1);
+    expect(board.map((c) => c.revealed)).toEqual([true, false, true]);
+    expect(board[2]).toEqual({ word: "CIRCLE", team: "neutral", revealed: true, revealedBy: "b1" });
+  });
+
+  it('shows the final board after the last turn', () => {
+    expect(replayBoard(words, turns, turns.length - 1).every((c) => c.revealed)).toBe(true);
+  });
+
+  it('only covers a first neutral guess in Duet', () => {
+    const board = replayBoard(words, turns, 1, "duet");
+    expect(board[2]).toEqual({ word: "CIRCLE", revealed: false, neutralFor: "blue" });
+  });
+});
@@ -0,0 +1,731 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyAction,
+  checkPause,
+  checkDuetPause,
+  toEngineState,
+  toRoomUpdates,
+} from '../game-reducer';
+import { UNLIMITED_CLUE } from '../constants';
+import { DEFAULT_ROOM_RULES } from '../room-rules';
+import type { FirebasePlayerData, FirebaseRoomData, GameEngineState, Team } from '../types';
+import { NOW, createPlayer, createState as baseState } from './fixtures';
+
+// ============================================================================
+// Helpers to create test state
+// ============================================================================
+
+// Red clue giver r0, red guessers r1/r2, blue clue giver b0, blue guesser b1
+function createPlayers(): Record<string, FirebasePlayerData> {
+  return {
+    r0: createPlayer({ name: "R0", team: "red", role: "clueGiver" }),
+    r1: createPlayer({ name: "R1", team: "red", role: "guesser" }),
+    r2: createPlayer({ name: "R2", team: "red", role: "guesser" }),
+    b0: createPlayer({ name: "B0", team: "blue", role: "clueGiver" }),
+    b1: createPlayer({ name: "B1", team: "blue", role: "guesser" }),
+  };
+}
+
+// Small board: 0-1 red, 2-3 blue, 4 neutral, 5 trap
+const KEY: Team[] = ["red", "red", "blue", "blue", "neutral", "trap"];
+
+function createState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  return baseState({
+    board: ["APPLE", "BANANA", "CHERRY", "DATE", "ELDER", "FIG"].map((word) => ({
+      word,
+      team: null,
+      revealed: false,
+      revealedBy: null,
+      votes: {},
+    })),
+    players: createPlayers(),
+    ...overrides,
+  });
+}
+
+// Red has a clue out for 2 and r1 has voted on the given card
+function guessingState(cardIndex: number, overrides: Partial<GameEngineState> = {}): GameEngineState {
+  const state = createState({
+    currentClue: { word: "FRUIT", count: 2 },
+    remainingGuesses: 3,
+    ...overrides,
+  });
+  state.board[cardIndex] = { ...state.board[cardIndex], votes: { r1: true } };
+  return state;
+}
+
+function reveal(state: GameEngineState, cardIndex: number, playerId = "r1"): GameEngineState {
+  return applyAction(state, { type: "reveal", playerId, cardIndex, cardTeam: KEY[cardIndex], now: NOW + 5000 });
+}
+
+// ============================================================================
+// giveClue
+// ============================================================================
+
+describe('giveClue', () => {
+  it('sets the clue, guesses and restarts the timer', () => {
+    const next = applyAction(createState(), { type: "giveClue", playerId: "r0", word: " fruit ", count: 2, now: NOW + 1000 });
+    expect(next.currentClue).toEqual({ word: "FRUIT", count: 2, id: 0 });
+    expect(next.remainingGuesses).toBe(3);
+    expect(next.turnStartTime).toBe(NOW + 1000);
+  });
+
+  it('clears votes on unrevealed cards', () => {
+    const state = createState();
+    state.board[0] = { ...state.board[0], votes: { r1: true } };
+    const next = applyAction(state, { type: "giveClue", playerId: "r0", word: "fruit", count: 1, now: NOW });
+    expect(next.board[0].votes).toEqual({});
+  });
+
+  it('rejects the other team\'s clue giver', () => {
+    expect(() => applyAction(createState(), { type: "giveClue", playerId: "b0", word: "fruit", count: 1, now: NOW }))
+      .toThrow("Not your turn");
+  });
+
+  it('rejects a guesser', () => {
+    expect(() => applyAction(createState(), { type: "giveClue", playerId: "r1", word: "fruit", count: 1, now: NOW }))
+      .toThrow("Not your turn");
+  });
+
+  it('rejects a second clue in the same turn', () => {
+    const state = createState({ currentClue: { word: "FRUIT", count: 1 }, remainingGuesses: 2 });
+    expect(() => applyAction(state, { type: "giveClue", playerId: "r0", word: "tree", count: 1, now: NOW }))
+      .toThrow("Cannot give clue now");
+  });
+
+  it('rejects board words', () => {
+    expect(() => applyAction(createState(), { type: "giveClue", playerId: "r0", word: "apples", count: 1, now: NOW }))
+      .toThrow("Invalid clue word");
+  });
+
+  it('rejects malformed clues', () => {
+    expect(() => applyAction(createState(), { type: "giveClue", playerId: "r0", word: "two words", count: 1, now: NOW }))
+      .toThrow("Invalid clue");
+    expect(() => applyAction(createState(), { type: "giveClue", playerId: "r0", word: "fruit", count: -2, now: NOW }))
+      .toThrow("Invalid clue");
+    expect(() => applyAction(createState(), { type: "giveClue", playerId: "r0", word: "fruit", count: 1.5, now: NOW }))
+      .toThrow("Invalid clue");
+  });
+
+  it('records the clue with an id', () => {
+    const state = createState({ clues: [{ team: "blue", word: "OLD", count: 1, givenBy: "b0" }] });
+    const next = applyAction(state, { type: "giveClue", playerId: "r0", word: "fruit", count: 2, now: NOW });
+    expect(next.currentClue).toEqual({ word: "FRUIT", count: 2, id: 1 });
+    expect(next.clues[1]).toEqual({ team: "red", word: "FRUIT", count: 2, givenBy: "r0" });
+  });
+
+  it('lets 0 and ∞ clues guess until a miss', () => {
+    [0, UNLIMITED_CLUE].forEach((count) => {
+      const clued = applyAction(createState(), { type: "giveClue", playerId: "r0", word: "fruit", count, now: NOW });
+      expect(clued.currentClue).toEqual({ word: "FRUIT", count, id: 0 });
+      expect(clued.remainingGuesses).toBe(clued.board.length);
+
+      const voted = applyAction(clued, { type: "vote", playerId: "r1", cardIndex: 0 });
+      const next = reveal(voted, 0);
+      expect(next.currentTeam).toBe("red");
+      expect(applyAction(next, { type: "endTurn", playerId: "r1", now: NOW }).currentTeam).toBe("blue");
+    });
+  });
+});
+
+// ============================================================================
+// vote
+// ============================================================================
+
+describe('vote', () => {
+  it('toggles the player\'s vote', () => {
+    const state = createState({ currentClue: { word: "FRUIT", count: 1 }, remainingGuesses: 2 });
+    const voted = applyAction(state, { type: "vote", playerId: "r1", cardIndex: 0 });
+    expect(voted.board[0].votes).toEqual({ r1: true });
+    const unvoted = applyAction(voted, { type: "vote", playerId: "r1", cardIndex: 0 });
+    expect(unvoted.board[0].votes).toEqual({});
+  });
+
+  it('rejects voting before a clue', () => {
+    expect(() => applyAction(createState(), { type: "vote", playerId: "r1", cardIndex: 0 }))
+      .toThrow("Cannot vote now");
+  });
+
+  it('rejects the other team', () => {
+    const state = createState({ currentClue: { word: "FRUIT", count: 1 }, remainingGuesses: 2 });
+    expect(() => applyAction(state, { type: "vote", playerId: "b1", cardIndex: 0 })).toThrow("Not your turn");
+  });
+
+  it('rejects revealed and out-of-range cards', () => {
+    const state = createState({ currentClue: { word: "FRUIT", count: 1 }, remainingGuesses: 2 });
+    state.board[0] = { ...state.board[0], revealed: true, team: "red" };
+    expect(() => applyAction(state, { type: "vote", playerId: "r1", cardIndex: 0 })).toThrow("Invalid card");
+    expect(() => applyAction(state, { type: "vote", playerId: "r1", cardIndex: 99 })).toThrow("Invalid card");
+  });
+});
+
+// ============================================================================
+// reveal
+// ============================================================================
+
+describe('reveal', () => {
+  it('reveals a correct card and keeps guessing', () => {
+    const next = reveal(guessingState(0), 0);
+    expect(next.board[0]).toMatchObject({ team: "red", revealed: true, revealedBy: "r1", votes: {} });
+    expect(next.remainingGuesses).toBe(2);
+    expect(next.currentTeam).toBe("red");
+  });
+
+  it('switches turn on a neutral card', () => {
+    const next = reveal(guessingState(4), 4);
+    expect(next.currentTeam).toBe("blue");
+    expect(next.currentClue).toBeNull();
+    expect(next.remainingGuesses).toBeNull();
+    expect(next.turnStartTime).toBe(NOW + 5000);
+  });
+
+  it('switches turn on the opposing team\'s card', () => {
+    const next = reveal(guessingState(2), 2);
+    expect(next.currentTeam).toBe("blue");
+    expect(next.gameOver).toBe(false);
+  });
+
+  it('switches turn when guesses run out', () => {
+    const next = reveal(guessingState(0, { remainingGuesses: 1 }), 0);
+    expect(next.currentTeam).toBe("blue");
+  });
+
+  it('ends the game on the trap', () => {
+    const next = reveal(guessingState(5), 5);
+    expect(next.gameOver).toBe(true);
+    expect(next.winner).toBe("blue");
+    expect(next.turnStartTime).toBeNull();
+  });
+
+  it('wins when the team\'s last card is revealed', () => {
+    const state = guessingState(1);
+    state.board[0] = { ...state.board[0], revealed: true, team: "red" };
+    const next = reveal(state, 1);
+    expect(next.gameOver).toBe(true);
+    expect(next.winner).toBe("red");
+  });
+
+  it('wins on the last card even with the last guess', () => {
+    const state = guessingState(1, { remainingGuesses: 1 });
+    state.board[0] = { ...state.board[0], revealed: true, team: "red" };
+    const next = reveal(state, 1);
+    expect(next.winner).toBe("red");
+  });
+
+  it('gives the win to the other team when their last card is revealed', () => {
+    const state = guessingState(3);
+    state.board[2] = { ...state.board[2], revealed: true, team: "blue" };
+    const next = reveal(state, 3);
+    expect(next.gameOver).toBe(true);
+    expect(next.winner).toBe("blue");
+  });
+
+  it('credits a correct guess to the current clue, and the extra guess to an earlier one', () => {
+    const clues = [
+      { team: "red" as const, word: "OLD", count: 1, givenBy: "r0" },
+      { team: "red" as const, word: "FRUIT", count: 1, givenBy: "r0" },
+    ];
+    const first = reveal(guessingState(0, { clues, currentClue: { word: "FRUIT", count: 1, id: 1 } }), 0);
+    expect(first.board[0].clueId).toBe(1);
+
+    const voted = applyAction(first, { type: "vote", playerId: "r1", cardIndex: 1 });
+    const second = reveal(voted, 1);
+    expect(second.board[1].clueId).toBe(0);
+  });
+
+  it('does not credit a wrong guess to any clue', () => {
+    const state = guessingState(2, { clues: [{ team: "red", word: "FRUIT", count: 2, givenBy: "r0" }], currentClue: { word: "FRUIT", count: 2, id: 0 } });
+    expect(reveal(state, 2).board[2].clueId).toBeNull();
+  });
+
+  it('requires the revealing player to have voted', () => {
+    expect(() => reveal(guessingState(0), 0, "r2")).toThrow("Not enough votes");
+  });
+
+  it('requires two votes with four or more guessers', () => {
+    const players = {
+      ...createPlayers(),
+      r3: createPlayer({ team: "red", role: "guesser" }),
+      r4: createPlayer({ team: "red", role: "guesser" }),
+    };
+    const state = guessingState(0, { players });
+    expect(() => reveal(state, 0)).toThrow("Not enough votes");
+
+    state.board[0] = { ...state.board[0], votes: { r1: true, r2: true } };
+    expect(reveal(state, 0).board[0].revealed).toBe(true);
+  });
+
+  it("only counts this turn's guessers toward the threshold", () => {
+    const players = {
+      ...createPlayers(),
+      r3: createPlayer({ team: "red", role: "guesser" }),
+      r4: createPlayer({ team: "red", role: "guesser" }),
+      s0: createPlayer({ spectating: true }),
+    };
+    const state = guessingState(0, { players });
+    // The clue giver, the other team and a spectator don't make up the second vote
+    state.board[0] = { ...state.board[0], votes: { r1: true, r0: true, b1: true, s0: true } };
+    expect(() => reveal(state, 0)).toThrow("Not enough votes");
+  });
+
+  it('pauses when the incoming team has no connected clue giver', () => {
+    const players = createPlayers();
+    players.b0 = { ...players.b0, connected: false };
+    const next = reveal(guessingState(4, { players }), 4);
+    expect(next.currentTeam).toBe("blue");
+    expect(next.paused).toBe(true);
+    expect(next.pauseReason).toBe("clueGiverDisconnected");
+    expect(next.pausedForTeam).toBe("blue");
+    expect(next.turnStartTime).toBeNull();
+  });
+
+  it('does not mutate the input state', () => {
+    const state = guessingState(0);
+    const snapshot = JSON.parse(JSON.stringify(state));
+    reveal(state, 0);
+    expect(state).toEqual(snapshot);
+  });
+});
+
+// ============================================================================
+// endTurn
+// ============================================================================
+
+describe('endTurn', () => {
+  it('lets an active guesser pass', () => {
+    const state = guessingState(0);
+    const next = applyAction(state, { type: "endTurn", playerId: "r2", now: NOW + 1000 });
+    expect(next.currentTeam).toBe("blue");
+    expect(next.board[0].votes).toEqual({});
+  });
+
+  it('rejects other players before the timer runs out', () => {
+    expect(() => applyAction(guessingState(0), { type: "endTurn", playerId: "b1", now: NOW + 1000 }))
+      .toThrow("Not your turn");
+  });
+
+  it('lets anyone end a turn whose timer ran out', () => {
+    const next = applyAction(guessingState(0), { type: "endTurn", playerId: "b1", now: NOW + 60_000 });
+    expect(next.currentTeam).toBe("blue");
+  });
+
+  it('rejects ending a finished game', () => {
+    const state = createState({ gameOver: true, winner: "red" });
+    expect(() => applyAction(state, { type: "endTurn", playerId: "r1", now: NOW })).toThrow("Game not active");
+  });
+});
+
+// ============================================================================
+// challengeClue
+// ============================================================================
+
+describe('challengeClue', () => {
+  // Red just gave FRUIT (clue 0) at NOW
+  function cluedState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+    return applyAction(createState(overrides), { type: "giveClue", playerId: "r0", word: "fruit", count: 2, now: NOW });
+  }
+
+  it('records the challenge and lets the turn go on', () => {
+    const next = applyAction(cluedState(), { type: "challengeClue", playerId: "b0", now: NOW + 5000 });
+    expect(next.clues[0]).toEqual({ team: "red", word: "FRUIT", count: 2, givenBy: "r0", challengedBy: "b0" });
+    expect(next.currentTeam).toBe("red");
+    expect(next.currentClue?.word).toBe("FRUIT");
+  });
+
+  it('voids the turn when the room says so', () => {
+    const next = applyAction(cluedState({ rules: { ...DEFAULT_ROOM_RULES, clueChallenge: "voidTurn" } }), { type: "challengeClue", playerId: "b0", now: NOW + 5000 });
+    expect(next.clues[0].voided).toBe(true);
+    expect(next.currentTeam).toBe("blue");
+    expect(next.currentClue).toBeNull();
+    expect(next.turnStartTime).toBe(NOW + 5000);
+  });
+
+  it('only lets another team\'s clue giver challenge', () => {
+    const state = cluedState();
+    expect(() => applyAction(state, { type: "challengeClue", playerId: "b1", now: NOW })).toThrow("Only another team's clue giver can challenge");
+    expect(() => applyAction(state, { type: "challengeClue", playerId: "r0", now: NOW })).toThrow("Only another team's clue giver can challenge");
+  });
+
+  it('closes after the challenge window', () => {
+    expect(() => applyAction(cluedState(), { type: "challengeClue", playerId: "b0", now: NOW + 30_000 }))
+      .toThrow("Too late to challenge");
+  });
+
+  it('allows one challenge per clue', () => {
+    const challenged = applyAction(cluedState(), { type: "challengeClue", playerId: "b0", now: NOW });
+    expect(() => applyAction(challenged, { type: "challengeClue", playerId: "b0", now: NOW })).toThrow("Clue already challenged");
+  });
+
+  it('needs a clue and challenges turned on', () => {
+    expect(() => applyAction(createState(), { type: "challengeClue", playerId: "b0", now: NOW })).toThrow("No clue to challenge");
+    expect(() => applyAction(cluedState({ rules: { ...DEFAULT_ROOM_RULES, clueChallenge: "off" } }), { type: "challengeClue", playerId: "b0", now: NOW }))
+      .toThrow("Challenges are off in this room");
+  });
+});
+
+// ============================================================================
+// room rules
+// ============================================================================
+
+describe('room rules', () => {
+  function withRules(rules: Partial<GameEngineState["rules"]>): Partial<GameEngineState> {
+    return { rules: { ...DEFAULT_ROOM_RULES, ...rules } };
+  }
+
+  it('gives exactly the clue count in guesses without the extra guess', () => {
+    const next = applyAction(createState(withRules({ extraGuess: false })), { type: "giveClue", playerId: "r0", word: "fruit", count: 2, now: NOW });
+    expect(next.remainingGuesses).toBe(2);
+  });
+
+  it('ends the turn instead of the game on a trap with the lose-turn penalty', () => {
+    const next = reveal(guessingState(5, withRules({ trapPenalty: "loseTurn" })), 5);
+    expect(next.gameOver).toBe(false);
+    expect(next.eliminatedTeams).toEqual([]);
+    expect(next.currentTeam).toBe("blue");
+    expect(next.board[5]).toMatchObject({ team: "trap", revealed: true });
+  });
+
+  it('applies a fixed vote threshold', () => {
+    const state = guessingState(0, withRules({ voteThreshold: 2 }));
+    expect(() => reveal(state, 0)).toThrow("Not enough votes");
+
+    state.board[0] = { ...state.board[0], votes: { r1: true, r2: true } };
+    expect(reveal(state, 0).board[0].revealed).toBe(true);
+  });
+
+  it('lets nobody else end an untimed turn', () => {
+    const state = guessingState(0, withRules({ timer: false }));
+    expect(() => applyAction(state, { type: "endTurn", playerId: "b1", now: NOW + 600_000 })).toThrow("Not your turn");
+    expect(applyAction(state, { type: "endTurn", playerId: "r1", now: NOW }).currentTeam).toBe("blue");
+  });
+
+  it('checks clues at the room\'s strictness', () => {
+    const state = createState({ ...withRules({ clueStrictness: "strict" }), board: [{ word: "PINEAPPLE", team: null, revealed: false, revealedBy: null, votes: {} }] });
+    expect(() => applyAction(state, { type: "giveClue", playerId: "r0", word: "apple", count: 1, now: NOW }))
+      .toThrow("Invalid clue word");
+  });
+
+  it('reads defaults for rooms saved without rules', () => {
+    const state = toEngineState({ ownerId: "r0", currentTeam: "red", turnDuration: 60, rules: { timer: false } } as FirebaseRoomData);
+    expect(state.rules).toEqual({ ...DEFAULT_ROOM_RULES, timer: false });
+  });
+});
+
+// ============================================================================
+// turn clocks
+// ============================================================================
+
+describe('turn clocks', () => {
+  it('times out the clue phase on the clue duration', () => {
+    const state = createState({ clueDuration: 30 });
+    expect(applyAction(state, { type: "endTurn", playerId: "b1", now: NOW + 30_000 }).currentTeam).toBe("blue");
+  });
+
+  it('times out the guess phase on the turn duration', () => {
+    const state = guessingState(0, { clueDuration: 30 });
+    expect(() => applyAction(state, { type: "endTurn", playerId: "b1", now: NOW + 30_000 })).toThrow("Not your turn");
+  });
+
+  it('lets a team play on into its bank before timing out', () => {
+    const state = guessingState(0, { timeBanks: { red: 20_000, blue: 20_000 } });
+    expect(() => applyAction(state, { type: "endTurn", playerId: "b1", now: NOW + 70_000 })).toThrow("Not your turn");
+    expect(applyAction(state, { type: "endTurn", playerId: "b1", now: NOW + 80_000 }).currentTeam).toBe("blue");
+  });
+
+  it('charges the overtime to the team when the turn ends', () => {
+    const state = guessingState(4, { timeBanks: { red: 20_000, blue: 20_000 } });
+    const next = applyAction(state, { type: "reveal", playerId: "r1", cardIndex: 4, cardTeam: "neutral", now: NOW + 65_000 });
+    expect(next.timeBanks).toEqual({ red: 15_000, blue: 20_000 });
+  });
+
+  it('charges a slow clue before the guess clock starts', () => {
+    const state = createState({ clueDuration: 30, timeBanks: { red: 20_000 } });
+    const next = applyAction(state, { type: "giveClue", playerId: "r0", word: "fruit", count: 1, now: NOW + 40_000 });
+    expect(next.timeBanks).toEqual({ red: 10_000 });
+    expect(next.turnStartTime).toBe(NOW + 40_000);
+  });
+
+  it('leaves banks alone in an untimed room', () => {
+    const state = guessingState(4, { timeBanks: { red: 20_000 }, rules: { ...DEFAULT_ROOM_RULES, timer: false } });
+    const next = applyAction(state, { type: "reveal", playerId: "r1", cardIndex: 4, cardTeam: "neutral", now: NOW + 65_000 });
+    expect(next.timeBanks).toEqual({ red: 20_000 });
+  });
+});
+
+// ============================================================================
+// timeout
+// ============================================================================
+
+describe('timeout', () => {
+  it('ends a turn whose clock ran out', () => {
+    const next = applyAction(guessingState(0), { type: "timeout", now: NOW + 60_000 });
+    expect(next).toMatchObject({ currentTeam: "blue", currentClue: null, turnStartTime: NOW + 60_000 });
+  });
+
+  it('allows no clock skew', () => {
+    expect(() => applyAction(guessingState(0), { type: "timeout", now: NOW + 59_000 })).toThrow("Turn has not timed out");
+  });
+
+  it('waits for the team\'s bank', () => {
+    const state = guessingState(0, { timeBanks: { red: 20_000 } });
+    expect(() => applyAction(state, { type: "timeout", now: NOW + 70_000 })).toThrow("Turn has not timed out");
+    expect(applyAction(state, { type: "timeout", now: NOW + 80_000 }).timeBanks).toEqual({ red: 0 });
+  });
+
+  it('never fires in an untimed room or while paused', () => {
+    const untimed = guessingState(0, { rules: { ...DEFAULT_ROOM_RULES, timer: false } });
+    expect(() => applyAction(untimed, { type: "timeout", now: NOW + 600_000 })).toThrow("Turn has not timed out");
+    const paused = applyAction(createState(), { type: "pause", team: "red", reason: "noGuessers" });
+    expect(() => applyAction(paused, { type: "timeout", now: NOW + 600_000 })).toThrow("Turn has not timed out");
+  });
+
+  it('rejects a finished game', () => {
+    const state = createState({ gameOver: true, winner: "red" });
+    expect(() => applyAction(state, { type: "timeout", now: NOW + 600_000 })).toThrow("Game not active");
+  });
+});
+
+// ============================================================================
+// pause / resume
+// ============================================================================
+
+describe('pause and resume', () => {
+  it('pause stops the timer', () => {
+    const next = applyAction(createState(), { type: "pause", team: "red", reason: "noGuessers" });
+    expect(next).toMatchObject({ paused: true, pauseReason: "noGuessers", pausedForTeam: "red", turnStartTime: null });
+  });
+
+  it('resume restarts the timer for the owner', () => {
+    const paused = applyAction(createState(), { type: "pause", team: "red", reason: "noGuessers" });
+    const next = applyAction(paused, { type: "resume", playerId: "r0", now: NOW + 9000 });
+    expect(next).toMatchObject({ paused: false, pauseReason: null, pausedForTeam: null, turnStartTime: NOW + 9000 });
+  });
+
+  it('resume is owner-only', () => {
+    const paused = applyAction(createState(), { type: "pause", team: "red", reason: "noGuessers" });
+    expect(() => applyAction(paused, { type: "resume", playerId: "r1", now: NOW })).toThrow("Not room owner");
+  });
+
+  it('resume requires a connected clue giver and guesser', () => {
+    const players = createPlayers();
+    players.r1 = { ...players.r1, connected: false };
+    players.r2 = { ...players.r2, connected: false };
+    const paused = applyAction(createState({ players }), { type: "pause", team: "red", reason: "noGuessers" });
+    expect(() => applyAction(paused, { type: "resume", playerId: "r0", now: NOW }))
+      .toThrow("Team needs clue giver and guesser");
+  });
+
+  it('resume rejects a game that is not paused', () => {
+    expect(() => applyAction(createState(), { type: "resume", playerId: "r0", now: NOW })).toThrow("Invalid game state");
+  });
+});
+
+// ============================================================================
+// checkPause
+// ============================================================================
+
+describe('checkPause', () => {
+  it('does not pause a complete team', () => {
+    expect(checkPause(createPlayers(), "red", false)).toEqual({ paused: false, reason: null, team: null });
+  });
+
+  it('reports a fully disconnected team', () => {
+    const players = createPlayers();
+    players.b0 = { ...players.b0, connected: false };
+    players.b1 = { ...players.b1, connected: false };
+    expect(checkPause(players, "blue", false).reason).toBe("teamDisconnected");
+  });
+
+  it('needs guessers only once a clue is out', () => {
+    const players = createPlayers();
+    players.b1 = { ...players.b1, connected: false };
+    expect(checkPause(players, "blue", false).paused).toBe(false);
+    expect(checkPause(players, "blue", true).reason).toBe("noGuessers");
+  });
+});
+
+// ============================================================================
+// Duet
+// ============================================================================
+
+// Red seat "a" gives the first clue, blue seat "b" guesses. Cards 0-13 are
+// agents found earlier; 14 is the last agent, 15 is neutral and 16 a trap.
+function duetState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  const found = Array.from({ length: 14 }, (_, i) => ({
+    word: `FOUND${i}`,
+    team: (i % 2 ? "red" : "blue") as Team,
+    revealed: true,
+    revealedBy: "b",
+    votes: {},
+  }));
+  const open = ["LAST", "BYSTANDER", "TRAP"].map((word) => ({ word, team: null, revealed: false, revealedBy: null, votes: {} }));
+  return createState({
+    gameMode: "duet",
+    ownerId: "a",
+    currentClue: { word: "HINT", count: 1 },
+    remainingGuesses: 17,
+    duetTurnsLeft: 5,
+    board: [...found, ...open],
+    players: {
+      a: createPlayer({ name: "A", team: "red", role: "clueGiver" }),
+      b: createPlayer({ name: "B", team: "blue", role: "clueGiver" }),
+    },
+    ...overrides,
+  });
+}
+
+function duetReveal(state: GameEngineState, cardIndex: number, cardTeam: Team, playerId = "b"): GameEngineState {
+  const voted = applyAction(state, { type: "vote", playerId, cardIndex });
+  return applyAction(voted, { type: "reveal", playerId, cardIndex, cardTeam, now: NOW + 5000 });
+}
+
+describe('duet', () => {
+  it('lets the side whose turn it is clue, and the other side guess', () => {
+    const state = duetState({ currentClue: null, remainingGuesses: null });
+    expect(() => applyAction(state, { type: "giveClue", playerId: "b", word: "hint", count: 1, now: NOW })).toThrow("Not your turn");
+    const next = applyAction(state, { type: "giveClue", playerId: "a", word: "hint", count: 1, now: NOW });
+    expect(next.remainingGuesses).toBe(state.board.length);
+    expect(() => applyAction(next, { type: "vote", playerId: "a", cardIndex: 14 })).toThrow("Not your turn");
+  });
+
+  it('wins once every agent is found', () => {
+    const next = duetReveal(duetState(), 14, "red");
+    expect(next.gameOver).toBe(true);
+    expect(next.duetResult).toBe("won");
+    expect(next.winner).toBeNull();
+  });
+
+  it('loses on a trap', () => {
+    const next = duetReveal(duetState(), 16, "trap");
+    expect(next.duetResult).toBe("trap");
+  });
+
+  it('covers a neutral for the clue giver only and spends a turn', () => {
+    const next = duetReveal(duetState(), 15, "neutral");
+    expect(next.board[15]).toMatchObject({ revealed: false, neutralFor: "red" });
+    expect(next.currentTeam).toBe("blue");
+    expect(next.duetTurnsLeft).toBe(4);
+
+    // Blue's clue: red guesses, and may still pick the card from blue's key
+    const blueClue = applyAction(next, { type: "giveClue", playerId: "b", word: "other", count: 1, now: NOW });
+    expect(() => applyAction({ ...blueClue, currentTeam: "red" }, { type: "vote", playerId: "b", cardIndex: 15 })).toThrow("Invalid card");
+    const again = duetReveal(blueClue, 15, "neutral", "a");
+    expect(again.board[15]).toMatchObject({ revealed: true, team: "neutral" });
+  });
+
+  it('runs out of turns', () => {
+    const next = applyAction(duetState({ duetTurnsLeft: 1 }), { type: "endTurn", playerId: "b", now: NOW });
+    expect(next.gameOver).toBe(true);
+    expect(next.duetResult).toBe("outOfTurns");
+  });
+
+  it('lets the clue giver pass before giving a clue', () => {
+    const state = duetState({ currentClue: null, remainingGuesses: null });
+    expect(applyAction(state, { type: "endTurn", playerId: "a", now: NOW }).currentTeam).toBe("blue");
+  });
+
+  it('pauses when either seat is disconnected', () => {
+    const state = duetState();
+    expect(checkDuetPause(state.players, "red").paused).toBe(false);
+    const players = { ...state.players, b: { ...state.players.b, connected: false } };
+    expect(checkDuetPause(players, "red").reason).toBe("noGuessers");
+    expect(checkDuetPause(players, "blue").reason).toBe("clueGiverDisconnected");
+  });
+});
+
+// ============================================================================
+// three teams
+// ============================================================================
+
+// Adds green clue giver g0 and guesser g1; card 4 becomes green instead of neutral
+function threeTeamState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  return guessingState(5, {
+    teams: ["red", "blue", "green"],
+    cardCounts: { red: 2, blue: 2, green: 1, neutral: 0, trap: 1 },
+    players: {
+      ...createPlayers(),
+      g0: createPlayer({ name: "G0", team: "green", role: "clueGiver" }),
+      g1: createPlayer({ name: "G1", team: "green", role: "guesser" }),
+    },
+    ...overrides,
+  });
+}
+
+describe('three teams', () => {
+  it('rotates turns through every team', () => {
+    const state = threeTeamState();
+    const afterRed = applyAction(state, { type: "endTurn", playerId: "r1", now: NOW });
+    expect(afterRed.currentTeam).toBe("blue");
+    const afterBlue = applyAction({ ...afterRed, currentClue: { word: "X", count: 1 } }, { type: "endTurn", playerId: "b1", now: NOW });
+    expect(afterBlue.currentTeam).toBe("green");
+  });
+
+  it('knocks out the team that finds the trap and plays on', () => {
+    const next = reveal(threeTeamState(), 5);
+    expect(next.gameOver).toBe(false);
+    expect(next.eliminatedTeams).toEqual(["red"]);
+    expect(next.currentTeam).toBe("blue");
+  });
+
+  it('skips knocked-out teams', () => {
+    const state = threeTeamState({ currentTeam: "green", eliminatedTeams: ["red"] });
+    state.board[5] = { ...state.board[5], votes: { g1: true } };
+    const next = applyAction(state, { type: "endTurn", playerId: "g1", now: NOW });
+    expect(next.currentTeam).toBe("blue");
+  });
+
+  it('gives the win to the last team standing', () => {
+    const state = threeTeamState({ eliminatedTeams: ["green"] });
+    const next = reveal(state, 5);
+    expect(next.gameOver).toBe(true);
+    expect(next.winner).toBe("blue");
+    expect(next.eliminatedTeams).toEqual(["green", "red"]);
+  });
+
+  it('does not award a win to a knocked-out team', () => {
+    const state = threeTeamState({ eliminatedTeams: ["green"] });
+    const next = applyAction(state, { type: "reveal", playerId: "r1", cardIndex: 5, cardTeam: "green", now: NOW });
+    expect(next.gameOver).toBe(false);
+    expect(next.currentTeam).toBe("blue");
+  });
+});
+
+// ============================================================================
+// RTDB adapters
+// ============================================================================
+
+describe('toEngineState', () => {
+  it('fills in votes that RTDB dropped', () => {
+    const room = {
+      ...createState(),
+      board: [{ word: "APPLE", revealed: false, revealedBy: null }],
+    } as unknown as FirebaseRoomData;
+    expect(toEngineState(room).board[0].votes).toEqual({});
+  });
+
+  it('gives rooms from before separate clocks the same time for both phases', () => {
+    const room = { ownerId: "r0", currentTeam: "red", turnDuration: 90 } as FirebaseRoomData;
+    expect(toEngineState(room)).toMatchObject({ turnDuration: 90, clueDuration: 90, timeBanks: {} });
+  });
+});
+
+describe('toRoomUpdates', () => {
+  it('writes only what changed', () => {
+    const state = guessingState(0);
+    const updates = toRoomUpdates(state, reveal(state, 0));
+    expect(updates).toEqual({
+      remainingGuesses: 2,
+      "board/0/team": "red",
+      "board/0/revealed": true,
+      "board/0/revealedBy": "r1",
+      "board/0/votes": null,
+    });
+  });
+
+  it('clears votes on every unrevealed card when the turn changes', () => {
+    const state = guessingState(0);
+    const updates = toRoomUpdates(state, applyAction(state, { type: "endTurn", playerId: "r1", now: NOW }));
+    expect(updates.currentTeam).toBe("blue");
+    KEY.forEach((_, i) => expect(updates).toHaveProperty([`board/${i}/votes`], null));
+  });
+});
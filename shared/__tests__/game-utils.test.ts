@@ -4,9 +4,14 @@ import {
   shufflePlayers,
   teamsAreReady,
   getRequiredVotes,
-  isValidClue,
+  countCardsByTeam,
+  getRemainingCards,
+  isValidClueCount,
+  isUnlimitedClue,
+  formatClueCount,
 } from '../game-utils';
-import type { Player } from '../types';
+import { UNLIMITED_CLUE } from '../constants';
+import type { Card, Player } from '../types';
 
 // ============================================================================
 // Helper to create test players
@@ -291,6 +296,49 @@ describe('teamsAreReady', () => {
       expect(teamsAreReady(players)).toBe(true);
     });
   });
+
+  describe('three teams', () => {
+    const teams = ['red', 'blue', 'green'] as const;
+    const sixPlayers = (): Player[] => teams.flatMap((team, i) => [
+      createPlayer({ id: `${i}a`, name: `${team} A`, team, role: 'clueGiver' }),
+      createPlayer({ id: `${i}b`, name: `${team} B`, team, role: 'guesser' }),
+    ]);
+
+    it('needs two players and one clue giver on every team', () => {
+      expect(teamsAreReady(sixPlayers(), 'classic', [...teams])).toBe(true);
+    });
+
+    it('returns false when the third team is empty', () => {
+      const players = sixPlayers().filter((p) => p.team !== 'green');
+      expect(teamsAreReady(players, 'classic', [...teams])).toBe(false);
+      expect(teamsAreReady(players)).toBe(true);
+    });
+  });
+
+  describe('duet', () => {
+    it('returns true with one player seated on each side', () => {
+      const players: Player[] = [
+        createPlayer({ id: '1', name: 'A', team: 'red', role: 'clueGiver' }),
+        createPlayer({ id: '2', name: 'B', team: 'blue', role: 'clueGiver' }),
+        createPlayer({ id: '3', name: 'C' }),
+      ];
+      expect(teamsAreReady(players, 'duet')).toBe(true);
+      expect(teamsAreReady(players)).toBe(false);
+    });
+
+    it('returns false with both players on one side or a third seated player', () => {
+      const sameSide: Player[] = [
+        createPlayer({ id: '1', name: 'A', team: 'red', role: 'clueGiver' }),
+        createPlayer({ id: '2', name: 'B', team: 'red', role: 'guesser' }),
+      ];
+      expect(teamsAreReady(sameSide, 'duet')).toBe(false);
+      const three: Player[] = [
+        ...sameSide,
+        createPlayer({ id: '3', name: 'C', team: 'blue', role: 'clueGiver' }),
+      ];
+      expect(teamsAreReady(three, 'duet')).toBe(false);
+    });
+  });
 });
 
 // ============================================================================
@@ -331,97 +379,74 @@ describe('getRequiredVotes', () => {
     expect(getRequiredVotes(20)).toBe(2);
     expect(getRequiredVotes(100)).toBe(2);
   });
+
+  it('uses a fixed threshold, capped at the number of guessers', () => {
+    expect(getRequiredVotes(2, 1)).toBe(1);
+    expect(getRequiredVotes(5, 3)).toBe(3);
+    expect(getRequiredVotes(2, 3)).toBe(2);
+    expect(getRequiredVotes(0, 2)).toBe(1);
+  });
 });
 
 // ============================================================================
-// isValidClue
+// Clue Counts
 // ============================================================================
 
-describe('isValidClue', () => {
-  const sampleBoard = ['APPLE', 'BANK', 'CAR', 'DOG', 'FARMER', 'DWARF'];
-
-  describe('exact matches', () => {
-    it('rejects exact match (same case)', () => {
-      expect(isValidClue('APPLE', sampleBoard)).toBe(false);
-    });
-
-    it('rejects exact match (different case)', () => {
-      expect(isValidClue('apple', sampleBoard)).toBe(false);
-      expect(isValidClue('Apple', sampleBoard)).toBe(false);
-    });
-
-    it('accepts words not on the board', () => {
-      expect(isValidClue('TESTING', sampleBoard)).toBe(true);
-      expect(isValidClue('RANDOM', sampleBoard)).toBe(true);
-    });
+describe('clue counts', () => {
+  it('accepts whole numbers from 0 and the ∞ sentinel', () => {
+    expect(isValidClueCount(0)).toBe(true);
+    expect(isValidClueCount(12)).toBe(true);
+    expect(isValidClueCount(UNLIMITED_CLUE)).toBe(true);
+    expect(isValidClueCount(-2)).toBe(false);
+    expect(isValidClueCount(2.5)).toBe(false);
   });
 
-  describe('prefix/suffix relationships', () => {
-    it('rejects clue that is prefix of board word', () => {
-      // FARM is prefix of FARMER
-      expect(isValidClue('FARM', sampleBoard)).toBe(false);
-    });
-
-    it('rejects clue that is suffix of board word', () => {
-      // ARF is suffix of DWARF
-      expect(isValidClue('ARF', sampleBoard)).toBe(false);
-    });
-
-    it('rejects clue when board word is prefix of clue', () => {
-      // DOG is prefix of DOGHOUSE
-      expect(isValidClue('DOGHOUSE', sampleBoard)).toBe(false);
-    });
-
-    it('rejects clue when board word is suffix of clue', () => {
-      // BANK is suffix of RIVERBANK
-      expect(isValidClue('RIVERBANK', sampleBoard)).toBe(false);
-    });
-
-    it('allows coincidental substrings that are not prefix/suffix', () => {
-      // WAR is inside DWARF but not as prefix or suffix
-      expect(isValidClue('WAR', sampleBoard)).toBe(true);
-    });
+  it('treats 0 and ∞ as unlimited', () => {
+    expect(isUnlimitedClue(0)).toBe(true);
+    expect(isUnlimitedClue(UNLIMITED_CLUE)).toBe(true);
+    expect(isUnlimitedClue(3)).toBe(false);
   });
 
-  describe('plural variants', () => {
-    it('rejects simple S plural of board word', () => {
-      expect(isValidClue('CARS', sampleBoard)).toBe(false);
-      expect(isValidClue('DOGS', sampleBoard)).toBe(false);
-    });
+  it('shows ∞ for the sentinel', () => {
+    expect(formatClueCount(UNLIMITED_CLUE)).toBe('∞');
+    expect(formatClueCount(0)).toBe('0');
+  });
+});
 
-    it('rejects ES plural of board word', () => {
-      // If BENCH was on board, BENCHES would be rejected
-      const boardWithBench = ['BENCH'];
-      expect(isValidClue('BENCHES', boardWithBench)).toBe(false);
-    });
+// ============================================================================
+// Card Counts
+// ============================================================================
 
-    it('rejects singular when plural is on board', () => {
-      const boardWithPlural = ['CARS', 'DOGS'];
-      expect(isValidClue('CAR', boardWithPlural)).toBe(false);
-      expect(isValidClue('DOG', boardWithPlural)).toBe(false);
+describe('countCardsByTeam', () => {
+  it('counts each team in the key', () => {
+    expect(countCardsByTeam(['red', 'red', 'blue', 'neutral', 'trap'])).toEqual({
+      red: 2, blue: 1, green: 0, neutral: 1, trap: 1,
     });
+  });
 
-    it('allows unrelated words ending in S', () => {
-      expect(isValidClue('PLUS', sampleBoard)).toBe(true);
-      expect(isValidClue('GLASS', sampleBoard)).toBe(true);
-    });
+  it('returns zeros for an empty key', () => {
+    expect(countCardsByTeam([])).toEqual({ red: 0, blue: 0, green: 0, neutral: 0, trap: 0 });
   });
+});
 
-  describe('edge cases', () => {
-    it('handles empty board', () => {
-      expect(isValidClue('ANYTHING', [])).toBe(true);
-    });
+describe('getRemainingCards', () => {
+  const counts = { red: 9, blue: 8, green: 0, neutral: 7, trap: 1 };
 
-    it('handles single character clues', () => {
-      const boardWithA = ['A', 'AT'];
-      expect(isValidClue('A', boardWithA)).toBe(false);
-      expect(isValidClue('B', boardWithA)).toBe(true);
-    });
+  it('subtracts revealed team cards from the public total', () => {
+    const board: Card[] = [
+      { word: 'A', team: 'red', revealed: true },
+      { word: 'B', team: 'red', revealed: true },
+      { word: 'C', team: 'blue', revealed: true },
+    ];
+    expect(getRemainingCards(board, counts, 'red')).toBe(7);
+    expect(getRemainingCards(board, counts, 'blue')).toBe(7);
+  });
 
-    it('is case insensitive for board words', () => {
-      const mixedCaseBoard = ['Apple', 'BaNK'];
-      expect(isValidClue('APPLE', mixedCaseBoard)).toBe(false);
-      expect(isValidClue('bank', mixedCaseBoard)).toBe(false);
-    });
+  it('ignores unrevealed cards even when their team is known', () => {
+    const board: Card[] = [
+      { word: 'A', team: 'red', revealed: false },
+      { word: 'B', revealed: false },
+    ];
+    expect(getRemainingCards(board, counts, 'red')).toBe(9);
   });
 });
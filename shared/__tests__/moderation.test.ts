@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { isMuted, joinBlock, moderationMessage } from "../moderation";
+import { KICK_REJOIN_COOLDOWN_MS } from "../constants";
+
+const NOW = 1_000_000;
+
+describe("joinBlock", () => {
+  it("lets anyone in by default", () => {
+    expect(joinBlock({}, "p1", NOW)).toBeNull();
+  });
+
+  it("blocks a banned player for good", () => {
+    expect(joinBlock({ bans: { p1: true } }, "p1", NOW + 1e9)).toBe("banned");
+    expect(joinBlock({ bans: { p1: true } }, "p2", NOW)).toBeNull();
+  });
+
+  it("blocks a kicked player until the cooldown runs out", () => {
+    const room = { kicks: { p1: NOW } };
+    expect(joinBlock(room, "p1", NOW + 1000)).toBe("kicked");
+    expect(joinBlock(room, "p1", NOW + KICK_REJOIN_COOLDOWN_MS)).toBeNull();
+  });
+
+  it("reports a ban over a recent kick", () => {
+    expect(joinBlock({ bans: { p1: true }, kicks: { p1: NOW } }, "p1", NOW)).toBe("banned");
+  });
+});
+
+describe("isMuted", () => {
+  it("checks the room's muted list", () => {
+    expect(isMuted({ muted: { p1: true } }, "p1")).toBe(true);
+    expect(isMuted({ muted: { p1: true } }, "p2")).toBe(false);
+    expect(isMuted({}, "p1")).toBe(false);
+  });
+});
+
+describe("moderationMessage", () => {
+  it("names the player", () => {
+    expect(moderationMessage("kick", "Sam")).toBe("Sam was removed from the room.");
+    expect(moderationMessage("ban", "Sam")).toBe("Sam was banned from the room.");
+    expect(moderationMessage("mute", "Sam")).toBe("Sam was muted.");
+    expect(moderationMessage("unmute", "Sam")).toBe("Sam can chat again.");
+  });
+});
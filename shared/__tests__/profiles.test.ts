@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { gameResults, addGameResult, clueEfficiency, emptyProfile } from '../profiles';
+import type { GameEngineState } from '../types';
+import { createPlayer, createState as baseState } from './fixtures';
+
+// Red won; s0 sat the game out
+function createState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  const state = baseState({
+    gameOver: true,
+    winner: "red",
+    turnStartTime: null,
+    clues: [
+      { team: "red", word: "FRUIT", count: 2, givenBy: "r0" },
+      { team: "blue", word: "SHAPE", count: 1, givenBy: "b0" },
+    ],
+    cardCounts: { red: 2, blue: 1, green: 0, neutral: 1, trap: 1 },
+  });
+  return { ...state, players: { ...state.players, s0: createPlayer() }, ...overrides };
+}
+
+const EVENTS = [
+  { type: "clue" as const, team: "red" as const, playerId: "r0", clueId: 0 },
+  { type: "reveal" as const, team: "red" as const, playerId: "r1", cardIndex: 0, cardTeam: "red" as const, clueId: 0 },
+  { type: "reveal" as const, team: "red" as const, playerId: "r1", cardIndex: 3, cardTeam: "neutral" as const, clueId: 0 },
+  { type: "clue" as const, team: "blue" as const, playerId: "b0", clueId: 1 },
+  { type: "reveal" as const, team: "blue" as const, playerId: "b1", cardIndex: 4, cardTeam: "trap" as const, clueId: 1 },
+];
+
+describe('gameResults', () => {
+  it('gives each seated player their role, result and guesses', () => {
+    const results = gameResults(createState(), EVENTS);
+    expect(Object.keys(results).sort()).toEqual(["b0", "b1", "r0", "r1"]);
+    expect(results.r1).toEqual({
+      role: "guesser", won: true, correctGuesses: 1, wrongGuesses: 1, trapHits: 0, cluesGiven: 0, clueCardsGained: 0,
+    });
+    expect(results.b1.trapHits).toBe(1);
+    expect(results.b1.won).toBe(false);
+  });
+
+  it('credits clue givers with the cards their clues found', () => {
+    const results = gameResults(createState(), EVENTS);
+    expect(results.r0).toMatchObject({ role: "clueGiver", cluesGiven: 1, clueCardsGained: 1 });
+    expect(results.b0).toMatchObject({ cluesGiven: 1, clueCardsGained: 0 });
+  });
+
+  it('lets both Duet seats share the result', () => {
+    const state = createState({ gameMode: "duet", winner: null, duetResult: "won" });
+    const results = gameResults(state, []);
+    expect(Object.values(results).every((r) => r.won)).toBe(true);
+  });
+});
+
+describe('addGameResult', () => {
+  const result = gameResults(createState(), EVENTS).r0;
+
+  it('starts a new profile from zero', () => {
+    const profile = addGameResult(null, result);
+    expect(profile).toMatchObject({ gamesPlayed: 1, wins: 1, roleGames: { clueGiver: 1, guesser: 0 }, roleWins: { clueGiver: 1, guesser: 0 } });
+  });
+
+  it('adds to an existing profile and keeps the name and avatar', () => {
+    const profile = addGameResult({ ...emptyProfile(), name: "Ana", avatar: "🦊", gamesPlayed: 3, cluesGiven: 4 }, result);
+    expect(profile).toMatchObject({ name: "Ana", avatar: "🦊", gamesPlayed: 4, cluesGiven: 5, clueCardsGained: 1 });
+  });
+});
+
+describe('clueEfficiency', () => {
+  it('is cards found per clue, or null before any clue', () => {
+    expect(clueEfficiency(emptyProfile())).toBeNull();
+    expect(clueEfficiency({ ...emptyProfile(), cluesGiven: 4, clueCardsGained: 6 })).toBe(1.5);
+  });
+});
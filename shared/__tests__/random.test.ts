@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, generateSeed, normalizeSeed, isValidSeed } from '../random';
+import { shuffle } from '../game-utils';
+
+// ============================================================================
+// createRandom
+// ============================================================================
+
+describe('createRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createRandom('ABCD1234');
+    const b = createRandom('ABCD1234');
+    const seqA = Array.from({ length: 10 }, () => a());
+    const seqB = Array.from({ length: 10 }, () => b());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = createRandom('ABCD1234');
+    const b = createRandom('ABCD1235');
+    expect(Array.from({ length: 5 }, () => a())).not.toEqual(Array.from({ length: 5 }, () => b()));
+  });
+
+  it('returns floats in [0, 1)', () => {
+    const random = createRandom('RANGE');
+    for (let i = 0; i < 1000; i++) {
+      const n = random();
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    }
+  });
+
+  it('makes shuffle reproducible', () => {
+    const arr = Array.from({ length: 20 }, (_, i) => i);
+    expect(shuffle(arr, createRandom('X'))).toEqual(shuffle(arr, createRandom('X')));
+  });
+});
+
+// ============================================================================
+// Seed codes
+// ============================================================================
+
+describe('generateSeed', () => {
+  it('generates valid 8-character seeds', () => {
+    for (let i = 0; i < 20; i++) {
+      const seed = generateSeed();
+      expect(seed).toHaveLength(8);
+      expect(isValidSeed(seed)).toBe(true);
+    }
+  });
+
+  it('avoids ambiguous characters', () => {
+    const seeds = Array.from({ length: 50 }, () => generateSeed()).join('');
+    expect(seeds).not.toMatch(/[01IO]/);
+  });
+});
+
+describe('normalizeSeed / isValidSeed', () => {
+  it('trims and uppercases input', () => {
+    expect(normalizeSeed('  abc123 ')).toBe('ABC123');
+  });
+
+  it('rejects empty, too long or non-alphanumeric seeds', () => {
+    expect(isValidSeed('')).toBe(false);
+    expect(isValidSeed('A'.repeat(17))).toBe(false);
+    expect(isValidSeed('AB-CD')).toBe(false);
+    expect(isValidSeed('abc')).toBe(false);
+  });
+});
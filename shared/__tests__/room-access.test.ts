@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { hashRoomPassword, isRoomAccessError, ROOM_ACCESS_ERRORS } from '../room-access';
+
+describe('hashRoomPassword', () => {
+  it('returns a 64-character hex digest', async () => {
+    expect(await hashRoomPassword('ABC123', 'secret')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('is stable for the same room and password', async () => {
+    expect(await hashRoomPassword('ABC123', 'secret')).toBe(await hashRoomPassword('ABC123', 'secret'));
+  });
+
+  it('differs per room and per password', async () => {
+    const hash = await hashRoomPassword('ABC123', 'secret');
+    expect(await hashRoomPassword('XYZ789', 'secret')).not.toBe(hash);
+    expect(await hashRoomPassword('ABC123', 'Secret')).not.toBe(hash);
+  });
+});
+
+describe('isRoomAccessError', () => {
+  it('recognizes the join errors', () => {
+    expect(isRoomAccessError(ROOM_ACCESS_ERRORS.locked)).toBe(true);
+    expect(isRoomAccessError(ROOM_ACCESS_ERRORS.wrongPassword)).toBe(true);
+    expect(isRoomAccessError('Name already taken')).toBe(false);
+    expect(isRoomAccessError(null)).toBe(false);
+  });
+});
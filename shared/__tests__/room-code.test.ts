@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { generateRoomCode, normalizeRoomCode, ROOM_CODE_LENGTH } from "../room-code";
+import { createRandom } from "../random";
+
+describe("generateRoomCode", () => {
+  it("makes codes of the configured length", () => {
+    expect(generateRoomCode()).toHaveLength(ROOM_CODE_LENGTH);
+  });
+
+  it("never uses characters that are easy to misread", () => {
+    const random = createRandom("ROOMCODES");
+    for (let i = 0; i < 200; i++) {
+      expect(generateRoomCode(random)).toMatch(/^[A-HJKMNP-Z2-9]+$/);
+    }
+  });
+
+  it("covers both ends of the alphabet", () => {
+    expect(generateRoomCode(() => 0)).toBe("AAAAAA");
+    expect(generateRoomCode(() => 0.9999)).toBe("999999");
+  });
+
+  it("is deterministic for a seeded generator", () => {
+    expect(generateRoomCode(createRandom("SEED"))).toBe(generateRoomCode(createRandom("SEED")));
+  });
+});
+
+describe("normalizeRoomCode", () => {
+  it("uppercases and drops spaces and dashes", () => {
+    expect(normalizeRoomCode(" abc-def ")).toBe("ABCDEF");
+    expect(normalizeRoomCode("ab c\tdef")).toBe("ABCDEF");
+  });
+
+  it("keeps characters from older codes", () => {
+    expect(normalizeRoomCode("o1il0x")).toBe("O1IL0X");
+  });
+});
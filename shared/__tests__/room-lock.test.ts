@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { ROOM_LOCK_TTL_MS, canTakeRoomLock } from '../room-lock';
+
+const NOW = 1_000_000;
+
+describe('canTakeRoomLock', () => {
+  it('takes a free lock', () => {
+    expect(canTakeRoomLock(null, NOW)).toBe(true);
+  });
+
+  it('waits while another call holds it', () => {
+    expect(canTakeRoomLock({ token: 'a', at: NOW }, NOW)).toBe(false);
+    expect(canTakeRoomLock({ token: 'a', at: NOW }, NOW + ROOM_LOCK_TTL_MS - 1)).toBe(false);
+  });
+
+  it('takes over a lock left by a crashed call', () => {
+    expect(canTakeRoomLock({ token: 'a', at: NOW }, NOW + ROOM_LOCK_TTL_MS)).toBe(true);
+  });
+});
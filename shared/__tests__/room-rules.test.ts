@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ROOM_RULES, canClueGiverChat, roomRulesOf, validateRoomRules } from '../room-rules';
+import type { RoomRules } from '../types';
+
+// ============================================================================
+// roomRulesOf
+// ============================================================================
+
+describe('roomRulesOf', () => {
+  it('uses the defaults for rooms without rules', () => {
+    expect(roomRulesOf({})).toEqual(DEFAULT_ROOM_RULES);
+  });
+
+  it('fills in rules a room has not set', () => {
+    expect(roomRulesOf({ rules: { trapPenalty: 'loseTurn' } })).toEqual({ ...DEFAULT_ROOM_RULES, trapPenalty: 'loseTurn' });
+  });
+});
+
+// ============================================================================
+// validateRoomRules
+// ============================================================================
+
+describe('validateRoomRules', () => {
+  it('accepts the defaults', () => {
+    expect(validateRoomRules(DEFAULT_ROOM_RULES).valid).toBe(true);
+  });
+
+  it('accepts a fixed vote threshold', () => {
+    expect(validateRoomRules({ ...DEFAULT_ROOM_RULES, voteThreshold: 3 }).valid).toBe(true);
+  });
+
+  it('rejects unknown values', () => {
+    expect(validateRoomRules({ ...DEFAULT_ROOM_RULES, voteThreshold: 4 } as unknown as RoomRules).error).toBe('Invalid vote threshold');
+    expect(validateRoomRules({ ...DEFAULT_ROOM_RULES, trapPenalty: 'none' } as unknown as RoomRules).error).toBe('Invalid trap penalty');
+    expect(validateRoomRules({ ...DEFAULT_ROOM_RULES, clueStrictness: 'loose' } as unknown as RoomRules).error).toBe('Invalid clue strictness');
+    expect(validateRoomRules({ ...DEFAULT_ROOM_RULES, clueChallenge: 'veto' } as unknown as RoomRules).error).toBe('Invalid challenge rule');
+  });
+
+  it('rejects flags that are not booleans', () => {
+    expect(validateRoomRules({ ...DEFAULT_ROOM_RULES, timer: 'yes' } as unknown as RoomRules).valid).toBe(false);
+  });
+});
+
+// ============================================================================
+// canClueGiverChat
+// ============================================================================
+
+describe('canClueGiverChat', () => {
+  const silent = { ...DEFAULT_ROOM_RULES, clueGiverChat: false };
+
+  it('always allows chat when the rule is on', () => {
+    expect(canClueGiverChat(DEFAULT_ROOM_RULES, { gameStarted: true, gameOver: false })).toBe(true);
+  });
+
+  it('blocks clue givers only while a classic game runs', () => {
+    expect(canClueGiverChat(silent, { gameMode: 'classic', gameStarted: true, gameOver: false })).toBe(false);
+    expect(canClueGiverChat(silent, { gameMode: 'classic', gameStarted: false })).toBe(true);
+    expect(canClueGiverChat(silent, { gameMode: 'classic', gameStarted: true, gameOver: true })).toBe(true);
+  });
+
+  it('never blocks Duet players', () => {
+    expect(canClueGiverChat(silent, { gameMode: 'duet', gameStarted: true, gameOver: false })).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { seriesEndReason, seriesGame, seriesScore, seriesContributions, formatSeriesReason } from '../series';
+import type { GameEngineState, SeriesGame } from '../types';
+import { NOW, createPlayer, createState as baseState } from './fixtures';
+
+// Blue won
+function createState(overrides: Partial<GameEngineState> = {}): GameEngineState {
+  return baseState({
+    gameOver: true,
+    winner: "blue",
+    turnStartTime: null,
+    clues: [{ team: "red", word: "FRUIT", count: 2, givenBy: "r0" }],
+    players: {
+      r0: createPlayer({ name: "Ana", team: "red", role: "clueGiver" }),
+      r1: createPlayer({ name: "Bo", team: "red", role: "guesser" }),
+      b0: createPlayer({ name: "Cy", team: "blue", role: "clueGiver" }),
+      b1: createPlayer({ name: "Di", team: "blue", role: "guesser" }),
+    },
+    ...overrides,
+  });
+}
+
+// Red found one card on its clue, then hit the trap
+const EVENTS = [
+  { type: "clue" as const, team: "red" as const, playerId: "r0", clueId: 0 },
+  { type: "reveal" as const, team: "red" as const, playerId: "r1", cardIndex: 0, cardTeam: "red" as const, clueId: 0 },
+  { type: "reveal" as const, team: "red" as const, playerId: "r1", cardIndex: 4, cardTeam: "trap" as const, clueId: 0 },
+  { type: "gameOver" as const, team: "red" as const },
+];
+
+function game(id: string, overrides: Partial<SeriesGame>): SeriesGame {
+  return { id, winner: "red", reason: "allCards", gameMode: "classic", endedAt: NOW, players: {}, ...overrides };
+}
+
+describe('seriesEndReason', () => {
+  it('tells a trap from finding every card', () => {
+    expect(seriesEndReason(createState(), EVENTS)).toBe("trap");
+    expect(seriesEndReason(createState(), EVENTS.slice(0, 2))).toBe("allCards");
+  });
+
+  it('uses the Duet result', () => {
+    expect(seriesEndReason(createState({ gameMode: "duet", duetResult: "outOfTurns" }), EVENTS)).toBe("outOfTurns");
+  });
+});
+
+describe('seriesGame', () => {
+  it('records the winner, reason and each player\'s part', () => {
+    const entry = seriesGame(createState(), EVENTS, NOW);
+    expect(entry).toMatchObject({ winner: "blue", reason: "trap", gameMode: "classic", endedAt: NOW });
+    expect(entry.players.r1).toEqual({ name: "Bo", team: "red", role: "guesser", correctGuesses: 1, clueCardsGained: 0 });
+    expect(entry.players.r0.clueCardsGained).toBe(1);
+  });
+
+  it('has no winning team in Duet', () => {
+    expect(seriesGame(createState({ gameMode: "duet", winner: null, duetResult: "won" }), [], NOW).winner).toBeNull();
+  });
+});
+
+describe('seriesScore', () => {
+  it('counts wins for the teams shown', () => {
+    const games = [game("a", {}), game("b", { winner: "blue" }), game("c", {}), game("d", { winner: null, gameMode: "duet", reason: "won" })];
+    expect(seriesScore(games, ["red", "blue"])).toEqual({ red: 2, blue: 1 });
+  });
+});
+
+describe('seriesContributions', () => {
+  it('adds up each player across games, busiest first', () => {
+    const games = [
+      game("a", { players: { p1: { name: "Ana", team: "red", role: "guesser", correctGuesses: 2, clueCardsGained: 0 } } }),
+      game("b", {
+        winner: "blue",
+        players: {
+          p1: { name: "Ana B", team: "red", role: "clueGiver", correctGuesses: 0, clueCardsGained: 3 },
+          p2: { name: "Bo", team: "blue", role: "guesser", correctGuesses: 4, clueCardsGained: 0 },
+        },
+      }),
+    ];
+    expect(seriesContributions(games)).toEqual([
+      { playerId: "p1", name: "Ana B", games: 2, wins: 1, correctGuesses: 2, clueCardsGained: 3 },
+      { playerId: "p2", name: "Bo", games: 1, wins: 1, correctGuesses: 4, clueCardsGained: 0 },
+    ]);
+  });
+});
+
+describe('formatSeriesReason', () => {
+  it('describes each way a game can end', () => {
+    expect(formatSeriesReason("allCards")).toBe("all cards found");
+    expect(formatSeriesReason("trap")).toBe("trap");
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { teamsFor, teamCountOf, teamsInPlay, isPlayingTeam, nextTeam, playOrder, minPlayersToStart } from '../teams';
+
+describe('teamsFor', () => {
+  it('lists teams in turn order', () => {
+    expect(teamsFor(2)).toEqual(['red', 'blue']);
+    expect(teamsFor(3)).toEqual(['red', 'blue', 'green']);
+  });
+});
+
+describe('teamCountOf', () => {
+  it('defaults to two teams', () => {
+    expect(teamCountOf({})).toBe(2);
+    expect(teamCountOf({ teamCount: 7 })).toBe(2);
+    expect(teamCountOf({ teamCount: 3 })).toBe(3);
+  });
+});
+
+describe('teamsInPlay', () => {
+  it('always seats red and blue in Duet', () => {
+    expect(teamsInPlay({ gameMode: 'duet', teamCount: 3 })).toEqual(['red', 'blue']);
+    expect(teamsInPlay({ gameMode: 'classic', teamCount: 3 })).toHaveLength(3);
+  });
+});
+
+describe('isPlayingTeam', () => {
+  it('accepts only team colors', () => {
+    expect(isPlayingTeam('green')).toBe(true);
+    expect(isPlayingTeam('neutral')).toBe(false);
+    expect(isPlayingTeam('trap')).toBe(false);
+    expect(isPlayingTeam(null)).toBe(false);
+  });
+});
+
+describe('nextTeam', () => {
+  it('alternates between two teams', () => {
+    expect(nextTeam('red', teamsFor(2))).toBe('blue');
+    expect(nextTeam('blue', teamsFor(2))).toBe('red');
+  });
+
+  it('rotates through three teams, skipping eliminated ones', () => {
+    const teams = teamsFor(3);
+    expect(nextTeam('blue', teams)).toBe('green');
+    expect(nextTeam('green', teams)).toBe('red');
+    expect(nextTeam('red', teams, ['blue'])).toBe('green');
+  });
+});
+
+describe('playOrder', () => {
+  it('starts from the starting team', () => {
+    expect(playOrder('blue', teamsFor(3))).toEqual(['blue', 'green', 'red']);
+    expect(playOrder('red', teamsFor(2))).toEqual(['red', 'blue']);
+  });
+});
+
+describe('minPlayersToStart', () => {
+  it('needs two players per team', () => {
+    expect(minPlayersToStart(2)).toBe(4);
+    expect(minPlayersToStart(3)).toBe(6);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { chargeTimeBank, fullTimeBanks, isSameTurn, phaseDuration, readClock, turnDeadline, turnExpired, type TimedTurn, type TurnClock } from '../turn-timer';
+
+const NOW = 1_000_000;
+
+function createClock(overrides: Partial<TurnClock> = {}): TurnClock {
+  return {
+    currentTeam: 'red',
+    currentClue: null,
+    turnStartTime: NOW,
+    turnDuration: 60,
+    clueDuration: 30,
+    timeBanks: {},
+    ...overrides,
+  };
+}
+
+const clued = { currentClue: { word: 'FRUIT', count: 2 } };
+
+// ============================================================================
+// phases
+// ============================================================================
+
+describe('phaseDuration', () => {
+  it('uses the clue duration until the clue is given, then the guess duration', () => {
+    expect(phaseDuration(createClock())).toBe(30);
+    expect(phaseDuration(createClock(clued))).toBe(60);
+  });
+});
+
+describe('turnDeadline', () => {
+  it('ends with the phase without a bank', () => {
+    expect(turnDeadline(createClock())).toBe(NOW + 30_000);
+  });
+
+  it('adds what the current team has banked', () => {
+    expect(turnDeadline(createClock({ timeBanks: { red: 20_000, blue: 90_000 } }))).toBe(NOW + 50_000);
+  });
+
+  it('is null while no phase is running', () => {
+    expect(turnDeadline(createClock({ turnStartTime: null }))).toBeNull();
+  });
+});
+
+// ============================================================================
+// chargeTimeBank
+// ============================================================================
+
+describe('chargeTimeBank', () => {
+  it('takes the overtime out of the current team\'s bank only', () => {
+    const clock = createClock({ ...clued, timeBanks: { red: 30_000, blue: 30_000 } });
+    expect(chargeTimeBank(clock, NOW + 70_000)).toEqual({ red: 20_000, blue: 30_000 });
+  });
+
+  it('charges nothing when the phase ended in time', () => {
+    const clock = createClock({ timeBanks: { red: 30_000 } });
+    expect(chargeTimeBank(clock, NOW + 10_000)).toBe(clock.timeBanks);
+  });
+
+  it('never goes below zero', () => {
+    const clock = createClock({ timeBanks: { red: 5_000 } });
+    expect(chargeTimeBank(clock, NOW + 120_000)).toEqual({ red: 0 });
+  });
+
+  it('leaves rooms without banks alone', () => {
+    const clock = createClock();
+    expect(chargeTimeBank(clock, NOW + 120_000)).toBe(clock.timeBanks);
+  });
+});
+
+// ============================================================================
+// readClock
+// ============================================================================
+
+describe('readClock', () => {
+  it('counts down the phase clock', () => {
+    expect(readClock(createClock(), NOW + 10_500)).toEqual({
+      phase: 'clue', elapsed: 10, phaseLeft: 20, bankLeft: null, expired: false,
+    });
+  });
+
+  it('expires at the end of the phase without a bank', () => {
+    expect(readClock(createClock(), NOW + 30_000)?.expired).toBe(true);
+  });
+
+  it('draws on the bank once the phase is over', () => {
+    const reading = readClock(createClock({ timeBanks: { red: 60_000 } }), NOW + 45_000);
+    expect(reading).toMatchObject({ phaseLeft: 0, bankLeft: 45, expired: false });
+  });
+
+  it('expires when the bank runs dry', () => {
+    expect(readClock(createClock({ timeBanks: { red: 60_000 } }), NOW + 90_000)).toMatchObject({ bankLeft: 0, expired: true });
+  });
+
+  it('is null while paused', () => {
+    expect(readClock(createClock({ turnStartTime: null }), NOW)).toBeNull();
+  });
+});
+
+// ============================================================================
+// fullTimeBanks
+// ============================================================================
+
+describe('fullTimeBanks', () => {
+  it('gives every team the same bank', () => {
+    expect(fullTimeBanks(['red', 'blue', 'green'], 120)).toEqual({ red: 120_000, blue: 120_000, green: 120_000 });
+  });
+
+  it('returns null when banks are off', () => {
+    expect(fullTimeBanks(['red', 'blue'], 0)).toBeNull();
+  });
+});
+
+// ============================================================================
+// Single-fire timeouts
+// ============================================================================
+
+describe('isSameTurn', () => {
+  it('matches the turn the move was meant for', () => {
+    expect(isSameTurn(createClock(), NOW)).toBe(true);
+  });
+
+  it('treats a move for an earlier turn as stale', () => {
+    expect(isSameTurn(createClock({ turnStartTime: NOW + 60_000 }), NOW)).toBe(false);
+    expect(isSameTurn(createClock({ turnStartTime: null }), NOW)).toBe(false);
+  });
+
+  it('applies to any turn when none is named', () => {
+    expect(isSameTurn(createClock({ turnStartTime: NOW + 60_000 }))).toBe(true);
+  });
+});
+
+describe('turnExpired', () => {
+  function createTurn(overrides: Partial<TimedTurn> = {}): TimedTurn {
+    return { ...createClock(), gameStarted: true, gameOver: false, paused: false, rules: { timer: true }, ...overrides };
+  }
+
+  it('expires a running turn at its deadline', () => {
+    expect(turnExpired(createTurn(), NOW + 29_999)).toBe(false);
+    expect(turnExpired(createTurn(), NOW + 30_000)).toBe(true);
+  });
+
+  it('waits for the bank to run out', () => {
+    expect(turnExpired(createTurn({ timeBanks: { red: 20_000 } }), NOW + 40_000)).toBe(false);
+  });
+
+  it('skips untimed, paused and finished games', () => {
+    const late = NOW + 600_000;
+    expect(turnExpired(createTurn({ rules: { timer: false } }), late)).toBe(false);
+    expect(turnExpired(createTurn({ paused: true, turnStartTime: null }), late)).toBe(false);
+    expect(turnExpired(createTurn({ paused: true }), late)).toBe(false);
+    expect(turnExpired(createTurn({ gameOver: true }), late)).toBe(false);
+    expect(turnExpired(createTurn({ gameStarted: false }), late)).toBe(false);
+  });
+});
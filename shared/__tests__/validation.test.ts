@@ -8,13 +8,19 @@ import {
   isValidClueFormat,
   isValidChatMessage,
   validatePlayerName,
+  validateRoomPassword,
   validateClueWord,
   sanitizeChatMessageWithCensor,
+  validateWordList,
 } from "../validation";
 import {
   MAX_PLAYER_NAME_LENGTH,
   MAX_CLUE_LENGTH,
   MAX_CHAT_MESSAGE_LENGTH,
+  MAX_CUSTOM_WORDS,
+  MAX_CUSTOM_WORD_LENGTH,
+  MIN_ROOM_PASSWORD_LENGTH,
+  MAX_ROOM_PASSWORD_LENGTH,
 } from "../constants";
 import { containsProfanity, censorProfanity } from "../profanity";
 
@@ -213,6 +219,22 @@ describe("censorProfanity", () => {
   });
 });
 
+describe("validateRoomPassword", () => {
+  it("accepts passwords within the length limits", () => {
+    expect(validateRoomPassword("a".repeat(MIN_ROOM_PASSWORD_LENGTH))).toEqual({ valid: true });
+    expect(validateRoomPassword("a".repeat(MAX_ROOM_PASSWORD_LENGTH))).toEqual({ valid: true });
+  });
+
+  it("rejects short and long passwords", () => {
+    expect(validateRoomPassword("abc").error).toContain("at least");
+    expect(validateRoomPassword("a".repeat(MAX_ROOM_PASSWORD_LENGTH + 1)).error).toContain("characters or less");
+  });
+
+  it("doesn't trim, so spaces count", () => {
+    expect(validateRoomPassword("  ab").valid).toBe(true);
+  });
+});
+
 describe("validatePlayerName", () => {
   it("returns valid for clean names", () => {
     expect(validatePlayerName("Alice")).toEqual({ valid: true });
@@ -297,3 +319,49 @@ describe("sanitizeChatMessageWithCensor", () => {
     expect(sanitizeChatMessageWithCensor("Good game!")).toBe("Good game!");
   });
 });
+
+describe("validateWordList", () => {
+  const words = (n: number) => Array.from({ length: n }, (_, i) => `WORD${i}`);
+
+  it("accepts 25 clean words", () => {
+    const result = validateWordList(words(25));
+    expect(result.valid).toBe(true);
+    expect(result.words).toHaveLength(25);
+  });
+
+  it("uppercases and collapses whitespace", () => {
+    expect(validateWordList(["  ice   cream "]).words).toEqual(["ICE CREAM"]);
+  });
+
+  it("drops duplicates case-insensitively", () => {
+    const result = validateWordList([...words(25), "word0", "WORD1"]);
+    expect(result.valid).toBe(true);
+    expect(result.words).toHaveLength(25);
+    expect(result.duplicates).toEqual(["WORD0", "WORD1"]);
+  });
+
+  it("drops words that are too long", () => {
+    const long = "A".repeat(MAX_CUSTOM_WORD_LENGTH + 1);
+    const result = validateWordList([...words(25), long]);
+    expect(result.tooLong).toEqual([long]);
+    expect(result.words).not.toContain(long);
+  });
+
+  it("drops profane words", () => {
+    const result = validateWordList([...words(25), "shit"]);
+    expect(result.blocked).toEqual(["SHIT"]);
+    expect(result.words).toHaveLength(25);
+  });
+
+  it("requires at least 25 usable words", () => {
+    const result = validateWordList([...words(24), "word0"]);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("at least 25");
+  });
+
+  it("rejects lists over the size limit", () => {
+    const result = validateWordList(words(MAX_CUSTOM_WORDS + 1));
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain(`${MAX_CUSTOM_WORDS}`);
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { WORD_LIST, CLASSIC_WORDS, KAHOOT_WORDS, generateBoard, assignTeams, getWordList } from '../words';
+import { WORD_LIST, CLASSIC_WORDS, KAHOOT_WORDS, generateBoard, assignTeams, getWordList, dealSeededBoard, parseWordList,
+  WORD_PACK_REGISTRY, isWordPack, mixWords, toWordMix, selectedWordPacks, countMixWords } from '../words';
+import { createRandom } from '../random';
+import { WORD_PACKS } from '../constants';
 
 // ============================================================================
 // Word Lists
@@ -57,6 +60,10 @@ describe('getWordList', () => {
   it('defaults to CLASSIC_WORDS when no pack specified', () => {
     expect(getWordList()).toBe(CLASSIC_WORDS);
   });
+
+  it('returns no built-in words for the "custom" pack', () => {
+    expect(getWordList('custom')).toEqual([]);
+  });
 });
 
 // ============================================================================
@@ -99,6 +106,13 @@ describe('generateBoard', () => {
     });
   });
 
+  it('uses an explicit word list when given one', () => {
+    const custom = Array.from({ length: 30 }, (_, i) => `CUSTOM${i}`);
+    const board = generateBoard(custom);
+    expect(board).toHaveLength(25);
+    board.forEach((word) => expect(custom).toContain(word));
+  });
+
   it('generates different boards on multiple calls (randomness test)', () => {
     const boards: string[][] = [];
     for (let i = 0; i < 10; i++) {
@@ -226,3 +240,192 @@ describe('assignTeams', () => {
     });
   });
 });
+
+// ============================================================================
+// dealSeededBoard
+// ============================================================================
+
+describe('assignTeams with a layout', () => {
+  it('deals a 6x6 board with several traps', () => {
+    const words = Array.from({ length: 36 }, (_, i) => `W${i}`);
+    const result = assignTeams(words, 'blue', Math.random, { size: 6, neutral: 8, trap: 3 });
+    expect(result.filter((c) => c.team === 'trap')).toHaveLength(3);
+    expect(result.filter((c) => c.team === 'neutral')).toHaveLength(8);
+    expect(result.filter((c) => c.team === 'blue')).toHaveLength(13);
+    expect(result.filter((c) => c.team === 'red')).toHaveLength(12);
+  });
+
+  it('deals a 4x4 board without traps', () => {
+    const words = Array.from({ length: 16 }, (_, i) => `W${i}`);
+    const result = assignTeams(words, 'red', Math.random, { size: 4, neutral: 3, trap: 0 });
+    expect(result.every((c) => c.team !== 'trap')).toBe(true);
+    expect(result.every((c) => c.team !== undefined)).toBe(true);
+  });
+});
+
+describe('dealSeededBoard', () => {
+  it('follows the layout size', () => {
+    expect(dealSeededBoard('SIZE', 'classic', { size: 4, neutral: 4, trap: 1 }).cards).toHaveLength(16);
+    expect(dealSeededBoard('SIZE', 'classic', { size: 6, neutral: 10, trap: 1 }).cards).toHaveLength(36);
+  });
+
+  it('deals the same board, key and starting team for the same seed', () => {
+    expect(dealSeededBoard('SHARE123')).toEqual(dealSeededBoard('SHARE123'));
+  });
+
+  it('deals different boards for different seeds', () => {
+    const a = dealSeededBoard('SHARE123').cards.map((c) => c.word).join(',');
+    const b = dealSeededBoard('SHARE124').cards.map((c) => c.word).join(',');
+    expect(a).not.toBe(b);
+  });
+
+  it('gives the starting team 9 cards', () => {
+    const { startingTeam, cards } = dealSeededBoard('STARTER');
+    expect(cards.filter((c) => c.team === startingTeam)).toHaveLength(9);
+  });
+
+  it('picks both starting teams across seeds', () => {
+    const teams = new Set(Array.from({ length: 20 }, (_, i) => dealSeededBoard(`SEED${i}`).startingTeam));
+    expect(teams.size).toBe(2);
+  });
+
+  it('deals a three-team board that is stable per seed', () => {
+    const teams = ['red', 'blue', 'green'] as const;
+    const deal = dealSeededBoard('TRIO', 'classic', { size: 5, neutral: 6, trap: 1 }, [...teams]);
+    const counts = teams.map((team) => deal.cards.filter((c) => c.team === team).length);
+    expect(counts.reduce((a, b) => a + b)).toBe(18);
+    expect(deal.cards.filter((c) => c.team === deal.startingTeam)).toHaveLength(6);
+    expect(dealSeededBoard('TRIO', 'classic', { size: 5, neutral: 6, trap: 1 }, [...teams])).toEqual(deal);
+  });
+
+  it('uses the given word pack', () => {
+    const wordSet = new Set(KAHOOT_WORDS);
+    dealSeededBoard('PACK', 'kahoot').cards.forEach((c) => expect(wordSet.has(c.word)).toBe(true));
+  });
+});
+
+// ============================================================================
+// parseWordList
+// ============================================================================
+
+describe('parseWordList', () => {
+  it('splits one word per line', () => {
+    expect(parseWordList('apple\nbanana\r\ncherry\n')).toEqual(['apple', 'banana', 'cherry']);
+  });
+
+  it('splits CSV, including quoted entries', () => {
+    expect(parseWordList('apple, "ice cream";banana\tcherry')).toEqual(['apple', 'ice cream', 'banana', 'cherry']);
+  });
+
+  it('skips blank entries', () => {
+    expect(parseWordList('\n , ,\n')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Word Pack Registry
+// ============================================================================
+
+describe('WORD_PACK_REGISTRY', () => {
+  it('has an entry for every pack id', () => {
+    expect(Object.keys(WORD_PACK_REGISTRY).sort()).toEqual([...WORD_PACKS].sort());
+  });
+
+  it('gives every pack its metadata', () => {
+    Object.entries(WORD_PACK_REGISTRY).forEach(([id, pack]) => {
+      expect(pack.id).toBe(id);
+      expect(pack.name.length).toBeGreaterThan(0);
+      expect(pack.description.length).toBeGreaterThan(0);
+      expect(pack.language).toBe('en');
+      expect(['easy', 'medium', 'hard']).toContain(pack.difficulty);
+      expect(pack.tags.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('backs getWordList', () => {
+    expect(getWordList('kahoot')).toBe(WORD_PACK_REGISTRY.kahoot.words);
+  });
+});
+
+describe('isWordPack', () => {
+  it('recognizes registered ids only', () => {
+    expect(isWordPack('classic')).toBe(true);
+    expect(isWordPack('custom')).toBe(true);
+    expect(isWordPack('toString')).toBe(false);
+    expect(isWordPack('movies')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Mixing
+// ============================================================================
+
+describe('mixWords', () => {
+  const a = Array.from({ length: 50 }, (_, i) => `A${i}`);
+  const b = Array.from({ length: 50 }, (_, i) => `B${i}`);
+
+  it('draws the requested number of unique words', () => {
+    const words = mixWords([{ words: a, weight: 1 }, { words: b, weight: 1 }], 25);
+    expect(words).toHaveLength(25);
+    expect(new Set(words).size).toBe(25);
+  });
+
+  it('favors heavier packs', () => {
+    const random = createRandom('WEIGHTS');
+    let fromA = 0;
+    for (let i = 0; i < 40; i++) {
+      fromA += mixWords([{ words: a, weight: 3 }, { words: b, weight: 1 }], 25, random)
+        .filter((w) => w.startsWith('A')).length;
+    }
+    // Expect roughly 3/4 of the 1000 cards from A
+    expect(fromA).toBeGreaterThan(650);
+    expect(fromA).toBeLessThan(850);
+  });
+
+  it('skips words shared between packs', () => {
+    const words = mixWords([{ words: a.slice(0, 20), weight: 1 }, { words: a.slice(10, 30), weight: 1 }], 25);
+    expect(words).toHaveLength(25);
+    expect(new Set(words).size).toBe(25);
+  });
+
+  it('keeps drawing from other packs when one runs out', () => {
+    const words = mixWords([{ words: a.slice(0, 5), weight: 3 }, { words: b, weight: 1 }], 25);
+    expect(words.filter((w) => w.startsWith('B'))).toHaveLength(20);
+  });
+
+  it('is reproducible with a seeded generator', () => {
+    const mix = [{ words: a, weight: 2 }, { words: b, weight: 1 }];
+    expect(mixWords(mix, 25, createRandom('S'))).toEqual(mixWords(mix, 25, createRandom('S')));
+  });
+
+  it('is used by generateBoard for a weighted mix', () => {
+    const board = generateBoard([{ words: a, weight: 1 }, { words: b, weight: 1 }]);
+    expect(board).toHaveLength(25);
+  });
+});
+
+describe('toWordMix', () => {
+  it('maps a selection to weighted word lists', () => {
+    const custom = ['X', 'Y'];
+    expect(toWordMix({ classic: 2, custom: 1 }, custom)).toEqual([
+      { words: CLASSIC_WORDS, weight: 2 },
+      { words: custom, weight: 1 },
+    ]);
+  });
+
+  it('counts distinct words across the mix', () => {
+    expect(countMixWords(toWordMix({ classic: 1, kahoot: 1 })))
+      .toBe(new Set([...CLASSIC_WORDS, ...KAHOOT_WORDS]).size);
+  });
+});
+
+describe('selectedWordPacks', () => {
+  it('prefers the wordPacks selection', () => {
+    expect(selectedWordPacks({ wordPacks: { kahoot: 2 }, wordPack: 'classic' })).toEqual({ kahoot: 2 });
+  });
+
+  it('falls back to the legacy single pack', () => {
+    expect(selectedWordPacks({ wordPack: 'kahoot' })).toEqual({ kahoot: 1 });
+    expect(selectedWordPacks({})).toEqual({ classic: 1 });
+  });
+});
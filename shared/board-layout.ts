@@ -0,0 +1,71 @@
+/**
+ * Board layouts: grid size plus neutral and trap counts.
+ * Team cards fill the rest of the grid, and the starting team gets the
+ * extra card when they don't split evenly (9/8 on the standard 5x5).
+ * With three teams the leftover cards go to the teams that play first.
+ */
+
+import { BOARD_SIZES, DEFAULT_TEAM_COUNT, MAX_TRAP_CARDS, MIN_TEAM_CARDS } from "./constants";
+import { playOrder, teamsFor } from "./teams";
+import type { BoardLayout, BoardSize, PlayingTeam, Team, TeamCount } from "./types";
+import type { ValidationResult } from "./validation";
+
+/** Suggested neutral/trap counts per size, keeping team cards odd so the starting team has one more */
+export const DEFAULT_BOARD_LAYOUTS: Record<BoardSize, BoardLayout> = {
+  4: { size: 4, neutral: 4, trap: 1 },
+  5: { size: 5, neutral: 7, trap: 1 },
+  6: { size: 6, neutral: 10, trap: 1 },
+};
+
+export const DEFAULT_BOARD_LAYOUT = DEFAULT_BOARD_LAYOUTS[5];
+
+/** Total cards on the board */
+export function boardCardCount(layout: BoardLayout): number {
+  return layout.size * layout.size;
+}
+
+/** Most neutral cards a layout can hold with the given trap and team counts */
+export function maxNeutralCards(size: BoardSize, trap: number, teamCount: TeamCount = DEFAULT_TEAM_COUNT): number {
+  return size * size - trap - teamCount * MIN_TEAM_CARDS;
+}
+
+/** Cards per team for a layout - the starting team gets the odd card */
+export function layoutCardCounts(
+  layout: BoardLayout,
+  startingTeam: PlayingTeam,
+  teams: PlayingTeam[] = teamsFor(DEFAULT_TEAM_COUNT)
+): Record<Team, number> {
+  const teamCards = boardCardCount(layout) - layout.neutral - layout.trap;
+  const base = Math.floor(teamCards / teams.length);
+  const extra = teamCards - base * teams.length;
+  const counts: Record<Team, number> = { red: 0, blue: 0, green: 0, neutral: layout.neutral, trap: layout.trap };
+  playOrder(startingTeam, teams).forEach((team, i) => {
+    counts[team] = base + (i < extra ? 1 : 0);
+  });
+  return counts;
+}
+
+/** Check a layout: known size, whole non-negative counts, enough team cards left */
+export function validateBoardLayout(layout: BoardLayout, teamCount: TeamCount = DEFAULT_TEAM_COUNT): ValidationResult {
+  if (!BOARD_SIZES.includes(layout.size)) {
+    return { valid: false, error: "Board must be 4x4, 5x5 or 6x6" };
+  }
+  if (!Number.isInteger(layout.trap) || layout.trap < 0 || layout.trap > MAX_TRAP_CARDS) {
+    return { valid: false, error: `Traps must be between 0 and ${MAX_TRAP_CARDS}` };
+  }
+  const maxNeutral = maxNeutralCards(layout.size, layout.trap, teamCount);
+  if (!Number.isInteger(layout.neutral) || layout.neutral < 0 || layout.neutral > maxNeutral) {
+    return { valid: false, error: `Neutral cards must be between 0 and ${maxNeutral}` };
+  }
+  return { valid: true };
+}
+
+/** A room's layout, defaulting to the standard 5x5 for rooms without one */
+export function boardLayoutOf(room: { boardLayout?: BoardLayout }): BoardLayout {
+  return room.boardLayout ?? DEFAULT_BOARD_LAYOUT;
+}
+
+/** Grid columns for a dealt board (boards are always square) */
+export function boardColumns(cardCount: number): number {
+  return Math.max(1, Math.round(Math.sqrt(cardCount)));
+}
@@ -0,0 +1,182 @@
+/**
+ * Clue checks against the board.
+ * Shared by ClueInput (to explain a rejection) and the game reducer (to
+ * enforce it). Words are compared part by part: a board entry like
+ * "ICE CREAM" is checked as "ICE", "CREAM" and "ICECREAM", and so is a
+ * hyphenated clue.
+ */
+
+import type { ClueStrictness } from "./types";
+import { DEFAULT_CLUE_STRICTNESS } from "./constants";
+import type { ValidationResult } from "./validation";
+
+/** A rejected clue names the board word it clashes with */
+export interface ClueCheckResult extends ValidationResult {
+  boardWord?: string;
+}
+
+// Plural -> singular for forms a suffix rule can't undo
+const IRREGULAR_PLURALS: Record<string, string> = {
+  ANALYSES: "ANALYSIS",
+  CACTI: "CACTUS",
+  CALVES: "CALF",
+  CHILDREN: "CHILD",
+  CRISES: "CRISIS",
+  CRITERIA: "CRITERION",
+  DIAGNOSES: "DIAGNOSIS",
+  DICE: "DIE",
+  ELVES: "ELF",
+  EMPHASES: "EMPHASIS",
+  FEET: "FOOT",
+  FUNGI: "FUNGUS",
+  GEESE: "GOOSE",
+  HALVES: "HALF",
+  HYPOTHESES: "HYPOTHESIS",
+  KNIVES: "KNIFE",
+  LEAVES: "LEAF",
+  LICE: "LOUSE",
+  LIVES: "LIFE",
+  LOAVES: "LOAF",
+  MEN: "MAN",
+  MICE: "MOUSE",
+  OASES: "OASIS",
+  OXEN: "OX",
+  PARENTHESES: "PARENTHESIS",
+  PEOPLE: "PERSON",
+  PHENOMENA: "PHENOMENON",
+  SHELVES: "SHELF",
+  SYNOPSES: "SYNOPSIS",
+  TEETH: "TOOTH",
+  THESES: "THESIS",
+  THIEVES: "THIEF",
+  WIVES: "WIFE",
+  WOLVES: "WOLF",
+  WOMEN: "WOMAN",
+};
+
+// Words ending in S that aren't plurals and that no suffix rule would keep whole
+const NOT_PLURALS = new Set(["NEWS", "SERIES", "SPECIES"]);
+
+// Small words inside multi-word entries ("LORD OF THE RINGS") don't block clues on their own
+const STOP_WORDS = new Set(["A", "AN", "AND", "AT", "IN", "OF", "ON", "THE", "TO"]);
+
+// Shortest part the strict level looks for anywhere inside another word
+const MIN_EMBEDDED_LENGTH = 3;
+
+// Shortest stem a suffix may be stripped down to
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Rough English stem: drops a plural or common suffix so inflections of one
+ * word compare equal (CARS/CAR, BUSES/BUS, RUNNING/RUN, BERRIES/BERRY, FARMER/FARM).
+ * Not a full stemmer - it only has to catch the obvious cases.
+ */
+export function stem(word: string): string {
+  let w = word.toUpperCase();
+  if (IRREGULAR_PLURALS[w]) return IRREGULAR_PLURALS[w];
+  if (NOT_PLURALS.has(w)) return w;
+
+  // Only strip when a real-looking stem is left: long enough and with a vowel (not STR from STRING)
+  const strip = (suffix: string, replacement = ""): boolean => {
+    if (!w.endsWith(suffix)) return false;
+    const rest = w.slice(0, -suffix.length) + replacement;
+    if (rest.length < MIN_STEM_LENGTH || !/[AEIOUY]/.test(rest)) return false;
+    w = rest;
+    return true;
+  };
+
+  if (/[^AEIOU](US|IS)ES$/.test(w)) {
+    // BUSES -> BUS, IRISES -> IRIS (with a vowel first, as in CAUSES, it's a plain -S)
+    strip("ES");
+  } else if (/[^AEIOU](US|IS)E$/.test(w)) {
+    // FUSE and PROMISE drop the E to meet FUSES -> FUS and PROMISES -> PROMIS
+    strip("E");
+  } else if (!strip("IES", "Y") && !(/(SS|X|Z|CH|SH)ES$/.test(w) && strip("ES"))) {
+    // GLASS, BUS and IRIS aren't plurals
+    if (!/(SS|US|IS)$/.test(w)) strip("S");
+  }
+  // FEED and SPEED keep their -ED
+  if (strip("ING") || (!w.endsWith("EED") && strip("ED")) || strip("EST") || strip("ER")) {
+    // RUNNING -> RUNN -> RUN
+    if (/([B-DF-HJ-NP-TV-Z])\1$/.test(w) && !/(LL|SS|ZZ)$/.test(w)) w = w.slice(0, -1);
+  } else {
+    strip("LY");
+  }
+  return w;
+}
+
+// Parts of a board entry or clue: each word, plus the whole thing run together when there are several
+function wordParts(word: string): string[] {
+  const tokens = word.toUpperCase().split(/[\s-]+/).filter(Boolean);
+  return tokens.length > 1 ? [...tokens, tokens.join("")] : tokens;
+}
+
+function isStopWord(part: string, parts: string[]): boolean {
+  return parts.length > 1 && STOP_WORDS.has(part);
+}
+
+type Clash = "same" | "similar" | "contained" | "contains";
+
+// Why clue part `c` clashes with board part `b` at this strictness, or null if it doesn't
+function partClash(c: string, b: string, strictness: ClueStrictness): Clash | null {
+  if (c === b) return "same";
+  if (stem(c) === stem(b)) return "similar";
+  if (strictness === "lenient") return null;
+
+  // Prefix/suffix catches derivations like FARM/FARMER but lets WAR through for DWARF
+  if (b.startsWith(c) || b.endsWith(c)) return "contained";
+  if (c.startsWith(b) || c.endsWith(b)) return "contains";
+  if (strictness === "standard") return null;
+
+  if (c.length >= MIN_EMBEDDED_LENGTH && b.includes(c)) return "contained";
+  if (b.length >= MIN_EMBEDDED_LENGTH && c.includes(b)) return "contains";
+  return null;
+}
+
+function clashMessage(clue: string, boardWord: string, clash: Clash, cluePart: string, boardPart: string): string {
+  if (clash === "same") {
+    if (cluePart === clue.toUpperCase() && boardPart === boardWord) return `"${clue}" is a word on the board`;
+    if (cluePart === clue.toUpperCase() && boardWord.includes(" ")) return `"${clue}" is part of "${boardWord}"`;
+    if (boardPart === boardWord) return `"${clue}" contains the board word "${boardWord}"`;
+  }
+  if (clash === "contained") return `"${clue}" is contained in "${boardWord}"`;
+  if (clash === "contains") return `"${clue}" contains the board word "${boardWord}"`;
+  return `"${clue}" is too similar to "${boardWord}"`;
+}
+
+/**
+ * Check a clue against the board.
+ * - lenient: the same word, or another form of it (plural, irregular plural, -ING/-ED/-ER...)
+ * - standard: also a prefix or suffix of a board word, or the other way round
+ * - strict: also a board word anywhere inside the clue, or the clue inside a board word
+ */
+export function checkClue(
+  clue: string,
+  boardWords: string[],
+  strictness: ClueStrictness = DEFAULT_CLUE_STRICTNESS
+): ClueCheckResult {
+  const clueParts = wordParts(clue);
+
+  for (const boardWord of boardWords) {
+    const upper = boardWord.toUpperCase();
+    const boardParts = wordParts(upper);
+    for (const c of clueParts) {
+      if (isStopWord(c, clueParts)) continue;
+      for (const b of boardParts) {
+        if (isStopWord(b, boardParts)) continue;
+        const clash = partClash(c, b, strictness);
+        if (clash) return { valid: false, error: clashMessage(clue, upper, clash, c, b), boardWord: upper };
+      }
+    }
+  }
+  return { valid: true };
+}
+
+/** True when the clue doesn't clash with any board word */
+export function isValidClue(
+  clue: string,
+  boardWords: string[],
+  strictness: ClueStrictness = DEFAULT_CLUE_STRICTNESS
+): boolean {
+  return checkClue(clue, boardWords, strictness).valid;
+}
@@ -0,0 +1,105 @@
+/**
+ * Clue tracking.
+ * Every clue gets an id (its index in the game's clues) and each correct
+ * guess is credited to one clue, stored on the card as clueId. Guesses go to
+ * the current clue until it's solved; after that - the "+1" guess, or any
+ * guess on a 0 clue - they pay off the team's oldest outstanding clue.
+ * Separately, each reveal event records the clue that was active, which is
+ * what the history and per-clue-giver stats show.
+ */
+
+import { UNLIMITED_CLUE } from "./constants";
+import type { ClueRecord, ClueStatus, Team } from "./types";
+
+/** Cards a clue asks for; 0 and ∞ clues have no target */
+function clueTarget(clue: ClueRecord): number {
+  return clue.count === UNLIMITED_CLUE ? 0 : clue.count;
+}
+
+/** Cards found per clue id */
+export function cluesFound(clues: ClueRecord[], board: { clueId?: number | null }[]): number[] {
+  const found = clues.map(() => 0);
+  board.forEach((card) => {
+    if (card.clueId != null && card.clueId < found.length) found[card.clueId]++;
+  });
+  return found;
+}
+
+export function clueStatus(clue: ClueRecord, found: number): ClueStatus {
+  if (found >= clueTarget(clue) && clue.count !== UNLIMITED_CLUE) return "solved";
+  return found > 0 ? "partial" : "unsolved";
+}
+
+/** Cards still owed on a clue */
+function outstanding(clue: ClueRecord, found: number): number {
+  return Math.max(0, clueTarget(clue) - found);
+}
+
+/** Cards a team still owes across its clues, optionally only those before clue id `before` */
+export function outstandingCards(
+  clues: ClueRecord[],
+  board: { clueId?: number | null }[],
+  team: Team,
+  before = clues.length
+): number {
+  const found = cluesFound(clues, board);
+  return clues.reduce((sum, clue, id) => (clue.team === team && id < before ? sum + outstanding(clue, found[id]) : sum), 0);
+}
+
+/**
+ * The clue a correct guess under `currentId` counts toward: the current clue
+ * while it's unsolved (or ∞), otherwise the team's oldest outstanding clue.
+ */
+export function creditedClueId(clues: ClueRecord[], board: { clueId?: number | null }[], currentId: number): number {
+  const current = clues[currentId];
+  if (!current) return currentId;
+  const found = cluesFound(clues, board);
+  if (current.count === UNLIMITED_CLUE || outstanding(current, found[currentId]) > 0) return currentId;
+
+  const earlier = clues.findIndex((clue, id) => id !== currentId && clue.team === current.team && outstanding(clue, found[id]) > 0);
+  return earlier === -1 ? currentId : earlier;
+}
+
+/** A reveal made while a clue was active */
+export interface ClueReveal {
+  cardIndex: number;
+  cardTeam: Team;
+}
+
+/** Reveals per clue id, in the order they happened, from the event log */
+export function revealsByClue(events: { type: string; clueId?: number; cardIndex?: number; cardTeam?: Team }[]): ClueReveal[][] {
+  const reveals: ClueReveal[][] = [];
+  events.forEach((event) => {
+    if (event.type !== "reveal" || event.clueId == null || event.cardIndex == null || !event.cardTeam) return;
+    (reveals[event.clueId] ??= []).push({ cardIndex: event.cardIndex, cardTeam: event.cardTeam });
+  });
+  return reveals;
+}
+
+export interface ClueGiverStats {
+  playerId: string;
+  clues: number;
+  cardsGained: number; // Own-team cards revealed under their clues
+  misses: number; // Other teams' cards and neutrals
+  trapHits: number;
+}
+
+/** How each clue giver's clues played out, most cards per clue first */
+export function clueGiverStats(
+  clues: ClueRecord[],
+  events: { type: string; clueId?: number; cardIndex?: number; cardTeam?: Team }[]
+): ClueGiverStats[] {
+  const reveals = revealsByClue(events);
+  const byPlayer = new Map<string, ClueGiverStats>();
+  clues.forEach((clue, id) => {
+    const stats = byPlayer.get(clue.givenBy) ?? { playerId: clue.givenBy, clues: 0, cardsGained: 0, misses: 0, trapHits: 0 };
+    stats.clues++;
+    (reveals[id] ?? []).forEach(({ cardTeam }) => {
+      if (cardTeam === clue.team) stats.cardsGained++;
+      else if (cardTeam === "trap") stats.trapHits++;
+      else stats.misses++;
+    });
+    byPlayer.set(clue.givenBy, stats);
+  });
+  return [...byPlayer.values()].sort((a, b) => b.cardsGained / b.clues - a.cardsGained / a.clues);
+}
@@ -3,23 +3,63 @@ export const LOCAL_STORAGE_AVATAR_KEY = "cluecards_avatar";
 export const LOCAL_STORAGE_SOUND_VOLUME_KEY = "cluecards_sound_volume";
 export const LOCAL_STORAGE_SOUND_MUTED_KEY = "cluecards_sound_muted";
 export const LOCAL_STORAGE_MUSIC_ENABLED_KEY = "cluecards_music_enabled";
+export const LOCAL_STORAGE_SIGN_IN_EMAIL_KEY = "cluecards_sign_in_email";
+export const LOCAL_STORAGE_SPECTATOR_DELAY_KEY = "cluecards_spectator_delay";
 
 // Game configuration
 export const TURN_DURATIONS = [30, 60, 90] as const;
 export const DEFAULT_TURN_DURATION = 60;
-export const WORD_PACKS = ["classic", "kahoot"] as const;
+export const TIME_BANKS = [0, 60, 120, 300] as const; // Seconds per team; 0 turns the bank off
+export const DEFAULT_TIME_BANK = 0;
+export const SPECTATOR_DELAYS = [0, 10, 30, 60] as const; // Seconds a spectator can hold back reveals
+export const WORD_PACKS = ["classic", "kahoot", "custom"] as const;
 export const DEFAULT_WORD_PACK = "classic";
+export const GAME_MODES = ["classic", "duet"] as const;
+export const DEFAULT_GAME_MODE = "classic";
+export const CLUE_STRICTNESS_LEVELS = ["lenient", "standard", "strict"] as const;
+export const DEFAULT_CLUE_STRICTNESS = "standard";
+export const CLUE_CHALLENGE_RULES = ["off", "record", "voidTurn"] as const;
+export const VOTE_THRESHOLDS = ["auto", 1, 2, 3] as const;
+export const TRAP_PENALTIES = ["loseGame", "loseTurn"] as const;
+export const CLUE_CHALLENGE_WINDOW_MS = 15 * 1000; // How long after a clue the other clue givers may challenge it
+export const DUET_TURNS = 9; // Turns the pair shares to find every agent
+export const TEAMS = ["red", "blue", "green"] as const; // Turn order; a room plays the first teamCount
+export const TEAM_COUNTS = [2, 3] as const;
+export const DEFAULT_TEAM_COUNT = 2;
+export const MAX_WORD_PACK_WEIGHT = 3;
+export const BOARD_SIZES = [4, 5, 6] as const;
+export const MAX_TRAP_CARDS = 3;
+export const MIN_TEAM_CARDS = 3; // Per team, so every layout is still a game
+export const MIN_CUSTOM_WORDS = 25; // One full standard board
+export const MAX_CUSTOM_WORDS = 500;
+export const MAX_CUSTOM_WORD_LENGTH = 16; // Keeps words readable on a card
+
+// Tolerance for clock skew between the client that fires a turn timeout and the server
+export const TURN_TIMEOUT_SKEW_MS = 2000;
+
+// Cloud Functions (must match the region the functions are deployed to)
+export const FUNCTIONS_REGION = "europe-west1";
 
 // Validation limits
 export const MAX_PLAYER_NAME_LENGTH = 20;
 export const MAX_CLUE_LENGTH = 30;
+export const MAX_CLUE_COUNT = 9; // Highest number offered in the clue selector
+export const UNLIMITED_CLUE = -1; // Clue count for an "∞" clue (RTDB can't store Infinity)
 export const MAX_CHAT_MESSAGE_LENGTH = 200;
-export const MIN_PLAYERS_TO_START = 4;
+export const MAX_SEED_LENGTH = 16;
+export const ROOM_CODE_ATTEMPTS = 5; // Fresh codes to try before giving up on creating a room
+export const MIN_ROOM_PASSWORD_LENGTH = 4;
+export const MAX_ROOM_PASSWORD_LENGTH = 32;
+export const MIN_PLAYERS_PER_TEAM = 2; // A clue giver and at least one guesser
+export const DUET_PLAYERS = 2;
 
 // Presence cleanup
 export const STALE_PLAYER_GRACE_MS = 2 * 60 * 1000; // 2 minutes
 export const STALE_PLAYER_CHECK_INTERVAL_MS = 30 * 1000; // 30 seconds
 
+// Moderation
+export const KICK_REJOIN_COOLDOWN_MS = 60 * 1000; // A kicked player may rejoin after this (also in database.rules.json)
+
 // Avatars
 export const AVATARS = [
   "🐱", "🐶", "🐻", "🦊", "🐼", "🦁", "🐯", "🐮",
@@ -0,0 +1,99 @@
+/**
+ * Duet: two-player cooperative mode.
+ * Both players see the same 25 words but each side has its own key. The side
+ * whose turn it is gives a clue from its key and the other side guesses; the
+ * pair shares a fixed number of turns to find every agent on both keys.
+ */
+
+import { shuffle } from "./game-utils";
+import { createRandom, type Random } from "./random";
+import { generateBoard, type WordSource } from "./words";
+import type { DuetResult, DuetSide, FirebaseDuetKeys, GameMode, Role, Team } from "./types";
+
+export const DUET_SIDES: DuetSide[] = ["red", "blue"];
+
+/**
+ * How the two keys line up card by card, as [red side, blue side, cards].
+ * Agents are marked with the side's own color. Each key has 9 agents, 3 traps
+ * and 13 neutrals; 3 agents are shared, so 15 cards need finding.
+ */
+const DUET_KEY_PATTERN: [Team, Team, number][] = [
+  ["red", "blue", 3],
+  ["red", "neutral", 5],
+  ["neutral", "blue", 5],
+  ["red", "trap", 1],
+  ["trap", "blue", 1],
+  ["trap", "trap", 1],
+  ["trap", "neutral", 1],
+  ["neutral", "trap", 1],
+  ["neutral", "neutral", 7],
+];
+
+export const DUET_CARD_COUNT = DUET_KEY_PATTERN.reduce((sum, [, , n]) => sum + n, 0);
+
+/** Cards that are an agent on at least one key - all of them must be found to win */
+export const DUET_AGENT_COUNT = DUET_KEY_PATTERN
+  .filter(([red, blue]) => red === "red" || blue === "blue")
+  .reduce((sum, [, , n]) => sum + n, 0);
+
+/** How a Duet game ended, for game-over and replay text */
+export const DUET_RESULT_LABELS: Record<DuetResult, string> = {
+  won: "All agents found - you win!",
+  trap: "A trap was revealed - mission failed",
+  outOfTurns: "Out of turns - mission failed",
+};
+
+export function otherSide(side: DuetSide): DuetSide {
+  return side === "red" ? "blue" : "red";
+}
+
+/** Deal both keys, card by card from the shared pattern */
+export function dealDuetKeys(random: Random = Math.random): FirebaseDuetKeys {
+  const pairs = shuffle(
+    DUET_KEY_PATTERN.flatMap(([red, blue, n]) => Array.from({ length: n }, () => [red, blue] as const)),
+    random
+  );
+  return {
+    red: pairs.map(([red]) => red),
+    blue: pairs.map(([, blue]) => blue),
+  };
+}
+
+/**
+ * Deal a Duet board from a seed: the side that gives the first clue, the
+ * words, then both keys. Keep the order so a seed always deals the same game.
+ */
+export function dealSeededDuetBoard(
+  seed: string,
+  source: WordSource = "classic"
+): { startingTeam: DuetSide; words: string[]; keys: FirebaseDuetKeys } {
+  const random = createRandom(seed);
+  const startingTeam: DuetSide = random() < 0.5 ? "red" : "blue";
+  const words = generateBoard(source, random, DUET_CARD_COUNT);
+  return { startingTeam, words, keys: dealDuetKeys(random) };
+}
+
+/** Agents on a key (9 per side) */
+export function countDuetAgents(key: Team[], side: DuetSide): number {
+  return key.filter((team) => team === side).length;
+}
+
+/** Agents still to find - revealed agents carry the color of the key they were found on */
+export function duetAgentsLeft(board: { revealed: boolean; team?: Team | null }[]): number {
+  const found = board.filter((c) => c.revealed && (c.team === "red" || c.team === "blue")).length;
+  return Math.max(0, DUET_AGENT_COUNT - found);
+}
+
+/**
+ * The role a player has this turn. In Duet the seats swap every turn: the
+ * side whose turn it is gives the clue and the other side guesses.
+ */
+export function roleThisTurn(
+  player: { team: Team | null; role: Role | null },
+  currentTeam: Team,
+  mode: GameMode = "classic"
+): Role | null {
+  if (!player.team || !player.role) return null;
+  if (mode !== "duet") return player.team === currentTeam ? player.role : null;
+  return player.team === currentTeam ? "clueGiver" : "guesser";
+}
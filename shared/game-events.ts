@@ -0,0 +1,184 @@
+/**
+ * Game event log and replay.
+ * Events are derived from reducer transitions and stored append-only under
+ * rooms/{roomCode}/events; the replay helpers rebuild the board turn by turn.
+ */
+
+import { roleThisTurn } from "./duet";
+import type {
+  Card,
+  Team,
+  DuetResult,
+  GameMode,
+  GameEvent,
+  GameAction,
+  GameEngineState,
+  FirebaseGameEvent,
+} from "./types";
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/** Event written when a game (or rematch) starts */
+export function startEvent(startingTeam: Team, timestamp: number): FirebaseGameEvent {
+  return { type: "start", team: startingTeam, timestamp };
+}
+
+/**
+ * Events to record for a reducer transition, oldest first.
+ * Votes are not included: they're written client-side by voteCard with a
+ * server timestamp, since the vote itself is a client transaction.
+ */
+export function eventsForAction(
+  prev: GameEngineState,
+  action: GameAction,
+  next: GameEngineState,
+  timestamp: number
+): FirebaseGameEvent[] {
+  const team = prev.currentTeam;
+  const events: FirebaseGameEvent[] = [];
+
+  switch (action.type) {
+    case "giveClue":
+      if (next.currentClue) {
+        events.push({
+          type: "clue",
+          team,
+          timestamp,
+          playerId: action.playerId,
+          word: next.currentClue.word,
+          count: next.currentClue.count,
+          clueId: next.currentClue.id,
+        });
+      }
+      break;
+    case "reveal": {
+      // The clue that was active, whichever clue the guess was credited to
+      const clueId = prev.currentClue?.id;
+      events.push({
+        type: "reveal",
+        team,
+        timestamp,
+        playerId: action.playerId,
+        cardIndex: action.cardIndex,
+        cardTeam: action.cardTeam,
+        ...(clueId != null ? { clueId } : {}),
+      });
+      break;
+    }
+    case "challengeClue": {
+      const clueId = prev.currentClue?.id;
+      const voided = clueId != null && Boolean(next.clues[clueId]?.voided);
+      events.push({
+        type: "challenge",
+        team,
+        timestamp,
+        playerId: action.playerId,
+        voided,
+        ...(clueId != null ? { clueId } : {}),
+      });
+      break;
+    }
+    case "endTurn": {
+      const player = prev.players[action.playerId];
+      const role = player ? roleThisTurn(player, team, prev.gameMode) : null;
+      const passed = role === "guesser" || (prev.gameMode === "duet" && role === "clueGiver" && !prev.currentClue);
+      events.push({ type: "endTurn", team, timestamp, playerId: action.playerId, reason: passed ? "pass" : "timeout" });
+      break;
+    }
+    case "timeout":
+      events.push({ type: "endTurn", team, timestamp, reason: "timeout" });
+      break;
+    case "resume":
+      events.push({ type: "resume", team, timestamp, playerId: action.playerId });
+      break;
+  }
+
+  // Transitions that can follow from several actions
+  if (!prev.paused && next.paused && next.pausedForTeam && next.pauseReason) {
+    events.push({ type: "pause", team: next.pausedForTeam, timestamp, reason: next.pauseReason });
+  }
+  if (!prev.gameOver && next.gameOver && next.winner) {
+    events.push({ type: "gameOver", team, timestamp, winner: next.winner });
+  }
+  if (!prev.gameOver && next.gameOver && next.duetResult) {
+    events.push({ type: "gameOver", team, timestamp, result: next.duetResult });
+  }
+  return events;
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export interface ReplayTurn {
+  team: Team;
+  clue: { word: string; count: number } | null;
+  reveals: { cardIndex: number; cardTeam: Team; playerId?: string }[];
+  endReason: GameEvent["reason"] | null; // pass/timeout, or null when a reveal ended it
+  challenge?: { playerId?: string; voided: boolean }; // Set when the clue was challenged
+  winner: Team | null; // Set on the turn that ended the game
+  result: DuetResult | null; // Same, for Duet
+}
+
+/**
+ * Group the event log into turns.
+ * A new turn starts whenever the acting team changes or a second clue arrives.
+ */
+export function toReplayTurns(events: GameEvent[]): ReplayTurn[] {
+  const turns: ReplayTurn[] = [];
+  let turn: ReplayTurn | null = null;
+
+  for (const event of events) {
+    if (event.type === "start" || event.type === "vote") continue;
+
+    if (!turn || event.team !== turn.team || (event.type === "clue" && turn.clue)) {
+      turn = { team: event.team, clue: null, reveals: [], endReason: null, winner: null, result: null };
+      turns.push(turn);
+    }
+
+    switch (event.type) {
+      case "clue":
+        turn.clue = { word: event.word ?? "", count: event.count ?? 0 };
+        break;
+      case "reveal":
+        if (event.cardIndex !== undefined && event.cardTeam) {
+          turn.reveals.push({ cardIndex: event.cardIndex, cardTeam: event.cardTeam, playerId: event.playerId });
+        }
+        break;
+      case "challenge":
+        turn.challenge = { playerId: event.playerId, voided: event.voided ?? false };
+        break;
+      case "endTurn":
+        turn.endReason = event.reason ?? null;
+        break;
+      case "gameOver":
+        turn.winner = event.winner ?? null;
+        turn.result = event.result ?? null;
+        break;
+    }
+  }
+  return turns;
+}
+
+/**
+ * Board as it stood after the given turn (-1 for the starting board).
+ * Cards revealed later stay hidden, like they were during play.
+ * In Duet a first neutral guess only covers the card for the clue giver's side.
+ */
+export function replayBoard(words: string[], turns: ReplayTurn[], throughTurn: number, mode: GameMode = "classic"): Card[] {
+  const board: Card[] = words.map((word) => ({ word, revealed: false }));
+  turns.slice(0, throughTurn + 1).forEach((turn) => {
+    turn.reveals.forEach(({ cardIndex, cardTeam, playerId }) => {
+      const card = board[cardIndex];
+      if (!card) return;
+      if (mode === "duet" && cardTeam === "neutral" && !card.neutralFor && (turn.team === "red" || turn.team === "blue")) {
+        board[cardIndex] = { ...card, neutralFor: turn.team };
+        return;
+      }
+      board[cardIndex] = { word: card.word, team: cardTeam, revealed: true, revealedBy: playerId };
+    });
+  });
+  return board;
+}
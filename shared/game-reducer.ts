@@ -0,0 +1,513 @@
+/**
+ * Pure, deterministic game reducer.
+ * All turn rules live here; the Cloud Functions and client actions are thin
+ * adapters that load state, apply an action and write the result back.
+ * Invalid actions throw an Error with a user-facing message.
+ */
+
+import { isValidClueCount, isUnlimitedClue, getRequiredVotes, countCardsByTeam } from "./game-utils";
+import { duetAgentsLeft, otherSide, roleThisTurn } from "./duet";
+import { isPlayingTeam, nextTeam, teamsInPlay } from "./teams";
+import { creditedClueId } from "./clues";
+import { sanitizeClue, isValidClueFormat } from "./validation";
+import { isValidClue } from "./clue-validation";
+import { roomRulesOf } from "./room-rules";
+import { chargeTimeBank, turnDeadline } from "./turn-timer";
+import { TURN_TIMEOUT_SKEW_MS, CLUE_CHALLENGE_WINDOW_MS } from "./constants";
+import type {
+  Team,
+  PlayingTeam,
+  DuetResult,
+  DuetSide,
+  PauseReason,
+  FirebaseBoardCard,
+  FirebasePlayerData,
+  FirebaseRoomData,
+  GameEngineState,
+  GameAction,
+  GiveClueAction,
+  VoteAction,
+  RevealAction,
+  ChallengeClueAction,
+  EndTurnAction,
+  TimeoutAction,
+  PauseAction,
+  ResumeAction,
+} from "./types";
+
+// ============================================================================
+// State Conversion
+// ============================================================================
+
+/** Build engine state from room data as read from RTDB. */
+export function toEngineState(room: FirebaseRoomData): GameEngineState {
+  return {
+    ownerId: room.ownerId,
+    gameMode: room.gameMode ?? "classic",
+    gameStarted: room.gameStarted ?? false,
+    gameOver: room.gameOver ?? false,
+    winner: room.winner ?? null,
+    currentTeam: room.currentTeam,
+    currentClue: room.currentClue ?? null,
+    remainingGuesses: room.remainingGuesses ?? null,
+    turnStartTime: room.turnStartTime ?? null,
+    turnDuration: room.turnDuration,
+    clueDuration: room.clueDuration ?? room.turnDuration,
+    timeBanks: room.timeBanks ?? {},
+    paused: room.paused ?? false,
+    pauseReason: room.pauseReason ?? null,
+    pausedForTeam: room.pausedForTeam ?? null,
+    duetTurnsLeft: room.duetTurnsLeft ?? null,
+    duetResult: room.duetResult ?? null,
+    teams: teamsInPlay(room),
+    eliminatedTeams: room.eliminatedTeams ?? [],
+    clues: room.clues ?? [],
+    rules: roomRulesOf(room),
+    // RTDB drops empty objects, so votes may be missing
+    board: (room.board || []).map((c) => ({ ...c, votes: c.votes || {} })),
+    cardCounts: room.cardCounts ?? countCardsByTeam([]),
+    players: room.players || {},
+  };
+}
+
+// Top-level fields a transition can change
+const ENGINE_FIELDS = [
+  "gameOver",
+  "winner",
+  "currentTeam",
+  "currentClue",
+  "remainingGuesses",
+  "turnStartTime",
+  "paused",
+  "pauseReason",
+  "pausedForTeam",
+  "duetTurnsLeft",
+  "duetResult",
+  "eliminatedTeams",
+  "clues",
+  "timeBanks",
+] as const;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Multi-path RTDB update (relative to the room) that turns prev into next.
+ * When the turn changes, votes on every unrevealed card are cleared even if
+ * they looked empty, so a vote cast mid-transition can't leak into the next turn.
+ */
+export function toRoomUpdates(prev: GameEngineState, next: GameEngineState): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  ENGINE_FIELDS.forEach((field) => {
+    if (!sameValue(prev[field], next[field])) updates[field] = next[field];
+  });
+
+  const turnChanged = !sameValue(prev.currentClue, next.currentClue) || prev.currentTeam !== next.currentTeam;
+  next.board.forEach((card, i) => {
+    const before = prev.board[i];
+    if (!sameValue(before.team, card.team)) updates[`board/${i}/team`] = card.team ?? null;
+    if (before.revealed !== card.revealed) updates[`board/${i}/revealed`] = card.revealed;
+    if (!sameValue(before.revealedBy, card.revealedBy)) updates[`board/${i}/revealedBy`] = card.revealedBy;
+    if (!sameValue(before.neutralFor, card.neutralFor)) updates[`board/${i}/neutralFor`] = card.neutralFor ?? null;
+    if (!sameValue(before.clueId, card.clueId)) updates[`board/${i}/clueId`] = card.clueId ?? null;
+
+    const hasVotes = Object.keys(card.votes).length > 0;
+    if (!sameValue(before.votes, card.votes) || (turnChanged && !hasVotes && !card.revealed)) {
+      updates[`board/${i}/votes`] = hasVotes ? card.votes : null;
+    }
+  });
+  return updates;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check if a team can play (for pause logic).
+ * connected !== false treats undefined as connected (backwards compatible).
+ */
+export function checkPause(
+  players: Record<string, FirebasePlayerData>,
+  team: Team,
+  hasClue: boolean
+): { paused: boolean; reason: PauseReason; team: Team | null } {
+  const teamPlayers = Object.values(players).filter((p) => p.team === team);
+  const hasClueGiver = teamPlayers.some((p) => p.role === "clueGiver" && p.connected !== false);
+  const hasGuesser = teamPlayers.some((p) => p.role === "guesser" && p.connected !== false);
+  const anyConnected = teamPlayers.some((p) => p.connected !== false);
+
+  if (!anyConnected) return { paused: true, reason: "teamDisconnected", team };
+  if (!hasClue && !hasClueGiver) return { paused: true, reason: "clueGiverDisconnected", team };
+  if (hasClue && !hasGuesser) return { paused: true, reason: "noGuessers", team };
+  return { paused: false, reason: null, team: null };
+}
+
+/**
+ * Duet version of checkPause: the side whose turn it is gives the clue and
+ * the other seat guesses, so both players need to be connected.
+ */
+export function checkDuetPause(
+  players: Record<string, FirebasePlayerData>,
+  side: DuetSide
+): { paused: boolean; reason: PauseReason; team: Team | null } {
+  const seated = Object.values(players).filter((p) => p.team && p.role);
+  const clueGiver = seated.find((p) => p.team === side);
+  const guesser = seated.find((p) => p.team === otherSide(side));
+
+  if (!clueGiver || clueGiver.connected === false) return { paused: true, reason: "clueGiverDisconnected", team: side };
+  if (!guesser || guesser.connected === false) return { paused: true, reason: "noGuessers", team: side };
+  return { paused: false, reason: null, team: null };
+}
+
+function requirePlayer(state: GameEngineState, playerId: string): FirebasePlayerData {
+  const player = state.players[playerId];
+  if (!player) throw new Error("Player not found");
+  return player;
+}
+
+function requireGuessingTurn(state: GameEngineState, playerId: string, verb: string): void {
+  const player = requirePlayer(state, playerId);
+  if (!state.gameStarted || state.gameOver || !state.currentClue || (state.remainingGuesses ?? 0) <= 0) {
+    throw new Error(`Cannot ${verb} now`);
+  }
+  if (roleThisTurn(player, state.currentTeam, state.gameMode) !== "guesser") throw new Error("Not your turn");
+}
+
+// In Duet a card already guessed as neutral on the clue giver's key can't be picked again from that side
+function requireUnrevealedCard(state: GameEngineState, cardIndex: number): FirebaseBoardCard {
+  const card = state.board[cardIndex];
+  if (!Number.isInteger(cardIndex) || !card || card.revealed) throw new Error("Invalid card");
+  if (state.gameMode === "duet" && card.neutralFor === state.currentTeam) throw new Error("Invalid card");
+  return card;
+}
+
+// IDs of the guessers for the current turn - in Duet, the one player on the other side
+function activeGuessers(state: GameEngineState): string[] {
+  return Object.entries(state.players)
+    .filter(([, p]) => roleThisTurn(p, state.currentTeam, state.gameMode) === "guesser")
+    .map(([id]) => id);
+}
+
+// Clue a correct guess counts toward (none for clues from before clue tracking)
+function clueCredit(state: GameEngineState): number | null {
+  const id = state.currentClue?.id;
+  return id === undefined ? null : creditedClueId(state.clues, state.board, id);
+}
+
+// Drop all votes on unrevealed cards
+function clearVotes(board: FirebaseBoardCard[]): FirebaseBoardCard[] {
+  return board.map((c) => (c.revealed ? c : { ...c, votes: {} }));
+}
+
+// Take any time the current team ran over this phase out of its bank
+function spendTimeBank(state: GameEngineState, now: number): GameEngineState {
+  if (!state.rules.timer) return state;
+  const timeBanks = chargeTimeBank(state, now);
+  return timeBanks === state.timeBanks ? state : { ...state, timeBanks };
+}
+
+// Hand the turn to the next team still in the game, pausing if they can't play.
+// In Duet every turn spends one of the pair's shared turns.
+function switchTurn(current: GameEngineState, now: number): GameEngineState {
+  const state = spendTimeBank(current, now);
+  const newTeam = nextTeam(state.currentTeam, state.teams, state.eliminatedTeams);
+  const isDuet = state.gameMode === "duet";
+  const duetTurnsLeft = isDuet ? (state.duetTurnsLeft ?? 1) - 1 : state.duetTurnsLeft;
+  if (isDuet && (duetTurnsLeft ?? 0) <= 0) return endDuet({ ...state, duetTurnsLeft: 0 }, "outOfTurns");
+
+  const next: GameEngineState = {
+    ...state,
+    duetTurnsLeft,
+    board: clearVotes(state.board),
+    currentTeam: newTeam,
+    currentClue: null,
+    remainingGuesses: null,
+    turnStartTime: now,
+    paused: false,
+    pauseReason: null,
+    pausedForTeam: null,
+  };
+  const pause = isDuet
+    ? checkDuetPause(state.players, newTeam as DuetSide)
+    : checkPause(state.players, newTeam, false);
+  return pause.paused && pause.reason
+    ? applyPause(next, { type: "pause", team: newTeam, reason: pause.reason })
+    : next;
+}
+
+// A trap knocks the guessing team out; the last team standing wins
+function eliminateTeam(state: GameEngineState, team: PlayingTeam, now: number): GameEngineState {
+  const eliminatedTeams = [...state.eliminatedTeams, team];
+  const remaining = state.teams.filter((t) => !eliminatedTeams.includes(t));
+  const next = { ...state, eliminatedTeams };
+  return remaining.length === 1 ? endGameWithWinner(next, remaining[0]) : switchTurn(next, now);
+}
+
+function endGameWithWinner(state: GameEngineState, winner: Team): GameEngineState {
+  return {
+    ...state,
+    gameOver: true,
+    winner,
+    currentClue: null,
+    remainingGuesses: null,
+    turnStartTime: null,
+  };
+}
+
+// Duet has no winning team - both players win or lose together
+function endDuet(state: GameEngineState, result: DuetResult): GameEngineState {
+  return {
+    ...state,
+    board: clearVotes(state.board),
+    gameOver: true,
+    winner: null,
+    duetResult: result,
+    currentClue: null,
+    remainingGuesses: null,
+    turnStartTime: null,
+  };
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function applyGiveClue(state: GameEngineState, action: GiveClueAction): GameEngineState {
+  const sanitized = sanitizeClue(action.word);
+  if (!isValidClueFormat(sanitized) || !isValidClueCount(action.count)) {
+    throw new Error("Invalid clue");
+  }
+
+  const player = requirePlayer(state, action.playerId);
+  if (!state.gameStarted || state.gameOver || state.currentClue) throw new Error("Cannot give clue now");
+  if (roleThisTurn(player, state.currentTeam, state.gameMode) !== "clueGiver") throw new Error("Not your turn");
+  if (!isValidClue(sanitized, state.board.map((c) => c.word), state.rules.clueStrictness)) throw new Error("Invalid clue word");
+
+  const word = sanitized.toUpperCase();
+  return {
+    ...spendTimeBank(state, action.now),
+    board: clearVotes(state.board),
+    currentClue: { word, count: action.count, id: state.clues.length },
+    clues: [...state.clues, { team: state.currentTeam, word, count: action.count, givenBy: action.playerId }],
+    // Duet guessers, and 0 or ∞ clues, may keep going until they miss
+    remainingGuesses: state.gameMode === "duet" || isUnlimitedClue(action.count)
+      ? state.board.length
+      : action.count + (state.rules.extraGuess ? 1 : 0),
+    turnStartTime: action.now,
+  };
+}
+
+function applyVote(state: GameEngineState, action: VoteAction): GameEngineState {
+  requireGuessingTurn(state, action.playerId, "vote");
+  const card = requireUnrevealedCard(state, action.cardIndex);
+
+  const votes = { ...card.votes };
+  if (votes[action.playerId]) {
+    delete votes[action.playerId];
+  } else {
+    votes[action.playerId] = true;
+  }
+
+  const board = [...state.board];
+  board[action.cardIndex] = { ...card, votes };
+  return { ...state, board };
+}
+
+function applyReveal(state: GameEngineState, action: RevealAction): GameEngineState {
+  requireGuessingTurn(state, action.playerId, "reveal");
+  const card = requireUnrevealedCard(state, action.cardIndex);
+
+  // Count all guessers on the team (not just connected) so threshold stays
+  // consistent even if someone's connection temporarily drops
+  const threshold = state.gameMode === "duet" ? "auto" : state.rules.voteThreshold;
+  const guessers = activeGuessers(state);
+  const required = getRequiredVotes(guessers.length, threshold);
+  // Only this turn's guessers count, whatever else ended up in the votes
+  const voteCount = guessers.filter((id) => card.votes[id]).length;
+  if (voteCount < required || !card.votes[action.playerId]) throw new Error("Not enough votes");
+
+  if (state.gameMode === "duet") return revealDuetCard(state, action, card);
+
+  const isCorrect = action.cardTeam === state.currentTeam;
+  const board = [...state.board];
+  board[action.cardIndex] = {
+    ...card,
+    team: action.cardTeam,
+    revealed: true,
+    revealedBy: action.playerId,
+    clueId: isCorrect ? clueCredit(state) : null,
+    votes: {},
+  };
+  const revealed: GameEngineState = { ...state, board };
+
+  if (action.cardTeam === "trap") {
+    return state.rules.trapPenalty === "loseTurn"
+      ? switchTurn(revealed, action.now)
+      : eliminateTeam(revealed, state.currentTeam as PlayingTeam, action.now);
+  }
+
+  // Whichever team the card belongs to wins once all of its cards are revealed,
+  // even on the last guess of a turn or when another team revealed it
+  if (isPlayingTeam(action.cardTeam) && !state.eliminatedTeams.includes(action.cardTeam)) {
+    const revealedTeamCards = board.filter((c) => c.revealed && c.team === action.cardTeam).length;
+    if (state.cardCounts[action.cardTeam] - revealedTeamCards <= 0) {
+      return endGameWithWinner(revealed, action.cardTeam);
+    }
+  }
+
+  const newGuesses = (state.remainingGuesses ?? 1) - 1;
+  if (!isCorrect || newGuesses === 0) {
+    return switchTurn(revealed, action.now);
+  }
+
+  return { ...revealed, remainingGuesses: newGuesses };
+}
+
+/**
+ * Duet reveal, checked against the clue giver's key.
+ * An agent is revealed in the clue giver's color and guessing goes on; a
+ * neutral ends the turn but only covers the card for that side, unless the
+ * other side had already found it neutral too; a trap loses the game.
+ */
+function revealDuetCard(state: GameEngineState, action: RevealAction, card: FirebaseBoardCard): GameEngineState {
+  const board = [...state.board];
+  const covered = action.cardTeam === "neutral" && !card.neutralFor;
+  board[action.cardIndex] = covered
+    ? { ...card, neutralFor: state.currentTeam as DuetSide, votes: {} }
+    : {
+      ...card,
+      team: action.cardTeam,
+      revealed: true,
+      revealedBy: action.playerId,
+      neutralFor: null,
+      clueId: action.cardTeam === state.currentTeam ? clueCredit(state) : null,
+      votes: {},
+    };
+  const revealed: GameEngineState = { ...state, board };
+
+  if (action.cardTeam === "trap") return endDuet(revealed, "trap");
+  if (action.cardTeam !== state.currentTeam) return switchTurn(revealed, action.now);
+  if (duetAgentsLeft(board) === 0) return endDuet(revealed, "won");
+  return { ...revealed, remainingGuesses: (state.remainingGuesses ?? 1) - 1 };
+}
+
+/**
+ * Another team's clue giver flags the clue as against the rules.
+ * The window runs from when the clue restarted the timer (or the game resumed);
+ * reveals made before a voiding challenge stand.
+ */
+function applyChallengeClue(state: GameEngineState, action: ChallengeClueAction): GameEngineState {
+  const player = requirePlayer(state, action.playerId);
+  if (state.rules.clueChallenge === "off" || state.gameMode === "duet") throw new Error("Challenges are off in this room");
+
+  const clueId = state.currentClue?.id;
+  if (!state.gameStarted || state.gameOver || state.paused || clueId === undefined || state.turnStartTime === null) {
+    throw new Error("No clue to challenge");
+  }
+  const clue = state.clues[clueId];
+  if (!clue) throw new Error("No clue to challenge");
+  if (clue.challengedBy) throw new Error("Clue already challenged");
+
+  const challengerTeam = player.team;
+  const isOpposingClueGiver = player.role === "clueGiver" && isPlayingTeam(challengerTeam) &&
+    challengerTeam !== state.currentTeam && state.teams.includes(challengerTeam) &&
+    !state.eliminatedTeams.includes(challengerTeam);
+  if (!isOpposingClueGiver) throw new Error("Only another team's clue giver can challenge");
+  if (action.now > state.turnStartTime + CLUE_CHALLENGE_WINDOW_MS + TURN_TIMEOUT_SKEW_MS) {
+    throw new Error("Too late to challenge");
+  }
+
+  const voided = state.rules.clueChallenge === "voidTurn";
+  const clues = [...state.clues];
+  clues[clueId] = { ...clue, challengedBy: action.playerId, ...(voided ? { voided } : {}) };
+  const challenged: GameEngineState = { ...state, clues };
+  return voided ? switchTurn(challenged, action.now) : challenged;
+}
+
+function applyEndTurn(state: GameEngineState, action: EndTurnAction): GameEngineState {
+  const player = requirePlayer(state, action.playerId);
+  if (!state.gameStarted || state.gameOver) throw new Error("Game not active");
+
+  // Guessers on the active team may pass; anyone in the room may end a turn
+  // whose clock has run out, bank included (the timeout fires from whichever
+  // client is open), unless the room plays without a timer.
+  // A Duet clue giver with nothing left to clue may pass before giving one.
+  const role = roleThisTurn(player, state.currentTeam, state.gameMode);
+  const canPass = role === "guesser" || (state.gameMode === "duet" && role === "clueGiver" && !state.currentClue);
+  if (!canPass && !clockRanOut(state, action.now + TURN_TIMEOUT_SKEW_MS)) throw new Error("Not your turn");
+
+  return switchTurn(state, action.now);
+}
+
+function applyTimeout(state: GameEngineState, action: TimeoutAction): GameEngineState {
+  if (!state.gameStarted || state.gameOver) throw new Error("Game not active");
+  // The server's own clock, so no allowance for skew
+  if (!clockRanOut(state, action.now)) throw new Error("Turn has not timed out");
+  return switchTurn(state, action.now);
+}
+
+// Whether the turn's clock, bank included, has run out by `now`
+function clockRanOut(state: GameEngineState, now: number): boolean {
+  const deadline = turnDeadline(state);
+  return state.rules.timer && !state.paused && deadline !== null && now >= deadline;
+}
+
+function applyPause(state: GameEngineState, action: PauseAction): GameEngineState {
+  if (!state.gameStarted || state.gameOver) throw new Error("Game not active");
+  return {
+    ...state,
+    paused: true,
+    pauseReason: action.reason,
+    pausedForTeam: action.team,
+    turnStartTime: null,
+  };
+}
+
+function applyResume(state: GameEngineState, action: ResumeAction): GameEngineState {
+  if (state.ownerId !== action.playerId) throw new Error("Not room owner");
+  if (!state.paused || !state.gameStarted || state.gameOver) throw new Error("Invalid game state");
+
+  if (state.gameMode === "duet") {
+    if (checkDuetPause(state.players, state.currentTeam as DuetSide).paused) throw new Error("Both players need to be connected");
+  } else {
+    const teamPlayers = Object.values(state.players).filter((p) => p.team === state.currentTeam);
+    const hasClueGiver = teamPlayers.some((p) => p.role === "clueGiver" && p.connected);
+    const hasGuesser = teamPlayers.some((p) => p.role === "guesser" && p.connected);
+    if (!hasClueGiver || !hasGuesser) throw new Error("Team needs clue giver and guesser");
+  }
+
+  return {
+    ...state,
+    paused: false,
+    pauseReason: null,
+    pausedForTeam: null,
+    turnStartTime: action.now,
+  };
+}
+
+/**
+ * Apply an action to the game state, returning the new state.
+ * Never mutates the input; throws if the action isn't allowed.
+ */
+export function applyAction(state: GameEngineState, action: GameAction): GameEngineState {
+  switch (action.type) {
+    case "giveClue":
+      return applyGiveClue(state, action);
+    case "vote":
+      return applyVote(state, action);
+    case "reveal":
+      return applyReveal(state, action);
+    case "challengeClue":
+      return applyChallengeClue(state, action);
+    case "endTurn":
+      return applyEndTurn(state, action);
+    case "timeout":
+      return applyTimeout(state, action);
+    case "pause":
+      return applyPause(state, action);
+    case "resume":
+      return applyResume(state, action);
+  }
+}
@@ -2,7 +2,10 @@
  * Shared game utilities used by both client and server.
  */
 
-import type { Player } from "./types";
+import type { Card, GameMode, Player, PlayingTeam, Team, VoteThreshold } from "./types";
+import type { Random } from "./random";
+import { DEFAULT_TEAM_COUNT, DUET_PLAYERS, UNLIMITED_CLUE } from "./constants";
+import { minPlayersToStart, teamsFor } from "./teams";
 
 // ============================================================================
 // Shuffle Utilities
@@ -11,11 +14,12 @@ import type { Player } from "./types";
 /**
  * Fisher-Yates shuffle algorithm - produces unbiased random permutation.
  * Creates a new array, does not mutate the original.
+ * Pass a seeded generator (see random.ts) for a reproducible order.
  */
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], random: Random = Math.random): T[] {
   const result = [...array];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
@@ -30,58 +34,77 @@ export function shufflePlayers(players: Player[]): Player[] {
   return shuffle(players);
 }
 
-/** Check if teams are properly configured to start game */
-export function teamsAreReady(players: Player[]): boolean {
+/**
+ * Check if teams are properly configured to start game.
+ * Duet needs exactly two players, one seated on each side.
+ */
+export function teamsAreReady(
+  players: Player[],
+  mode: GameMode = "classic",
+  teams: PlayingTeam[] = teamsFor(DEFAULT_TEAM_COUNT)
+): boolean {
   // Only count connected players assigned to teams
   // connected !== false treats undefined as connected (backwards compatible)
   const assignedPlayers = players.filter((p) => p.team && p.role && p.connected !== false);
-  if (assignedPlayers.length < 4) return false;
-
-  const redTeam = assignedPlayers.filter((player) => player.team === "red");
-  const blueTeam = assignedPlayers.filter((player) => player.team === "blue");
+  if (mode === "duet") {
+    return assignedPlayers.length === DUET_PLAYERS &&
+      assignedPlayers.some((p) => p.team === "red") &&
+      assignedPlayers.some((p) => p.team === "blue");
+  }
+  if (assignedPlayers.length < minPlayersToStart(teams.length)) return false;
 
   // Each team needs exactly 1 clue giver (game mechanic requirement)
-  const redClueGivers = redTeam.filter((player) => player.role === "clueGiver").length;
-  const blueClueGivers = blueTeam.filter((player) => player.role === "clueGiver").length;
-
-  return redClueGivers === 1 && blueClueGivers === 1;
+  return teams.every((team) =>
+    assignedPlayers.filter((player) => player.team === team && player.role === "clueGiver").length === 1
+  );
 }
 
-/** Calculate required votes to reveal a card */
-export function getRequiredVotes(guesserCount: number): number {
-  return guesserCount >= 4 ? 2 : 1;
+/**
+ * Calculate required votes to reveal a card.
+ * "auto" asks for 2 once there are 4+ guessers; a fixed threshold never
+ * asks for more votes than the team has guessers.
+ */
+export function getRequiredVotes(guesserCount: number, threshold: VoteThreshold = "auto"): number {
+  if (threshold === "auto") return guesserCount >= 4 ? 2 : 1;
+  return Math.min(threshold, Math.max(1, guesserCount));
 }
 
 // ============================================================================
-// Clue Validation
+// Clue Counts
 // ============================================================================
 
-/**
- * Validate a clue word against the board.
- * Returns true if valid, false if invalid.
- */
-export function isValidClue(word: string, boardWords: string[]): boolean {
-  const normalized = word.toUpperCase();
-  const boardWordsSet = new Set(boardWords.map((w) => w.toUpperCase()));
+/** A clue count is a whole number from 0, or UNLIMITED_CLUE for "∞" */
+export function isValidClueCount(count: number): boolean {
+  return Number.isInteger(count) && (count >= 0 || count === UNLIMITED_CLUE);
+}
 
-  // Exact match check
-  if (boardWordsSet.has(normalized)) return false;
+/** 0 and ∞ clues let the team keep guessing until a miss or they end the turn */
+export function isUnlimitedClue(count: number): boolean {
+  return count === 0 || count === UNLIMITED_CLUE;
+}
 
-  // Check if clue is a prefix/suffix of any board word or vice versa.
-  // This blocks meaningful derivations like "farm"/"farmer", but allows
-  // coincidental substrings like "war" in "dwarf".
-  // Note: This also handles plural variants (dog/dogs, bench/benches) since
-  // adding/removing S or ES creates a prefix/suffix relationship.
-  for (const boardWord of boardWordsSet) {
-    // Clue is prefix or suffix of board word
-    if (boardWord.startsWith(normalized) || boardWord.endsWith(normalized)) {
-      return false;
-    }
-    // Board word is prefix or suffix of clue
-    if (normalized.startsWith(boardWord) || normalized.endsWith(boardWord)) {
-      return false;
-    }
-  }
+/** Clue count as players see it */
+export function formatClueCount(count: number): string {
+  return count === UNLIMITED_CLUE ? "∞" : String(count);
+}
+
+// ============================================================================
+// Card Counts
+// ============================================================================
+
+/** Count how many cards belong to each team in a key */
+export function countCardsByTeam(teams: Team[]): Record<Team, number> {
+  const counts: Record<Team, number> = { red: 0, blue: 0, green: 0, neutral: 0, trap: 0 };
+  teams.forEach((team) => { counts[team]++; });
+  return counts;
+}
 
-  return true;
+/**
+ * Count a team's unrevealed cards.
+ * Works without the key: revealed cards carry their team, so the remainder
+ * is the public total minus what has been revealed.
+ */
+export function getRemainingCards(board: Card[], cardCounts: Record<Team, number>, team: Team): number {
+  const revealed = board.filter((card) => card.revealed && card.team === team).length;
+  return Math.max(0, (cardCounts[team] ?? 0) - revealed);
 }
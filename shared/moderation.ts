@@ -0,0 +1,39 @@
+/**
+ * Owner moderation: kick, ban and mute.
+ * All three are kept in the room so the rules can enforce them:
+ * kicks/{uid} (when they were kicked), bans/{uid} and muted/{uid}.
+ */
+
+import { KICK_REJOIN_COOLDOWN_MS } from "./constants";
+import type { FirebaseRoomData } from "./types";
+
+/** Errors for a player the owner has turned away; joinRoom and sendMessage throw these */
+export const MODERATION_ERRORS = {
+  kicked: "You were removed from this room. Try again in a minute.",
+  banned: "You are banned from this room",
+  muted: "The room owner has muted you",
+} as const;
+
+type ModerationData = Pick<FirebaseRoomData, "kicks" | "bans" | "muted">;
+
+/** Why playerId can't (re)join right now, or null if they can */
+export function joinBlock(room: ModerationData, playerId: string, now: number): "banned" | "kicked" | null {
+  if (room.bans?.[playerId]) return "banned";
+  const kickedAt = room.kicks?.[playerId];
+  if (kickedAt !== undefined && now - kickedAt < KICK_REJOIN_COOLDOWN_MS) return "kicked";
+  return null;
+}
+
+export function isMuted(room: ModerationData, playerId: string): boolean {
+  return room.muted?.[playerId] === true;
+}
+
+/** System message for a moderation action */
+export function moderationMessage(action: "kick" | "ban" | "mute" | "unmute", name: string): string {
+  switch (action) {
+    case "kick": return `${name} was removed from the room.`;
+    case "ban": return `${name} was banned from the room.`;
+    case "mute": return `${name} was muted.`;
+    case "unmute": return `${name} can chat again.`;
+  }
+}
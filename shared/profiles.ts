@@ -0,0 +1,84 @@
+/**
+ * Lifetime player stats.
+ * When a game ends the functions turn it into one result per seated player
+ * (gameResults) and add each to that player's profiles/{uid} record.
+ */
+
+import { clueGiverStats } from "./clues";
+import type { FirebaseProfileData, GameEngineState, GameEventType, Role, Team } from "./types";
+
+/** One player's part in a finished game */
+export interface GameResult {
+  role: Role;
+  won: boolean;
+  correctGuesses: number;
+  wrongGuesses: number;
+  trapHits: number;
+  cluesGiven: number;
+  clueCardsGained: number;
+}
+
+type ResultEvent = { type: GameEventType; team: Team; playerId?: string | null; cardIndex?: number; cardTeam?: Team; clueId?: number };
+
+export function emptyProfile(): FirebaseProfileData {
+  return {
+    gamesPlayed: 0,
+    wins: 0,
+    roleGames: { clueGiver: 0, guesser: 0 },
+    roleWins: { clueGiver: 0, guesser: 0 },
+    correctGuesses: 0,
+    wrongGuesses: 0,
+    trapHits: 0,
+    cluesGiven: 0,
+    clueCardsGained: 0,
+  };
+}
+
+/**
+ * Results for every player seated at the end of a finished game.
+ * Guesses come from the event log: a reveal is correct when the card
+ * belongs to the team whose turn it was.
+ */
+export function gameResults(state: GameEngineState, events: ResultEvent[]): Record<string, GameResult> {
+  const givers = new Map(clueGiverStats(state.clues, events).map((s) => [s.playerId, s]));
+  const results: Record<string, GameResult> = {};
+
+  Object.entries(state.players).forEach(([uid, player]) => {
+    if (!player.team || !player.role) return;
+    const reveals = events.filter((e) => e.type === "reveal" && e.playerId === uid && e.cardTeam);
+    const giver = givers.get(uid);
+    results[uid] = {
+      role: player.role,
+      won: state.gameMode === "duet" ? state.duetResult === "won" : state.winner === player.team,
+      correctGuesses: reveals.filter((e) => e.cardTeam === e.team).length,
+      wrongGuesses: reveals.filter((e) => e.cardTeam !== e.team && e.cardTeam !== "trap").length,
+      trapHits: reveals.filter((e) => e.cardTeam === "trap").length,
+      cluesGiven: giver?.clues ?? 0,
+      clueCardsGained: giver?.cardsGained ?? 0,
+    };
+  });
+  return results;
+}
+
+/** A profile with one more game added; missing fields count from zero */
+export function addGameResult(profile: Partial<FirebaseProfileData> | null, result: GameResult): FirebaseProfileData {
+  const base = { ...emptyProfile(), ...profile };
+  const win = result.won ? 1 : 0;
+  return {
+    ...base,
+    gamesPlayed: base.gamesPlayed + 1,
+    wins: base.wins + win,
+    roleGames: { ...base.roleGames, [result.role]: (base.roleGames[result.role] ?? 0) + 1 },
+    roleWins: { ...base.roleWins, [result.role]: (base.roleWins[result.role] ?? 0) + win },
+    correctGuesses: base.correctGuesses + result.correctGuesses,
+    wrongGuesses: base.wrongGuesses + result.wrongGuesses,
+    trapHits: base.trapHits + result.trapHits,
+    cluesGiven: base.cluesGiven + result.cluesGiven,
+    clueCardsGained: base.clueCardsGained + result.clueCardsGained,
+  };
+}
+
+/** Own cards found per clue given, or null before the first clue */
+export function clueEfficiency(profile: FirebaseProfileData): number | null {
+  return profile.cluesGiven > 0 ? profile.clueCardsGained / profile.cluesGiven : null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Seedable pseudo-random numbers for reproducible boards.
+ * A seed is a short shareable code; the same seed (and word pack) always
+ * deals the same board, key and starting team.
+ */
+
+import { MAX_SEED_LENGTH } from "./constants";
+
+/** Returns a float in [0, 1), like Math.random */
+export type Random = () => number;
+
+// Unambiguous characters only (no 0/O or 1/I), so seeds survive being read aloud
+const SEED_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const SEED_LENGTH = 8;
+
+/** Generate a new random seed code */
+export function generateSeed(random: Random = Math.random): string {
+  let seed = "";
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+}
+
+/** Normalize user input to seed format (trimmed, uppercase) */
+export function normalizeSeed(input: string): string {
+  return input.trim().toUpperCase();
+}
+
+/** Check a normalized seed: letters and digits only, within length limit */
+export function isValidSeed(seed: string): boolean {
+  return seed.length > 0 && seed.length <= MAX_SEED_LENGTH && /^[A-Z0-9]+$/.test(seed);
+}
+
+// FNV-1a string hash, to turn a seed code into 32 bits of PRNG state
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic generator from a seed (mulberry32).
+ * Not cryptographically secure - fine for dealing cards, not for secrets.
+ */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
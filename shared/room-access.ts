@@ -0,0 +1,30 @@
+/**
+ * Private rooms: an optional password and an owner's lock.
+ * Only a hash of the password is stored, under roomPasswords/{roomCode}
+ * where no client can read it. A joining player writes the hash of their
+ * guess to roomJoins/{roomCode}/{uid}; the rules accept it only when it
+ * matches, and only then let them add themselves to the room.
+ */
+
+/** Errors joinRoom throws when it can't let a player in; the join form keys off these */
+export const ROOM_ACCESS_ERRORS = {
+  passwordRequired: "Password required",
+  wrongPassword: "Wrong password",
+  locked: "Room is locked",
+} as const;
+
+export type RoomAccessError = typeof ROOM_ACCESS_ERRORS[keyof typeof ROOM_ACCESS_ERRORS];
+
+export function isRoomAccessError(message: string | null | undefined): message is RoomAccessError {
+  return Object.values(ROOM_ACCESS_ERRORS).some((error) => error === message);
+}
+
+/**
+ * SHA-256 of the room code and password, as lowercase hex.
+ * The room code salts it, so the same password hashes differently per room.
+ */
+export async function hashRoomPassword(roomCode: string, password: string): Promise<string> {
+  const data = new TextEncoder().encode(`${roomCode}:${password}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
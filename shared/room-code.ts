@@ -0,0 +1,27 @@
+/**
+ * Room codes: short, easy to read aloud and type on a phone.
+ * Uniqueness is up to whoever creates the room (see createRoom), not the generator.
+ */
+
+import type { Random } from "./random";
+
+// No 0/O, 1/I/L, so a code read off a screen or shouted across a room can't be misread
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const ROOM_CODE_LENGTH = 6;
+
+/** Generate a new random room code */
+export function generateRoomCode(random: Random = Math.random): string {
+  let code = "";
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalize a typed room code: uppercase, without spaces or dashes.
+ * Ambiguous characters are kept, since rooms created before this alphabet may use them.
+ */
+export function normalizeRoomCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]+/g, "");
+}
@@ -0,0 +1,18 @@
+/**
+ * Room lock.
+ * The game functions hold `roomLocks/{roomCode}` while they load, reduce and
+ * write a move, so two moves on one room apply one after the other.
+ */
+
+export interface RoomLock {
+  token: string; // Which call holds it, so only that call releases it
+  at: number; // When it was taken
+}
+
+// A lock older than this was left by a crashed call and may be taken over
+export const ROOM_LOCK_TTL_MS = 10_000;
+
+/** Whether the lock can be taken at `now`: nobody holds it, or the holder's time is up */
+export function canTakeRoomLock(lock: RoomLock | null, now: number): boolean {
+  return !lock || now - lock.at >= ROOM_LOCK_TTL_MS;
+}
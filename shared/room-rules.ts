@@ -0,0 +1,61 @@
+/**
+ * House rules: the owner's per-room tweaks to classic play.
+ * Stored under rooms/{roomCode}/rules; fields a room doesn't have yet
+ * (older rooms, or rules added later) take the defaults, which are the
+ * standard game.
+ */
+
+import {
+  CLUE_CHALLENGE_RULES,
+  CLUE_STRICTNESS_LEVELS,
+  DEFAULT_CLUE_STRICTNESS,
+  TRAP_PENALTIES,
+  VOTE_THRESHOLDS,
+} from "./constants";
+import type { RoomRules } from "./types";
+import type { ValidationResult } from "./validation";
+
+export const DEFAULT_ROOM_RULES: RoomRules = {
+  voteThreshold: "auto",
+  extraGuess: true,
+  trapPenalty: "loseGame",
+  timer: true,
+  clueGiverChat: true,
+  clueStrictness: DEFAULT_CLUE_STRICTNESS,
+  clueChallenge: "record",
+};
+
+/** A room's rules, with defaults filled in for anything it doesn't set */
+export function roomRulesOf(room: { rules?: Partial<RoomRules> }): RoomRules {
+  return { ...DEFAULT_ROOM_RULES, ...room.rules };
+}
+
+/** Check every field is one of its allowed values */
+export function validateRoomRules(rules: RoomRules): ValidationResult {
+  if (!(VOTE_THRESHOLDS as readonly unknown[]).includes(rules.voteThreshold)) {
+    return { valid: false, error: "Invalid vote threshold" };
+  }
+  if (!(TRAP_PENALTIES as readonly unknown[]).includes(rules.trapPenalty)) {
+    return { valid: false, error: "Invalid trap penalty" };
+  }
+  if (!(CLUE_STRICTNESS_LEVELS as readonly unknown[]).includes(rules.clueStrictness)) {
+    return { valid: false, error: "Invalid clue strictness" };
+  }
+  if (!(CLUE_CHALLENGE_RULES as readonly unknown[]).includes(rules.clueChallenge)) {
+    return { valid: false, error: "Invalid challenge rule" };
+  }
+  const flags = [rules.extraGuess, rules.timer, rules.clueGiverChat];
+  if (flags.some((flag) => typeof flag !== "boolean")) {
+    return { valid: false, error: "Invalid room rules" };
+  }
+  return { valid: true };
+}
+
+/** Whether a clue giver may post in chat right now (always, outside a running classic game) */
+export function canClueGiverChat(
+  rules: RoomRules,
+  game: { gameMode?: string; gameStarted?: boolean; gameOver?: boolean }
+): boolean {
+  if (rules.clueGiverChat || game.gameMode === "duet") return true;
+  return !game.gameStarted || !!game.gameOver;
+}
@@ -0,0 +1,85 @@
+/**
+ * A room's series: every game finished since the owner last reset it.
+ * The functions append a game when it ends; rematches keep the series going.
+ */
+
+import { gameResults } from "./profiles";
+import { isPlayingTeam } from "./teams";
+import type { FirebaseSeriesGame, GameEngineState, GameEventType, PlayingTeam, SeriesEndReason, SeriesGame, Team } from "./types";
+
+type SeriesEvent = { type: GameEventType; team: Team; playerId?: string | null; cardIndex?: number; cardTeam?: Team; clueId?: number };
+
+/** How a finished game ended; in classic a trap decides it when the last reveal was one */
+export function seriesEndReason(state: GameEngineState, events: SeriesEvent[]): SeriesEndReason {
+  if (state.gameMode === "duet") return state.duetResult ?? "outOfTurns";
+  const lastReveal = events.filter((e) => e.type === "reveal").pop();
+  return lastReveal?.cardTeam === "trap" ? "trap" : "allCards";
+}
+
+/** The series entry for a finished game, with what each seated player contributed */
+export function seriesGame(state: GameEngineState, events: SeriesEvent[], endedAt: number): FirebaseSeriesGame {
+  const players: FirebaseSeriesGame["players"] = {};
+  Object.entries(gameResults(state, events)).forEach(([uid, result]) => {
+    const player = state.players[uid];
+    players[uid] = {
+      name: player.name,
+      team: player.team as PlayingTeam,
+      role: result.role,
+      correctGuesses: result.correctGuesses,
+      clueCardsGained: result.clueCardsGained,
+    };
+  });
+  return {
+    winner: state.gameMode === "duet" || !isPlayingTeam(state.winner) ? null : state.winner,
+    reason: seriesEndReason(state, events),
+    gameMode: state.gameMode,
+    endedAt,
+    players,
+  };
+}
+
+/** Games won per team */
+export function seriesScore(games: SeriesGame[], teams: PlayingTeam[]): Record<PlayingTeam, number> {
+  const score = { red: 0, blue: 0, green: 0 };
+  games.forEach((game) => {
+    if (game.winner) score[game.winner]++;
+  });
+  return teams.reduce((shown, team) => ({ ...shown, [team]: score[team] }), {} as Record<PlayingTeam, number>);
+}
+
+export interface SeriesContribution {
+  playerId: string;
+  name: string; // As of their latest game
+  games: number;
+  wins: number;
+  correctGuesses: number;
+  clueCardsGained: number;
+}
+
+/** Per-player totals across the series, most cards (guessed or clued) first */
+export function seriesContributions(games: SeriesGame[]): SeriesContribution[] {
+  const byPlayer = new Map<string, SeriesContribution>();
+  games.forEach((game) => {
+    Object.entries(game.players ?? {}).forEach(([playerId, result]) => {
+      const total = byPlayer.get(playerId) ?? { playerId, name: result.name, games: 0, wins: 0, correctGuesses: 0, clueCardsGained: 0 };
+      total.name = result.name;
+      total.games++;
+      if (game.winner === result.team || (game.gameMode === "duet" && game.reason === "won")) total.wins++;
+      total.correctGuesses += result.correctGuesses;
+      total.clueCardsGained += result.clueCardsGained;
+      byPlayer.set(playerId, total);
+    });
+  });
+  return [...byPlayer.values()].sort(
+    (a, b) => b.correctGuesses + b.clueCardsGained - (a.correctGuesses + a.clueCardsGained)
+  );
+}
+
+export function formatSeriesReason(reason: SeriesEndReason): string {
+  switch (reason) {
+    case "allCards": return "all cards found";
+    case "trap": return "trap";
+    case "won": return "all agents found";
+    case "outOfTurns": return "out of turns";
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Team list and turn rotation.
+ * A classic game plays the first `teamCount` entries of TEAMS; turns go
+ * round in that order from the starting team, skipping teams a trap has
+ * knocked out.
+ */
+
+import { DEFAULT_TEAM_COUNT, MIN_PLAYERS_PER_TEAM, TEAMS, TEAM_COUNTS } from "./constants";
+import type { GameMode, PlayingTeam, Team, TeamCount } from "./types";
+
+/** Teams in a game of the given size, in turn order */
+export function teamsFor(count: TeamCount): PlayingTeam[] {
+  return TEAMS.slice(0, count);
+}
+
+/** A room's team count, defaulting to 2 for rooms without one */
+export function teamCountOf(room: { teamCount?: number | null }): TeamCount {
+  return TEAM_COUNTS.find((count) => count === room.teamCount) ?? DEFAULT_TEAM_COUNT;
+}
+
+/** Teams in a room's game; Duet always seats red and blue */
+export function teamsInPlay(room: { gameMode?: GameMode | null; teamCount?: number | null }): PlayingTeam[] {
+  return teamsFor(room.gameMode === "duet" ? 2 : teamCountOf(room));
+}
+
+export function isPlayingTeam(team: Team | null | undefined): team is PlayingTeam {
+  return TEAMS.some((t) => t === team);
+}
+
+/** The team that plays after `team`, skipping eliminated teams */
+export function nextTeam(team: Team, teams: PlayingTeam[], eliminated: PlayingTeam[] = []): PlayingTeam {
+  const start = teams.indexOf(team as PlayingTeam);
+  for (let step = 1; step <= teams.length; step++) {
+    const candidate = teams[(start + step) % teams.length];
+    if (!eliminated.includes(candidate)) return candidate;
+  }
+  return teams[(start + 1) % teams.length];
+}
+
+/** Teams in the order they play, beginning with the starting team */
+export function playOrder(startingTeam: PlayingTeam, teams: PlayingTeam[]): PlayingTeam[] {
+  const start = Math.max(0, teams.indexOf(startingTeam));
+  return [...teams.slice(start), ...teams.slice(0, start)];
+}
+
+/** Players needed on teams before a game of this size can start */
+export function minPlayersToStart(count: number): number {
+  return count * MIN_PLAYERS_PER_TEAM;
+}
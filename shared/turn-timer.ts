@@ -0,0 +1,103 @@
+/**
+ * Turn clocks.
+ * A turn has two phases with their own lengths: the clue giver's
+ * (`clueDuration`, until the clue is given) and the guessers'
+ * (`turnDuration`, restarted by the clue). With a time bank each team also
+ * has a chess-clock reserve that runs once a phase is over and carries
+ * across turns; the turn only times out when both are spent.
+ */
+
+import type { PlayingTeam, RoomRules, Team, TimeBanks } from "./types";
+
+export type TurnPhase = "clue" | "guess";
+
+/** The clock fields shared by the engine state and the client's GameState */
+export interface TurnClock {
+  currentTeam: Team;
+  currentClue: { word: string; count: number } | null;
+  turnStartTime: number | null;
+  turnDuration: number;
+  clueDuration: number;
+  timeBanks: TimeBanks;
+}
+
+export interface ClockReading {
+  phase: TurnPhase;
+  elapsed: number; // Whole seconds since the phase started
+  phaseLeft: number; // Seconds left on the phase clock
+  bankLeft: number | null; // Seconds left in the team's bank, null without one
+  expired: boolean; // Phase and bank both spent - the turn may be ended
+}
+
+/** Clue phase until the clue is given, then the guess phase */
+export function turnPhase(clock: Pick<TurnClock, "currentClue">): TurnPhase {
+  return clock.currentClue ? "guess" : "clue";
+}
+
+/** Length of the current phase in seconds */
+export function phaseDuration(clock: TurnClock): number {
+  return turnPhase(clock) === "clue" ? clock.clueDuration : clock.turnDuration;
+}
+
+// Milliseconds left in the current team's bank, before this phase's overtime
+function bankMs(clock: TurnClock): number | null {
+  return clock.timeBanks[clock.currentTeam as PlayingTeam] ?? null;
+}
+
+/** When the turn times out: the end of the phase plus whatever the team has banked */
+export function turnDeadline(clock: TurnClock): number | null {
+  if (clock.turnStartTime === null) return null;
+  return clock.turnStartTime + phaseDuration(clock) * 1000 + (bankMs(clock) ?? 0);
+}
+
+/** The banks after the current team pays for the time it ran over this phase */
+export function chargeTimeBank(clock: TurnClock, now: number): TimeBanks {
+  const bank = bankMs(clock);
+  if (bank === null || clock.turnStartTime === null) return clock.timeBanks;
+  const overtime = Math.max(0, now - clock.turnStartTime - phaseDuration(clock) * 1000);
+  if (overtime === 0) return clock.timeBanks;
+  return { ...clock.timeBanks, [clock.currentTeam]: Math.max(0, bank - overtime) };
+}
+
+/** Read the clocks at `now` (null while no phase is running) */
+export function readClock(clock: TurnClock, now: number): ClockReading | null {
+  if (clock.turnStartTime === null) return null;
+  const elapsedMs = Math.max(0, now - clock.turnStartTime);
+  const phaseMs = phaseDuration(clock) * 1000;
+  const bank = bankMs(clock);
+  const overtime = Math.max(0, elapsedMs - phaseMs);
+  const bankLeftMs = bank === null ? null : Math.max(0, bank - overtime);
+  return {
+    phase: turnPhase(clock),
+    elapsed: Math.floor(elapsedMs / 1000),
+    phaseLeft: Math.ceil(Math.max(0, phaseMs - elapsedMs) / 1000),
+    bankLeft: bankLeftMs === null ? null : Math.ceil(bankLeftMs / 1000),
+    expired: elapsedMs >= phaseMs && !bankLeftMs,
+  };
+}
+
+/** Full banks for a new game, or none when the room plays without them */
+export function fullTimeBanks(teams: PlayingTeam[], seconds: number): TimeBanks | null {
+  if (seconds <= 0) return null;
+  return Object.fromEntries(teams.map((team) => [team, seconds * 1000]));
+}
+
+/** Whether a move meant for the turn that started at `turnStartTime` still applies (undefined: whichever turn is on) */
+export function isSameTurn(clock: Pick<TurnClock, "turnStartTime">, turnStartTime?: number | null): boolean {
+  return turnStartTime === undefined || clock.turnStartTime === turnStartTime;
+}
+
+/** The room fields, besides the clocks, that decide whether a turn can time out */
+export interface TimedTurn extends TurnClock {
+  gameStarted: boolean;
+  gameOver: boolean;
+  paused: boolean;
+  rules: Pick<RoomRules, "timer">;
+}
+
+/** Whether a running, timed and unpaused turn is past its deadline at `now` */
+export function turnExpired(turn: TimedTurn, now: number): boolean {
+  if (!turn.gameStarted || turn.gameOver || turn.paused || !turn.rules.timer) return false;
+  const deadline = turnDeadline(turn);
+  return deadline !== null && now >= deadline;
+}
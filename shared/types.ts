@@ -1,18 +1,99 @@
-export type Team = "red" | "blue" | "neutral" | "trap";
+/** A team that plays: has a clue giver, guessers and cards of its own */
+export type PlayingTeam = "red" | "blue" | "green";
 
-export type WordPack = "classic" | "kahoot";
+export type Team = PlayingTeam | "neutral" | "trap";
+
+/** How many teams a classic game has; they play the first teamCount of TEAMS */
+export type TeamCount = 2 | 3;
+
+export type WordPack = "classic" | "kahoot" | "custom";
+
+/** Classic red vs blue, or Duet: two players working together against a shared turn limit */
+export type GameMode = "classic" | "duet";
+
+/** How a Duet game ended: every agent found, a trap revealed, or the turns ran out */
+export type DuetResult = "won" | "trap" | "outOfTurns";
+
+/** How a game in a room's series ended: a team found all its cards, a trap decided it, or a Duet result */
+export type SeriesEndReason = "allCards" | "trap" | DuetResult;
+
+/** A Duet seat. Each side has its own key; the side whose turn it is gives the clue */
+export type DuetSide = "red" | "blue";
+
+export type BoardSize = 4 | 5 | 6;
+
+/** Grid size and how many non-team cards it holds; team cards fill the rest */
+export interface BoardLayout {
+  size: BoardSize; // Cards per row and column
+  neutral: number;
+  trap: number; // 0 or more - any trap revealed loses the game
+}
+
+/** Selected packs mapped to their mixing weight (1 = normal share) */
+export type WordPackSelection = Partial<Record<WordPack, number>>;
 
 export type Role = "clueGiver" | "guesser";
-export type LobbyTeam = "red" | "blue" | null;
+export type LobbyTeam = PlayingTeam | null;
 export type LobbyRole = "clueGiver" | "guesser" | null;
 
 export interface Card {
   word: string;
-  team: Team;
+  team?: Team; // Undefined while hidden from this player (guessers before reveal)
   revealed: boolean;
   revealedBy?: string; // Player ID who revealed this card
+  neutralFor?: DuetSide; // Duet: guessed as neutral on this side's key, still in play for the other side
+  clueId?: number; // Clue this correct guess counts toward (index into clues)
+}
+
+/** The clue being played; id indexes the game's clues */
+export interface CurrentClue {
+  word: string;
+  count: number; // UNLIMITED_CLUE for "∞"
+  id?: number; // Missing on clues from before clue tracking
 }
 
+/** A clue given this game, in order; its index is the clue id */
+export interface ClueRecord {
+  team: Team;
+  word: string;
+  count: number;
+  givenBy: string; // Clue giver's player ID
+  challengedBy?: string; // Opposing clue giver who challenged it
+  voided?: boolean; // The challenge ended the turn
+}
+
+/** How closely a clue may resemble a board word (see shared/clue-validation.ts) */
+export type ClueStrictness = "lenient" | "standard" | "strict";
+
+/** What a challenged clue does: nothing (challenges off), a note in the log, or the end of the turn */
+export type ClueChallengeRule = "off" | "record" | "voidTurn";
+
+/** Milliseconds left in each team's time bank; teams without a bank are missing */
+export type TimeBanks = Partial<Record<PlayingTeam, number>>;
+
+/** Votes a card needs: "auto" is 1, or 2 once a team has 4+ guessers; a number is capped at the guesser count */
+export type VoteThreshold = "auto" | 1 | 2 | 3;
+
+/** What revealing a trap costs in a classic game: the game (knocked out with three teams), or just the turn */
+export type TrapPenalty = "loseGame" | "loseTurn";
+
+/**
+ * House rules the owner sets in the lobby, stored under rooms/{roomCode}/rules.
+ * Classic games only - Duet keeps its own rules, apart from the timer.
+ */
+export interface RoomRules {
+  voteThreshold: VoteThreshold;
+  extraGuess: boolean; // A clue for N allows N + 1 guesses
+  trapPenalty: TrapPenalty;
+  timer: boolean; // false: turns never time out
+  clueGiverChat: boolean; // false: clue givers can't chat while a game runs
+  clueStrictness: ClueStrictness;
+  clueChallenge: ClueChallengeRule;
+}
+
+/** How much of a clue its team has found */
+export type ClueStatus = "solved" | "partial" | "unsolved";
+
 export interface Player {
   id: string;
   name: string;
@@ -21,6 +102,7 @@ export interface Player {
   role: Role | null;
   connected?: boolean;
   lastSeen?: number | null;
+  spectating?: boolean; // Watching through a ?spectate=1 link; never on a team
 }
 
 export type PauseReason = "teamDisconnected" | "clueGiverDisconnected" | "noGuessers" | null;
@@ -29,21 +111,86 @@ export interface GameState {
   roomCode: string;
   players: Player[];
   board: Card[];
+  cardCounts: Record<Team, number>; // Public totals per team, so guessers can track progress without the key
   ownerId: string | null;
   cardVotes: Record<number, string[]>;
   currentTeam: Team;
   startingTeam: Team;
-  wordPack: WordPack; // Selected word pack for this game
-  currentClue: { word: string; count: number } | null;
+  gameMode: GameMode;
+  duetTurnsLeft: number | null; // Duet: turns the pair has left, including the current one
+  duetResult: DuetResult | null; // Duet: set once the game is over
+  teamCount: TeamCount; // Teams in a classic game, for the next deal
+  eliminatedTeams: PlayingTeam[]; // Teams knocked out by a trap in a 3+ team game
+  clues: ClueRecord[]; // Every clue this game, oldest first
+  wordPacks: WordPackSelection; // Selected word packs and weights for this game
+  customWords: string[]; // Owner's word list, used when the "custom" pack is selected
+  boardLayout: BoardLayout; // Layout for the next deal (the current board keeps its own size)
+  seed: string | null; // Board seed, published once the game is over
+  nextSeed: string | null; // Owner-chosen seed for the next game (random when null)
+  locked: boolean; // No new players may join
+  hasPassword: boolean; // New players need the room password
+  mutedIds: string[]; // Players the owner has muted
+  rules: RoomRules;
+  currentClue: CurrentClue | null;
   remainingGuesses: number | null;
-  turnStartTime: number | null;
-  turnDuration: number; // in seconds
+  turnStartTime: number | null; // Start of the current phase (the clue restarts it)
+  turnDuration: number; // Guess phase, in seconds
+  clueDuration: number; // Clue phase, in seconds
+  timeBank: number; // Seconds each team starts the game with in its bank (0: no bank)
+  timeBanks: TimeBanks;
   gameStarted: boolean;
   gameOver: boolean;
   winner: Team | null;
   paused: boolean;
   pauseReason: PauseReason;
   pausedForTeam: Team | null;
+  events: GameEvent[]; // Oldest first
+  series: SeriesGame[]; // Finished games since the series was last reset, oldest first
+}
+
+/** A player's part in one game of a series */
+export interface SeriesPlayerResult {
+  name: string;
+  team: PlayingTeam;
+  role: Role;
+  correctGuesses: number;
+  clueCardsGained: number;
+}
+
+/** A finished game as stored in Firebase under rooms/{roomCode}/series */
+export interface FirebaseSeriesGame {
+  winner: PlayingTeam | null; // null in Duet
+  reason: SeriesEndReason;
+  gameMode: GameMode;
+  endedAt: number;
+  players: Record<string, SeriesPlayerResult>;
+}
+
+export interface SeriesGame extends FirebaseSeriesGame {
+  id: string;
+}
+
+export type GameEventType = "start" | "clue" | "vote" | "reveal" | "challenge" | "endTurn" | "pause" | "resume" | "gameOver";
+
+/** How an explicit endTurn happened: a guesser passed, or the timer ran out */
+export type EndTurnReason = "pass" | "timeout";
+
+export interface GameEvent {
+  id: string;
+  type: GameEventType;
+  timestamp: number;
+  team: Team; // Team whose turn it was (the paused/resumed team for pause/resume)
+  playerId?: string;
+  word?: string; // clue
+  count?: number; // clue
+  clueId?: number; // clue, challenge; reveal: the clue that was active
+  cardIndex?: number; // vote, reveal
+  voted?: boolean; // vote: true when cast, false when withdrawn
+  voided?: boolean; // challenge: true when it ended the turn
+  cardTeam?: Team; // reveal
+  reason?: Exclude<PauseReason, null> | EndTurnReason; // pause, endTurn
+  winner?: Team; // gameOver
+  result?: DuetResult; // gameOver (Duet)
 }
 
 export interface ChatMessage {
@@ -53,9 +200,10 @@ export interface ChatMessage {
   message: string;
   timestamp: number;
   type: "clue" | "chat" | "system";
+  clueId?: number; // clue messages: the clue they announce
 }
 
-export type RoomClosedReason = "abandoned" | "allPlayersLeft" | "timeout";
+export type RoomClosedReason = "abandoned" | "allPlayersLeft" | "timeout" | "kicked" | "banned";
 
 // ============================================================================
 // Firebase Data Structures (matches RTDB schema exactly)
@@ -64,13 +212,17 @@ export type RoomClosedReason = "abandoned" | "allPlayersLeft" | "timeout";
 /**
  * Board card as stored in Firebase.
  * Note: votes use Record<string, boolean> for RTDB efficiency (vs array).
+ * Note: team is only written once the card is revealed - the full key lives
+ * under roomKeys/{roomCode} (see FirebaseRoomKey).
  */
 export interface FirebaseBoardCard {
   word: string;
-  team: Team;
+  team?: Team | null;
   revealed: boolean;
   revealedBy: string | null;
   votes: Record<string, boolean>;
+  neutralFor?: DuetSide | null;
+  clueId?: number | null;
 }
 
 /**
@@ -84,6 +236,7 @@ export interface FirebasePlayerData {
   role: Role | null;
   connected: boolean;
   lastSeen: number;
+  spectating?: boolean; // Joined through a ?spectate=1 link: watches only, never on a team
 }
 
 /**
@@ -96,6 +249,28 @@ export interface FirebaseMessageData {
   message: string;
   timestamp: number;
   type: "clue" | "chat" | "system";
+  clueId?: number; // clue messages: the clue they announce
+}
+
+/**
+ * Game event as stored in Firebase under rooms/{roomCode}/events.
+ * Append-only; push ids keep events in order. Optional fields depend on type.
+ */
+export interface FirebaseGameEvent {
+  type: GameEventType;
+  timestamp: number;
+  team: Team;
+  playerId?: string | null;
+  word?: string;
+  count?: number;
+  clueId?: number;
+  cardIndex?: number;
+  voted?: boolean;
+  voided?: boolean;
+  cardTeam?: Team;
+  reason?: Exclude<PauseReason, null> | EndTurnReason;
+  winner?: Team;
+  result?: DuetResult;
 }
 
 /**
@@ -105,11 +280,31 @@ export interface FirebaseRoomData {
   ownerId: string;
   currentTeam: Team;
   startingTeam: Team;
-  wordPack: WordPack;
-  currentClue: { word: string; count: number } | null;
+  gameMode?: GameMode; // Missing on rooms from before Duet - classic
+  duetTurnsLeft?: number | null;
+  duetResult?: DuetResult | null;
+  teamCount?: TeamCount; // Missing on rooms from before 3-team games - 2
+  eliminatedTeams?: PlayingTeam[] | null;
+  clues?: ClueRecord[] | null;
+  wordPacks?: WordPackSelection;
+  wordPack?: WordPack; // Legacy single selection, read when wordPacks is missing
+  customWords?: string[] | null;
+  boardLayout?: BoardLayout;
+  seed?: string | null;
+  nextSeed?: string | null;
+  locked?: boolean;
+  hasPassword?: boolean; // The hash itself lives in roomPasswords/{roomCode}
+  kicks?: Record<string, number>; // Player ID -> when the owner kicked them
+  bans?: Record<string, true>;
+  muted?: Record<string, true>;
+  rules?: Partial<RoomRules>; // Missing fields take DEFAULT_ROOM_RULES
+  currentClue: CurrentClue | null;
   remainingGuesses: number | null;
   turnStartTime: number | null;
   turnDuration: number;
+  clueDuration?: number; // Missing on rooms from before separate clocks - same as turnDuration
+  timeBank?: number;
+  timeBanks?: TimeBanks | null;
   gameStarted: boolean;
   gameOver: boolean;
   winner: Team | null;
@@ -118,6 +313,178 @@ export interface FirebaseRoomData {
   pausedForTeam: Team | null;
   createdAt: number;
   board: FirebaseBoardCard[];
+  cardCounts?: Record<Team, number>;
   players?: Record<string, FirebasePlayerData>;
   messages?: Record<string, FirebaseMessageData>;
+  events?: Record<string, FirebaseGameEvent>;
+  series?: Record<string, FirebaseSeriesGame>;
+}
+
+/**
+ * Lifetime stats as stored in Firebase under profiles/{uid}.
+ * Stats are added by the functions when a game ends; the player may only
+ * change their name and avatar.
+ */
+export interface FirebaseProfileData {
+  name?: string;
+  avatar?: string;
+  gamesPlayed: number;
+  wins: number;
+  roleGames: Record<Role, number>; // Games by the role played (Duet seats count as clue givers)
+  roleWins: Record<Role, number>;
+  correctGuesses: number;
+  wrongGuesses: number; // Other teams' cards and neutrals
+  trapHits: number;
+  cluesGiven: number;
+  clueCardsGained: number; // Own-team cards revealed under the player's clues
+  updatedAt?: number;
+}
+
+/**
+ * Secret card ownership as stored in Firebase under roomKeys/{roomCode}.
+ * Indexed like the board. Readable only by clue givers (and the owner after
+ * game over); a single entry becomes readable once its card is revealed.
+ */
+export type FirebaseRoomKey = Team[];
+
+/**
+ * Duet keys as stored in Firebase under roomDuetKeys/{roomCode}/{side}.
+ * Each side's key marks its agents with the side's color; a player can only
+ * read their own side.
+ */
+export type FirebaseDuetKeys = Record<DuetSide, FirebaseRoomKey>;
+
+// ============================================================================
+// Callable Function Payloads (client -> functions/)
+// ============================================================================
+
+/**
+ * Request payloads for the game engine's callable functions.
+ * The caller's identity comes from Firebase Auth, never from the payload.
+ */
+export interface GameFunctionPayloads {
+  startGame: { roomCode: string };
+  rematch: { roomCode: string };
+  endGame: { roomCode: string };
+  resumeGame: { roomCode: string };
+  takeSeat: { roomCode: string; team: PlayingTeam; role: "clueGiver" | "guesser"; playerId?: string }; // playerId: owner seating someone else
+  giveClue: { roomCode: string; word: string; count: number };
+  confirmReveal: { roomCode: string; cardIndex: number };
+  challengeClue: { roomCode: string };
+  endTurn: { roomCode: string; turnStartTime?: number | null }; // The turn the caller means to end
+}
+
+export type GameFunctionName = keyof GameFunctionPayloads;
+
+// ============================================================================
+// Game Engine (shared/game-reducer.ts)
+// ============================================================================
+
+/**
+ * The slice of a room the turn rules read and write.
+ * Uses the Firebase shapes so adapters can go straight to and from RTDB.
+ */
+export interface GameEngineState {
+  ownerId: string;
+  gameMode: GameMode;
+  gameStarted: boolean;
+  gameOver: boolean;
+  winner: Team | null;
+  currentTeam: Team;
+  currentClue: CurrentClue | null;
+  remainingGuesses: number | null;
+  turnStartTime: number | null;
+  turnDuration: number; // Guess phase, in seconds
+  clueDuration: number; // Clue phase, in seconds
+  timeBanks: TimeBanks;
+  paused: boolean;
+  pauseReason: PauseReason;
+  pausedForTeam: Team | null;
+  duetTurnsLeft: number | null;
+  duetResult: DuetResult | null;
+  teams: PlayingTeam[]; // Teams in this game, in turn order
+  eliminatedTeams: PlayingTeam[];
+  clues: ClueRecord[];
+  rules: RoomRules;
+  board: FirebaseBoardCard[];
+  cardCounts: Record<Team, number>;
+  players: Record<string, FirebasePlayerData>;
+}
+
+/** Clue giver on the active team gives a clue. */
+export interface GiveClueAction {
+  type: "giveClue";
+  playerId: string;
+  word: string;
+  count: number;
+  now: number;
+}
+
+/** Guesser on the active team toggles their vote on a card. */
+export interface VoteAction {
+  type: "vote";
+  playerId: string;
+  cardIndex: number;
+}
+
+/**
+ * Guesser confirms a card with enough votes.
+ * cardTeam comes from the key, which isn't part of the engine state.
+ */
+export interface RevealAction {
+  type: "reveal";
+  playerId: string;
+  cardIndex: number;
+  cardTeam: Team;
+  now: number;
+}
+
+/** Opposing clue giver challenges the clue just given, within the challenge window. */
+export interface ChallengeClueAction {
+  type: "challengeClue";
+  playerId: string;
+  now: number;
 }
+
+/**
+ * Active guesser passes, or anyone ends a turn whose timer ran out.
+ * In Duet the clue giver may also pass before giving a clue.
+ */
+export interface EndTurnAction {
+  type: "endTurn";
+  playerId: string;
+  now: number;
+}
+
+/**
+ * The turn's clock has run out, bank included. Applied by the server's
+ * turn scheduler, so no player is involved.
+ */
+export interface TimeoutAction {
+  type: "timeout";
+  now: number;
+}
+
+/** Pause because a team can't play (applied by turn transitions). */
+export interface PauseAction {
+  type: "pause";
+  team: Team;
+  reason: Exclude<PauseReason, null>;
+}
+
+/** Owner resumes once the paused team has a clue giver and a guesser. */
+export interface ResumeAction {
+  type: "resume";
+  playerId: string;
+  now: number;
+}
+
+export type GameAction =
+  | GiveClueAction
+  | VoteAction
+  | RevealAction
+  | ChallengeClueAction
+  | EndTurnAction
+  | TimeoutAction
+  | PauseAction
+  | ResumeAction;
@@ -7,6 +7,11 @@ import {
   MAX_PLAYER_NAME_LENGTH,
   MAX_CLUE_LENGTH,
   MAX_CHAT_MESSAGE_LENGTH,
+  MIN_CUSTOM_WORDS,
+  MAX_CUSTOM_WORDS,
+  MAX_CUSTOM_WORD_LENGTH,
+  MIN_ROOM_PASSWORD_LENGTH,
+  MAX_ROOM_PASSWORD_LENGTH,
 } from "./constants";
 import { containsProfanity, censorProfanity } from "./profanity";
 
@@ -72,6 +77,19 @@ export function validatePlayerName(name: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Validate a room password. Surrounding spaces count, so nothing is trimmed.
+ */
+export function validateRoomPassword(password: string): ValidationResult {
+  if (password.length < MIN_ROOM_PASSWORD_LENGTH) {
+    return { valid: false, error: `Password must be at least ${MIN_ROOM_PASSWORD_LENGTH} characters` };
+  }
+  if (password.length > MAX_ROOM_PASSWORD_LENGTH) {
+    return { valid: false, error: `Password must be ${MAX_ROOM_PASSWORD_LENGTH} characters or less` };
+  }
+  return { valid: true };
+}
+
 /**
  * Validate clue word with detailed error messages.
  * Checks: non-empty, single word, length limit, profanity.
@@ -116,3 +134,50 @@ export function isValidChatMessage(message: string): boolean {
   const trimmed = message.trim();
   return trimmed.length > 0 && trimmed.length <= MAX_CHAT_MESSAGE_LENGTH;
 }
+
+/**
+ * Result of checking a custom word list.
+ * Problem entries are dropped from `words` and listed so the UI can explain why.
+ */
+export interface WordListResult extends ValidationResult {
+  words: string[]; // Accepted words: uppercase, deduplicated, in input order
+  duplicates: string[];
+  tooLong: string[];
+  blocked: string[]; // Rejected by the profanity filter
+}
+
+/**
+ * Validate a custom word list.
+ * Checks: duplicates (case-insensitive), word length, profanity, and that
+ * enough words remain for a board (and not more than we store).
+ */
+export function validateWordList(entries: string[]): WordListResult {
+  const result: WordListResult = { valid: false, words: [], duplicates: [], tooLong: [], blocked: [] };
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const word = entry.trim().replace(/\s+/g, " ").toUpperCase();
+    if (!word) continue;
+    if (seen.has(word)) {
+      result.duplicates.push(word);
+      continue;
+    }
+    seen.add(word);
+    if (word.length > MAX_CUSTOM_WORD_LENGTH) {
+      result.tooLong.push(word);
+    } else if (containsProfanity(word)) {
+      result.blocked.push(word);
+    } else {
+      result.words.push(word);
+    }
+  }
+
+  if (result.words.length < MIN_CUSTOM_WORDS) {
+    result.error = `Need at least ${MIN_CUSTOM_WORDS} words (have ${result.words.length})`;
+  } else if (result.words.length > MAX_CUSTOM_WORDS) {
+    result.error = `Word list is limited to ${MAX_CUSTOM_WORDS} words`;
+  } else {
+    result.valid = true;
+  }
+  return result;
+}
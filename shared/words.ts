@@ -1,8 +1,22 @@
 // Word lists for Clue Cards game
 
 import { shuffle } from "./game-utils";
+import { createRandom, type Random } from "./random";
+import { DEFAULT_BOARD_LAYOUT, boardCardCount, layoutCardCounts } from "./board-layout";
+import { playOrder, teamsFor } from "./teams";
+import { DEFAULT_TEAM_COUNT } from "./constants";
+import type { BoardLayout, PlayingTeam, Team, WordPack, WordPackSelection } from "./types";
 
-export type WordPack = "classic" | "kahoot";
+export type { WordPack, WordPackSelection };
+
+/** A list of words and its relative share of the board when mixing packs */
+export interface WeightedWords {
+  words: string[];
+  weight: number;
+}
+
+/** A built-in pack, an explicit word list (e.g. the room's custom words), or a weighted mix */
+export type WordSource = WordPack | string[] | WeightedWords[];
 
 // Classic party game words
 export const CLASSIC_WORDS = [
@@ -69,43 +83,183 @@ export const KAHOOT_WORDS = [
 // Keep WORD_LIST as alias for backward compatibility
 export const WORD_LIST = CLASSIC_WORDS;
 
-// Get the word list for a given pack
+// ============================================================================
+// Word Pack Registry
+// ============================================================================
+
+export interface WordPackInfo {
+  id: WordPack;
+  name: string;
+  description: string;
+  language: string; // BCP 47 code
+  difficulty: "easy" | "medium" | "hard";
+  tags: string[];
+  words: string[]; // Empty for "custom" - those words live on the room
+}
+
+/** Every selectable pack, in lobby display order */
+export const WORD_PACK_REGISTRY: Record<WordPack, WordPackInfo> = {
+  classic: {
+    id: "classic",
+    name: "Classic",
+    description: "The standard party game mix of everyday nouns, places and people.",
+    language: "en",
+    difficulty: "medium",
+    tags: ["general"],
+    words: CLASSIC_WORDS,
+  },
+  kahoot: {
+    id: "kahoot",
+    name: "Kahoot!",
+    description: "Quiz, classroom and game-show words for team building.",
+    language: "en",
+    difficulty: "easy",
+    tags: ["education", "games", "team building"],
+    words: KAHOOT_WORDS,
+  },
+  custom: {
+    id: "custom",
+    name: "Custom",
+    description: "The room owner's own word list.",
+    language: "en",
+    difficulty: "medium",
+    tags: ["custom"],
+    words: [],
+  },
+};
+
+export function isWordPack(id: string): id is WordPack {
+  return Object.prototype.hasOwnProperty.call(WORD_PACK_REGISTRY, id);
+}
+
+// Get the word list for a given pack (custom words live on the room)
 export function getWordList(pack: WordPack = "classic"): string[] {
-  switch (pack) {
-    case "kahoot":
-      return KAHOOT_WORDS;
-    case "classic":
-    default:
-      return CLASSIC_WORDS;
+  return (WORD_PACK_REGISTRY[pack] ?? WORD_PACK_REGISTRY.classic).words;
+}
+
+// ============================================================================
+// Board Generation
+// ============================================================================
+
+export function generateBoard(
+  source: WordSource = "classic",
+  random: Random = Math.random,
+  count: number = boardCardCount(DEFAULT_BOARD_LAYOUT)
+): string[] {
+  if (isWordMix(source)) return mixWords(source, count, random);
+  const wordList = Array.isArray(source) ? source : getWordList(source);
+  const shuffled = shuffle(wordList, random);
+  return shuffled.slice(0, count);
+}
+
+function isWordMix(source: WordSource): source is WeightedWords[] {
+  return Array.isArray(source) && source.some((entry) => typeof entry !== "string");
+}
+
+/**
+ * Draw unique words from several lists. Each draw picks a list with
+ * probability proportional to its weight, so a 2x pack fills about twice
+ * as many cards. Lists that run out drop out of the draw.
+ */
+export function mixWords(mix: WeightedWords[], count: number, random: Random = Math.random): string[] {
+  const pools = mix
+    .filter((entry) => entry.weight > 0)
+    .map((entry) => ({ weight: entry.weight, words: shuffle(entry.words, random) }));
+  const used = new Set<string>();
+  const result: string[] = [];
+
+  while (result.length < count) {
+    const available = pools.filter((pool) => pool.words.length > 0);
+    if (available.length === 0) break;
+
+    let pick = random() * available.reduce((sum, pool) => sum + pool.weight, 0);
+    const pool = available.find((p) => (pick -= p.weight) < 0) ?? available[available.length - 1];
+    const word = pool.words.pop() as string;
+    if (!used.has(word)) {
+      used.add(word);
+      result.push(word);
+    }
   }
+  return result;
+}
+
+/**
+ * Build the weighted mix for a room's pack selection.
+ * Custom words are passed in by the caller, already validated.
+ */
+export function toWordMix(selection: WordPackSelection, customWords: string[] = []): WeightedWords[] {
+  return (Object.keys(selection) as WordPack[])
+    .filter(isWordPack)
+    .map((id) => ({
+      words: id === "custom" ? customWords : getWordList(id),
+      weight: selection[id] ?? 1,
+    }));
+}
+
+/** A room's pack selection, falling back to the legacy single `wordPack` field */
+export function selectedWordPacks(room: { wordPacks?: WordPackSelection; wordPack?: WordPack }): WordPackSelection {
+  if (room.wordPacks && Object.keys(room.wordPacks).length > 0) return room.wordPacks;
+  return { [room.wordPack || "classic"]: 1 };
 }
 
-export function generateBoard(pack: WordPack = "classic"): string[] {
-  const wordList = getWordList(pack);
-  const shuffled = shuffle(wordList);
-  return shuffled.slice(0, 25);
+/** Number of distinct words a mix can deal */
+export function countMixWords(mix: WeightedWords[]): number {
+  return new Set(mix.filter((entry) => entry.weight > 0).flatMap((entry) => entry.words)).size;
 }
 
 export function assignTeams(
   board: string[],
-  startingTeam: "red" | "blue"
-): { word: string; team: "red" | "blue" | "neutral" | "trap" }[] {
-  const startingCount = 9;
-  const otherCount = 8;
-  const neutralCount = 7;
-  const otherTeam = startingTeam === "red" ? "blue" : "red";
-
-  const teams: ("red" | "blue" | "neutral" | "trap")[] = [
-    ...Array(startingCount).fill(startingTeam),
-    ...Array(otherCount).fill(otherTeam),
-    ...Array(neutralCount).fill("neutral"),
-    "trap",
+  startingTeam: PlayingTeam,
+  random: Random = Math.random,
+  layout: BoardLayout = DEFAULT_BOARD_LAYOUT,
+  playingTeams: PlayingTeam[] = teamsFor(DEFAULT_TEAM_COUNT)
+): { word: string; team: Team }[] {
+  const counts = layoutCardCounts(layout, startingTeam, playingTeams);
+
+  // Fill in turn order so seeds from before 3-team games deal the same key
+  const teams: Team[] = [
+    ...playOrder(startingTeam, playingTeams).flatMap((team) => Array<Team>(counts[team]).fill(team)),
+    ...Array<Team>(counts.neutral).fill("neutral"),
+    ...Array<Team>(counts.trap).fill("trap"),
   ];
   
-  const shuffledTeams = shuffle(teams);
+  const shuffledTeams = shuffle(teams, random);
   
   return board.map((word, index) => ({
     word,
     team: shuffledTeams[index],
   }));
 }
+
+// ============================================================================
+// Seeded Deal & Parsing
+// ============================================================================
+
+/**
+ * Deal a complete board from a seed: starting team, words and key.
+ * Draw order is fixed (team, then words, then key) so a seed always
+ * reproduces the same game for the same word source (packs, weights and
+ * custom list), layout and team count.
+ */
+export function dealSeededBoard(
+  seed: string,
+  source: WordSource = "classic",
+  layout: BoardLayout = DEFAULT_BOARD_LAYOUT,
+  teams: PlayingTeam[] = teamsFor(DEFAULT_TEAM_COUNT)
+): { startingTeam: PlayingTeam; cards: { word: string; team: Team }[] } {
+  const random = createRandom(seed);
+  const startingTeam = teams[Math.floor(random() * teams.length)];
+  const cards = assignTeams(generateBoard(source, random, boardCardCount(layout)), startingTeam, random, layout, teams);
+  return { startingTeam, cards };
+}
+
+/**
+ * Split a pasted or uploaded word list into raw entries.
+ * Accepts one word per line or CSV (comma, semicolon or tab separated, optionally quoted).
+ */
+export function parseWordList(text: string): string[] {
+  return text
+    .split(/[\r\n,;\t]+/)
+    .map((entry) => entry.trim().replace(/^"(.*)"$/, "$1").trim())
+    .filter((entry) => entry.length > 0);
+}
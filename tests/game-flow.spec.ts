@@ -193,7 +193,7 @@ test.describe('Full Game Flow', () => {
     await clueInput.fill('TESTING');
     
     const clueCountInput = clueGiverPage.getByTestId('game-clue-count');
-    await clueCountInput.fill('2');
+    await clueCountInput.selectOption('2');
     
     await clueGiverPage.getByTestId('game-clue-btn').click();
 
@@ -328,7 +328,7 @@ test.describe('Full Game Flow', () => {
     const firstClueInput = firstClueGiver.getByTestId('game-clue-input');
     await expect(firstClueInput).toBeVisible({ timeout: 5000 });
     await firstClueInput.fill('RANDOM');
-    await firstClueGiver.getByTestId('game-clue-count').fill('1');
+    await firstClueGiver.getByTestId('game-clue-count').selectOption('1');
     await firstClueGiver.getByTestId('game-clue-btn').click();
 
     // Wait for clue to be submitted (input disappears)
@@ -349,7 +349,7 @@ test.describe('Full Game Flow', () => {
     console.log(`Turn 2: ${secondTeam} team's turn - going for the win!`);
     
     await secondClueInput.fill('WINNING');
-    await secondClueGiver.getByTestId('game-clue-count').fill(String(winningTeamCards.length));
+    await secondClueGiver.getByTestId('game-clue-count').selectOption(String(winningTeamCards.length));
     await secondClueGiver.getByTestId('game-clue-btn').click();
 
     // Wait for clue to be submitted
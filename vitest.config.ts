@@ -1,6 +1,10 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // Same as the "@/*" path in tsconfig.json
+    alias: { '@': new URL('./', import.meta.url).pathname },
+  },
   test: {
     globals: true,
     environment: 'node',